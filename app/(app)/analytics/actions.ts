@@ -1,6 +1,8 @@
 "use server";
 
 import { createClient } from "@/lib/supabase/server";
+import { computeJobMargin } from "@/lib/stock-costing";
+import { findLeadsForJobRefs, isUuid } from "@/lib/job-leads";
 
 export type FunnelData = {
   status: string;
@@ -30,6 +32,18 @@ export type StockAlertData = {
   supplier: string | null;
 };
 
+export type JobMarginData = {
+  jobId: string;
+  leadCode: string | null;
+  customerName: string;
+  deductedAt: string;
+  cogs: number;
+  revenue: number | null;
+  margin: number | null;
+  marginPct: number | null;
+  hasEstimatedCosts: boolean;
+};
+
 export async function getFunnelData(): Promise<FunnelData[]> {
   const supabase = await createClient();
   
@@ -155,3 +169,61 @@ export async function getStockAlerts(): Promise<StockAlertData[]> {
 
   return alerts;
 }
+
+export async function getJobMarginData(): Promise<JobMarginData[]> {
+  const supabase = await createClient();
+
+  const { data: cogsRows, error } = await supabase
+    .from("job_cogs")
+    .select("job_id, deducted_at, cogs, has_estimated_costs")
+    .order("deducted_at", { ascending: false })
+    .limit(25);
+
+  if (error) {
+    console.error("Error fetching job COGS:", error);
+    return [];
+  }
+
+  const rows = (cogsRows || []) as Array<{ job_id: string | null; deducted_at: string; cogs: number; has_estimated_costs: boolean }>;
+  const jobIds = Array.from(new Set(rows.map((r) => r.job_id).filter((id): id is string => !!id && isUuid(id))));
+  if (jobIds.length === 0) return [];
+
+  const { data: jobs } = await supabase.from("jobs").select("id, lead_id").in("id", jobIds);
+  const jobLeadRefs = new Map(((jobs || []) as Array<{ id: string; lead_id: string }>).map((j) => [j.id, j.lead_id]));
+
+  const leadsByRef = await findLeadsForJobRefs<{
+    id: string;
+    lead_id: string | null;
+    customer_name: string | null;
+    name: string | null;
+    organization: string | null;
+    current_quote_id: string | null;
+  }>(supabase, Array.from(jobLeadRefs.values()), "id, lead_id, customer_name, name, organization, current_quote_id");
+
+  const quoteIds = Array.from(new Set(Array.from(leadsByRef.values()).map((l) => l.current_quote_id).filter((id): id is string => !!id)));
+  const { data: quotes } = quoteIds.length
+    ? await supabase.from("quotes").select("id, subtotal, discount_total").in("id", quoteIds)
+    : { data: [] };
+  const quotesById = new Map(
+    ((quotes || []) as Array<{ id: string; subtotal: number; discount_total: number }>).map((q) => [q.id, q])
+  );
+
+  return rows
+    .filter((r) => r.job_id && jobLeadRefs.has(r.job_id))
+    .map((r) => {
+      const lead = leadsByRef.get(jobLeadRefs.get(r.job_id as string) as string) ?? null;
+      const cogs = Number(r.cogs ?? 0);
+      const margin = computeJobMargin(lead?.current_quote_id ? quotesById.get(lead.current_quote_id) : null, cogs);
+      return {
+        jobId: r.job_id as string,
+        leadCode: lead?.lead_id ?? null,
+        customerName: lead?.organization || lead?.customer_name || lead?.name || "Unknown",
+        deductedAt: r.deducted_at,
+        cogs,
+        revenue: margin?.revenue ?? null,
+        margin: margin?.margin ?? null,
+        marginPct: margin?.margin_pct ?? null,
+        hasEstimatedCosts: !!r.has_estimated_costs,
+      };
+    });
+}
@@ -0,0 +1,70 @@
+"use client";
+
+import Link from "next/link";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { JobMarginData } from "../actions";
+import { formatMoney } from "@/lib/quotes";
+import { TrendingUp } from "lucide-react";
+
+interface JobMarginsProps {
+  data: JobMarginData[];
+}
+
+export function JobMargins({ data }: JobMarginsProps) {
+  const withRevenue = data.filter((item) => item.revenue !== null);
+  const totalRevenue = withRevenue.reduce((acc, item) => acc + (item.revenue ?? 0), 0);
+  const totalCogs = withRevenue.reduce((acc, item) => acc + item.cogs, 0);
+  const blendedPct = totalRevenue > 0 ? Math.round(((totalRevenue - totalCogs) / totalRevenue) * 1000) / 10 : null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <TrendingUp className="h-5 w-5 text-muted-foreground" />
+          <CardTitle>Job Margins</CardTitle>
+        </div>
+        <CardDescription>
+          Material cost vs. quote revenue (excl. VAT) for recent jobs
+          {blendedPct !== null ? ` · blended ${blendedPct}%` : ""}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          {data.map((item) => (
+            <div key={`${item.jobId}:${item.deductedAt}`} className="flex items-center justify-between border-b pb-2 last:border-0 last:pb-0">
+              <div>
+                <Link href={`/jobs/${item.jobId}/stock-report`} className="font-medium text-sm hover:underline">
+                  {item.leadCode ? `${item.leadCode} · ` : ""}
+                  {item.customerName}
+                </Link>
+                <p className="text-xs text-muted-foreground">
+                  COGS {formatMoney(item.cogs)}
+                  {item.hasEstimatedCosts ? " (estimated)" : ""}
+                  {item.revenue !== null ? ` · Revenue ${formatMoney(item.revenue)}` : ""}
+                </p>
+              </div>
+              <div className="text-right">
+                {item.margin === null ? (
+                  <p className="text-xs text-muted-foreground">No quote</p>
+                ) : (
+                  <>
+                    <p className={`text-sm font-bold ${item.margin < 0 ? "text-red-600" : "text-green-600"}`}>
+                      {formatMoney(item.margin)}
+                    </p>
+                    <p className="text-xs text-muted-foreground">{item.marginPct !== null ? `${item.marginPct}%` : "—"}</p>
+                  </>
+                )}
+              </div>
+            </div>
+          ))}
+
+          {data.length === 0 && (
+            <div className="text-center py-4 text-muted-foreground text-sm">
+              No production deductions recorded yet
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,11 +1,12 @@
 import { createClient } from "@/lib/supabase/server";
 import { redirect } from "next/navigation";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { getFunnelData, getRepPerformanceData, getProductionPipelineData, getStockAlerts } from "./actions";
+import { getFunnelData, getRepPerformanceData, getProductionPipelineData, getStockAlerts, getJobMarginData } from "./actions";
 import { LeadsFunnel } from "./components/leads-funnel";
 import { RepPerformance } from "./components/rep-performance";
 import { ProductionPipeline } from "./components/production-pipeline";
 import { StockAlerts } from "./components/stock-alerts";
+import { JobMargins } from "./components/job-margins";
 import { Metadata } from "next";
 import { PageHeader } from "@/components/page-header";
 
@@ -38,11 +39,12 @@ export default async function AnalyticsPage() {
   }
 
   // Fetch data in parallel
-  const [funnelData, repData, pipelineData, stockAlerts] = await Promise.all([
+  const [funnelData, repData, pipelineData, stockAlerts, jobMargins] = await Promise.all([
     getFunnelData(),
     getRepPerformanceData(),
     getProductionPipelineData(),
     getStockAlerts(),
+    getJobMarginData(),
   ]);
 
   return (
@@ -79,8 +81,8 @@ export default async function AnalyticsPage() {
 
         <TabsContent value="stock" className="space-y-4">
           <div className="grid gap-4 md:grid-cols-2">
-            {/* Can add stock movements chart later */}
-            {/* Can add stock movements chart later */}
+            <StockAlerts data={stockAlerts} />
+            <JobMargins data={jobMargins} />
           </div>
         </TabsContent>
       </Tabs>
@@ -7,6 +7,10 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { AlertTriangle, TrendingUp, UserPlus, Users } from 'lucide-react';
 import { getViewer } from '@/lib/viewer';
 import type { SupabaseClient } from '@supabase/supabase-js';
+import { LEAD_SLA_MILESTONES, LEAD_SLA_MILESTONE_LABELS, type LeadSlaMilestone } from '@/types/leads';
+import { TasksPanel } from '@/components/tasks-panel';
+import { endOfLocalDay, getTeamHours } from '@/lib/availability';
+import { getTasks } from '@/lib/tasks';
 
 type ServerSupabase = SupabaseClient;
 
@@ -21,10 +25,8 @@ async function getRepLeadsCount(supabase: ServerSupabase, userId: string): Promi
 async function getStats(supabase: ServerSupabase) {
   const sevenDaysAgo = new Date();
   sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
-  const fortyEightHoursAgo = new Date();
-  fortyEightHoursAgo.setHours(fortyEightHoursAgo.getHours() - 48);
 
-  const [total, last7, unassigned, stale] = await Promise.all([
+  const [total, last7, unassigned, breached] = await Promise.all([
     supabase.from('leads').select('id', { count: 'estimated', head: true }),
     supabase
       .from('leads')
@@ -35,17 +37,16 @@ async function getStats(supabase: ServerSupabase) {
       .select('id', { count: 'estimated', head: true })
       .is('assigned_rep_id', null),
     supabase
-      .from('leads')
-      .select('id', { count: 'estimated', head: true })
-      .lt('updated_at', fortyEightHoursAgo.toISOString())
-      .neq('status', 'Quote Approved'),
+      .from('lead_sla_breaches')
+      .select('id', { count: 'exact', head: true })
+      .is('resolved_at', null),
   ]);
 
   return {
     totalLeads: total.count || 0,
     leadsLast7Days: last7.count || 0,
     unassignedLeads: unassigned.count || 0,
-    staleLeads: stale.count || 0,
+    slaBreaches: breached.count || 0,
   };
 }
 
@@ -102,7 +103,7 @@ async function getRepWorkload(supabase: ServerSupabase): Promise<RepWorkload[]>
 
 async function StatsCards() {
   const { supabase } = await getViewer();
-  const { totalLeads, leadsLast7Days, unassignedLeads, staleLeads } = await getStats(supabase);
+  const { totalLeads, leadsLast7Days, unassignedLeads, slaBreaches } = await getStats(supabase);
 
   return (
     <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
@@ -138,12 +139,12 @@ async function StatsCards() {
       </Card>
       <Card>
         <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-          <CardTitle className="text-sm font-medium">Stale Leads</CardTitle>
+          <CardTitle className="text-sm font-medium">SLA Breaches</CardTitle>
           <AlertTriangle className="h-4 w-4 text-muted-foreground" />
         </CardHeader>
         <CardContent>
-          <div className="text-3xl font-semibold tracking-tight text-destructive">{staleLeads}</div>
-          <p className="text-xs text-muted-foreground">No update in 48h+</p>
+          <div className="text-3xl font-semibold tracking-tight text-destructive">{slaBreaches}</div>
+          <p className="text-xs text-muted-foreground">Open, past their SLA</p>
         </CardContent>
       </Card>
     </div>
@@ -225,6 +226,136 @@ async function RepWorkloadCard() {
   );
 }
 
+interface SlaBreachSummary {
+  milestone: LeadSlaMilestone;
+  total: number;
+  escalated: number;
+  open: number;
+  avg_hours_to_resolve: number | null;
+}
+
+async function getSlaBreachReport(supabase: ServerSupabase): Promise<{
+  byMilestone: SlaBreachSummary[];
+  byRep: Array<{ rep_id: string | null; rep_name: string | null; total: number }>;
+}> {
+  const thirtyDaysAgo = new Date();
+  thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
+  const [{ data: breaches }, { data: profiles }] = await Promise.all([
+    supabase
+      .from('lead_sla_breaches')
+      .select('milestone, assigned_rep_id, breached_at, escalated_at, resolved_at')
+      .gte('breached_at', thirtyDaysAgo.toISOString())
+      .limit(5000),
+    supabase.from('profiles').select('user_id, full_name'),
+  ]);
+
+  const rows = breaches || [];
+  const byMilestone = LEAD_SLA_MILESTONES.map((milestone) => {
+    const forMilestone = rows.filter((row) => row.milestone === milestone);
+    const resolved = forMilestone.filter((row) => row.resolved_at);
+    const totalHours = resolved.reduce(
+      (sum, row) => sum + (Date.parse(row.resolved_at as string) - Date.parse(row.breached_at)) / 3_600_000,
+      0
+    );
+    return {
+      milestone,
+      total: forMilestone.length,
+      escalated: forMilestone.filter((row) => row.escalated_at).length,
+      open: forMilestone.length - resolved.length,
+      avg_hours_to_resolve: resolved.length > 0 ? totalHours / resolved.length : null,
+    };
+  });
+
+  const repCounts = new Map<string | null, number>();
+  for (const row of rows) {
+    const repId = (row.assigned_rep_id as string | null) ?? null;
+    repCounts.set(repId, (repCounts.get(repId) || 0) + 1);
+  }
+  const byRep = Array.from(repCounts.entries())
+    .map(([repId, total]) => ({
+      rep_id: repId,
+      rep_name: repId ? profiles?.find((p) => p.user_id === repId)?.full_name ?? null : null,
+      total,
+    }))
+    .sort((a, b) => b.total - a.total);
+
+  return { byMilestone, byRep };
+}
+
+async function SlaBreachesCard() {
+  const { supabase } = await getViewer();
+  const { byMilestone, byRep } = await getSlaBreachReport(supabase);
+  const total = byMilestone.reduce((sum, row) => sum + row.total, 0);
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>SLA Breaches (30 days)</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {total === 0 ? (
+          <p className="text-sm text-muted-foreground">No breaches in the last 30 days</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="divide-y">
+              {byMilestone.map((row) => (
+                <div key={row.milestone} className="flex items-center justify-between gap-3 py-3">
+                  <span className="text-sm font-medium">{LEAD_SLA_MILESTONE_LABELS[row.milestone]}</span>
+                  <span className="text-right text-sm tabular-nums text-muted-foreground">
+                    {row.total} breached · {row.escalated} escalated · {row.open} open
+                    {row.avg_hours_to_resolve !== null && ` · ${row.avg_hours_to_resolve.toFixed(1)}h to resolve`}
+                  </span>
+                </div>
+              ))}
+            </div>
+            <div className="divide-y border-t">
+              {byRep.map((row) => (
+                <div key={row.rep_id ?? 'unassigned'} className="flex items-center justify-between py-3">
+                  <span className="text-sm font-medium">
+                    {row.rep_id ? row.rep_name || row.rep_id.substring(0, 8) : 'Unassigned'}
+                  </span>
+                  <span className="text-sm tabular-nums text-muted-foreground">{row.total} breaches</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Overdue tasks stay here until they're done or snoozed past today
+async function MyTasksTodayCard() {
+  const { supabase, user, userRole } = await getViewer();
+  if (!user) return null;
+  const teamHours = await getTeamHours(supabase);
+  const tasks = await getTasks(supabase, {
+    assigneeUserId: user.id,
+    dueBefore: new Date(endOfLocalDay(teamHours.timezone)).toISOString(),
+  });
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle>My Tasks Today</CardTitle>
+        <Link href="/tasks" className="text-sm font-medium underline underline-offset-4">
+          All tasks
+        </Link>
+      </CardHeader>
+      <CardContent>
+        <TasksPanel
+          tasks={tasks}
+          staff={[]}
+          currentUserId={user.id}
+          isAdmin={userRole === 'ceo' || userRole === 'admin'}
+          showContext
+          allowCreate={false}
+          emptyText="Nothing due today."
+        />
+      </CardContent>
+    </Card>
+  );
+}
+
 function CardListSkeleton({ rows = 5 }: { rows?: number }) {
   return (
     <Card>
@@ -268,6 +399,9 @@ export default async function DashboardPage() {
             </Button>
           </CardContent>
         </Card>
+        <Suspense fallback={<CardListSkeleton rows={3} />}>
+          <MyTasksTodayCard />
+        </Suspense>
       </div>
     );
   }
@@ -280,6 +414,10 @@ export default async function DashboardPage() {
         <StatsCards />
       </Suspense>
 
+      <Suspense fallback={<CardListSkeleton rows={3} />}>
+        <MyTasksTodayCard />
+      </Suspense>
+
       <div className="grid gap-4 md:grid-cols-2">
         <Suspense fallback={<CardListSkeleton rows={6} />}>
           <LeadsByStatusCard />
@@ -287,6 +425,9 @@ export default async function DashboardPage() {
         <Suspense fallback={<CardListSkeleton rows={4} />}>
           <RepWorkloadCard />
         </Suspense>
+        <Suspense fallback={<CardListSkeleton rows={3} />}>
+          <SlaBreachesCard />
+        </Suspense>
       </div>
     </div>
   );
@@ -1,18 +1,118 @@
 "use server";
 
 import { createClient } from "@/lib/supabase/server";
+import { getAdminSupabase } from "@/lib/supabase/admin";
 import { revalidatePath } from "next/cache";
-import { WhatsAppConversation, WhatsAppMessage } from "@/types/inbox";
-
-function normalizePhone(input: string): string {
-  const trimmed = String(input || "").trim();
-  if (!trimmed) return "";
-  if (trimmed.startsWith("+")) return `+${trimmed.slice(1).replace(/\D/g, "")}`;
-  const digits = trimmed.replace(/\D/g, "");
-  if (!digits) return "";
-  if (digits.startsWith("27") && digits.length >= 11) return `+${digits}`;
-  if (digits.startsWith("0") && digits.length === 10) return `+27${digits.slice(1)}`;
-  return `+${digits}`;
+import { z } from "zod";
+import {
+  InboxStaffMember,
+  WhatsAppConversation,
+  WhatsAppConversationNote,
+  WhatsAppMessage,
+  WhatsAppMessageSearchResult,
+  WhatsAppTemplate,
+} from "@/types/inbox";
+import { buildTemplateMessage, isWithinServiceWindow, normalizeTemplateVariables } from "@/lib/whatsapp-templates";
+import { signWhatsAppMedia, WA_MEDIA_SEND_LINK_SECONDS, whatsAppMediaHref } from "@/lib/whatsapp-media";
+import { sendPushToUsers, type NotificationPayload } from "@/lib/push";
+import { findLeadByPhone, normalizePhone } from "@/lib/contact-identity";
+import { jobLeadRefs, queryJobsByLeadRefs } from "@/lib/job-leads";
+import { leadRoutingColumns, leadRoutingEvent, routeLead } from "@/lib/lead-routing";
+
+const assignConversationSchema = z.object({
+  conversationId: z.string().uuid(),
+  assigneeUserId: z.string().uuid().nullable(),
+});
+
+const addNoteSchema = z.object({
+  conversationId: z.string().uuid(),
+  body: z.string().trim().min(1, "Note cannot be empty").max(2000, "Note is too long"),
+  mentionUserIds: z.array(z.string().uuid()).max(20),
+});
+
+const searchMessagesSchema = z.object({
+  query: z.string().trim().min(2, "Type at least 2 characters").max(200),
+  repId: z.string().uuid().optional(),
+  leadId: z.string().uuid().optional(),
+  from: z.string().date().optional(),
+  to: z.string().date().optional(),
+});
+
+const createLeadFromChatSchema = z.object({
+  conversationId: z.string().uuid(),
+  customerName: z.string().trim().min(1, "Customer name is required").max(200),
+  phone: z.string().trim().min(6, "Phone number is required").max(30),
+  email: z.union([z.string().trim().email("Invalid email"), z.literal("")]).optional(),
+  organization: z.string().trim().max(200).optional(),
+});
+
+type ServerSupabase = Awaited<ReturnType<typeof createClient>>;
+
+async function dispatchOutboundWebhook(
+  supabase: ServerSupabase,
+  payload: { conversation_id: string; message_id: string; to_phone: string; text: string; created_by: string; created_at: string }
+) {
+  const webhookUrl = process.env.WA_OUTBOUND_WEBHOOK_URL || "https://dockerfile-1n82.onrender.com/webhook/wa/send";
+  if (webhookUrl) {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 8000);
+    try {
+      const webhookRes = await fetch(webhookUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+        signal: controller.signal,
+      });
+
+      if (webhookRes.ok) {
+        await supabase
+          .from("wa_messages")
+          .update({
+            status: "sending",
+            provider_payload: {
+              webhook_dispatched: true,
+              webhook_url: webhookUrl,
+              webhook_dispatched_at: new Date().toISOString(),
+            },
+          })
+          .eq("id", payload.message_id);
+      } else {
+        const bodyText = await webhookRes.text().catch(() => "");
+        await supabase
+          .from("wa_messages")
+          .update({
+            error: `Webhook ${webhookRes.status}: ${bodyText}`.slice(0, 1000),
+          })
+          .eq("id", payload.message_id);
+      }
+    } catch (e) {
+      await supabase
+        .from("wa_messages")
+        .update({
+          error: `Webhook dispatch failed: ${e instanceof Error ? e.message : String(e)}`.slice(0, 1000),
+        })
+        .eq("id", payload.message_id);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
+
+export async function getTemplates(): Promise<WhatsAppTemplate[]> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from("wa_templates")
+    .select("id, name, language, category, body, variables, is_active, updated_at")
+    .eq("is_active", true)
+    .order("name", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching WhatsApp templates:", error);
+    return [];
+  }
+
+  return (data || []).map((t) => ({ ...t, variables: normalizeTemplateVariables(t.variables) })) as WhatsAppTemplate[];
 }
 
 export async function getConversations(): Promise<WhatsAppConversation[]> {
@@ -29,8 +129,10 @@ export async function getConversations(): Promise<WhatsAppConversation[]> {
       phone,
       lead_id,
       assigned_rep_id,
+      assigned_at,
       last_message_at,
       last_message_preview,
+      last_inbound_at,
       unread_count,
       lead:leads (
         id,
@@ -49,9 +151,93 @@ export async function getConversations(): Promise<WhatsAppConversation[]> {
   return (data || []) as unknown as WhatsAppConversation[];
 }
 
-export async function getMessages(conversationId: string): Promise<WhatsAppMessage[]> {
+export async function getInboxStaff(): Promise<InboxStaffMember[]> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from("profiles")
+    .select("user_id, full_name, email, role")
+    .in("role", ["ceo", "admin", "rep"])
+    .order("full_name", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching inbox staff:", error);
+    return [];
+  }
+
+  return (data || []).map((profile) => ({
+    user_id: profile.user_id as string,
+    name: (profile.full_name as string | null) || (profile.email as string | null) || "Unnamed",
+    role: profile.role as string,
+  }));
+}
+
+export async function getConversationNotes(conversationId: string): Promise<WhatsAppConversationNote[]> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from("wa_conversation_notes")
+    .select("id, conversation_id, author_user_id, kind, body, mentions, created_at")
+    .eq("conversation_id", conversationId)
+    .order("created_at", { ascending: true })
+    .limit(200);
+
+  if (error) {
+    console.error("Error fetching conversation notes:", error);
+    return [];
+  }
+
+  const authorIds = Array.from(new Set((data || []).map((n) => n.author_user_id).filter(Boolean))) as string[];
+  const { data: authors } = authorIds.length
+    ? await supabase.from("profiles").select("user_id, full_name, email").in("user_id", authorIds)
+    : { data: [] };
+  const nameById = new Map((authors || []).map((a) => [a.user_id as string, (a.full_name || a.email || null) as string | null]));
+
+  return (data || []).map((note) => ({
+    ...(note as WhatsAppConversationNote),
+    author_name: note.author_user_id ? nameById.get(note.author_user_id) ?? null : null,
+  }));
+}
+
+/**
+ * The latest 150 messages of a thread. With `aroundMessageId` (a search hit), the thread starts a few
+ * messages before that message instead, so it is loaded in context even when it is older.
+ */
+export async function getMessages(conversationId: string, aroundMessageId?: string): Promise<WhatsAppMessage[]> {
   const supabase = await createClient();
 
+  if (aroundMessageId) {
+    const { data: target } = await supabase
+      .from("wa_messages")
+      .select("created_at")
+      .eq("id", aroundMessageId)
+      .eq("conversation_id", conversationId)
+      .maybeSingle();
+
+    if (target) {
+      const { data: before } = await supabase
+        .from("wa_messages")
+        .select("created_at")
+        .eq("conversation_id", conversationId)
+        .lt("created_at", target.created_at)
+        .order("created_at", { ascending: false })
+        .range(19, 19)
+        .maybeSingle();
+
+      let query = supabase
+        .from("wa_messages")
+        .select("*")
+        .eq("conversation_id", conversationId)
+        .order("created_at", { ascending: true })
+        .limit(500);
+      if (before) query = query.gte("created_at", before.created_at);
+
+      const { data, error } = await query;
+      if (!error) return data as WhatsAppMessage[];
+      console.error("Error fetching messages around search hit:", error);
+    }
+  }
+
   const { data, error } = await supabase
     .from("wa_messages")
     .select("*")
@@ -67,6 +253,39 @@ export async function getMessages(conversationId: string): Promise<WhatsAppMessa
   return (data as WhatsAppMessage[]).reverse();
 }
 
+export async function searchMessagesAction(input: {
+  query: string;
+  repId?: string;
+  leadId?: string;
+  from?: string;
+  to?: string;
+}): Promise<{ results: WhatsAppMessageSearchResult[] } | { error: string }> {
+  const parsed = searchMessagesSchema.safeParse(input);
+  if (!parsed.success) return { error: parsed.error.issues[0]?.message || "Invalid search" };
+
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return { error: "Not authenticated" };
+
+  // Date inputs are whole days; "to" includes the whole last day
+  const to = parsed.data.to ? new Date(`${parsed.data.to}T00:00:00Z`) : null;
+  if (to) to.setUTCDate(to.getUTCDate() + 1);
+
+  const { data, error } = await supabase.rpc("search_wa_messages", {
+    p_query: parsed.data.query,
+    p_rep_id: parsed.data.repId ?? null,
+    p_lead_id: parsed.data.leadId ?? null,
+    p_from: parsed.data.from ? `${parsed.data.from}T00:00:00Z` : null,
+    p_to: to ? to.toISOString() : null,
+    p_limit: 50,
+  });
+
+  if (error) return { error: error.message || "Search failed" };
+  return { results: (data || []) as WhatsAppMessageSearchResult[] };
+}
+
 export async function markConversationRead(conversationId: string) {
   const supabase = await createClient();
   const { data: { user } } = await supabase.auth.getUser();
@@ -101,7 +320,7 @@ export async function sendMessageAction(conversationId: string, messageId: strin
 
   const { data: conversation, error: convGetError } = await supabase
     .from("wa_conversations")
-    .select("id, phone, lead_id")
+    .select("id, phone, lead_id, last_inbound_at")
     .eq("id", conversationId)
     .single();
 
@@ -109,6 +328,10 @@ export async function sendMessageAction(conversationId: string, messageId: strin
     return { error: "Conversation not found" };
   }
 
+  if (!isWithinServiceWindow(conversation.last_inbound_at)) {
+    return { error: "The 24-hour window has closed. Send an approved template instead." };
+  }
+
   const targetPhone = normalizePhone((conversation as { phone: string }).phone);
   if (!targetPhone) {
     return { error: "Invalid conversation phone" };
@@ -152,56 +375,158 @@ export async function sendMessageAction(conversationId: string, messageId: strin
     console.error("Error updating conversation timestamp:", convError);
   }
 
-  const webhookUrl = process.env.WA_OUTBOUND_WEBHOOK_URL || "https://dockerfile-1n82.onrender.com/webhook/wa/send";
-  if (webhookUrl) {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 8000);
-    try {
-      const webhookRes = await fetch(webhookUrl, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          conversation_id: conversationId,
-          message_id: messageId,
-          to_phone: targetPhone,
-          text,
-          created_by: user.id,
-          created_at: nowIso,
-        }),
-        signal: controller.signal,
-      });
+  await dispatchOutboundWebhook(supabase, {
+    conversation_id: conversationId,
+    message_id: messageId,
+    to_phone: targetPhone,
+    text,
+    created_by: user.id,
+    created_at: nowIso,
+  });
 
-      if (webhookRes.ok) {
-        await supabase
-          .from("wa_messages")
-          .update({
-            status: "sending",
-            provider_payload: {
-              webhook_dispatched: true,
-              webhook_url: webhookUrl,
-              webhook_dispatched_at: new Date().toISOString(),
-            },
-          })
-          .eq("id", messageId);
-      } else {
-        const bodyText = await webhookRes.text().catch(() => "");
-        await supabase
-          .from("wa_messages")
-          .update({
-            error: `Webhook ${webhookRes.status}: ${bodyText}`.slice(0, 1000),
-          })
-          .eq("id", messageId);
-      }
-    } catch (e) {
-      await supabase
-        .from("wa_messages")
-        .update({
-          error: `Webhook dispatch failed: ${e instanceof Error ? e.message : String(e)}`.slice(0, 1000),
-        })
-        .eq("id", messageId);
-    } finally {
-      clearTimeout(timeoutId);
-    }
+  revalidatePath("/inbox");
+  return { success: true };
+}
+
+export async function previewTemplateAction(
+  conversationId: string,
+  templateId: string
+): Promise<{ success: true; text: string } | { error: string }> {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return { error: "Not authenticated" };
+
+  const { data: conversation } = await supabase
+    .from("wa_conversations")
+    .select("id, lead_id, display_name, custom_display_name")
+    .eq("id", conversationId)
+    .single();
+
+  if (!conversation) return { error: "Conversation not found" };
+
+  const built = await buildTemplateMessage(supabase, templateId, conversation);
+  if ("error" in built) return { error: built.error };
+  return { success: true, text: built.text };
+}
+
+export async function sendTemplateMessageAction(
+  conversationId: string,
+  messageId: string,
+  templateId: string
+): Promise<{ success: true; text: string } | { error: string }> {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return { error: "Not authenticated" };
+
+  const { data: conversation, error: convError } = await supabase
+    .from("wa_conversations")
+    .select("id, phone, lead_id, display_name, custom_display_name")
+    .eq("id", conversationId)
+    .single();
+
+  if (convError || !conversation) return { error: "Conversation not found" };
+
+  const targetPhone = normalizePhone(conversation.phone);
+  if (!targetPhone) return { error: "Invalid conversation phone" };
+
+  const built = await buildTemplateMessage(supabase, templateId, conversation);
+  if ("error" in built) return { error: built.error };
+
+  const nowIso = new Date().toISOString();
+  const { error: msgError } = await supabase.from("wa_messages").insert({
+    id: messageId,
+    conversation_id: conversationId,
+    direction: "outbound",
+    text: built.text,
+    message_type: "template",
+    template_id: built.template.id,
+    template_name: built.template.name,
+    template_language: built.template.language,
+    template_variables: built.values,
+    created_by: user.id,
+    status: "queued",
+    to_phone: targetPhone,
+    sent_at: null,
+    delivered_at: null,
+    retry_count: 0,
+  });
+
+  if (msgError) {
+    if (msgError.code === "23505") return { success: true, text: built.text };
+    return { error: msgError.message };
+  }
+
+  await supabase
+    .from("wa_conversations")
+    .update({ last_message_at: nowIso, last_message_preview: built.text.slice(0, 140), updated_at: nowIso })
+    .eq("id", conversationId);
+
+  // Templates are sent by the queue worker, which knows how to build the template payload
+
+  revalidatePath("/inbox");
+  return { success: true, text: built.text };
+}
+
+export async function retryMessageAction(messageId: string): Promise<{ success: true } | { error: string }> {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return { error: "Not authenticated" };
+
+  const { data: message, error: msgError } = await supabase
+    .from("wa_messages")
+    .select("id, conversation_id, direction, status, text, to_phone, media_path, media_url, message_type")
+    .eq("id", messageId)
+    .single();
+
+  if (msgError || !message) return { error: "Message not found" };
+  if (message.direction !== "outbound" || message.status !== "failed") {
+    return { error: "Only failed outbound messages can be retried" };
+  }
+
+  // The original send link may have expired by now
+  let mediaUrl = message.media_url;
+  if (message.media_path) {
+    const admin = getAdminSupabase();
+    mediaUrl = admin ? await signWhatsAppMedia(admin, message.media_path, WA_MEDIA_SEND_LINK_SECONDS) : null;
+    if (!mediaUrl) return { error: "Failed to prepare media for sending" };
+  }
+
+  const nowIso = new Date().toISOString();
+  const { error: updateError } = await supabase
+    .from("wa_messages")
+    .update({
+      status: "queued",
+      error: null,
+      error_code: null,
+      failed_at: null,
+      retry_count: 0,
+      provider_message_id: null,
+      media_url: mediaUrl,
+    })
+    .eq("id", messageId)
+    .eq("status", "failed");
+
+  if (updateError) return { error: updateError.message || "Failed to requeue message" };
+
+  // Media and templates are only sent by the queue worker; text also goes straight to the outbound webhook
+  if (!mediaUrl && message.message_type !== "template" && message.to_phone) {
+    await dispatchOutboundWebhook(supabase, {
+      conversation_id: message.conversation_id,
+      message_id: message.id,
+      to_phone: message.to_phone,
+      text: message.text || "",
+      created_by: user.id,
+      created_at: nowIso,
+    });
   }
 
   revalidatePath("/inbox");
@@ -221,7 +546,7 @@ export async function detectChatAction(conversationId: string): Promise<
 
   const { data: conversation, error: convError } = await supabase
     .from("wa_conversations")
-    .select("id, phone")
+    .select("id, phone, assigned_rep_id, assigned_at")
     .eq("id", conversationId)
     .single();
 
@@ -233,30 +558,33 @@ export async function detectChatAction(conversationId: string): Promise<
   const { data: leadMatches, error: leadError } = await supabase
     .from("leads")
     .select("id, lead_id, assigned_rep_id")
-    .eq("phone", phone)
+    .eq("phone_e164", phone)
+    .is("merged_into_id", null)
     .order("last_activity_at", { ascending: false, nullsFirst: false })
     .limit(1);
 
   if (leadError) return { error: leadError.message || "Lead lookup failed" };
 
   const leadId = Array.isArray(leadMatches) && leadMatches.length > 0 ? (leadMatches[0].id as string) : null;
-  const leadIdText =
-    Array.isArray(leadMatches) && leadMatches.length > 0 ? (leadMatches[0].lead_id as string | null) : null;
-  const assignedRepId =
+  const leadRepId =
     Array.isArray(leadMatches) && leadMatches.length > 0 ? (leadMatches[0].assigned_rep_id as string | null) : null;
+  // An explicit assignment from the inbox wins over the lead's rep
+  const assignedRepId = conversation.assigned_at ? (conversation.assigned_rep_id as string | null) : leadRepId;
 
   if (!leadId) {
     return { success: true, matched: false, lead_id: null, job_id: null, assigned_rep_id: null };
   }
 
-  const { data: jobMatches } = await supabase
-    .from("jobs")
-    .select("id")
-    .eq("lead_id", leadIdText)
-    .eq("is_active", true)
-    .is("archived_at", null)
-    .order("created_at", { ascending: false })
-    .limit(1);
+  const { data: jobMatches } = await queryJobsByLeadRefs(jobLeadRefs([leadMatches[0]]), (refs) =>
+    supabase
+      .from("jobs")
+      .select("id")
+      .in("lead_id", refs)
+      .eq("is_active", true)
+      .is("archived_at", null)
+      .order("created_at", { ascending: false })
+      .limit(1)
+  );
 
   const jobId = Array.isArray(jobMatches) && jobMatches.length > 0 ? (jobMatches[0].id as string) : null;
 
@@ -319,3 +647,365 @@ export async function clearWhatsAppInboxAction(): Promise<{ success: true } | {
   revalidatePath("/inbox");
   return { success: true };
 }
+
+function toAttachmentList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(String).filter(Boolean);
+  if (typeof value === "string" && value.trim()) {
+    try {
+      const parsed = JSON.parse(value);
+      if (Array.isArray(parsed)) return parsed.map(String).filter(Boolean);
+    } catch {
+      // plain comma-separated list
+    }
+    return value.split(",").map((s) => s.trim()).filter(Boolean);
+  }
+  return [];
+}
+
+export async function attachMessageMediaToLeadAction(
+  messageId: string
+): Promise<{ success: true; alreadyAttached: boolean } | { error: string }> {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return { error: "Not authenticated" };
+
+  const { data: message, error: msgError } = await supabase
+    .from("wa_messages")
+    .select("id, conversation_id, media_path, media_url, media_file_name, message_type")
+    .eq("id", messageId)
+    .single();
+
+  if (msgError || !message) return { error: "Message not found" };
+  // Stored media goes on the lead as an app link; the bucket is private, so signed links would expire
+  const mediaUrl = message.media_path ? whatsAppMediaHref(message.media_path) : message.media_url;
+  if (!mediaUrl) return { error: "This message has no media" };
+
+  const { data: conversation } = await supabase
+    .from("wa_conversations")
+    .select("id, lead_id")
+    .eq("id", message.conversation_id)
+    .single();
+
+  if (!conversation?.lead_id) return { error: "Link this chat to a lead first" };
+
+  const { data: lead, error: leadError } = await supabase
+    .from("leads")
+    .select("id, attachments")
+    .eq("id", conversation.lead_id)
+    .single();
+
+  if (leadError || !lead) return { error: "Lead not found" };
+
+  const existing = toAttachmentList(lead.attachments);
+  if (existing.includes(mediaUrl)) return { success: true, alreadyAttached: true };
+
+  const nowIso = new Date().toISOString();
+  const { error: updateError } = await supabase
+    .from("leads")
+    .update({ attachments: [...existing, mediaUrl], updated_at: nowIso })
+    .eq("id", lead.id);
+
+  if (updateError) return { error: updateError.message || "Failed to attach media" };
+
+  await supabase.from("lead_events").insert({
+    lead_db_id: lead.id,
+    actor_user_id: user.id,
+    event_type: "whatsapp_media_attached",
+    payload: {
+      message_id: message.id,
+      media_url: mediaUrl,
+      file_name: message.media_file_name,
+      message_type: message.message_type,
+    },
+  });
+
+  revalidatePath(`/leads/${lead.id}`);
+  return { success: true, alreadyAttached: false };
+}
+
+// Mentions and assignments are addressed to one person and nothing resends them, so they go out
+// even when that person is off shift
+async function notifyStaff(userIds: string[], payload: NotificationPayload) {
+  try {
+    await sendPushToUsers(userIds, payload, { includeUnavailable: true });
+  } catch (e) {
+    console.error("[inbox] push failed:", e instanceof Error ? e.message : e);
+  }
+}
+
+function conversationLabel(conversation: { phone: string; display_name?: string | null; custom_display_name?: string | null }) {
+  return conversation.custom_display_name || conversation.display_name || conversation.phone;
+}
+
+/**
+ * Assign, reassign or unassign a conversation. Anyone who can see the conversation may hand it off;
+ * the write goes through the service role because the new owner is usually not the current user.
+ */
+export async function assignConversationAction(
+  conversationId: string,
+  assigneeUserId: string | null
+): Promise<{ success: true } | { error: string }> {
+  const parsed = assignConversationSchema.safeParse({ conversationId, assigneeUserId });
+  if (!parsed.success) return { error: parsed.error.issues[0]?.message || "Invalid input" };
+
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return { error: "Not authenticated" };
+
+  const { data: conversation } = await supabase
+    .from("wa_conversations")
+    .select("id, phone, display_name, custom_display_name, assigned_rep_id")
+    .eq("id", parsed.data.conversationId)
+    .maybeSingle();
+  if (!conversation) return { error: "Conversation not found" };
+  if ((conversation.assigned_rep_id || null) === parsed.data.assigneeUserId) return { success: true };
+
+  const staff = await getInboxStaff();
+  const assignee = parsed.data.assigneeUserId ? staff.find((s) => s.user_id === parsed.data.assigneeUserId) : null;
+  if (parsed.data.assigneeUserId && !assignee) return { error: "Assignee not found" };
+  const actorName = staff.find((s) => s.user_id === user.id)?.name || user.email || "Someone";
+
+  const admin = getAdminSupabase();
+  if (!admin) return { error: "Supabase admin client not configured" };
+
+  const nowIso = new Date().toISOString();
+  const { error } = await admin
+    .from("wa_conversations")
+    .update({
+      assigned_rep_id: parsed.data.assigneeUserId,
+      assigned_at: parsed.data.assigneeUserId ? nowIso : null,
+      assigned_by: user.id,
+      updated_at: nowIso,
+    })
+    .eq("id", parsed.data.conversationId);
+  if (error) return { error: error.message };
+
+  const previousName = conversation.assigned_rep_id
+    ? staff.find((s) => s.user_id === conversation.assigned_rep_id)?.name || "another user"
+    : null;
+  const body = assignee
+    ? previousName
+      ? `${actorName} reassigned this chat from ${previousName} to ${assignee.name}`
+      : `${actorName} assigned this chat to ${assignee.name}`
+    : `${actorName} unassigned this chat`;
+
+  await admin.from("wa_conversation_notes").insert({
+    conversation_id: parsed.data.conversationId,
+    author_user_id: user.id,
+    kind: "assignment",
+    body,
+  });
+
+  if (assignee && assignee.user_id !== user.id) {
+    await notifyStaff([assignee.user_id], {
+      title: "WhatsApp chat assigned to you",
+      body: `${actorName} assigned ${conversationLabel(conversation)} to you`,
+      url: `/inbox?conversation=${parsed.data.conversationId}`,
+      tag: `wa-assign-${parsed.data.conversationId}`,
+    });
+  }
+
+  revalidatePath("/inbox");
+  return { success: true };
+}
+
+/**
+ * Add a staff-only note to the thread. Only users who are actually @mentioned by name in the
+ * body are stored in mentions and push-notified.
+ */
+export async function addConversationNoteAction(
+  conversationId: string,
+  body: string,
+  mentionUserIds: string[]
+): Promise<{ success: true; note: WhatsAppConversationNote } | { error: string }> {
+  const parsed = addNoteSchema.safeParse({ conversationId, body, mentionUserIds });
+  if (!parsed.success) return { error: parsed.error.issues[0]?.message || "Invalid input" };
+
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return { error: "Not authenticated" };
+
+  const { data: conversation } = await supabase
+    .from("wa_conversations")
+    .select("id, phone, display_name, custom_display_name")
+    .eq("id", parsed.data.conversationId)
+    .maybeSingle();
+  if (!conversation) return { error: "Conversation not found" };
+
+  const staff = await getInboxStaff();
+  const mentioned = staff.filter(
+    (s) => parsed.data.mentionUserIds.includes(s.user_id) && parsed.data.body.includes(`@${s.name}`)
+  );
+  const authorName = staff.find((s) => s.user_id === user.id)?.name || user.email || "Someone";
+
+  const { data: note, error } = await supabase
+    .from("wa_conversation_notes")
+    .insert({
+      conversation_id: parsed.data.conversationId,
+      author_user_id: user.id,
+      kind: "note",
+      body: parsed.data.body,
+      mentions: mentioned.map((s) => s.user_id),
+    })
+    .select("id, conversation_id, author_user_id, kind, body, mentions, created_at")
+    .single();
+  if (error || !note) return { error: error?.message || "Failed to add note" };
+
+  const notifyIds = mentioned.map((s) => s.user_id).filter((id) => id !== user.id);
+  if (notifyIds.length > 0) {
+    await notifyStaff(notifyIds, {
+      title: `${authorName} mentioned you`,
+      body: `${conversationLabel(conversation)}: ${parsed.data.body.slice(0, 140)}`,
+      url: `/inbox?conversation=${parsed.data.conversationId}`,
+      tag: `wa-note-${note.id}`,
+    });
+  }
+
+  return { success: true, note: { ...(note as WhatsAppConversationNote), author_name: authorName } };
+}
+
+export async function deleteConversationNoteAction(noteId: string): Promise<{ success: true } | { error: string }> {
+  const parsed = z.string().uuid().safeParse(noteId);
+  if (!parsed.success) return { error: "Invalid note" };
+
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return { error: "Not authenticated" };
+
+  // RLS only lets authors delete their own notes
+  const { data, error } = await supabase
+    .from("wa_conversation_notes")
+    .delete()
+    .eq("id", parsed.data)
+    .eq("kind", "note")
+    .select("id");
+  if (error) return { error: error.message };
+  if (!data || data.length === 0) return { error: "Note not found" };
+
+  return { success: true };
+}
+
+// Same shape as the lead codes issued by the website forms, e.g. "MI7883XIC80EKQ"
+function generateLeadCode(): string {
+  return `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`.toUpperCase();
+}
+
+/**
+ * Create a lead for a chat that Detect Chat could not match. The opening inbound messages become the
+ * lead's question; the rep is picked by the lead routing rules.
+ */
+export async function createLeadFromChatAction(input: {
+  conversationId: string;
+  customerName: string;
+  phone: string;
+  email?: string;
+  organization?: string;
+}): Promise<
+  { success: true; lead_id: string; lead_code: string; assigned_rep_id: string | null } | { error: string }
+> {
+  const parsed = createLeadFromChatSchema.safeParse(input);
+  if (!parsed.success) return { error: parsed.error.issues[0]?.message || "Invalid input" };
+
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return { error: "Not authenticated" };
+
+  const { data: conversation } = await supabase
+    .from("wa_conversations")
+    .select("id, phone, lead_id, assigned_rep_id, assigned_at")
+    .eq("id", parsed.data.conversationId)
+    .maybeSingle();
+  if (!conversation) return { error: "Conversation not found" };
+  if (conversation.lead_id) return { error: "This chat is already linked to a lead" };
+
+  const phone = normalizePhone(parsed.data.phone);
+  if (!phone) return { error: "Invalid phone number" };
+
+  const admin = getAdminSupabase();
+  if (!admin) return { error: "Supabase admin client not configured" };
+
+  const existing = await findLeadByPhone(admin, phone, "id");
+  if (existing) return { error: "A lead with this phone number already exists. Use Detect Chat to link it." };
+
+  const { data: inbound } = await admin
+    .from("wa_messages")
+    .select("text")
+    .eq("conversation_id", conversation.id)
+    .eq("direction", "inbound")
+    .not("text", "is", null)
+    .order("created_at", { ascending: true })
+    .limit(5);
+  const openingText = (inbound || [])
+    .map((m) => String(m.text || "").trim())
+    .filter(Boolean)
+    .join("\n")
+    .slice(0, 2000);
+
+  const nowIso = new Date().toISOString();
+  const routing = await routeLead(admin, {
+    organization: parsed.data.organization || null,
+    source: "WhatsApp",
+    has_asked_question: true,
+  });
+  const { data: lead, error: insertError } = await admin
+    .from("leads")
+    .insert({
+      ...(routing ? leadRoutingColumns(routing, nowIso) : {}),
+      lead_id: generateLeadCode(),
+      customer_name: parsed.data.customerName,
+      name: parsed.data.customerName,
+      phone,
+      email: parsed.data.email || null,
+      organization: parsed.data.organization || null,
+      source: "WhatsApp",
+      lead_type: "question",
+      status: "New",
+      has_asked_question: true,
+      question: openingText || null,
+      message: openingText || null,
+      question_data: { question: openingText || null, channel: "whatsapp", conversation_id: conversation.id },
+      submission_date: nowIso,
+      last_activity_at: nowIso,
+      last_modified: nowIso,
+      last_modified_by: "system:whatsapp-inbox",
+    })
+    .select("id, lead_id, assigned_rep_id")
+    .single();
+  if (insertError || !lead) return { error: insertError?.message || "Failed to create lead" };
+
+  // Without a routing decision the insert trigger picks a rep
+  const assignedRepId = (lead.assigned_rep_id as string | null) || null;
+  if (routing) {
+    await admin.from("lead_events").insert(leadRoutingEvent(lead.id, routing, user.id));
+  }
+
+  // An explicit assignment from the inbox wins over the lead's rep
+  const conversationRepId = conversation.assigned_at ? (conversation.assigned_rep_id as string | null) : assignedRepId;
+  const { error: linkError } = await admin
+    .from("wa_conversations")
+    .update({ lead_id: lead.id, assigned_rep_id: conversationRepId, updated_at: nowIso })
+    .eq("id", conversation.id);
+  if (linkError) return { error: linkError.message || "Lead created but the chat could not be linked" };
+
+  await admin.from("lead_events").insert({
+    lead_db_id: lead.id,
+    actor_user_id: user.id,
+    event_type: "lead_created_from_whatsapp",
+    payload: { conversationId: conversation.id, assignedRepId },
+  });
+
+  revalidatePath("/inbox");
+  revalidatePath("/leads");
+  return { success: true, lead_id: lead.id as string, lead_code: lead.lead_id as string, assigned_rep_id: conversationRepId };
+}
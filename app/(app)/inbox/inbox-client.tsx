@@ -1,12 +1,63 @@
 "use client";
 
 import { useEffect, useRef, useState } from "react";
-import { WhatsAppConversation, WhatsAppMessage } from "@/types/inbox";
-import { clearWhatsAppInboxAction, detectChatAction, getMessages, markConversationRead, sendMessageAction } from "./actions";
+import {
+  InboxStaffMember,
+  WhatsAppConversation,
+  WhatsAppConversationNote,
+  WhatsAppMessage,
+  WhatsAppMessageSearchResult,
+  WhatsAppTemplate,
+  WA_MEDIA_ROUTE,
+} from "@/types/inbox";
+import type { Snippet } from "@/types/snippets";
+import { isWithinServiceWindow } from "@/lib/whatsapp-templates";
+import { getShortcutQuery, matchSnippets, replaceShortcut } from "@/lib/snippets";
+import Image from "next/image";
+import Link from "next/link";
+import {
+  addConversationNoteAction,
+  assignConversationAction,
+  attachMessageMediaToLeadAction,
+  clearWhatsAppInboxAction,
+  createLeadFromChatAction,
+  deleteConversationNoteAction,
+  detectChatAction,
+  getConversationNotes,
+  getMessages,
+  markConversationRead,
+  previewTemplateAction,
+  retryMessageAction,
+  sendMessageAction,
+  sendTemplateMessageAction,
+} from "./actions";
+import { expandSnippetAction } from "../snippets/actions";
+import { createClient } from "@/lib/supabase/browser";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
-import { Search, Send, ArrowLeft, Phone, User, MessageSquare, Trash2 } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { SnippetSuggestions } from "@/components/snippet-suggestions";
+import { MessageSearchDialog } from "./message-search-dialog";
+import {
+  Search,
+  Send,
+  ArrowLeft,
+  Phone,
+  User,
+  MessageSquare,
+  Trash2,
+  Paperclip,
+  FileText,
+  X,
+  Clock,
+  AlertCircle,
+  LayoutTemplate,
+  StickyNote,
+  FileSearch,
+} from "lucide-react";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import { toast } from "sonner";
@@ -14,26 +65,157 @@ import { useRouter } from "next/navigation";
 
 interface InboxClientProps {
   initialConversations: WhatsAppConversation[];
+  templates: WhatsAppTemplate[];
+  snippets: Snippet[];
+  staff: InboxStaffMember[];
+  currentUserId: string | null;
+  initialSelectedId: string | null;
 }
 
-export default function InboxClient({ initialConversations }: InboxClientProps) {
+type AssignmentFilter = "mine" | "unassigned" | "all";
+
+const ASSIGNMENT_FILTER_LABELS: Record<AssignmentFilter, string> = {
+  mine: "Mine",
+  unassigned: "Unassigned",
+  all: "All",
+};
+
+const UNASSIGNED = "__unassigned__";
+
+type ThreadItem =
+  | { type: "message"; at: string; message: WhatsAppMessage }
+  | { type: "note"; at: string; note: WhatsAppConversationNote };
+
+function MessageStatusTicks({ msg }: { msg: WhatsAppMessage }) {
+  if (msg.status === "queued" || msg.status === "sending") {
+    return <Clock className="ml-1 inline h-3 w-3 align-[-2px]" aria-label="Sending" />;
+  }
+  if (msg.status === "failed") {
+    return <AlertCircle className="ml-1 inline h-3 w-3 align-[-2px] text-red-600" aria-label="Failed" />;
+  }
+  const title = msg.read_at
+    ? `Read ${new Date(msg.read_at).toLocaleString("en-ZA")}`
+    : msg.delivered_at
+      ? `Delivered ${new Date(msg.delivered_at).toLocaleString("en-ZA")}`
+      : "Sent";
+  return (
+    <span className={`ml-1 ${msg.status === "read" ? "text-[#53bdeb]" : ""}`} title={title}>
+      {msg.status === "delivered" || msg.status === "read" ? "✓✓" : "✓"}
+    </span>
+  );
+}
+
+function MessageMedia({ msg }: { msg: WhatsAppMessage }) {
+  const url = msg.media_path ? `${WA_MEDIA_ROUTE}/${msg.media_path}` : msg.media_url;
+  const mime = (msg.media_mime_type || "").toLowerCase();
+  const name = msg.media_file_name || "Attachment";
+
+  if (!url) {
+    return msg.message_type && msg.message_type !== "text" && msg.message_type !== "template" ? (
+      <p className="text-xs italic text-[#667781]">Media unavailable</p>
+    ) : null;
+  }
+
+  if (msg.message_type === "image" || msg.message_type === "sticker" || mime.startsWith("image/")) {
+    return (
+      <a href={url} target="_blank" rel="noreferrer" className="block">
+        <Image
+          src={url}
+          alt={name}
+          width={280}
+          height={280}
+          unoptimized
+          className="h-auto max-h-72 w-auto max-w-full rounded-md object-contain"
+        />
+      </a>
+    );
+  }
+
+  if (msg.message_type === "audio" || mime.startsWith("audio/")) {
+    return <audio controls src={url} className="w-64 max-w-full" />;
+  }
+
+  if (msg.message_type === "video" || mime.startsWith("video/")) {
+    return <video controls src={url} className="max-h-72 max-w-full rounded-md" />;
+  }
+
+  return (
+    <a
+      href={url}
+      target="_blank"
+      rel="noreferrer"
+      className="flex items-center gap-2 rounded-md border border-[#e9edef] bg-white/60 px-3 py-2 text-sm hover:bg-white"
+    >
+      <FileText className="h-5 w-5 shrink-0 text-[#54656f]" />
+      <span className="truncate">{name}</span>
+    </a>
+  );
+}
+
+export default function InboxClient({
+  initialConversations,
+  templates,
+  snippets,
+  staff,
+  currentUserId,
+  initialSelectedId,
+}: InboxClientProps) {
   const router = useRouter();
   const [conversations, setConversations] = useState<WhatsAppConversation[]>(initialConversations);
-  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(initialSelectedId);
   const [messages, setMessages] = useState<WhatsAppMessage[]>([]);
+  const [notes, setNotes] = useState<WhatsAppConversationNote[]>([]);
+  const [assignmentFilter, setAssignmentFilter] = useState<AssignmentFilter>("all");
+  const [composerMode, setComposerMode] = useState<"reply" | "note">("reply");
+  const [noteText, setNoteText] = useState("");
+  const [mentionIds, setMentionIds] = useState<string[]>([]);
+  const [isAssigning, setIsAssigning] = useState(false);
+  const [isCreateLeadOpen, setIsCreateLeadOpen] = useState(false);
+  const [isCreatingLead, setIsCreatingLead] = useState(false);
   const [isLoadingMessages, setIsLoadingMessages] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
+  const [isMessageSearchOpen, setIsMessageSearchOpen] = useState(false);
+  const [focusMessageId, setFocusMessageId] = useState<string | null>(null);
   const [newMessage, setNewMessage] = useState("");
   const [isSending, setIsSending] = useState(false);
   const [showChatOnMobile, setShowChatOnMobile] = useState(false);
   const [isDetecting, setIsDetecting] = useState(false);
+  const [pendingFile, setPendingFile] = useState<File | null>(null);
+  const [attachingId, setAttachingId] = useState<string | null>(null);
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+  const [useTemplate, setUseTemplate] = useState(false);
+  const [templateId, setTemplateId] = useState("");
+  const [templatePreview, setTemplatePreview] = useState("");
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const isSendingRef = useRef(false);
+  // Search hit to load in context and scroll to instead of the newest message
+  const focusMessageRef = useRef<string | null>(null);
   const conversationsRef = useRef<WhatsAppConversation[]>(initialConversations);
 
   const selectedConversation = conversations.find(c => c.id === selectedId);
+  // Outside the 24-hour customer service window WhatsApp only accepts approved templates
+  const windowOpen = isWithinServiceWindow(selectedConversation?.last_inbound_at);
+  const showTemplateComposer = !windowOpen || useTemplate;
+  const staffNames = new Map(staff.map((s) => [s.user_id, s.name]));
+
+  // "@que" at the end of the note opens the mention picker
+  const mentionQuery = composerMode === "note" ? /(?:^|\s)@([^@\n]{0,30})$/.exec(noteText)?.[1] ?? null : null;
+  const mentionSuggestions =
+    mentionQuery === null
+      ? []
+      : staff.filter((s) => s.name.toLowerCase().includes(mentionQuery.trim().toLowerCase())).slice(0, 5);
 
+  // "/size" at the end of either composer opens the snippet picker
+  const snippetQuery =
+    mentionSuggestions.length === 0 ? getShortcutQuery(composerMode === "note" ? noteText : newMessage) : null;
+  const snippetSuggestions = snippetQuery === null ? [] : matchSnippets(snippets, snippetQuery);
+
+  const threadItems: ThreadItem[] = [
+    ...messages.map((message): ThreadItem => ({ type: "message", at: message.created_at, message })),
+    ...notes.map((note): ThreadItem => ({ type: "note", at: note.created_at, note })),
+  ].sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime());
   useEffect(() => {
     setConversations(initialConversations);
   }, [initialConversations]);
@@ -43,15 +225,35 @@ export default function InboxClient({ initialConversations }: InboxClientProps)
   }, [conversations]);
 
   useEffect(() => {
+    if (focusMessageRef.current) return;
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   }, [messages]);
 
+  const focusLoaded = !!focusMessageId && messages.some((m) => m.id === focusMessageId);
+  useEffect(() => {
+    if (!focusLoaded || !focusMessageId) return;
+    document.getElementById(`wa-message-${focusMessageId}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+    const timer = window.setTimeout(() => {
+      focusMessageRef.current = null;
+      setFocusMessageId(null);
+    }, 4000);
+    return () => window.clearTimeout(timer);
+  }, [focusLoaded, focusMessageId]);
+
   useEffect(() => {
+    setPendingFile(null);
+    setUseTemplate(false);
+    setTemplateId("");
+    setNotes([]);
+    setNoteText("");
+    setMentionIds([]);
+    setComposerMode("reply");
     if (selectedId) {
       setIsLoadingMessages(true);
-      getMessages(selectedId)
-        .then((data) => {
+      Promise.all([getMessages(selectedId, focusMessageRef.current ?? undefined), getConversationNotes(selectedId)])
+        .then(([data, noteData]) => {
           setMessages(data);
+          setNotes(noteData);
           setIsLoadingMessages(false);
         })
         .catch((err) => {
@@ -73,7 +275,47 @@ export default function InboxClient({ initialConversations }: InboxClientProps)
     }
   }, [selectedId]);
 
+  useEffect(() => {
+    setTemplatePreview("");
+    if (!selectedId || !templateId) return;
+    let cancelled = false;
+    previewTemplateAction(selectedId, templateId).then((result) => {
+      if (cancelled) return;
+      if ("error" in result) {
+        toast.error(result.error);
+        return;
+      }
+      setTemplatePreview(result.text);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedId, templateId]);
+
+  // Status callbacks update wa_messages; keep the open chat's ticks and failures current
+  useEffect(() => {
+    if (!selectedId) return;
+    const supabase = createClient();
+    const channel = supabase
+      .channel(`wa-messages-${selectedId}`)
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "wa_messages", filter: `conversation_id=eq.${selectedId}` },
+        (payload) => {
+          const updated = payload.new as WhatsAppMessage;
+          setMessages((prev) => prev.map((m) => (m.id === updated.id ? { ...m, ...updated } : m)));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [selectedId]);
+
   const filteredConversations = conversations.filter((c) => {
+    if (assignmentFilter === "mine" && c.assigned_rep_id !== currentUserId) return false;
+    if (assignmentFilter === "unassigned" && c.assigned_rep_id) return false;
     const term = searchQuery.toLowerCase();
     return (
       c.phone.toLowerCase().includes(term) ||
@@ -84,20 +326,25 @@ export default function InboxClient({ initialConversations }: InboxClientProps)
     );
   });
 
+  const createUuidV4 = () => {
+    const cryptoObj = globalThis.crypto;
+    if (cryptoObj?.randomUUID) return cryptoObj.randomUUID();
+    const bytes = new Uint8Array(16);
+    cryptoObj?.getRandomValues?.(bytes);
+    bytes[6] = (bytes[6] & 0x0f) | 0x40;
+    bytes[8] = (bytes[8] & 0x3f) | 0x80;
+    const hex = Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+  };
+
   const handleSendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!selectedId || !newMessage.trim() || isSendingRef.current) return;
-
-    const createUuidV4 = () => {
-      const cryptoObj = globalThis.crypto;
-      if (cryptoObj?.randomUUID) return cryptoObj.randomUUID();
-      const bytes = new Uint8Array(16);
-      cryptoObj?.getRandomValues?.(bytes);
-      bytes[6] = (bytes[6] & 0x0f) | 0x40;
-      bytes[8] = (bytes[8] & 0x3f) | 0x80;
-      const hex = Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
-      return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
-    };
+    if (!selectedId || isSendingRef.current) return;
+    if (pendingFile) {
+      await handleSendMedia(selectedId, pendingFile);
+      return;
+    }
+    if (!newMessage.trim()) return;
 
     const messageId = createUuidV4();
     const tempMessage: WhatsAppMessage = {
@@ -105,7 +352,7 @@ export default function InboxClient({ initialConversations }: InboxClientProps)
       conversation_id: selectedId,
       direction: "outbound",
       text: newMessage,
-      status: "sent",
+      status: "queued",
       created_at: new Date().toISOString(),
       created_by: "me", // Placeholder
     };
@@ -120,7 +367,7 @@ export default function InboxClient({ initialConversations }: InboxClientProps)
       const result = await sendMessageAction(selectedId, messageId, tempMessage.text);
 
       if (result && "error" in result) {
-        toast.error("Failed to send message");
+        toast.error(result.error || "Failed to send message");
         setMessages((prev) => prev.filter((m) => m.id !== messageId));
       } else {
         toast.success("Message sent");
@@ -131,6 +378,180 @@ export default function InboxClient({ initialConversations }: InboxClientProps)
     }
   };
 
+  const handleSendTemplate = async () => {
+    if (!selectedId || !templateId || isSendingRef.current) return;
+    const template = templates.find((t) => t.id === templateId);
+    const messageId = createUuidV4();
+
+    setMessages((prev) => [
+      ...prev,
+      {
+        id: messageId,
+        conversation_id: selectedId,
+        direction: "outbound",
+        text: templatePreview || template?.body || "",
+        message_type: "template",
+        template_name: template?.name ?? null,
+        status: "queued",
+        created_at: new Date().toISOString(),
+        created_by: "me",
+      },
+    ]);
+    setIsSending(true);
+    isSendingRef.current = true;
+
+    try {
+      const result = await sendTemplateMessageAction(selectedId, messageId, templateId);
+      if ("error" in result) {
+        toast.error(result.error);
+        setMessages((prev) => prev.filter((m) => m.id !== messageId));
+        return;
+      }
+      setMessages((prev) => prev.map((m) => (m.id === messageId ? { ...m, text: result.text } : m)));
+      setTemplateId("");
+      setUseTemplate(false);
+      toast.success("Template sent");
+    } finally {
+      setIsSending(false);
+      isSendingRef.current = false;
+    }
+  };
+
+  // Attachments go through /api/whatsapp/send, which stores the file and queues the message
+  const handleSendMedia = async (conversationId: string, file: File) => {
+    setIsSending(true);
+    isSendingRef.current = true;
+    try {
+      const formData = new FormData();
+      formData.set("conversationId", conversationId);
+      formData.set("text", newMessage);
+      formData.set("file", file);
+      const res = await fetch("/api/whatsapp/send", { method: "POST", body: formData });
+      const json = (await res.json().catch(() => null)) as { error?: string } | null;
+      if (!res.ok) {
+        toast.error(json?.error || "Failed to send attachment");
+        return;
+      }
+      setPendingFile(null);
+      setNewMessage("");
+      toast.success("Attachment sent");
+      setMessages(await getMessages(conversationId));
+    } finally {
+      setIsSending(false);
+      isSendingRef.current = false;
+    }
+  };
+
+  const handleAssign = async (value: string) => {
+    if (!selectedId) return;
+    const assigneeUserId = value === UNASSIGNED ? null : value;
+    setIsAssigning(true);
+    try {
+      const result = await assignConversationAction(selectedId, assigneeUserId);
+      if ("error" in result) {
+        toast.error(result.error);
+        return;
+      }
+      setConversations((prev) =>
+        prev.map((c) => (c.id === selectedId ? { ...c, assigned_rep_id: assigneeUserId } : c))
+      );
+      setNotes(await getConversationNotes(selectedId));
+      toast.success(assigneeUserId ? `Assigned to ${staffNames.get(assigneeUserId) || "user"}` : "Chat unassigned");
+    } finally {
+      setIsAssigning(false);
+    }
+  };
+
+  const handlePickMention = (member: InboxStaffMember) => {
+    setNoteText((prev) => prev.replace(/@([^@\n]{0,30})$/, `@${member.name} `));
+    setMentionIds((prev) => (prev.includes(member.user_id) ? prev : [...prev, member.user_id]));
+  };
+
+  const handlePickSnippet = async (snippet: Snippet) => {
+    if (!selectedId) return;
+    const result = await expandSnippetAction({ snippetId: snippet.id, context: "inbox", conversationId: selectedId });
+    if ("error" in result) {
+      toast.error(result.error);
+      return;
+    }
+    if (composerMode === "note") setNoteText((prev) => replaceShortcut(prev, result.text));
+    else setNewMessage((prev) => replaceShortcut(prev, result.text));
+  };
+
+  const handleOpenSearchResult = async (result: WhatsAppMessageSearchResult) => {
+    setIsMessageSearchOpen(false);
+    focusMessageRef.current = result.message_id;
+    setFocusMessageId(result.message_id);
+    if (result.conversation_id !== selectedId) {
+      setSelectedId(result.conversation_id);
+      return;
+    }
+    if (!messages.some((m) => m.id === result.message_id)) {
+      setMessages(await getMessages(result.conversation_id, result.message_id));
+    }
+  };
+
+  const handleAddNote = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedId || !noteText.trim() || isSendingRef.current) return;
+    setIsSending(true);
+    isSendingRef.current = true;
+    try {
+      const result = await addConversationNoteAction(selectedId, noteText, mentionIds);
+      if ("error" in result) {
+        toast.error(result.error);
+        return;
+      }
+      setNotes((prev) => [...prev, result.note]);
+      setNoteText("");
+      setMentionIds([]);
+      if (result.note.mentions.length > 0) toast.success("Note added and mentions notified");
+    } finally {
+      setIsSending(false);
+      isSendingRef.current = false;
+    }
+  };
+
+  const handleDeleteNote = async (noteId: string) => {
+    const result = await deleteConversationNoteAction(noteId);
+    if ("error" in result) {
+      toast.error(result.error);
+      return;
+    }
+    setNotes((prev) => prev.filter((n) => n.id !== noteId));
+  };
+
+  const handleRetry = async (messageId: string) => {
+    setRetryingId(messageId);
+    try {
+      const result = await retryMessageAction(messageId);
+      if ("error" in result) {
+        toast.error(result.error);
+        return;
+      }
+      setMessages((prev) =>
+        prev.map((m) => (m.id === messageId ? { ...m, status: "queued", error: null, error_code: null } : m))
+      );
+      toast.success("Message requeued");
+    } finally {
+      setRetryingId(null);
+    }
+  };
+
+  const handleAttachToLead = async (messageId: string) => {
+    setAttachingId(messageId);
+    try {
+      const result = await attachMessageMediaToLeadAction(messageId);
+      if ("error" in result) {
+        toast.error(result.error);
+        return;
+      }
+      toast.success(result.alreadyAttached ? "Already attached to the lead" : "Attached to lead");
+    } finally {
+      setAttachingId(null);
+    }
+  };
+
   const formatTime = (dateStr: string) => {
     const d = new Date(dateStr);
     if (Number.isNaN(d.getTime())) return "";
@@ -144,6 +565,11 @@ export default function InboxClient({ initialConversations }: InboxClientProps)
   };
 
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (snippetSuggestions.length > 0 && (e.key === "Enter" || e.key === "Tab")) {
+      e.preventDefault();
+      void handlePickSnippet(snippetSuggestions[0]);
+      return;
+    }
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
       void handleSendMessage(e as unknown as React.FormEvent);
@@ -164,7 +590,9 @@ export default function InboxClient({ initialConversations }: InboxClientProps)
         return;
       }
       if (!result.matched) {
-        toast.message("No lead match found for this chat");
+        toast.message("No lead match found for this chat", {
+          action: { label: "Create lead", onClick: () => setIsCreateLeadOpen(true) },
+        });
         return;
       }
       setConversations((prev) =>
@@ -181,6 +609,45 @@ export default function InboxClient({ initialConversations }: InboxClientProps)
     }
   };
 
+  const handleCreateLead = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!selectedId) return;
+    const formData = new FormData(e.currentTarget);
+    const customerName = String(formData.get("customerName") || "");
+    setIsCreatingLead(true);
+    try {
+      const result = await createLeadFromChatAction({
+        conversationId: selectedId,
+        customerName,
+        phone: String(formData.get("phone") || ""),
+        email: String(formData.get("email") || ""),
+        organization: String(formData.get("organization") || ""),
+      });
+      if ("error" in result) {
+        toast.error(result.error);
+        return;
+      }
+      const organization = String(formData.get("organization") || "") || null;
+      setConversations((prev) =>
+        prev.map((c) =>
+          c.id === selectedId
+            ? {
+                ...c,
+                lead_id: result.lead_id,
+                assigned_rep_id: result.assigned_rep_id,
+                lead: { id: result.lead_id, name: customerName, organization },
+              }
+            : c
+        )
+      );
+      setIsCreateLeadOpen(false);
+      toast.success(`Lead ${result.lead_code} created and linked`);
+      router.refresh();
+    } finally {
+      setIsCreatingLead(false);
+    }
+  };
+
   const handleClearInbox = async () => {
     const ok = window.confirm("This will delete all WhatsApp conversations and messages. Continue?");
     if (!ok) return;
@@ -215,6 +682,15 @@ export default function InboxClient({ initialConversations }: InboxClientProps)
               >
                 <Trash2 className="h-4 w-4" />
               </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-9 w-9 text-[#54656f] hover:text-[#111b21]"
+                onClick={() => setIsMessageSearchOpen(true)}
+                aria-label="Search messages"
+              >
+                <FileSearch className="h-4 w-4" />
+              </Button>
               <Button variant="ghost" size="icon" className="h-9 w-9 text-[#54656f] hover:text-[#111b21]">
                 <Phone className="h-4 w-4" />
               </Button>
@@ -230,8 +706,28 @@ export default function InboxClient({ initialConversations }: InboxClientProps)
               className="pl-9 rounded-full bg-white border-[#d1d7db] focus-visible:ring-0"
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
+              onKeyDown={(e) => {
+                // Enter searches the message history, not just chat names
+                if (e.key === "Enter" && searchQuery.trim().length >= 2) setIsMessageSearchOpen(true);
+              }}
             />
           </div>
+          <div className="mt-2 flex gap-1">
+            {(Object.keys(ASSIGNMENT_FILTER_LABELS) as AssignmentFilter[]).map((filter) => (
+              <button
+                key={filter}
+                type="button"
+                onClick={() => setAssignmentFilter(filter)}
+                className={`rounded-full px-3 py-1 text-xs font-medium transition-colors ${
+                  assignmentFilter === filter
+                    ? "bg-[#d9fdd3] text-[#008069]"
+                    : "bg-white text-[#54656f] hover:bg-[#e9edef]"
+                }`}
+              >
+                {ASSIGNMENT_FILTER_LABELS[filter]}
+              </button>
+            ))}
+          </div>
         </div>
 
         <div className="flex-1 overflow-y-auto bg-white">
@@ -262,6 +758,11 @@ export default function InboxClient({ initialConversations }: InboxClientProps)
                   <div className="text-sm text-[#667781] truncate w-full">
                     {preview || conv.phone}
                   </div>
+                  {conv.assigned_rep_id && (
+                    <span className="shrink-0 text-[10px] text-[#667781]">
+                      {conv.assigned_rep_id === currentUserId ? "You" : staffNames.get(conv.assigned_rep_id) || ""}
+                    </span>
+                  )}
                   {conv.unread_count > 0 && (
                     <Badge
                       variant="destructive"
@@ -320,6 +821,23 @@ export default function InboxClient({ initialConversations }: InboxClientProps)
                 </div>
               </div>
               <div className="flex gap-2">
+                <Select
+                  value={selectedConversation.assigned_rep_id || UNASSIGNED}
+                  onValueChange={handleAssign}
+                  disabled={isAssigning}
+                >
+                  <SelectTrigger className="h-9 w-[150px] bg-white text-xs" aria-label="Assign chat">
+                    <SelectValue placeholder="Unassigned" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                    {staff.map((member) => (
+                      <SelectItem key={member.user_id} value={member.user_id}>
+                        {member.user_id === currentUserId ? `${member.name} (me)` : member.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
                 <Button
                   type="button"
                   variant="outline"
@@ -330,6 +848,17 @@ export default function InboxClient({ initialConversations }: InboxClientProps)
                 >
                   {isDetecting ? "Detecting..." : "Detect Chat"}
                 </Button>
+                {!selectedConversation.lead_id && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    className="h-9"
+                    onClick={() => setIsCreateLeadOpen(true)}
+                  >
+                    Create Lead
+                  </Button>
+                )}
                 <Button variant="ghost" size="icon" className="hidden sm:inline-flex text-[#54656f] hover:text-[#111b21]">
                   <Phone className="h-4 w-4" />
                 </Button>
@@ -346,34 +875,105 @@ export default function InboxClient({ initialConversations }: InboxClientProps)
                 <div className="flex justify-center items-center h-full">
                   <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" />
                 </div>
-              ) : messages.length === 0 ? (
+              ) : threadItems.length === 0 ? (
                 <div className="flex flex-col items-center justify-center h-full text-[#667781]">
                   <p>No messages yet</p>
                   <p className="text-sm">Start the conversation below</p>
                 </div>
               ) : (
-                messages.map((msg) => {
+                threadItems.map((item) => {
+                  if (item.type === "note") {
+                    const note = item.note;
+                    if (note.kind === "assignment") {
+                      return (
+                        <div key={`note-${note.id}`} className="flex justify-center">
+                          <span className="rounded-md bg-white/80 px-3 py-1 text-[11px] text-[#54656f] shadow-sm">
+                            {note.body} · {formatTime(note.created_at)}
+                          </span>
+                        </div>
+                      );
+                    }
+                    return (
+                      <div key={`note-${note.id}`} className="flex justify-center">
+                        <div className="w-full max-w-[86%] md:max-w-[70%] rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 shadow-sm">
+                          <div className="mb-0.5 flex items-center justify-between gap-2 text-[10px] uppercase tracking-wide text-amber-800">
+                            <span className="flex items-center gap-1">
+                              <StickyNote className="h-3 w-3" />
+                              Internal note · {note.author_name || "Staff"}
+                            </span>
+                            {note.author_user_id === currentUserId && (
+                              <button
+                                type="button"
+                                className="normal-case text-[11px] text-amber-800 hover:underline"
+                                onClick={() => handleDeleteNote(note.id)}
+                              >
+                                Delete
+                              </button>
+                            )}
+                          </div>
+                          <p className="text-sm whitespace-pre-wrap text-[#111b21]">{note.body}</p>
+                          <div className="text-[10px] mt-1 text-right text-[#667781]">{formatTime(note.created_at)}</div>
+                        </div>
+                      </div>
+                    );
+                  }
+                  const msg = item.message;
                   const isMe = msg.direction === "outbound";
                   return (
-                    <div key={msg.id} className={`flex ${isMe ? "justify-end" : "justify-start"}`}>
+                    <div key={msg.id} id={`wa-message-${msg.id}`} className={`flex ${isMe ? "justify-end" : "justify-start"}`}>
                       <div
-                        className={`max-w-[86%] md:max-w-[70%] rounded-lg px-3 py-2 shadow-sm ${
+                        className={`max-w-[86%] md:max-w-[70%] rounded-lg px-3 py-2 shadow-sm transition-shadow ${
+                          focusMessageId === msg.id ? "ring-2 ring-amber-400" : ""
+                        } ${
                           isMe
                             ? "bg-[#d9fdd3] text-[#111b21] rounded-tr-none"
                             : "bg-white text-[#111b21] border border-[#e9edef] rounded-tl-none"
                         }`}
                       >
-                        <p className="text-sm whitespace-pre-wrap">{msg.text}</p>
+                        {(msg.media_path || msg.media_url || (msg.message_type && msg.message_type !== "text")) && (
+                          <div className="mb-1">
+                            <MessageMedia msg={msg} />
+                          </div>
+                        )}
+                        {msg.message_type === "template" && (
+                          <p className="mb-0.5 flex items-center gap-1 text-[10px] uppercase tracking-wide text-[#667781]">
+                            <LayoutTemplate className="h-3 w-3" />
+                            {msg.template_name || "Template"}
+                          </p>
+                        )}
+                        {msg.text && <p className="text-sm whitespace-pre-wrap">{msg.text}</p>}
+                        {(msg.media_path || msg.media_url) && selectedConversation.lead_id && (
+                          <button
+                            type="button"
+                            className="mt-1 text-[11px] font-medium text-[#027eb5] hover:underline disabled:opacity-50"
+                            onClick={() => handleAttachToLead(msg.id)}
+                            disabled={attachingId === msg.id}
+                          >
+                            {attachingId === msg.id ? "Attaching..." : "Attach to lead"}
+                          </button>
+                        )}
                         <div
                           className="text-[10px] mt-1 text-right text-[#667781]"
                         >
                           {formatTime(msg.created_at)}
-                          {isMe && (
-                            <span className={`ml-1 ${msg.status === "read" ? "text-[#53bdeb]" : ""}`}>
-                              {msg.status === "delivered" || msg.status === "read" ? "✓✓" : "✓"}
-                            </span>
-                          )}
+                          {isMe && <MessageStatusTicks msg={msg} />}
                         </div>
+                        {isMe && msg.status === "failed" && (
+                          <div className="mt-1 flex items-start justify-between gap-2 border-t border-red-200 pt-1">
+                            <span className="text-[11px] text-red-700">
+                              {msg.error || "Not delivered"}
+                              {msg.error_code ? ` (${msg.error_code})` : ""}
+                            </span>
+                            <button
+                              type="button"
+                              className="shrink-0 text-[11px] font-medium text-[#027eb5] hover:underline disabled:opacity-50"
+                              onClick={() => handleRetry(msg.id)}
+                              disabled={retryingId === msg.id}
+                            >
+                              {retryingId === msg.id ? "Retrying..." : "Retry"}
+                            </button>
+                          </div>
+                        )}
                       </div>
                     </div>
                   );
@@ -383,24 +983,198 @@ export default function InboxClient({ initialConversations }: InboxClientProps)
             </div>
 
             <div className="px-4 py-3 border-t border-[#d1d7db] bg-[#f0f2f5]">
-              <form onSubmit={handleSendMessage} className="flex gap-2 items-end">
+              <div className="mb-2 flex gap-1">
+                {(["reply", "note"] as const).map((mode) => (
+                  <button
+                    key={mode}
+                    type="button"
+                    onClick={() => setComposerMode(mode)}
+                    className={`rounded-md px-2.5 py-1 text-xs font-medium transition-colors ${
+                      composerMode === mode
+                        ? mode === "note"
+                          ? "bg-amber-100 text-amber-900"
+                          : "bg-white text-[#111b21] shadow-sm"
+                        : "text-[#54656f] hover:bg-[#e9edef]"
+                    }`}
+                  >
+                    {mode === "note" ? "Internal note" : "Reply"}
+                  </button>
+                ))}
+                <Link href="/snippets" className="ml-auto self-center text-xs text-[#54656f] hover:underline">
+                  Snippets
+                </Link>
+              </div>
+              {composerMode === "note" ? (
+                <form onSubmit={handleAddNote} className="relative flex gap-2 items-end">
+                  {mentionSuggestions.length > 0 && (
+                    <div className="absolute bottom-full left-0 z-10 mb-1 w-64 overflow-hidden rounded-md border border-[#d1d7db] bg-white shadow-md">
+                      {mentionSuggestions.map((member) => (
+                        <button
+                          key={member.user_id}
+                          type="button"
+                          className="block w-full px-3 py-1.5 text-left text-sm hover:bg-[#f5f6f6]"
+                          onClick={() => handlePickMention(member)}
+                        >
+                          {member.name}
+                          <span className="ml-2 text-xs text-[#667781]">{member.role}</span>
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  <SnippetSuggestions snippets={snippetSuggestions} onPick={handlePickSnippet} />
+                  <Textarea
+                    value={noteText}
+                    onChange={(e) => setNoteText(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (snippetSuggestions.length > 0 && (e.key === "Enter" || e.key === "Tab")) {
+                        e.preventDefault();
+                        void handlePickSnippet(snippetSuggestions[0]);
+                        return;
+                      }
+                      if (e.key === "Enter" && !e.shiftKey && mentionSuggestions.length === 0) {
+                        e.preventDefault();
+                        void handleAddNote(e as unknown as React.FormEvent);
+                      }
+                    }}
+                    placeholder="Internal note, only staff can see this. Type @ to mention, / for snippets"
+                    className="flex-1 min-h-[42px] max-h-[120px] resize-none rounded-2xl bg-amber-50 px-4 py-3 text-sm border border-amber-200 focus-visible:ring-0 focus-visible:ring-offset-0"
+                    rows={1}
+                  />
+                  <Button
+                    type="submit"
+                    size="icon"
+                    disabled={!noteText.trim() || isSending}
+                    className="mb-0.5 bg-amber-500 hover:bg-amber-600 text-white"
+                    aria-label="Add note"
+                  >
+                    <StickyNote className="h-4 w-4" />
+                  </Button>
+                </form>
+              ) : showTemplateComposer ? (
+                <div className="space-y-2">
+                  {!windowOpen && (
+                    <div className="flex items-center gap-2 rounded-md border border-amber-200 bg-amber-50 px-3 py-1.5 text-xs text-amber-800">
+                      <Clock className="h-3.5 w-3.5 shrink-0" />
+                      The 24-hour window has closed. Send an approved template to reopen the conversation.
+                    </div>
+                  )}
+                  <div className="flex gap-2 items-center">
+                    <Select value={templateId} onValueChange={setTemplateId}>
+                      <SelectTrigger className="flex-1 bg-white">
+                        <SelectValue placeholder={templates.length ? "Choose a template" : "No templates configured"} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {templates.map((t) => (
+                          <SelectItem key={t.id} value={t.id}>
+                            {t.name} ({t.language})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {windowOpen && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="text-[#54656f] hover:text-[#111b21]"
+                        onClick={() => {
+                          setUseTemplate(false);
+                          setTemplateId("");
+                        }}
+                        aria-label="Back to message"
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    )}
+                    <Button
+                      type="button"
+                      onClick={handleSendTemplate}
+                      disabled={!templateId || !templatePreview || isSending}
+                      className="bg-[#00a884] hover:bg-[#029c7c] text-white"
+                    >
+                      <Send className="mr-2 h-4 w-4" />
+                      Send template
+                    </Button>
+                  </div>
+                  {templatePreview && (
+                    <div className="rounded-md border border-[#d1d7db] bg-white px-3 py-2 text-sm whitespace-pre-wrap">
+                      {templatePreview}
+                    </div>
+                  )}
+                </div>
+              ) : (
+              <>
+              {pendingFile && (
+                <div className="mb-2 flex items-center gap-2 rounded-md border border-[#d1d7db] bg-white px-3 py-1.5 text-sm">
+                  <Paperclip className="h-4 w-4 shrink-0 text-[#54656f]" />
+                  <span className="flex-1 truncate">{pendingFile.name}</span>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    onClick={() => setPendingFile(null)}
+                    aria-label="Remove attachment"
+                  >
+                    <X className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              )}
+              <form onSubmit={handleSendMessage} className="relative flex gap-2 items-end">
+                <SnippetSuggestions snippets={snippetSuggestions} onPick={handlePickSnippet} />
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept="image/jpeg,image/png,application/pdf,audio/*,video/mp4,video/3gpp,.doc,.docx,.xls,.xlsx,.ppt,.pptx,.txt"
+                  className="hidden"
+                  onChange={(e) => {
+                    setPendingFile(e.target.files?.[0] ?? null);
+                    e.target.value = "";
+                  }}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="mb-0.5 text-[#54656f] hover:text-[#111b21]"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={isSending}
+                  aria-label="Attach file"
+                >
+                  <Paperclip className="h-4 w-4" />
+                </Button>
+                {templates.length > 0 && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="mb-0.5 text-[#54656f] hover:text-[#111b21]"
+                    onClick={() => setUseTemplate(true)}
+                    disabled={isSending}
+                    aria-label="Use template"
+                  >
+                    <LayoutTemplate className="h-4 w-4" />
+                  </Button>
+                )}
                 <Textarea
                   value={newMessage}
                   onChange={(e) => setNewMessage(e.target.value)}
                   onKeyDown={handleKeyDown}
-                  placeholder="Message"
+                  placeholder={pendingFile ? "Add a caption" : "Message, type / for snippets"}
                   className="flex-1 min-h-[42px] max-h-[120px] resize-none rounded-full bg-white px-4 py-3 text-sm border border-[#d1d7db] focus-visible:ring-0 focus-visible:ring-offset-0"
                   rows={1}
                 />
                 <Button
                   type="submit"
                   size="icon"
-                  disabled={!newMessage.trim() || isSending}
+                  disabled={(!newMessage.trim() && !pendingFile) || isSending}
                   className="mb-0.5 bg-[#00a884] hover:bg-[#029c7c] text-white"
                 >
                   <Send className="h-4 w-4" />
                 </Button>
               </form>
+              </>
+              )}
             </div>
           </>
         ) : (
@@ -413,6 +1187,66 @@ export default function InboxClient({ initialConversations }: InboxClientProps)
           </div>
         )}
       </div>
+
+      <MessageSearchDialog
+        open={isMessageSearchOpen}
+        onOpenChange={setIsMessageSearchOpen}
+        initialQuery={searchQuery}
+        staff={staff}
+        conversations={conversations}
+        onOpenResult={handleOpenSearchResult}
+      />
+
+      <Dialog open={isCreateLeadOpen && !!selectedConversation} onOpenChange={setIsCreateLeadOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Create lead from chat</DialogTitle>
+          </DialogHeader>
+          {selectedConversation && (
+            <form key={selectedConversation.id} onSubmit={handleCreateLead} className="space-y-4">
+              <div className="space-y-1">
+                <Label htmlFor="create-lead-name">Customer name</Label>
+                <Input
+                  id="create-lead-name"
+                  name="customerName"
+                  defaultValue={selectedConversation.display_name || selectedConversation.custom_display_name || ""}
+                  required
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="create-lead-phone">Phone</Label>
+                <Input
+                  id="create-lead-phone"
+                  name="phone"
+                  defaultValue={selectedConversation.wa_id ? `+${selectedConversation.wa_id}` : selectedConversation.phone}
+                  required
+                />
+              </div>
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-1">
+                  <Label htmlFor="create-lead-email">Email (optional)</Label>
+                  <Input id="create-lead-email" name="email" type="email" />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="create-lead-organization">Organization (optional)</Label>
+                  <Input id="create-lead-organization" name="organization" />
+                </div>
+              </div>
+              <p className="text-xs text-[#667781]">
+                The customer&apos;s first messages become the lead&apos;s question. A rep is assigned automatically.
+              </p>
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setIsCreateLeadOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={isCreatingLead}>
+                  {isCreatingLead ? "Creating..." : "Create lead"}
+                </Button>
+              </DialogFooter>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -0,0 +1,197 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { InboxStaffMember, WhatsAppConversation, WhatsAppMessageSearchResult } from "@/types/inbox";
+import { searchMessagesAction } from "./actions";
+
+const ANY = "any";
+
+function HighlightedSnippet({ text }: { text: string }) {
+  // The search RPC wraps matched words in \u0002 ... \u0003
+  const parts = text.split(/(\u0002[^\u0003]*\u0003)/);
+  return (
+    <>
+      {parts.map((part, i) =>
+        part.startsWith("\u0002") ? (
+          <mark key={i} className="rounded-sm bg-yellow-200 px-0.5 text-inherit">
+            {part.slice(1, -1)}
+          </mark>
+        ) : (
+          <span key={i}>{part}</span>
+        )
+      )}
+    </>
+  );
+}
+
+function formatResultDate(value: string): string {
+  const d = new Date(value);
+  if (Number.isNaN(d.getTime())) return "";
+  return new Intl.DateTimeFormat("en-ZA", { dateStyle: "medium", timeStyle: "short" }).format(d);
+}
+
+interface MessageSearchDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  initialQuery: string;
+  staff: InboxStaffMember[];
+  conversations: WhatsAppConversation[];
+  onOpenResult: (result: WhatsAppMessageSearchResult) => void;
+}
+
+export function MessageSearchDialog({
+  open,
+  onOpenChange,
+  initialQuery,
+  staff,
+  conversations,
+  onOpenResult,
+}: MessageSearchDialogProps) {
+  const [query, setQuery] = useState(initialQuery);
+  const [repId, setRepId] = useState(ANY);
+  const [leadId, setLeadId] = useState(ANY);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [results, setResults] = useState<WhatsAppMessageSearchResult[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+
+  useEffect(() => {
+    if (open && initialQuery.trim()) setQuery(initialQuery);
+  }, [open, initialQuery]);
+
+  // Only leads that have a conversation can have messages
+  const leadOptions = Array.from(
+    new Map(
+      conversations
+        .filter((c) => c.lead_id && c.lead)
+        .map((c) => [c.lead_id as string, c.lead?.name || c.custom_display_name || c.display_name || c.phone])
+    ).entries()
+  ).sort((a, b) => a[1].localeCompare(b[1]));
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSearching(true);
+    try {
+      const result = await searchMessagesAction({
+        query,
+        repId: repId === ANY ? undefined : repId,
+        leadId: leadId === ANY ? undefined : leadId,
+        from: from || undefined,
+        to: to || undefined,
+      });
+      if ("error" in result) {
+        toast.error(result.error);
+        return;
+      }
+      setResults(result.results);
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Search messages</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSearch} className="space-y-3">
+          <div className="flex gap-2">
+            <Input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder='navy hoodies, "size chart", invoice -quote'
+              autoFocus
+            />
+            <Button type="submit" disabled={isSearching || query.trim().length < 2}>
+              <Search className="mr-2 h-4 w-4" />
+              {isSearching ? "Searching..." : "Search"}
+            </Button>
+          </div>
+          <div className="grid gap-3 sm:grid-cols-4">
+            <div className="space-y-1">
+              <Label className="text-xs">Rep</Label>
+              <Select value={repId} onValueChange={setRepId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any rep</SelectItem>
+                  {staff.map((member) => (
+                    <SelectItem key={member.user_id} value={member.user_id}>
+                      {member.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Lead</Label>
+              <Select value={leadId} onValueChange={setLeadId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any lead</SelectItem>
+                  {leadOptions.map(([id, name]) => (
+                    <SelectItem key={id} value={id}>
+                      {name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="message-search-from" className="text-xs">
+                From
+              </Label>
+              <Input id="message-search-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="message-search-to" className="text-xs">
+                To
+              </Label>
+              <Input id="message-search-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+            </div>
+          </div>
+        </form>
+
+        {results !== null && (
+          <div className="max-h-[50vh] overflow-y-auto rounded-md border border-border">
+            {results.length === 0 ? (
+              <p className="p-4 text-center text-sm text-muted-foreground">No messages found.</p>
+            ) : (
+              results.map((result) => (
+                <button
+                  key={result.message_id}
+                  type="button"
+                  onClick={() => onOpenResult(result)}
+                  className="block w-full border-b border-border px-3 py-2 text-left last:border-b-0 hover:bg-muted"
+                >
+                  <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                    <span className="truncate font-medium text-foreground">
+                      {result.conversation_name}
+                      {result.lead_name && result.lead_name !== result.conversation_name ? ` · ${result.lead_name}` : ""}
+                    </span>
+                    <span className="shrink-0">{formatResultDate(result.created_at)}</span>
+                  </div>
+                  <p className="mt-0.5 line-clamp-2 text-sm">
+                    <span className="text-muted-foreground">{result.direction === "outbound" ? "You: " : ""}</span>
+                    <HighlightedSnippet text={result.snippet} />
+                  </p>
+                </button>
+              ))
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
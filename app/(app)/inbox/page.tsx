@@ -1,19 +1,39 @@
-import { getConversations } from "./actions";
+import { getConversations, getInboxStaff, getTemplates } from "./actions";
 import InboxClient from "./inbox-client";
 import { Metadata } from "next";
 import { PageHeader } from "@/components/page-header";
+import { getViewer } from "@/lib/viewer";
+import { getSnippets } from "@/lib/snippets";
 
 export const metadata: Metadata = {
   title: "RecklessBear WhatsApp | RecklessBear Admin",
 };
 
-export default async function InboxPage() {
-  const conversations = await getConversations();
+export default async function InboxPage({
+  searchParams,
+}: {
+  searchParams?: Promise<{ conversation?: string }>;
+}) {
+  const params = await searchParams;
+  const [{ user }, conversations, templates, staff, snippets] = await Promise.all([
+    getViewer(),
+    getConversations(),
+    getTemplates(),
+    getInboxStaff(),
+    getViewer().then(({ supabase }) => getSnippets(supabase)),
+  ]);
 
   return (
     <div className="space-y-6">
       <PageHeader title="RecklessBear WhatsApp" subtitle="WhatsApp inbox" />
-      <InboxClient initialConversations={conversations} />
+      <InboxClient
+        initialConversations={conversations}
+        templates={templates}
+        snippets={snippets}
+        staff={staff}
+        currentUserId={user?.id ?? null}
+        initialSelectedId={params?.conversation ?? null}
+      />
     </div>
   );
 }
@@ -0,0 +1,35 @@
+"use client";
+
+import { useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { cancelJobAction } from "../actions";
+
+export function CancelJobClient(props: { jobId: string; activeReservationCount: number }) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+
+  function onCancel() {
+    const note = props.activeReservationCount > 0 ? " Reserved stock will be released." : "";
+    if (!confirm(`Cancel this job?${note}`)) return;
+
+    const formData = new FormData();
+    formData.set("jobId", props.jobId);
+    startTransition(async () => {
+      const result = await cancelJobAction(formData);
+      if (result?.error) {
+        toast.error(result.error);
+        return;
+      }
+      toast.success("Job cancelled");
+      router.refresh();
+    });
+  }
+
+  return (
+    <Button variant="destructive" size="sm" className="w-full" onClick={onCancel} disabled={isPending}>
+      {isPending ? "Cancelling..." : "Cancel Job"}
+    </Button>
+  );
+}
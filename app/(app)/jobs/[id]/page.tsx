@@ -1,7 +1,16 @@
+import { getAdminSupabase } from "@/lib/supabase/admin";
 import { createClient } from "@/lib/supabase/server";
+import { getJobPaymentBalance } from "@/lib/payments";
+import type { JobInvoice, JobPayment } from "@/types/payments";
+import type { StockReservation } from "@/types/stock";
+import { PaymentStatusChip } from "@/components/payment-status-chip";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { PageHeader } from "@/components/page-header";
 import { JobStockActionsClient } from "./stock-actions-client";
+import { JobPaymentsClient } from "./payments-client";
+import { CancelJobClient } from "./cancel-job-client";
+import { TasksPanel } from "@/components/tasks-panel";
+import { getTasks } from "@/lib/tasks";
 
 export const dynamic = "force-dynamic";
 
@@ -12,6 +21,7 @@ type JobRow = {
   production_stage: string | null;
   invoice_number: string | null;
   payment_status: string | null;
+  cancelled_at: string | null;
   order_deadline: string | null;
   order_quantity: number | null;
   product_list: Array<{ product_type?: string; product_name?: string; size?: string | null; quantity?: number }> | null;
@@ -60,7 +70,7 @@ export default async function JobDetailPage({ params }: { params: Promise<{ id:
 
   const { data: lead } = await supabase
     .from("leads")
-    .select("lead_id, customer_name, name, organization")
+    .select("id, lead_id, customer_name, name, organization, current_quote_id, assigned_rep_id")
     .eq("id", jobRow.lead_id)
     .single();
 
@@ -84,6 +94,47 @@ export default async function JobDetailPage({ params }: { params: Promise<{ id:
     lineItems = (li || []) as unknown as DeductionLineItem[];
   }
 
+  const [{ data: invoiceRows }, { data: paymentRows }, balance] = await Promise.all([
+    supabase.from("job_invoices").select("*").eq("job_id", jobRow.id).order("issued_at", { ascending: true }),
+    supabase.from("job_payments").select("*").eq("job_id", jobRow.id).order("paid_at", { ascending: true }),
+    getJobPaymentBalance(supabase, jobRow.id),
+  ]);
+
+  const invoices = (invoiceRows || []) as JobInvoice[];
+  let payments = (paymentRows || []) as JobPayment[];
+
+  // Proof uploads live in a private bucket; sign short-lived links for display
+  const proofPaths = payments.map((p) => p.proof_path).filter((p): p is string => !!p);
+  const admin = proofPaths.length > 0 ? getAdminSupabase() : null;
+  if (admin) {
+    const { data: signed } = await admin.storage.from("payment-proofs").createSignedUrls(proofPaths, 60 * 60);
+    const urlByPath = new Map((signed || []).map((s) => [s.path, s.signedUrl]));
+    payments = payments.map((p) => ({ ...p, proof_url: p.proof_path ? urlByPath.get(p.proof_path) || null : null }));
+  }
+
+  let suggestedInvoiceAmount: number | null = null;
+  if (lead?.current_quote_id) {
+    const { data: quote } = await supabase.from("quotes").select("total").eq("id", lead.current_quote_id).maybeSingle();
+    if (quote) suggestedInvoiceAmount = Number(quote.total);
+  }
+
+  const { data: reservationRows } = await supabase
+    .from("stock_reservations")
+    .select("*, material:materials_inventory(name, unit)")
+    .eq("job_id", jobRow.id)
+    .eq("status", "active")
+    .order("created_at", { ascending: true });
+  const reservations = (reservationRows || []) as unknown as StockReservation[];
+
+  const [tasks, { data: staffRows }] = await Promise.all([
+    getTasks(supabase, { jobId: jobRow.id }),
+    supabase.from("profiles").select("user_id, full_name, email").order("full_name", { ascending: true }),
+  ]);
+  const staff = (staffRows || []).map((p) => ({
+    id: p.user_id as string,
+    name: (p.full_name || p.email || "Unknown") as string,
+  }));
+
   const displayName = lead?.organization || lead?.customer_name || lead?.name || lead?.lead_id || jobRow.lead_id;
   const leadCode = lead?.lead_id || jobRow.id.substring(0, 8);
 
@@ -119,11 +170,41 @@ export default async function JobDetailPage({ params }: { params: Promise<{ id:
             </CardContent>
           </Card>
 
+          <Card>
+            <CardHeader>
+              <CardTitle>Payments</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <JobPaymentsClient
+                jobId={jobRow.id}
+                isAdmin={isAdmin}
+                invoices={invoices}
+                payments={payments}
+                balance={balance}
+                suggestedInvoiceAmount={suggestedInvoiceAmount}
+                suggestedQuoteId={lead?.current_quote_id || null}
+              />
+            </CardContent>
+          </Card>
+
           <Card>
             <CardHeader>
               <CardTitle>Stock</CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
+              {reservations.length > 0 && (
+                <div className="space-y-2">
+                  <p className="text-sm font-medium">Reserved materials</p>
+                  {reservations.map((r) => (
+                    <div key={r.id} className="flex justify-between gap-3 text-sm">
+                      <span>{r.material?.name || r.material_id.substring(0, 8)}</span>
+                      <span className="tabular-nums text-muted-foreground">
+                        {Number(r.qty)} {r.material?.unit || ""}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
               <JobStockActionsClient
                 jobId={jobRow.id}
                 isAdmin={isAdmin}
@@ -151,7 +232,7 @@ export default async function JobDetailPage({ params }: { params: Promise<{ id:
               </div>
               <div className="flex justify-between gap-2">
                 <span className="text-muted-foreground">Payment</span>
-                <span className="font-medium">{jobRow.payment_status || "—"}</span>
+                {jobRow.payment_status ? <PaymentStatusChip status={jobRow.payment_status} /> : <span className="font-medium">—</span>}
               </div>
               <div className="flex justify-between gap-2">
                 <span className="text-muted-foreground">Order Qty</span>
@@ -161,11 +242,39 @@ export default async function JobDetailPage({ params }: { params: Promise<{ id:
                 <span className="text-muted-foreground">Deadline</span>
                 <span className="font-medium">{jobRow.order_deadline ? new Date(jobRow.order_deadline).toLocaleDateString() : "—"}</span>
               </div>
+              {jobRow.cancelled_at && (
+                <div className="flex justify-between gap-2">
+                  <span className="text-muted-foreground">Cancelled</span>
+                  <span className="font-medium text-destructive">{new Date(jobRow.cancelled_at).toLocaleDateString()}</span>
+                </div>
+              )}
               {jobRow.trello_card_url && (
                 <a href={jobRow.trello_card_url} target="_blank" rel="noreferrer" className="text-sm font-medium underline underline-offset-4">
                   Open Trello Card
                 </a>
               )}
+              {isAdmin && !jobRow.cancelled_at && (
+                <div className="pt-2">
+                  <CancelJobClient jobId={jobRow.id} activeReservationCount={reservations.length} />
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Tasks</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <TasksPanel
+                tasks={tasks}
+                staff={staff}
+                currentUserId={user.id}
+                isAdmin={isAdmin}
+                leadDbId={lead?.id ?? undefined}
+                jobId={jobRow.id}
+                defaultAssigneeId={lead?.assigned_rep_id ?? user.id}
+              />
             </CardContent>
           </Card>
         </div>
@@ -0,0 +1,339 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { formatMoney } from "@/lib/quotes";
+import {
+  JOB_PAYMENT_KIND_LABELS,
+  JOB_PAYMENT_METHOD_LABELS,
+  type JobInvoice,
+  type JobPayment,
+  type JobPaymentBalance,
+} from "@/types/payments";
+import {
+  createJobInvoiceAction,
+  deleteJobPaymentAction,
+  recordJobPaymentAction,
+  voidJobInvoiceAction,
+} from "../payment-actions";
+
+export function JobPaymentsClient(props: {
+  jobId: string;
+  isAdmin: boolean;
+  invoices: JobInvoice[];
+  payments: JobPayment[];
+  balance: JobPaymentBalance | null;
+  suggestedInvoiceAmount: number | null;
+  suggestedQuoteId: string | null;
+}) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [isInvoiceOpen, setIsInvoiceOpen] = useState(false);
+  const [isPaymentOpen, setIsPaymentOpen] = useState(false);
+  const [paymentToDelete, setPaymentToDelete] = useState<JobPayment | null>(null);
+
+  const openInvoices = props.invoices.filter((inv) => inv.status === "open");
+  const invoiced = Number(props.balance?.invoiced_total ?? 0);
+  const paid = Number(props.balance?.paid_total ?? 0);
+  const balance = Number(props.balance?.balance ?? 0);
+
+  function run(action: (formData: FormData) => Promise<{ error?: string } | undefined>, formData: FormData, message: string, onDone?: () => void) {
+    startTransition(async () => {
+      const result = await action(formData);
+      if (result?.error) {
+        toast.error(result.error);
+        return;
+      }
+      toast.success(message);
+      onDone?.();
+      router.refresh();
+    });
+  }
+
+  function onVoidInvoice(invoice: JobInvoice) {
+    if (!confirm(`Void invoice ${invoice.invoice_number || formatMoney(invoice.amount)}?`)) return;
+    const formData = new FormData();
+    formData.set("jobId", props.jobId);
+    formData.set("invoiceId", invoice.id);
+    run(voidJobInvoiceAction, formData, "Invoice voided");
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-3">
+        <div className="rounded-md border p-3">
+          <p className="text-xs text-muted-foreground">Invoiced</p>
+          <p className="font-semibold tabular-nums">{formatMoney(invoiced)}</p>
+        </div>
+        <div className="rounded-md border p-3">
+          <p className="text-xs text-muted-foreground">Paid</p>
+          <p className="font-semibold tabular-nums">{formatMoney(paid)}</p>
+        </div>
+        <div className="rounded-md border p-3">
+          <p className="text-xs text-muted-foreground">Balance</p>
+          <p className={`font-semibold tabular-nums ${balance > 0 ? "text-destructive" : ""}`}>{formatMoney(balance)}</p>
+        </div>
+      </div>
+
+      {props.isAdmin && (
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" onClick={() => setIsInvoiceOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Invoice
+          </Button>
+          <Button size="sm" onClick={() => setIsPaymentOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Record Payment
+          </Button>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium">Invoices</p>
+        {props.invoices.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No invoices yet.</p>
+        ) : (
+          props.invoices.map((inv) => (
+            <div key={inv.id} className="flex items-start justify-between gap-3 border-b pb-2 last:border-0 last:pb-0 text-sm">
+              <div>
+                <p className={`font-medium ${inv.status === "void" ? "line-through text-muted-foreground" : ""}`}>
+                  {inv.invoice_number || "Invoice"}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Issued {new Date(inv.issued_at).toLocaleDateString()}
+                  {inv.due_date ? ` · Due ${new Date(inv.due_date).toLocaleDateString()}` : ""}
+                  {inv.status === "void" ? " · Void" : ""}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="tabular-nums font-medium">{formatMoney(inv.amount)}</span>
+                {props.isAdmin && inv.status === "open" && (
+                  <Button variant="ghost" size="sm" disabled={isPending} onClick={() => onVoidInvoice(inv)}>
+                    Void
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium">Payments</p>
+        {props.payments.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No payments recorded.</p>
+        ) : (
+          props.payments.map((p) => (
+            <div key={p.id} className="flex items-start justify-between gap-3 border-b pb-2 last:border-0 last:pb-0 text-sm">
+              <div>
+                <p className="font-medium">
+                  {JOB_PAYMENT_KIND_LABELS[p.kind] || p.kind} · {JOB_PAYMENT_METHOD_LABELS[p.method] || p.method}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {new Date(p.paid_at).toLocaleDateString()}
+                  {p.reference ? ` · Ref ${p.reference}` : ""}
+                </p>
+                {p.proof_url && (
+                  <a href={p.proof_url} target="_blank" rel="noreferrer" className="text-xs underline underline-offset-4">
+                    View proof
+                  </a>
+                )}
+              </div>
+              <div className="flex items-center gap-2">
+                <span className={`tabular-nums font-medium ${p.kind === "refund" ? "text-destructive" : ""}`}>
+                  {p.kind === "refund" ? "-" : ""}
+                  {formatMoney(p.amount)}
+                </span>
+                {props.isAdmin && (
+                  <Button variant="ghost" size="sm" disabled={isPending} onClick={() => setPaymentToDelete(p)}>
+                    Delete
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      <Dialog open={isInvoiceOpen} onOpenChange={setIsInvoiceOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Invoice</DialogTitle>
+          </DialogHeader>
+          <form
+            action={(formData) => run(createJobInvoiceAction, formData, "Invoice added", () => setIsInvoiceOpen(false))}
+            className="space-y-4"
+          >
+            <input type="hidden" name="jobId" value={props.jobId} />
+            {props.suggestedQuoteId && <input type="hidden" name="quoteId" value={props.suggestedQuoteId} />}
+            <div className="grid gap-2">
+              <Label htmlFor="invoiceNumber">Invoice Number</Label>
+              <Input id="invoiceNumber" name="invoiceNumber" placeholder="e.g. INV-1042" />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="invoiceAmount">Amount (incl. VAT)</Label>
+              <Input
+                id="invoiceAmount"
+                name="amount"
+                type="number"
+                step="0.01"
+                min="0"
+                required
+                defaultValue={props.suggestedInvoiceAmount != null ? String(props.suggestedInvoiceAmount) : ""}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="grid gap-2">
+                <Label htmlFor="issuedAt">Issued</Label>
+                <Input id="issuedAt" name="issuedAt" type="date" defaultValue={new Date().toISOString().slice(0, 10)} />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="dueDate">Due (optional)</Label>
+                <Input id="dueDate" name="dueDate" type="date" />
+              </div>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="invoiceNotes">Notes (optional)</Label>
+              <Input id="invoiceNotes" name="notes" />
+            </div>
+            <Button type="submit" className="w-full" disabled={isPending}>
+              {isPending ? "Saving..." : "Save Invoice"}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={isPaymentOpen} onOpenChange={setIsPaymentOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Record Payment</DialogTitle>
+          </DialogHeader>
+          <form
+            action={(formData) => run(recordJobPaymentAction, formData, "Payment recorded", () => setIsPaymentOpen(false))}
+            className="space-y-4"
+          >
+            <input type="hidden" name="jobId" value={props.jobId} />
+            <div className="grid grid-cols-2 gap-3">
+              <div className="grid gap-2">
+                <Label htmlFor="kind">Type</Label>
+                <Select name="kind" defaultValue={paid > 0 ? "part_payment" : "deposit"}>
+                  <SelectTrigger id="kind">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(JOB_PAYMENT_KIND_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="method">Method</Label>
+                <Select name="method" defaultValue="eft">
+                  <SelectTrigger id="method">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(JOB_PAYMENT_METHOD_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            {openInvoices.length > 0 && (
+              <div className="grid gap-2">
+                <Label htmlFor="invoiceId">Invoice</Label>
+                <Select name="invoiceId" defaultValue={openInvoices[0].id}>
+                  <SelectTrigger id="invoiceId">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {openInvoices.map((inv) => (
+                      <SelectItem key={inv.id} value={inv.id}>
+                        {inv.invoice_number || "Invoice"} · {formatMoney(inv.amount)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="grid grid-cols-2 gap-3">
+              <div className="grid gap-2">
+                <Label htmlFor="paymentAmount">Amount</Label>
+                <Input
+                  id="paymentAmount"
+                  name="amount"
+                  type="number"
+                  step="0.01"
+                  min="0.01"
+                  required
+                  defaultValue={balance > 0 ? String(balance) : ""}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="paidAt">Paid On</Label>
+                <Input id="paidAt" name="paidAt" type="date" defaultValue={new Date().toISOString().slice(0, 10)} />
+              </div>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="reference">Reference (optional)</Label>
+              <Input id="reference" name="reference" placeholder="Bank reference" />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="proof">Proof of Payment (optional)</Label>
+              <Input id="proof" name="proof" type="file" accept="image/*,application/pdf" />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="paymentNotes">Notes (optional)</Label>
+              <Input id="paymentNotes" name="notes" />
+            </div>
+            <Button type="submit" className="w-full" disabled={isPending}>
+              {isPending ? "Saving..." : "Save Payment"}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!paymentToDelete} onOpenChange={(open) => !open && setPaymentToDelete(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Payment</DialogTitle>
+          </DialogHeader>
+          {paymentToDelete && (
+            <form
+              action={(formData) => run(deleteJobPaymentAction, formData, "Payment deleted", () => setPaymentToDelete(null))}
+              className="space-y-4"
+            >
+              <input type="hidden" name="jobId" value={props.jobId} />
+              <input type="hidden" name="paymentId" value={paymentToDelete.id} />
+              <p className="text-sm text-muted-foreground">
+                Delete the {JOB_PAYMENT_KIND_LABELS[paymentToDelete.kind].toLowerCase()} of {formatMoney(paymentToDelete.amount)}? The
+                payment status will be recalculated.
+              </p>
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setPaymentToDelete(null)}>
+                  Cancel
+                </Button>
+                <Button type="submit" variant="destructive" disabled={isPending}>
+                  {isPending ? "Deleting..." : "Delete"}
+                </Button>
+              </DialogFooter>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -3,6 +3,9 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { PageHeader } from "@/components/page-header";
 import { PrintReportClient } from "./print-report-client";
 import type { SupabaseClient } from "@supabase/supabase-js";
+import type { MaterialInventory } from "@/types/stock";
+import { formatMoney } from "@/lib/quotes";
+import { computeJobMargin, materialUnitCost } from "@/lib/stock-costing";
 
 export const dynamic = "force-dynamic";
 
@@ -24,10 +27,13 @@ type StockTransactionRow = {
   reference_id: string | null;
 };
 
+type MaterialCostRow = Pick<MaterialInventory, "name" | "unit" | "costing_method" | "average_cost" | "last_cost">;
+
 type Line = {
   material_id: string;
   delta_qty: number;
-  material: { name: string; unit: string } | null;
+  unit_cost: number | null;
+  material: MaterialCostRow | null;
 };
 
 function formatQty(n: number) {
@@ -95,7 +101,7 @@ export default async function JobStockReportPage({ params }: { params: Promise<{
 
   const { data: lead } = await supabase
     .from("leads")
-    .select("id, lead_id, customer_name, name, organization")
+    .select("id, lead_id, customer_name, name, organization, current_quote_id")
     .eq("id", jobRow.lead_id)
     .single();
 
@@ -113,15 +119,16 @@ export default async function JobStockReportPage({ params }: { params: Promise<{
   if (tx?.id) {
     const { data: li } = await supabase
       .from("stock_transaction_line_items")
-      .select("material_id, delta_qty, material:materials_inventory(name, unit)")
+      .select("material_id, delta_qty, unit_cost, material:materials_inventory(name, unit, costing_method, average_cost, last_cost)")
       .eq("transaction_id", tx.id);
-    transactionLineItems = ((li || []) as unknown as Array<{ material_id: string; delta_qty: number; material: { name: string; unit: string } | null }>).map(
-      (r) => ({
-        material_id: r.material_id,
-        delta_qty: Number(r.delta_qty),
-        material: r.material ?? null,
-      })
-    );
+    transactionLineItems = (
+      (li || []) as unknown as Array<{ material_id: string; delta_qty: number; unit_cost: number | null; material: MaterialCostRow | null }>
+    ).map((r) => ({
+      material_id: r.material_id,
+      delta_qty: Number(r.delta_qty),
+      unit_cost: r.unit_cost === null || r.unit_cost === undefined ? null : Number(r.unit_cost),
+      material: r.material ?? null,
+    }));
   }
 
   const missing: Array<{ product_type: string; size: string | null }> = [];
@@ -148,16 +155,17 @@ export default async function JobStockReportPage({ params }: { params: Promise<{
   const materialIds = Array.from(expectedTotals.keys());
   const { data: materials } = await supabase
     .from("materials_inventory")
-    .select("id, name, unit")
+    .select("id, name, unit, costing_method, average_cost, last_cost")
     .in("id", materialIds.length ? materialIds : ["00000000-0000-0000-0000-000000000000"]);
 
   const materialMap = new Map(
-    ((materials || []) as unknown as Array<{ id: string; name: string; unit: string }>).map((m) => [m.id, { name: m.name, unit: m.unit }])
+    ((materials || []) as unknown as Array<MaterialCostRow & { id: string }>).map((m) => [m.id, m as MaterialCostRow])
   );
   const expectedLines: Line[] = Array.from(expectedTotals.entries())
     .map(([material_id, delta_qty]) => ({
       material_id,
       delta_qty: Number(delta_qty),
+      unit_cost: null,
       material: materialMap.get(material_id) || null,
     }))
     .sort((a, b) => (a.material?.name || a.material_id).localeCompare(b.material?.name || b.material_id));
@@ -176,6 +184,22 @@ export default async function JobStockReportPage({ params }: { params: Promise<{
   const totalUnitsProduced = producedLines.reduce((acc, x) => acc + x.qty, 0);
   const totalMaterialsUsed = lines.reduce((acc, li) => acc + Math.abs(Number(li.delta_qty ?? 0)), 0);
 
+  // Applied deductions carry the unit cost snapshotted at deduction time; previews and legacy rows use today's cost
+  const costLines = lines.map((li) => {
+    const estimated = li.unit_cost === null;
+    const unitCost = estimated ? materialUnitCost(li.material) : Number(li.unit_cost);
+    return { ...li, estimated, unitCost, cost: Math.abs(li.delta_qty) * unitCost };
+  });
+  const totalCogs = costLines.reduce((acc, li) => acc + li.cost, 0);
+  const hasEstimatedCosts = costLines.some((li) => li.estimated);
+
+  let quote: { subtotal: number; discount_total: number } | null = null;
+  if (lead?.current_quote_id) {
+    const { data: q } = await supabase.from("quotes").select("subtotal, discount_total").eq("id", lead.current_quote_id).maybeSingle();
+    quote = (q as { subtotal: number; discount_total: number } | null) ?? null;
+  }
+  const margin = computeJobMargin(quote, totalCogs);
+
   return (
     <div className="space-y-6 print:space-y-4">
       <div className="flex items-start justify-between gap-3 print:hidden">
@@ -283,6 +307,51 @@ export default async function JobStockReportPage({ params }: { params: Promise<{
           )}
         </CardContent>
       </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Cost of Goods</CardTitle>
+        </CardHeader>
+        <CardContent className="text-sm">
+          {costLines.length === 0 ? (
+            <p className="text-muted-foreground">No material costs to report.</p>
+          ) : (
+            <div className="space-y-2">
+              {costLines.map((li, idx) => (
+                <div key={`${li.material_id}:cost:${idx}`} className="flex items-center justify-between gap-2">
+                  <span className="text-muted-foreground">
+                    {li.material?.name || li.material_id} · {formatQty(Math.abs(li.delta_qty))} × {formatMoney(li.unitCost)}
+                    {li.estimated && tx?.id ? " *" : ""}
+                  </span>
+                  <span className="font-medium tabular-nums">{formatMoney(li.cost)}</span>
+                </div>
+              ))}
+              <div className="border-t pt-2 flex items-center justify-between">
+                <span className="text-muted-foreground">{tx?.id ? "Total COGS" : "Estimated COGS"}</span>
+                <span className="font-medium tabular-nums">{formatMoney(totalCogs)}</span>
+              </div>
+              {margin && (
+                <>
+                  <div className="flex items-center justify-between">
+                    <span className="text-muted-foreground">Quote Revenue (excl. VAT)</span>
+                    <span className="font-medium tabular-nums">{formatMoney(margin.revenue)}</span>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <span className="text-muted-foreground">Gross Margin</span>
+                    <span className={`font-medium tabular-nums ${margin.margin < 0 ? "text-red-600" : "text-green-600"}`}>
+                      {formatMoney(margin.margin)}
+                      {margin.margin_pct !== null ? ` (${margin.margin_pct}%)` : ""}
+                    </span>
+                  </div>
+                </>
+              )}
+              {hasEstimatedCosts && tx?.id && (
+                <p className="text-xs text-muted-foreground pt-1">* No cost was recorded at deduction time; valued at the current unit cost.</p>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
     </div>
   );
 }
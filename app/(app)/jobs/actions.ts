@@ -4,6 +4,11 @@ import { revalidatePath } from "next/cache";
 import { createClient } from "@/lib/supabase/server";
 import { z } from "zod";
 import { createTrelloJobCard, type JobCardData } from "@/lib/trello";
+import { checkPaymentGate } from "@/lib/payments";
+import { checkWipLimit, getProductionBoardSettings, mirrorStageToTrello, trelloEnabled } from "@/lib/production-board";
+import { notifyCustomerOfStageChange } from "@/lib/customer-stage-alerts";
+import { findLeadForJobRef } from "@/lib/job-leads";
+import { PRODUCTION_STAGE_LABELS } from "@/types/stock";
 
 const createJobSchema = z.object({
   leadId: z.string().uuid(),
@@ -13,6 +18,10 @@ const createJobSchema = z.object({
   productList: z.string().optional(),
 });
 
+const cancelJobSchema = z.object({
+  jobId: z.string().uuid(),
+});
+
 const updateJobStageSchema = z.object({
   jobId: z.string().uuid(),
   stage: z.string(),
@@ -48,7 +57,7 @@ async function fetchTrelloListName(listId: string): Promise<string | null> {
 }
 
 /**
- * Create a job from a lead and create a Trello card
+ * Create a job from a lead and, unless the board is in admin-only mode, a Trello card
  */
 export async function createJobAction(formData: FormData) {
   const rawData = {
@@ -89,7 +98,10 @@ export async function createJobAction(formData: FormData) {
     .eq("lead_id", lead.id)
     .maybeSingle();
 
-  if (existingJob?.trello_card_id) {
+  const boardSettings = await getProductionBoardSettings(supabase);
+  const useTrello = trelloEnabled(boardSettings.mode);
+
+  if (existingJob?.trello_card_id || (existingJob?.id && !useTrello)) {
     return { success: true, job: existingJob, trelloUrl: existingJob.trello_card_url || null };
   }
 
@@ -117,21 +129,24 @@ export async function createJobAction(formData: FormData) {
     productType: lead.product_type,
   };
 
-  // Create Trello card
-  const trelloResult = await createTrelloJobCard(cardData);
-
-  if ("error" in trelloResult) {
-    return { error: `Failed to create Trello card: ${trelloResult.error}` };
+  // Create Trello card (skipped when the admin board is the only board)
+  let trelloCard: { id: string; url: string; listId: string } | null = null;
+  if (useTrello) {
+    const trelloResult = await createTrelloJobCard(cardData);
+    if ("error" in trelloResult) {
+      return { error: `Failed to create Trello card: ${trelloResult.error}` };
+    }
+    trelloCard = trelloResult;
   }
 
-  const listName = (await fetchTrelloListName(trelloResult.listId)) || "Orders Awaiting Confirmation";
-  const initialStage = listName.trim();
+  const listName = trelloCard ? await fetchTrelloListName(trelloCard.listId) : null;
+  const initialStage = (listName || PRODUCTION_STAGE_LABELS.orders_awaiting_confirmation).trim();
 
   const jobInsertPayload = {
     lead_id: lead.id,
-    trello_card_id: trelloResult.id,
-    trello_card_url: trelloResult.url,
-    trello_list_id: trelloResult.listId,
+    trello_card_id: trelloCard?.id ?? null,
+    trello_card_url: trelloCard?.url ?? null,
+    trello_list_id: trelloCard?.listId ?? null,
     production_stage: initialStage,
     invoice_number: result.data.invoiceNumber,
     payment_status: paymentStatus,
@@ -148,12 +163,17 @@ export async function createJobAction(formData: FormData) {
     return { error: `Failed to create job: ${jobError.message}` };
   }
 
+  // Reserve BOM materials for the product list; a missing recipe shouldn't block the job
+  const { error: reserveError } = await supabase.rpc("reserve_stock_for_job", { p_job_id: job.id });
+  if (reserveError) {
+    console.error("[jobs] stock reservation failed:", reserveError.message);
+  }
+
   // Update lead with card info and status
   await supabase
     .from("leads")
     .update({
-      trello_card_id: trelloResult.id,
-      card_created: true,
+      ...(trelloCard ? { trello_card_id: trelloCard.id, card_created: true } : {}),
       sales_status: "Quote Approved",
       status: "Quote Approved",
       production_stage: initialStage,
@@ -163,8 +183,8 @@ export async function createJobAction(formData: FormData) {
 
   await supabase.from("job_stage_history").insert({
     job_id: job.id,
-    trello_card_id: trelloResult.id,
-    trello_list_id: trelloResult.listId,
+    trello_card_id: trelloCard?.id ?? null,
+    trello_list_id: trelloCard?.listId ?? null,
     stage: initialStage,
     from_stage: null,
     to_stage: initialStage,
@@ -179,22 +199,91 @@ export async function createJobAction(formData: FormData) {
     event_type: "job_created",
     payload: {
       jobId: job.id,
-      trelloCardId: trelloResult.id,
-      trelloCardUrl: trelloResult.url,
+      trelloCardId: trelloCard?.id ?? null,
+      trelloCardUrl: trelloCard?.url ?? null,
     },
   });
 
   revalidatePath("/leads");
   revalidatePath("/jobs");
+  revalidatePath("/stock");
   revalidatePath(`/leads/${result.data.leadId}`);
 
   return {
     success: true,
     job: job,
-    trelloUrl: trelloResult.url,
+    trelloUrl: trelloCard?.url ?? null,
   };
 }
 
+/**
+ * Cancel a job and release its stock reservations
+ */
+export async function cancelJobAction(formData: FormData) {
+  const result = cancelJobSchema.safeParse({ jobId: formData.get("jobId") });
+  if (!result.success) {
+    return { error: result.error.issues[0]?.message || "Invalid input" };
+  }
+
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return { error: "Not authenticated" };
+
+  const { data: profile } = await supabase.from("profiles").select("role").eq("user_id", user.id).single();
+  if (!profile || (profile.role !== "ceo" && profile.role !== "admin")) return { error: "Unauthorized" };
+
+  const { data: job } = await supabase
+    .from("jobs")
+    .select("id, lead_id, cancelled_at")
+    .eq("id", result.data.jobId)
+    .single();
+
+  if (!job) {
+    return { error: "Job not found" };
+  }
+
+  if (job.cancelled_at) {
+    return { success: true };
+  }
+
+  const { error } = await supabase
+    .from("jobs")
+    .update({ cancelled_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+    .eq("id", job.id);
+
+  if (error) {
+    return { error: error.message };
+  }
+
+  const { data: released, error: releaseError } = await supabase.rpc("release_stock_reservations_for_job", {
+    p_job_id: job.id,
+  });
+
+  if (releaseError) {
+    return { error: `Job cancelled but reservations were not released: ${releaseError.message}` };
+  }
+
+  const lead = await findLeadForJobRef<{ id: string }>(supabase, job.lead_id, "id");
+
+  if (lead) {
+    await supabase.from("lead_events").insert({
+      lead_db_id: lead.id,
+      actor_user_id: user.id,
+      event_type: "job_cancelled",
+      payload: { jobId: job.id, releasedReservations: released ?? 0 },
+    });
+  }
+
+  revalidatePath("/jobs");
+  revalidatePath(`/jobs/${job.id}`);
+  revalidatePath("/stock");
+
+  return { success: true };
+}
+
 /**
  * Update job production stage (called from Trello webhook or manually)
  */
@@ -225,6 +314,17 @@ export async function updateJobStageAction(formData: FormData) {
     return { success: true };
   }
 
+  const gateError = await checkPaymentGate(supabase, currentJob.id, result.data.stage);
+  if (gateError) {
+    return { error: gateError };
+  }
+
+  const boardSettings = await getProductionBoardSettings(supabase);
+  const wipError = await checkWipLimit(supabase, boardSettings, currentJob.id, result.data.stage);
+  if (wipError) {
+    return { error: wipError };
+  }
+
   const { error } = await supabase
     .from("jobs")
     .update({
@@ -247,6 +347,13 @@ export async function updateJobStageAction(formData: FormData) {
     source: "admin_manual",
   });
 
+  await mirrorStageToTrello(supabase, boardSettings, currentJob, result.data.stage);
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  await notifyCustomerOfStageChange({ jobId: currentJob.id, stage: result.data.stage, actorUserId: user?.id ?? null });
+
   await supabase
     .from("leads")
     .update({
@@ -3,6 +3,10 @@
 import { revalidatePath } from "next/cache";
 import { z } from "zod";
 import { createClient } from "@/lib/supabase/server";
+import { checkPaymentGate } from "@/lib/payments";
+import { checkWipLimit, getProductionBoardSettings, mirrorStageToTrello } from "@/lib/production-board";
+import { notifyCustomerOfStageChange } from "@/lib/customer-stage-alerts";
+import { jobLeadRefs, queryJobsByLeadRefs } from "@/lib/job-leads";
 
 const updateJobBoardStageSchema = z.object({
   leadId: z.string().uuid(),
@@ -40,7 +44,7 @@ export async function updateJobBoardStageAction(formData: FormData) {
 
   const { data: lead, error: leadErr } = await supabase
     .from("leads")
-    .select("id, production_stage")
+    .select("id, lead_id, production_stage")
     .eq("id", result.data.leadId)
     .single();
 
@@ -54,6 +58,18 @@ export async function updateJobBoardStageAction(formData: FormData) {
     return { success: true };
   }
 
+  const { data: gatedJob } = await queryJobsByLeadRefs(jobLeadRefs([lead]), (refs) =>
+    supabase.from("jobs").select("id").in("lead_id", refs).limit(1).maybeSingle()
+  );
+  if (gatedJob?.id) {
+    const gateError = await checkPaymentGate(supabase, gatedJob.id, toStage);
+    if (gateError) return { error: gateError };
+  }
+
+  const boardSettings = await getProductionBoardSettings(supabase);
+  const wipError = await checkWipLimit(supabase, boardSettings, gatedJob?.id ?? null, toStage);
+  if (wipError) return { error: wipError };
+
   const nowIso = new Date().toISOString();
 
   const { error: leadUpdErr } = await supabase
@@ -68,11 +84,9 @@ export async function updateJobBoardStageAction(formData: FormData) {
 
   if (leadUpdErr) return { error: leadUpdErr.message };
 
-  const { data: job } = await supabase
-    .from("jobs")
-    .select("id, trello_card_id, trello_list_id, production_stage")
-    .eq("lead_id", result.data.leadId)
-    .maybeSingle();
+  const { data: job } = await queryJobsByLeadRefs(jobLeadRefs([lead]), (refs) =>
+    supabase.from("jobs").select("id, trello_card_id, trello_list_id, production_stage").in("lead_id", refs).limit(1).maybeSingle()
+  );
 
   if (job?.id) {
     await supabase
@@ -90,14 +104,20 @@ export async function updateJobBoardStageAction(formData: FormData) {
       moved_at: nowIso,
       source: "admin_board",
     });
+
+    await mirrorStageToTrello(supabase, boardSettings, job, toStage);
+    await notifyCustomerOfStageChange({ jobId: job.id, stage: toStage, actorUserId: user.id });
   }
 
-  await supabase.from("lead_events").insert({
-    lead_db_id: result.data.leadId,
-    actor_user_id: user.id,
-    event_type: "production_stage_updated",
-    payload: { from: fromStage, to: toStage },
-  });
+  // With a job, the job_stage_history row above is logged to the lead's timeline by a trigger
+  if (!job?.id) {
+    await supabase.from("lead_events").insert({
+      lead_db_id: result.data.leadId,
+      actor_user_id: user.id,
+      event_type: "production_stage_updated",
+      payload: { from: fromStage, to: toStage },
+    });
+  }
 
   revalidatePath("/jobs");
   revalidatePath(`/leads/${result.data.leadId}`);
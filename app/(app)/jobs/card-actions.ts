@@ -0,0 +1,374 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { randomUUID } from "crypto";
+import { z } from "zod";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createClient, requireAdmin } from "@/lib/supabase/server";
+import { getAdminSupabase } from "@/lib/supabase/admin";
+import { findLeadDbIdForJob } from "@/lib/job-leads";
+import { getJobTrelloLabelOptions, pushChecklistChangeToTrello, setJobTrelloLabel, type ChecklistChange } from "@/lib/trello-sync";
+import type { JobAttachment, JobChecklistItem } from "@/types/production-board";
+import type { TrelloLabel } from "@/types/trello";
+
+const ATTACHMENT_BUCKET = "job-attachments";
+const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+const jobIdSchema = z.object({
+  jobId: z.string().uuid(),
+});
+
+const setAssigneeSchema = z.object({
+  jobId: z.string().uuid(),
+  assigneeUserId: z.string().uuid().nullable(),
+});
+
+const setCustomerAlertsMutedSchema = z.object({
+  jobId: z.string().uuid(),
+  muted: z.enum(["true", "false"]).transform((v) => v === "true"),
+});
+
+const addChecklistItemSchema = z.object({
+  jobId: z.string().uuid(),
+  label: z.string().trim().min(1, "Checklist item cannot be empty").max(500, "Checklist item is too long"),
+});
+
+const toggleChecklistItemSchema = z.object({
+  jobId: z.string().uuid(),
+  itemId: z.string().uuid(),
+  isDone: z.enum(["true", "false"]).transform((v) => v === "true"),
+});
+
+const deleteChecklistItemSchema = z.object({
+  jobId: z.string().uuid(),
+  itemId: z.string().uuid(),
+});
+
+const deleteAttachmentSchema = z.object({
+  jobId: z.string().uuid(),
+  attachmentId: z.string().uuid(),
+});
+
+const setTrelloLabelSchema = z.object({
+  jobId: z.string().uuid(),
+  labelId: z.string().trim().min(1),
+  on: z.enum(["true", "false"]).transform((v) => v === "true"),
+});
+
+function revalidateJob(jobId: string) {
+  revalidatePath("/jobs");
+  revalidatePath(`/jobs/${jobId}`);
+}
+
+// The admin change is already saved; a failed push shows up as drift in Trello reconciliation
+async function pushChecklistChange(supabase: SupabaseClient, jobId: string, change: ChecklistChange) {
+  const sync = await pushChecklistChangeToTrello(supabase, jobId, change);
+  if ("error" in sync) console.error("[trello-sync] checklist push failed:", sync.error);
+}
+
+export async function getJobCardDetailsAction(
+  jobId: string
+): Promise<
+  { checklist: JobChecklistItem[]; attachments: JobAttachment[]; labels: TrelloLabel[]; labelOptions: TrelloLabel[] } | { error: string }
+> {
+  const parsed = jobIdSchema.safeParse({ jobId });
+  if (!parsed.success) return { error: parsed.error.issues[0]?.message || "Invalid input" };
+
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return { error: "Not authenticated" };
+
+  const [checklistResult, attachmentsResult, jobResult, labelOptions] = await Promise.all([
+    supabase
+      .from("job_checklist_items")
+      .select("id, job_id, label, is_done, position, done_at, trello_check_item_id, created_at")
+      .eq("job_id", parsed.data.jobId)
+      .order("position", { ascending: true })
+      .order("created_at", { ascending: true }),
+    supabase
+      .from("job_attachments")
+      .select("id, job_id, file_path, file_name, mime_type, size_bytes, created_at")
+      .eq("job_id", parsed.data.jobId)
+      .order("created_at", { ascending: false }),
+    supabase.from("jobs").select("trello_labels").eq("id", parsed.data.jobId).maybeSingle(),
+    getJobTrelloLabelOptions(supabase, parsed.data.jobId),
+  ]);
+  if (checklistResult.error) return { error: checklistResult.error.message };
+  if (attachmentsResult.error) return { error: attachmentsResult.error.message };
+
+  const attachments = (attachmentsResult.data || []) as JobAttachment[];
+  const admin = getAdminSupabase();
+  if (admin && attachments.length > 0) {
+    const { data: signed } = await admin.storage.from(ATTACHMENT_BUCKET).createSignedUrls(
+      attachments.map((a) => a.file_path),
+      60 * 60
+    );
+    const urlByPath = new Map((signed || []).map((s) => [s.path, s.signedUrl]));
+    for (const attachment of attachments) attachment.url = urlByPath.get(attachment.file_path) || null;
+  }
+
+  return {
+    checklist: (checklistResult.data || []) as JobChecklistItem[],
+    attachments,
+    labels: (Array.isArray(jobResult.data?.trello_labels) ? jobResult.data.trello_labels : []) as TrelloLabel[],
+    labelOptions,
+  };
+}
+
+export async function setJobAssigneeAction(formData: FormData) {
+  const parsed = setAssigneeSchema.safeParse({
+    jobId: formData.get("jobId"),
+    assigneeUserId: formData.get("assigneeUserId") || null,
+  });
+  if (!parsed.success) return { error: parsed.error.issues[0]?.message || "Invalid input" };
+
+  const auth = await requireAdmin();
+  if ("error" in auth) return { error: auth.error };
+
+  const leadDbId = await findLeadDbIdForJob(auth.supabase, parsed.data.jobId);
+  if (leadDbId === undefined) return { error: "Job not found" };
+
+  const { error } = await auth.supabase
+    .from("jobs")
+    .update({ assignee_user_id: parsed.data.assigneeUserId, updated_at: new Date().toISOString() })
+    .eq("id", parsed.data.jobId);
+  if (error) return { error: error.message };
+
+  if (leadDbId) {
+    await auth.supabase.from("lead_events").insert({
+      lead_db_id: leadDbId,
+      actor_user_id: auth.user.id,
+      event_type: "job_assignee_changed",
+      payload: { jobId: parsed.data.jobId, assignee_user_id: parsed.data.assigneeUserId },
+    });
+  }
+
+  revalidateJob(parsed.data.jobId);
+  return { success: true };
+}
+
+export async function setJobCustomerAlertsMutedAction(formData: FormData) {
+  const parsed = setCustomerAlertsMutedSchema.safeParse({
+    jobId: formData.get("jobId"),
+    muted: formData.get("muted"),
+  });
+  if (!parsed.success) return { error: parsed.error.issues[0]?.message || "Invalid input" };
+
+  const auth = await requireAdmin();
+  if ("error" in auth) return { error: auth.error };
+
+  const leadDbId = await findLeadDbIdForJob(auth.supabase, parsed.data.jobId);
+  if (leadDbId === undefined) return { error: "Job not found" };
+
+  const { error } = await auth.supabase
+    .from("jobs")
+    .update({ customer_alerts_muted: parsed.data.muted, updated_at: new Date().toISOString() })
+    .eq("id", parsed.data.jobId);
+  if (error) return { error: error.message };
+
+  if (leadDbId) {
+    await auth.supabase.from("lead_events").insert({
+      lead_db_id: leadDbId,
+      actor_user_id: auth.user.id,
+      event_type: parsed.data.muted ? "customer_alerts_muted" : "customer_alerts_unmuted",
+      payload: { jobId: parsed.data.jobId },
+    });
+  }
+
+  revalidateJob(parsed.data.jobId);
+  return { success: true };
+}
+
+export async function addJobChecklistItemAction(formData: FormData) {
+  const parsed = addChecklistItemSchema.safeParse({
+    jobId: formData.get("jobId"),
+    label: formData.get("label"),
+  });
+  if (!parsed.success) return { error: parsed.error.issues[0]?.message || "Invalid input" };
+
+  const auth = await requireAdmin();
+  if ("error" in auth) return { error: auth.error };
+
+  const { data: last } = await auth.supabase
+    .from("job_checklist_items")
+    .select("position")
+    .eq("job_id", parsed.data.jobId)
+    .order("position", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const { data: item, error } = await auth.supabase
+    .from("job_checklist_items")
+    .insert({
+      job_id: parsed.data.jobId,
+      label: parsed.data.label,
+      position: (Number(last?.position) || 0) + 1,
+      created_by: auth.user.id,
+    })
+    .select("id")
+    .single();
+  if (error) return { error: error.message };
+
+  await pushChecklistChange(auth.supabase, parsed.data.jobId, { type: "added", itemId: item.id, label: parsed.data.label });
+
+  revalidateJob(parsed.data.jobId);
+  return { success: true };
+}
+
+export async function toggleJobChecklistItemAction(formData: FormData) {
+  const parsed = toggleChecklistItemSchema.safeParse({
+    jobId: formData.get("jobId"),
+    itemId: formData.get("itemId"),
+    isDone: formData.get("isDone"),
+  });
+  if (!parsed.success) return { error: parsed.error.issues[0]?.message || "Invalid input" };
+
+  const auth = await requireAdmin();
+  if ("error" in auth) return { error: auth.error };
+
+  const { data: item, error } = await auth.supabase
+    .from("job_checklist_items")
+    .update({
+      is_done: parsed.data.isDone,
+      done_at: parsed.data.isDone ? new Date().toISOString() : null,
+      done_by: parsed.data.isDone ? auth.user.id : null,
+    })
+    .eq("id", parsed.data.itemId)
+    .eq("job_id", parsed.data.jobId)
+    .select("trello_check_item_id")
+    .maybeSingle();
+  if (error) return { error: error.message };
+
+  await pushChecklistChange(auth.supabase, parsed.data.jobId, {
+    type: "toggled",
+    trelloCheckItemId: (item?.trello_check_item_id as string | null) ?? null,
+    isDone: parsed.data.isDone,
+  });
+
+  revalidateJob(parsed.data.jobId);
+  return { success: true };
+}
+
+export async function deleteJobChecklistItemAction(formData: FormData) {
+  const parsed = deleteChecklistItemSchema.safeParse({
+    jobId: formData.get("jobId"),
+    itemId: formData.get("itemId"),
+  });
+  if (!parsed.success) return { error: parsed.error.issues[0]?.message || "Invalid input" };
+
+  const auth = await requireAdmin();
+  if ("error" in auth) return { error: auth.error };
+
+  const { data: item, error } = await auth.supabase
+    .from("job_checklist_items")
+    .delete()
+    .eq("id", parsed.data.itemId)
+    .eq("job_id", parsed.data.jobId)
+    .select("trello_check_item_id")
+    .maybeSingle();
+  if (error) return { error: error.message };
+
+  await pushChecklistChange(auth.supabase, parsed.data.jobId, {
+    type: "deleted",
+    trelloCheckItemId: (item?.trello_check_item_id as string | null) ?? null,
+  });
+
+  revalidateJob(parsed.data.jobId);
+  return { success: true };
+}
+
+export async function setJobTrelloLabelAction(formData: FormData) {
+  const parsed = setTrelloLabelSchema.safeParse({
+    jobId: formData.get("jobId"),
+    labelId: formData.get("labelId"),
+    on: formData.get("on"),
+  });
+  if (!parsed.success) return { error: parsed.error.issues[0]?.message || "Invalid input" };
+
+  const auth = await requireAdmin();
+  if ("error" in auth) return { error: auth.error };
+
+  const result = await setJobTrelloLabel(auth.supabase, parsed.data.jobId, parsed.data.labelId, parsed.data.on);
+  if ("error" in result) return { error: result.error };
+
+  revalidateJob(parsed.data.jobId);
+  return { success: true };
+}
+
+export async function uploadJobAttachmentAction(formData: FormData) {
+  const parsed = jobIdSchema.safeParse({ jobId: formData.get("jobId") });
+  if (!parsed.success) return { error: parsed.error.issues[0]?.message || "Invalid input" };
+
+  const file = formData.get("file");
+  if (!(file instanceof File) || file.size === 0) return { error: "Choose a file to upload" };
+  if (file.size > MAX_ATTACHMENT_BYTES) return { error: "Attachments must be 10MB or smaller" };
+
+  const auth = await requireAdmin();
+  if ("error" in auth) return { error: auth.error };
+
+  const leadDbId = await findLeadDbIdForJob(auth.supabase, parsed.data.jobId);
+  if (leadDbId === undefined) return { error: "Job not found" };
+
+  const admin = getAdminSupabase();
+  if (!admin) return { error: "Storage is not configured" };
+
+  const safeName = file.name.replace(/[^a-zA-Z0-9._-]/g, "_").slice(-80) || "attachment";
+  const filePath = `${parsed.data.jobId}/${randomUUID()}-${safeName}`;
+  const { error: uploadError } = await admin.storage
+    .from(ATTACHMENT_BUCKET)
+    .upload(filePath, Buffer.from(await file.arrayBuffer()), { contentType: file.type || undefined, upsert: false });
+  if (uploadError) return { error: uploadError.message || "Failed to upload attachment" };
+
+  const { error } = await auth.supabase.from("job_attachments").insert({
+    job_id: parsed.data.jobId,
+    file_path: filePath,
+    file_name: file.name.slice(0, 255),
+    mime_type: file.type || null,
+    size_bytes: file.size,
+    uploaded_by: auth.user.id,
+  });
+  if (error) {
+    await admin.storage.from(ATTACHMENT_BUCKET).remove([filePath]);
+    return { error: error.message };
+  }
+
+  if (leadDbId) {
+    await auth.supabase.from("lead_events").insert({
+      lead_db_id: leadDbId,
+      actor_user_id: auth.user.id,
+      event_type: "job_attachment_added",
+      payload: { jobId: parsed.data.jobId, file_name: file.name },
+    });
+  }
+
+  revalidateJob(parsed.data.jobId);
+  return { success: true };
+}
+
+export async function deleteJobAttachmentAction(formData: FormData) {
+  const parsed = deleteAttachmentSchema.safeParse({
+    jobId: formData.get("jobId"),
+    attachmentId: formData.get("attachmentId"),
+  });
+  if (!parsed.success) return { error: parsed.error.issues[0]?.message || "Invalid input" };
+
+  const auth = await requireAdmin();
+  if ("error" in auth) return { error: auth.error };
+
+  const { data: attachment, error } = await auth.supabase
+    .from("job_attachments")
+    .delete()
+    .eq("id", parsed.data.attachmentId)
+    .eq("job_id", parsed.data.jobId)
+    .select("id, file_path, file_name")
+    .maybeSingle();
+  if (error) return { error: error.message };
+  if (!attachment) return { error: "Attachment not found" };
+
+  await getAdminSupabase()?.storage.from(ATTACHMENT_BUCKET).remove([attachment.file_path]);
+
+  revalidateJob(parsed.data.jobId);
+  return { success: true };
+}
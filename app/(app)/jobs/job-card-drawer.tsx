@@ -0,0 +1,387 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState, useTransition } from "react";
+import { toast } from "sonner";
+import { Paperclip, Trash2 } from "lucide-react";
+import type { Lead } from "@/types/leads";
+import type { BoardAssignee, BoardJob, JobAttachment, JobChecklistItem } from "@/types/production-board";
+import type { TrelloLabel } from "@/types/trello";
+import {
+  addJobChecklistItemAction,
+  deleteJobAttachmentAction,
+  deleteJobChecklistItemAction,
+  getJobCardDetailsAction,
+  setJobTrelloLabelAction,
+  setJobAssigneeAction,
+  setJobCustomerAlertsMutedAction,
+  toggleJobChecklistItemAction,
+  uploadJobAttachmentAction,
+} from "./card-actions";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+const UNASSIGNED = "__unassigned__";
+
+function formatBytes(bytes: number | null) {
+  if (!bytes) return "";
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function JobCardDrawer({
+  lead,
+  job,
+  stage,
+  assignees,
+  isAdmin,
+  onOpenChange,
+}: {
+  lead: Lead | null;
+  job: BoardJob | null;
+  stage: string | null;
+  assignees: BoardAssignee[];
+  isAdmin: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const [checklist, setChecklist] = useState<JobChecklistItem[]>([]);
+  const [attachments, setAttachments] = useState<JobAttachment[]>([]);
+  const [labels, setLabels] = useState<TrelloLabel[]>([]);
+  const [labelOptions, setLabelOptions] = useState<TrelloLabel[]>([]);
+  const [assigneeId, setAssigneeId] = useState<string>(UNASSIGNED);
+  const [alertsMuted, setAlertsMuted] = useState(false);
+  const [newItem, setNewItem] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [isPending, startTransition] = useTransition();
+
+  const jobId = job?.id ?? null;
+
+  async function loadDetails(id: string) {
+    setIsLoading(true);
+    const res = await getJobCardDetailsAction(id);
+    setIsLoading(false);
+    if ("error" in res) {
+      toast.error(res.error);
+      return;
+    }
+    setChecklist(res.checklist);
+    setAttachments(res.attachments);
+    setLabels(res.labels);
+    setLabelOptions(res.labelOptions);
+  }
+
+  useEffect(() => {
+    setChecklist([]);
+    setAttachments([]);
+    setLabels([]);
+    setLabelOptions([]);
+    setNewItem("");
+    setAssigneeId(job?.assignee_user_id || UNASSIGNED);
+    setAlertsMuted(!!job?.customer_alerts_muted);
+    if (jobId) void loadDetails(jobId);
+  }, [jobId, job?.assignee_user_id, job?.customer_alerts_muted]);
+
+  function run(action: (fd: FormData) => Promise<{ error?: string; success?: boolean }>, fd: FormData, reload = true) {
+    startTransition(async () => {
+      const res = await action(fd);
+      if (res?.error) {
+        toast.error(res.error);
+        return;
+      }
+      if (reload && jobId) await loadDetails(jobId);
+    });
+  }
+
+  function handleAssigneeChange(value: string) {
+    if (!jobId) return;
+    const previous = assigneeId;
+    setAssigneeId(value);
+    const fd = new FormData();
+    fd.set("jobId", jobId);
+    fd.set("assigneeUserId", value === UNASSIGNED ? "" : value);
+    startTransition(async () => {
+      const res = await setJobAssigneeAction(fd);
+      if (res?.error) {
+        toast.error(res.error);
+        setAssigneeId(previous);
+        return;
+      }
+      toast.success("Assignee updated");
+    });
+  }
+
+  function handleMuteChange(muted: boolean) {
+    if (!jobId) return;
+    setAlertsMuted(muted);
+    const fd = new FormData();
+    fd.set("jobId", jobId);
+    fd.set("muted", String(muted));
+    startTransition(async () => {
+      const res = await setJobCustomerAlertsMutedAction(fd);
+      if (res?.error) {
+        toast.error(res.error);
+        setAlertsMuted(!muted);
+        return;
+      }
+      toast.success(muted ? "Customer updates muted" : "Customer updates enabled");
+    });
+  }
+
+  function handleLabelToggle(label: TrelloLabel, on: boolean) {
+    if (!jobId) return;
+    const fd = new FormData();
+    fd.set("jobId", jobId);
+    fd.set("labelId", label.id);
+    fd.set("on", String(on));
+    run(setJobTrelloLabelAction, fd);
+  }
+
+  function handleAddItem() {
+    if (!jobId || !newItem.trim()) return;
+    const fd = new FormData();
+    fd.set("jobId", jobId);
+    fd.set("label", newItem.trim());
+    setNewItem("");
+    run(addJobChecklistItemAction, fd);
+  }
+
+  function handleToggle(item: JobChecklistItem, isDone: boolean) {
+    if (!jobId) return;
+    setChecklist((prev) => prev.map((i) => (i.id === item.id ? { ...i, is_done: isDone } : i)));
+    const fd = new FormData();
+    fd.set("jobId", jobId);
+    fd.set("itemId", item.id);
+    fd.set("isDone", String(isDone));
+    run(toggleJobChecklistItemAction, fd, false);
+  }
+
+  function handleDeleteItem(item: JobChecklistItem) {
+    if (!jobId) return;
+    const fd = new FormData();
+    fd.set("jobId", jobId);
+    fd.set("itemId", item.id);
+    run(deleteJobChecklistItemAction, fd);
+  }
+
+  function handleUpload(file: File | undefined) {
+    if (!jobId || !file) return;
+    const fd = new FormData();
+    fd.set("jobId", jobId);
+    fd.set("file", file);
+    run(uploadJobAttachmentAction, fd);
+  }
+
+  function handleDeleteAttachment(attachment: JobAttachment) {
+    if (!jobId) return;
+    const fd = new FormData();
+    fd.set("jobId", jobId);
+    fd.set("attachmentId", attachment.id);
+    run(deleteJobAttachmentAction, fd);
+  }
+
+  const doneCount = checklist.filter((i) => i.is_done).length;
+
+  return (
+    <Sheet open={!!lead} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-full overflow-y-auto sm:max-w-md">
+        {lead && (
+          <>
+            <SheetHeader>
+              <SheetTitle>{lead.customer_name || lead.name || "—"}</SheetTitle>
+              <SheetDescription>
+                {lead.lead_id}
+                {lead.organization ? ` · ${lead.organization}` : ""}
+                {stage ? ` · ${stage}` : ""}
+              </SheetDescription>
+            </SheetHeader>
+
+            {!job ? (
+              <p className="mt-6 text-sm text-muted-foreground">
+                This lead has no production job yet. Start production from the lead page to use the checklist and attachments.
+              </p>
+            ) : (
+              <div className="mt-6 space-y-6">
+                <div className="space-y-2">
+                  <Label>Assignee</Label>
+                  <Select value={assigneeId} onValueChange={handleAssigneeChange} disabled={!isAdmin || isPending}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Unassigned" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                      {assignees.map((a) => (
+                        <SelectItem key={a.user_id} value={a.user_id}>
+                          {a.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="flex items-start gap-2">
+                  <Checkbox
+                    id="customer-alerts-muted"
+                    checked={alertsMuted}
+                    onCheckedChange={(checked) => handleMuteChange(checked === true)}
+                    disabled={!isAdmin || isPending}
+                  />
+                  <div className="space-y-0.5">
+                    <Label htmlFor="customer-alerts-muted">Mute customer stage updates</Label>
+                    <p className="text-xs text-muted-foreground">No automatic WhatsApp or email is sent when this job changes stage.</p>
+                  </div>
+                </div>
+
+                {labelOptions.length > 0 && (
+                  <div className="space-y-2">
+                    <Label>Trello labels</Label>
+                    <div className="flex flex-wrap gap-1.5">
+                      {labelOptions.map((label) => {
+                        const on = labels.some((l) => l.id === label.id);
+                        return (
+                          <Button
+                            key={label.id}
+                            type="button"
+                            variant={on ? "secondary" : "outline"}
+                            size="sm"
+                            className="h-7 px-2 text-xs"
+                            onClick={() => handleLabelToggle(label, !on)}
+                            disabled={!isAdmin || isPending}
+                            aria-pressed={on}
+                          >
+                            {label.name || label.color || "Unnamed"}
+                          </Button>
+                        );
+                      })}
+                    </div>
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label>Checklist</Label>
+                    {checklist.length > 0 && (
+                      <span className="text-xs text-muted-foreground">
+                        {doneCount}/{checklist.length}
+                      </span>
+                    )}
+                  </div>
+                  {isLoading && checklist.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">Loading…</p>
+                  ) : checklist.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No checklist items.</p>
+                  ) : (
+                    <ul className="space-y-1">
+                      {checklist.map((item) => (
+                        <li key={item.id} className="flex items-center gap-2 rounded-md px-1 py-1 hover:bg-muted/50">
+                          <Checkbox
+                            checked={item.is_done}
+                            disabled={!isAdmin}
+                            onCheckedChange={(checked) => handleToggle(item, checked === true)}
+                          />
+                          <span className={`flex-1 text-sm ${item.is_done ? "text-muted-foreground line-through" : ""}`}>
+                            {item.label}
+                          </span>
+                          {isAdmin && (
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="icon"
+                              className="h-7 w-7"
+                              onClick={() => handleDeleteItem(item)}
+                              disabled={isPending}
+                            >
+                              <Trash2 className="h-3.5 w-3.5" />
+                              <span className="sr-only">Delete item</span>
+                            </Button>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {isAdmin && (
+                    <div className="flex gap-2">
+                      <Input
+                        value={newItem}
+                        onChange={(e) => setNewItem(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") {
+                            e.preventDefault();
+                            handleAddItem();
+                          }
+                        }}
+                        placeholder="Add an item…"
+                      />
+                      <Button type="button" variant="secondary" onClick={handleAddItem} disabled={isPending || !newItem.trim()}>
+                        Add
+                      </Button>
+                    </div>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Attachments</Label>
+                  {attachments.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No attachments.</p>
+                  ) : (
+                    <ul className="space-y-1">
+                      {attachments.map((attachment) => (
+                        <li key={attachment.id} className="flex items-center gap-2 text-sm">
+                          <Paperclip className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+                          {attachment.url ? (
+                            <a href={attachment.url} target="_blank" rel="noreferrer" className="flex-1 truncate underline-offset-2 hover:underline">
+                              {attachment.file_name}
+                            </a>
+                          ) : (
+                            <span className="flex-1 truncate">{attachment.file_name}</span>
+                          )}
+                          <span className="text-xs text-muted-foreground">{formatBytes(attachment.size_bytes)}</span>
+                          {isAdmin && (
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="icon"
+                              className="h-7 w-7"
+                              onClick={() => handleDeleteAttachment(attachment)}
+                              disabled={isPending}
+                            >
+                              <Trash2 className="h-3.5 w-3.5" />
+                              <span className="sr-only">Delete attachment</span>
+                            </Button>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {isAdmin && (
+                    <Input
+                      type="file"
+                      disabled={isPending}
+                      onChange={(e) => {
+                        handleUpload(e.target.files?.[0]);
+                        e.target.value = "";
+                      }}
+                    />
+                  )}
+                  <p className="text-xs text-muted-foreground">Up to 10MB per file.</p>
+                </div>
+
+                <div className="flex gap-2">
+                  <Button asChild variant="secondary" className="flex-1">
+                    <Link href={`/leads/${lead.id || lead.lead_id}`}>Open Lead</Link>
+                  </Button>
+                  <Button asChild variant="outline" className="flex-1">
+                    <Link href={`/jobs/${job.id}`}>Open Job</Link>
+                  </Button>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -3,24 +3,43 @@
 import Link from "next/link";
 import { useMemo, useState, useTransition } from "react";
 import type { Lead } from "@/types/leads";
+import { PRODUCTION_STAGES, PRODUCTION_STAGE_LABELS } from "@/types/stock";
+import {
+  PRODUCTION_BOARD_MODE_LABELS,
+  PRODUCTION_BOARD_SWIMLANE_LABELS,
+  type BoardAssignee,
+  type BoardJob,
+  type ProductionBoardSettings,
+  type ProductionBoardSwimlane,
+} from "@/types/production-board";
+import { toProductionStageKey } from "@/lib/payments";
 import { updateJobBoardStageAction } from "./board-actions";
+import { JobCardDrawer } from "./job-card-drawer";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { cn } from "@/lib/utils";
+import { toast } from "sonner";
 
-const PREFERRED_STAGE_ORDER = [
-  "LAYOUTS BUSY (Michelle)",
-  "AWAITING COLOR MATCH",
-  "LAYOUTS DONE (AWAITING BABY APPROVAL)",
-  "layouts received",
-  "printing",
-  "pressing",
-] as const;
+const SWIMLANES: ProductionBoardSwimlane[] = ["none", "assignee", "deadline_week"];
 
+// Trello list names and stage keys both land in production_stage; compare them by stage key
 function stageKey(stage: string | null | undefined) {
-  return (stage || "").trim().toLowerCase();
+  return toProductionStageKey(stage) ?? (stage || "").trim().toLowerCase();
 }
 
+function weekStart(value: string | null | undefined): Date | null {
+  if (!value) return null;
+  const d = new Date(value);
+  if (Number.isNaN(d.getTime())) return null;
+  const monday = new Date(d.getFullYear(), d.getMonth(), d.getDate());
+  monday.setDate(monday.getDate() - ((monday.getDay() + 6) % 7));
+  return monday;
+}
+
+type Lane = { key: string; label: string; leads: Lead[] };
+
 function formatDue(value: string | null | undefined) {
   if (!value) return null;
   const d = new Date(value);
@@ -28,11 +47,41 @@ function formatDue(value: string | null | undefined) {
   return d.toLocaleDateString("en-ZA", { year: "numeric", month: "short", day: "numeric" });
 }
 
-export function JobsBoardClient({ initialLeads }: { initialLeads: Lead[] }) {
+export function JobsBoardClient({
+  initialLeads,
+  jobs,
+  assignees,
+  settings,
+  isAdmin,
+}: {
+  initialLeads: Lead[];
+  jobs: BoardJob[];
+  assignees: BoardAssignee[];
+  settings: ProductionBoardSettings;
+  isAdmin: boolean;
+}) {
   const [search, setSearch] = useState("");
+  const [swimlane, setSwimlane] = useState<ProductionBoardSwimlane>("none");
+  const [openLeadId, setOpenLeadId] = useState<string | null>(null);
   const [isPending, startTransition] = useTransition();
   const [optimisticStages, setOptimisticStages] = useState<Record<string, string>>({});
 
+  const jobByLead = useMemo(() => {
+    const map = new Map<string, BoardJob>();
+    for (const job of jobs) map.set(job.lead_ref, job);
+    return map;
+  }, [jobs]);
+
+  const assigneeNames = useMemo(() => new Map(assignees.map((a) => [a.user_id, a.name])), [assignees]);
+
+  function jobFor(lead: Lead): BoardJob | null {
+    return jobByLead.get(lead.id || "") ?? jobByLead.get(lead.lead_id || "") ?? null;
+  }
+
+  function currentStage(lead: Lead) {
+    return (optimisticStages[lead.id || ""] ?? lead.production_stage ?? "").trim();
+  }
+
   const leads = useMemo(() => {
     const q = search.trim().toLowerCase();
     if (!q) return initialLeads;
@@ -46,31 +95,83 @@ export function JobsBoardClient({ initialLeads }: { initialLeads: Lead[] }) {
   }, [initialLeads, search]);
 
   const allStages = useMemo(() => {
-    const fromData = Array.from(
+    const known: string[] = PRODUCTION_STAGES.map((key) => PRODUCTION_STAGE_LABELS[key]);
+    const knownKeys = new Set(known.map((s) => stageKey(s)));
+    const rest = Array.from(
       new Set(
-        leads
+        initialLeads
           .map((l) => (optimisticStages[l.id || ""] ?? l.production_stage ?? "").trim())
-          .filter((s) => !!s)
+          .filter((s) => !!s && !knownKeys.has(stageKey(s)))
       )
-    );
+    ).sort((a, b) => a.localeCompare(b));
+
+    return [...known, ...rest];
+  }, [initialLeads, optimisticStages]);
+
+  // WIP counts cover the whole board, not just the search results or one swimlane
+  const stageCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const l of initialLeads) {
+      const stage = (optimisticStages[l.id || ""] ?? l.production_stage ?? "").trim();
+      if (!stage) continue;
+      counts.set(stageKey(stage), (counts.get(stageKey(stage)) || 0) + 1);
+    }
+    return counts;
+  }, [initialLeads, optimisticStages]);
+
+  function wipLimitFor(stage: string): number | null {
+    const key = toProductionStageKey(stage);
+    return key ? settings.wip_limits[key] ?? null : null;
+  }
 
-    const preferred = [...PREFERRED_STAGE_ORDER];
-    const preferredKeys = new Set(preferred.map((s) => stageKey(s)));
-    const rest = fromData
-      .filter((s) => !preferredKeys.has(stageKey(s)))
-      .sort((a, b) => a.localeCompare(b));
+  const lanes = useMemo<Lane[]>(() => {
+    if (swimlane === "none") return [{ key: "all", label: "", leads }];
 
-    return [...preferred, ...rest];
-  }, [leads, optimisticStages]);
+    const map = new Map<string, Lane>();
+    const fallback: Lane =
+      swimlane === "assignee"
+        ? { key: "__unassigned__", label: "Unassigned", leads: [] }
+        : { key: "__no_deadline__", label: "No deadline", leads: [] };
 
-  const columns = useMemo(() => {
+    for (const l of leads) {
+      let key: string | null = null;
+      let label = "";
+      if (swimlane === "assignee") {
+        const assigneeId = jobByLead.get(l.id || "")?.assignee_user_id ?? jobByLead.get(l.lead_id || "")?.assignee_user_id ?? null;
+        if (assigneeId) {
+          key = assigneeId;
+          label = assigneeNames.get(assigneeId) || "Unknown user";
+        }
+      } else {
+        const start = weekStart(l.delivery_date);
+        if (start) {
+          key = start.toISOString().slice(0, 10);
+          label = `Week of ${start.toLocaleDateString("en-ZA", { year: "numeric", month: "short", day: "numeric" })}`;
+        }
+      }
+
+      if (!key) {
+        fallback.leads.push(l);
+        continue;
+      }
+      const lane = map.get(key) || { key, label, leads: [] };
+      lane.leads.push(l);
+      map.set(key, lane);
+    }
+
+    const sorted = Array.from(map.values()).sort((a, b) =>
+      swimlane === "deadline_week" ? a.key.localeCompare(b.key) : a.label.localeCompare(b.label)
+    );
+    return fallback.leads.length > 0 ? [...sorted, fallback] : sorted;
+  }, [swimlane, leads, jobByLead, assigneeNames]);
+
+  function groupByStage(laneLeads: Lead[]) {
     const map = new Map<string, Lead[]>();
     for (const s of allStages) map.set(stageKey(s), []);
     map.set("__none__", []);
 
-    for (const l of leads) {
-      const id = l.id || "";
-      const stage = (optimisticStages[id] ?? l.production_stage ?? "").trim();
+    for (const l of laneLeads) {
+      const stage = currentStage(l);
       const key = stage ? stageKey(stage) : "__none__";
       const bucket = map.get(key) || [];
       bucket.push(l);
@@ -87,9 +188,19 @@ export function JobsBoardClient({ initialLeads }: { initialLeads: Lead[] }) {
     }
 
     return map;
-  }, [allStages, leads, optimisticStages]);
+  }
 
   function handleDrop(toStage: string, leadId: string) {
+    const lead = initialLeads.find((l) => l.id === leadId);
+    if (lead && stageKey(currentStage(lead)) === stageKey(toStage)) return;
+
+    const limit = wipLimitFor(toStage);
+    const count = stageCounts.get(stageKey(toStage)) || 0;
+    if (limit && count >= limit) {
+      toast.error(`WIP limit reached for ${toStage} (${count}/${limit})`);
+      return;
+    }
+
     setOptimisticStages((prev) => ({ ...prev, [leadId]: toStage }));
     const fd = new FormData();
     fd.set("leadId", leadId);
@@ -97,6 +208,7 @@ export function JobsBoardClient({ initialLeads }: { initialLeads: Lead[] }) {
     startTransition(async () => {
       const res = await updateJobBoardStageAction(fd);
       if (res && "error" in res) {
+        toast.error(res.error);
         setOptimisticStages((prev) => {
           const next = { ...prev };
           delete next[leadId];
@@ -106,28 +218,105 @@ export function JobsBoardClient({ initialLeads }: { initialLeads: Lead[] }) {
     });
   }
 
-  return (
-    <div className="space-y-4">
-      <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
-        <Input
-          value={search}
-          onChange={(e) => setSearch(e.target.value)}
-          placeholder="Search jobs..."
-          className="max-w-md"
-        />
-        <div className="text-sm text-muted-foreground">{isPending ? "Updating…" : `${leads.length} jobs`}</div>
+  const openLead = openLeadId ? initialLeads.find((l) => l.id === openLeadId) ?? null : null;
+
+  function renderCard(l: Lead) {
+    const id = l.id || "";
+    const title = l.customer_name || l.name || "—";
+    const due = formatDue(l.delivery_date);
+    const trelloUrl = settings.mode !== "admin_only" && l.card_id ? `https://trello.com/c/${l.card_id}` : null;
+    const job = jobFor(l);
+    const assigneeName = job?.assignee_user_id ? assigneeNames.get(job.assignee_user_id) : null;
+
+    return (
+      <div
+        key={id || l.lead_id}
+        draggable
+        onDragStart={(e) => {
+          if (!id) return;
+          e.dataTransfer.setData("text/leadId", id);
+          e.dataTransfer.effectAllowed = "move";
+        }}
+        onClick={() => id && setOpenLeadId(id)}
+        className={cn(
+          "cursor-pointer rounded-lg bg-white p-3 text-black shadow-sm ring-1 ring-black/5",
+          "dark:bg-neutral-950 dark:text-white dark:ring-white/10"
+        )}
+      >
+        <div className="flex items-start justify-between gap-2">
+          <div className="min-w-0">
+            <div className="truncate text-sm font-semibold">{title}</div>
+            <div className="truncate text-xs text-black/60 dark:text-white/60">{l.lead_id}</div>
+          </div>
+          {trelloUrl && (
+            <Button asChild size="sm" variant="outline" className="h-7 px-2 text-xs" onClick={(e) => e.stopPropagation()}>
+              <a href={trelloUrl} target="_blank" rel="noreferrer">
+                Trello
+              </a>
+            </Button>
+          )}
+        </div>
+
+        {(l.organization || due || assigneeName || (job && job.checklist_total > 0)) && (
+          <div className="mt-2 space-y-1">
+            {l.organization && <div className="truncate text-xs text-black/70 dark:text-white/70">{l.organization}</div>}
+            <div className="flex flex-wrap items-center gap-1">
+              {due && (
+                <div className="inline-flex items-center rounded-md bg-amber-500/20 px-2 py-0.5 text-xs font-semibold text-amber-900 dark:text-amber-200">
+                  {due}
+                </div>
+              )}
+              {job && job.checklist_total > 0 && (
+                <div
+                  className={cn(
+                    "inline-flex items-center rounded-md px-2 py-0.5 text-xs font-semibold",
+                    job.checklist_done === job.checklist_total
+                      ? "bg-green-500/20 text-green-900 dark:text-green-200"
+                      : "bg-black/10 text-black/70 dark:bg-white/10 dark:text-white/70"
+                  )}
+                >
+                  ☑ {job.checklist_done}/{job.checklist_total}
+                </div>
+              )}
+              {assigneeName && (
+                <div className="inline-flex items-center rounded-md bg-sky-500/20 px-2 py-0.5 text-xs font-semibold text-sky-900 dark:text-sky-200">
+                  {assigneeName}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        <div className="mt-3 flex gap-2">
+          <Button asChild size="sm" variant="secondary" className="h-8 flex-1" onClick={(e) => e.stopPropagation()}>
+            <Link href={`/leads/${id || l.lead_id}`}>Open</Link>
+          </Button>
+        </div>
       </div>
+    );
+  }
 
-      <div className="sm:hidden text-xs text-muted-foreground">Swipe left/right to see all columns</div>
+  function renderLane(lane: Lane) {
+    const columns = groupByStage(lane.leads);
+    const unstaged = columns.get("__none__") || [];
+
+    return (
       <div className="flex gap-4 overflow-x-auto pb-4">
         {allStages.map((stage) => {
           const key = stageKey(stage);
           const items = columns.get(key) || [];
+          const limit = wipLimitFor(stage);
+          const total = stageCounts.get(key) || 0;
+          const overLimit = !!limit && total > limit;
+          const atLimit = !!limit && total >= limit;
 
           return (
             <div
               key={key}
-              className="w-[280px] shrink-0 rounded-xl bg-neutral-200/70 dark:bg-neutral-900/40"
+              className={cn(
+                "w-[280px] shrink-0 rounded-xl bg-neutral-200/70 dark:bg-neutral-900/40",
+                overLimit && "ring-2 ring-red-500/60"
+              )}
               onDragOver={(e) => e.preventDefault()}
               onDrop={(e) => {
                 e.preventDefault();
@@ -138,126 +327,107 @@ export function JobsBoardClient({ initialLeads }: { initialLeads: Lead[] }) {
             >
               <div className="flex items-center justify-between rounded-t-xl bg-white/90 px-3 py-2 text-sm font-semibold text-black dark:bg-neutral-900/70 dark:text-white">
                 <span className="truncate">{stage}</span>
-                <span className="ml-2 rounded-full bg-black/10 px-2 py-0.5 text-xs font-semibold text-black dark:bg-white/10 dark:text-white">
-                  {items.length}
+                <span
+                  className={cn(
+                    "ml-2 rounded-full px-2 py-0.5 text-xs font-semibold",
+                    atLimit
+                      ? "bg-red-500/20 text-red-700 dark:text-red-300"
+                      : "bg-black/10 text-black dark:bg-white/10 dark:text-white"
+                  )}
+                  title={limit ? `WIP limit ${limit}` : undefined}
+                >
+                  {limit ? `${swimlane === "none" ? items.length : total}/${limit}` : items.length}
                 </span>
               </div>
 
-              <div className="space-y-2 p-3">
-                {items.map((l) => {
-                  const id = l.id || "";
-                  const title = l.customer_name || l.name || "—";
-                  const due = formatDue(l.delivery_date);
-                  const trelloUrl = l.card_id ? `https://trello.com/c/${l.card_id}` : null;
-
-                  return (
-                    <div
-                      key={id || l.lead_id}
-                      draggable
-                      onDragStart={(e) => {
-                        if (!id) return;
-                        e.dataTransfer.setData("text/leadId", id);
-                        e.dataTransfer.effectAllowed = "move";
-                      }}
-                      className={cn(
-                        "rounded-lg bg-white p-3 text-black shadow-sm ring-1 ring-black/5",
-                        "dark:bg-neutral-950 dark:text-white dark:ring-white/10"
-                      )}
-                    >
-                      <div className="flex items-start justify-between gap-2">
-                        <div className="min-w-0">
-                          <div className="truncate text-sm font-semibold">{title}</div>
-                          <div className="truncate text-xs text-black/60 dark:text-white/60">{l.lead_id}</div>
-                        </div>
-                        {trelloUrl && (
-                          <Button asChild size="sm" variant="outline" className="h-7 px-2 text-xs">
-                            <a href={trelloUrl} target="_blank" rel="noreferrer">
-                              Trello
-                            </a>
-                          </Button>
-                        )}
-                      </div>
-
-                      {(l.organization || due) && (
-                        <div className="mt-2 space-y-1">
-                          {l.organization && <div className="truncate text-xs text-black/70 dark:text-white/70">{l.organization}</div>}
-                          {due && (
-                            <div className="inline-flex items-center rounded-md bg-amber-500/20 px-2 py-0.5 text-xs font-semibold text-amber-900 dark:text-amber-200">
-                              {due}
-                            </div>
-                          )}
-                        </div>
-                      )}
-
-                      <div className="mt-3 flex gap-2">
-                        <Button asChild size="sm" variant="secondary" className="h-8 flex-1">
-                          <Link href={`/leads/${id || l.lead_id}`}>Open</Link>
-                        </Button>
-                      </div>
-                    </div>
-                  );
-                })}
-
-                <div className="pt-1">
-                  <button type="button" className="w-full rounded-md px-2 py-1.5 text-left text-sm text-black/60 hover:bg-black/5 dark:text-white/60 dark:hover:bg-white/5">
-                    + Add a card
-                  </button>
-                </div>
-              </div>
+              <div className="space-y-2 p-3">{items.map((l) => renderCard(l))}</div>
             </div>
           );
         })}
 
-        {(() => {
-          const items = columns.get("__none__") || [];
-          if (items.length === 0) return null;
-          return (
-            <div
-              className="w-[280px] shrink-0 rounded-xl bg-neutral-200/70 dark:bg-neutral-900/40"
-              onDragOver={(e) => e.preventDefault()}
-              onDrop={(e) => {
-                e.preventDefault();
-                const leadId = e.dataTransfer.getData("text/leadId");
-                if (!leadId) return;
-                handleDrop("Orders Awaiting Confirmation", leadId);
-              }}
-            >
-              <div className="flex items-center justify-between rounded-t-xl bg-white/90 px-3 py-2 text-sm font-semibold text-black dark:bg-neutral-900/70 dark:text-white">
-                <span className="truncate">No Stage</span>
-                <span className="ml-2 rounded-full bg-black/10 px-2 py-0.5 text-xs font-semibold text-black dark:bg-white/10 dark:text-white">
-                  {items.length}
-                </span>
-              </div>
-              <div className="space-y-2 p-3">
-                {items.map((l) => {
-                  const id = l.id || "";
-                  const title = l.customer_name || l.name || "—";
-                  return (
-                    <div
-                      key={id || l.lead_id}
-                      draggable
-                      onDragStart={(e) => {
-                        if (!id) return;
-                        e.dataTransfer.setData("text/leadId", id);
-                        e.dataTransfer.effectAllowed = "move";
-                      }}
-                      className="rounded-lg bg-white p-3 text-black shadow-sm ring-1 ring-black/5 dark:bg-neutral-950 dark:text-white dark:ring-white/10"
-                    >
-                      <div className="truncate text-sm font-semibold">{title}</div>
-                      <div className="truncate text-xs text-black/60 dark:text-white/60">{l.lead_id}</div>
-                      <div className="mt-3">
-                        <Button asChild size="sm" variant="secondary" className="h-8 w-full">
-                          <Link href={`/leads/${id || l.lead_id}`}>Open</Link>
-                        </Button>
-                      </div>
-                    </div>
-                  );
-                })}
-              </div>
+        {unstaged.length > 0 && (
+          <div
+            className="w-[280px] shrink-0 rounded-xl bg-neutral-200/70 dark:bg-neutral-900/40"
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={(e) => {
+              e.preventDefault();
+              const leadId = e.dataTransfer.getData("text/leadId");
+              if (!leadId) return;
+              handleDrop(PRODUCTION_STAGE_LABELS.orders_awaiting_confirmation, leadId);
+            }}
+          >
+            <div className="flex items-center justify-between rounded-t-xl bg-white/90 px-3 py-2 text-sm font-semibold text-black dark:bg-neutral-900/70 dark:text-white">
+              <span className="truncate">No Stage</span>
+              <span className="ml-2 rounded-full bg-black/10 px-2 py-0.5 text-xs font-semibold text-black dark:bg-white/10 dark:text-white">
+                {unstaged.length}
+              </span>
             </div>
-          );
-        })()}
+            <div className="space-y-2 p-3">{unstaged.map((l) => renderCard(l))}</div>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <div className="flex flex-1 flex-col gap-3 sm:flex-row sm:items-center">
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search jobs..."
+            className="max-w-md"
+          />
+          <Select value={swimlane} onValueChange={(value) => setSwimlane(value as ProductionBoardSwimlane)}>
+            <SelectTrigger className="sm:w-[200px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SWIMLANES.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {PRODUCTION_BOARD_SWIMLANE_LABELS[option]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-center gap-3 text-sm text-muted-foreground">
+          <Badge variant="outline" title="Production board mode (Settings)">
+            {PRODUCTION_BOARD_MODE_LABELS[settings.mode]}
+          </Badge>
+          <span>{isPending ? "Updating…" : `${leads.length} jobs`}</span>
+        </div>
       </div>
+
+      <div className="sm:hidden text-xs text-muted-foreground">Swipe left/right to see all columns</div>
+      {lanes.length === 0 ? (
+        <p className="py-6 text-center text-sm text-muted-foreground">No jobs match your search.</p>
+      ) : swimlane === "none" ? (
+        renderLane(lanes[0])
+      ) : (
+        <div className="space-y-6">
+          {lanes.map((lane) => (
+            <div key={lane.key} className="space-y-2">
+              <div className="text-sm font-semibold">
+                {lane.label} <span className="font-normal text-muted-foreground">({lane.leads.length})</span>
+              </div>
+              {renderLane(lane)}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <JobCardDrawer
+        lead={openLead}
+        job={openLead ? jobFor(openLead) : null}
+        stage={openLead ? currentStage(openLead) || null : null}
+        assignees={assignees}
+        isAdmin={isAdmin}
+        onOpenChange={(open) => {
+          if (!open) setOpenLeadId(null);
+        }}
+      />
     </div>
   );
 }
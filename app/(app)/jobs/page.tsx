@@ -3,7 +3,11 @@ import type { Lead } from "@/types/leads";
 import { RefreshButton } from "../leads/refresh-button";
 import { PageHeader } from "@/components/page-header";
 import { JobsBoardClient } from "./jobs-board-client";
+import { TrelloReconcileClient } from "./trello-reconcile-client";
 import { getViewer } from "@/lib/viewer";
+import { getProductionBoardSettings } from "@/lib/production-board";
+import { jobLeadRefs, queryJobsByLeadRefs } from "@/lib/job-leads";
+import type { BoardAssignee, BoardJob } from "@/types/production-board";
 
 export const revalidate = 10;
 
@@ -81,16 +85,81 @@ async function getJobsBoardLeads(): Promise<Lead[]> {
   return leads;
 }
 
+async function getBoardJobs(leads: Lead[]): Promise<BoardJob[]> {
+  const { supabase } = await getViewer();
+  const refs = jobLeadRefs(leads);
+  if (refs.length === 0) return [];
+
+  const { data: jobsData, error } = await queryJobsByLeadRefs(refs, (refs) =>
+    supabase
+      .from("jobs")
+      .select("id, lead_id, assignee_user_id, trello_card_id, customer_alerts_muted")
+      .in("lead_id", refs)
+      .is("cancelled_at", null)
+  );
+  if (error) {
+    console.error("Error fetching board jobs:", error);
+    return [];
+  }
+
+  const jobIds = (jobsData || []).map((job) => job.id as string);
+  const { data: checklistData } = jobIds.length
+    ? await supabase.from("job_checklist_items").select("job_id, is_done").in("job_id", jobIds)
+    : { data: [] };
+
+  const counts = new Map<string, { done: number; total: number }>();
+  for (const item of checklistData || []) {
+    const entry = counts.get(item.job_id as string) || { done: 0, total: 0 };
+    entry.total += 1;
+    if (item.is_done) entry.done += 1;
+    counts.set(item.job_id as string, entry);
+  }
+
+  return (jobsData || []).map((job) => ({
+    id: job.id as string,
+    lead_ref: String(job.lead_id || ""),
+    assignee_user_id: (job.assignee_user_id as string | null) || null,
+    trello_card_id: (job.trello_card_id as string | null) || null,
+    customer_alerts_muted: !!job.customer_alerts_muted,
+    checklist_done: counts.get(job.id as string)?.done ?? 0,
+    checklist_total: counts.get(job.id as string)?.total ?? 0,
+  }));
+}
+
+async function getBoardAssignees(): Promise<BoardAssignee[]> {
+  const { supabase } = await getViewer();
+  const { data } = await supabase
+    .from("profiles")
+    .select("user_id, full_name, email, role")
+    .in("role", ["ceo", "admin", "rep"])
+    .order("full_name", { ascending: true });
+  return (data || []).map((profile) => ({
+    user_id: profile.user_id as string,
+    name: (profile.full_name as string | null) || (profile.email as string | null) || "Unnamed",
+  }));
+}
 
 export default async function JobsPage() {
-  const leads = await getJobsBoardLeads();
+  const { supabase, userRole } = await getViewer();
+  const [leads, boardSettings, assignees] = await Promise.all([
+    getJobsBoardLeads(),
+    getProductionBoardSettings(supabase),
+    getBoardAssignees(),
+  ]);
+  const jobs = await getBoardJobs(leads);
+  const isAdmin = userRole === "ceo" || userRole === "admin";
 
   return (
     <div className="space-y-6">
       <PageHeader
         title="Jobs"
         subtitle="Track production jobs and orders."
-        actions={<RefreshButton />}
+        actions={
+          <div className="flex items-center gap-2">
+            {isAdmin && boardSettings.mode !== "admin_only" && <TrelloReconcileClient />}
+            <RefreshButton />
+          </div>
+        }
       />
       {leads.length === 0 ? (
         <Card>
@@ -107,7 +176,13 @@ export default async function JobsPage() {
             <CardTitle>Production Board</CardTitle>
           </CardHeader>
           <CardContent>
-            <JobsBoardClient initialLeads={leads} />
+            <JobsBoardClient
+              initialLeads={leads}
+              jobs={jobs}
+              assignees={assignees}
+              settings={boardSettings}
+              isAdmin={isAdmin}
+            />
           </CardContent>
         </Card>
       )}
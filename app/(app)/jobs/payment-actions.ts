@@ -0,0 +1,254 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { randomUUID } from "crypto";
+import { z } from "zod";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { requireAdmin } from "@/lib/supabase/server";
+import { getAdminSupabase } from "@/lib/supabase/admin";
+import { findLeadForJobRef } from "@/lib/job-leads";
+import { formatMoney } from "@/lib/quotes";
+
+const PROOF_BUCKET = "payment-proofs";
+const MAX_PROOF_BYTES = 10 * 1024 * 1024;
+
+const createInvoiceSchema = z.object({
+  jobId: z.string().uuid(),
+  invoiceNumber: z.string().trim().max(100).optional(),
+  amount: z.coerce.number().min(0, "Amount cannot be negative"),
+  issuedAt: z.string().optional(),
+  dueDate: z.string().optional(),
+  quoteId: z.string().uuid().optional(),
+  notes: z.string().max(2000).optional(),
+});
+
+const voidInvoiceSchema = z.object({
+  jobId: z.string().uuid(),
+  invoiceId: z.string().uuid(),
+});
+
+const recordPaymentSchema = z.object({
+  jobId: z.string().uuid(),
+  invoiceId: z.string().uuid().optional(),
+  kind: z.enum(["deposit", "part_payment", "final_payment", "refund"]),
+  method: z.enum(["eft", "cash", "card", "other"]),
+  amount: z.coerce.number().positive("Amount must be greater than 0"),
+  paidAt: z.string().optional(),
+  reference: z.string().trim().max(200).optional(),
+  notes: z.string().max(2000).optional(),
+});
+
+const deletePaymentSchema = z.object({
+  jobId: z.string().uuid(),
+  paymentId: z.string().uuid(),
+});
+
+async function loadJobContext(supabase: SupabaseClient, jobId: string) {
+  const { data: job } = await supabase.from("jobs").select("id, lead_id, invoice_number").eq("id", jobId).maybeSingle();
+  if (!job) return null;
+
+  const lead = await findLeadForJobRef<{ id: string }>(supabase, job.lead_id, "id");
+  return { job, leadDbId: (lead?.id as string | undefined) || null };
+}
+
+function revalidateJob(jobId: string, leadDbId: string | null) {
+  revalidatePath(`/jobs/${jobId}`);
+  revalidatePath("/jobs");
+  if (leadDbId) revalidatePath(`/leads/${leadDbId}`);
+}
+
+export async function createJobInvoiceAction(formData: FormData) {
+  const parsed = createInvoiceSchema.safeParse({
+    jobId: formData.get("jobId"),
+    invoiceNumber: formData.get("invoiceNumber") || undefined,
+    amount: formData.get("amount"),
+    issuedAt: formData.get("issuedAt") || undefined,
+    dueDate: formData.get("dueDate") || undefined,
+    quoteId: formData.get("quoteId") || undefined,
+    notes: formData.get("notes") || undefined,
+  });
+  if (!parsed.success) return { error: parsed.error.issues[0]?.message || "Invalid input" };
+
+  const auth = await requireAdmin();
+  if ("error" in auth) return { error: auth.error };
+
+  const ctx = await loadJobContext(auth.supabase, parsed.data.jobId);
+  if (!ctx) return { error: "Job not found" };
+
+  const { error } = await auth.supabase.from("job_invoices").insert({
+    job_id: parsed.data.jobId,
+    quote_id: parsed.data.quoteId || null,
+    invoice_number: parsed.data.invoiceNumber || null,
+    amount: parsed.data.amount,
+    issued_at: parsed.data.issuedAt || new Date().toISOString().slice(0, 10),
+    due_date: parsed.data.dueDate || null,
+    notes: parsed.data.notes || null,
+    created_by: auth.user.id,
+  });
+  if (error) return { error: error.message };
+
+  if (parsed.data.invoiceNumber && !ctx.job.invoice_number) {
+    await auth.supabase
+      .from("jobs")
+      .update({ invoice_number: parsed.data.invoiceNumber, updated_at: new Date().toISOString() })
+      .eq("id", parsed.data.jobId);
+  }
+
+  if (ctx.leadDbId) {
+    await auth.supabase.from("lead_events").insert({
+      lead_db_id: ctx.leadDbId,
+      actor_user_id: auth.user.id,
+      event_type: "invoice_created",
+      payload: { jobId: parsed.data.jobId, invoiceNumber: parsed.data.invoiceNumber || null, amount: parsed.data.amount },
+    });
+  }
+
+  revalidateJob(parsed.data.jobId, ctx.leadDbId);
+  return { success: true };
+}
+
+export async function voidJobInvoiceAction(formData: FormData) {
+  const parsed = voidInvoiceSchema.safeParse({
+    jobId: formData.get("jobId"),
+    invoiceId: formData.get("invoiceId"),
+  });
+  if (!parsed.success) return { error: parsed.error.issues[0]?.message || "Invalid input" };
+
+  const auth = await requireAdmin();
+  if ("error" in auth) return { error: auth.error };
+
+  const ctx = await loadJobContext(auth.supabase, parsed.data.jobId);
+  if (!ctx) return { error: "Job not found" };
+
+  const { error } = await auth.supabase
+    .from("job_invoices")
+    .update({ status: "void" })
+    .eq("id", parsed.data.invoiceId)
+    .eq("job_id", parsed.data.jobId);
+  if (error) return { error: error.message };
+
+  if (ctx.leadDbId) {
+    await auth.supabase.from("lead_events").insert({
+      lead_db_id: ctx.leadDbId,
+      actor_user_id: auth.user.id,
+      event_type: "invoice_voided",
+      payload: { jobId: parsed.data.jobId, invoiceId: parsed.data.invoiceId },
+    });
+  }
+
+  revalidateJob(parsed.data.jobId, ctx.leadDbId);
+  return { success: true };
+}
+
+export async function recordJobPaymentAction(formData: FormData) {
+  const parsed = recordPaymentSchema.safeParse({
+    jobId: formData.get("jobId"),
+    invoiceId: formData.get("invoiceId") || undefined,
+    kind: formData.get("kind"),
+    method: formData.get("method") || "eft",
+    amount: formData.get("amount"),
+    paidAt: formData.get("paidAt") || undefined,
+    reference: formData.get("reference") || undefined,
+    notes: formData.get("notes") || undefined,
+  });
+  if (!parsed.success) return { error: parsed.error.issues[0]?.message || "Invalid input" };
+
+  const auth = await requireAdmin();
+  if ("error" in auth) return { error: auth.error };
+
+  const ctx = await loadJobContext(auth.supabase, parsed.data.jobId);
+  if (!ctx) return { error: "Job not found" };
+
+  let proofPath: string | null = null;
+  const proof = formData.get("proof");
+  if (proof instanceof File && proof.size > 0) {
+    if (proof.size > MAX_PROOF_BYTES) return { error: "Proof of payment must be 10MB or smaller" };
+    if (!proof.type.startsWith("image/") && proof.type !== "application/pdf") {
+      return { error: "Proof of payment must be an image or PDF" };
+    }
+
+    const admin = getAdminSupabase();
+    if (!admin) return { error: "Storage is not configured" };
+
+    const safeName = proof.name.replace(/[^a-zA-Z0-9._-]/g, "_").slice(-80) || "proof";
+    proofPath = `${parsed.data.jobId}/${randomUUID()}-${safeName}`;
+    const { error: uploadError } = await admin.storage
+      .from(PROOF_BUCKET)
+      .upload(proofPath, Buffer.from(await proof.arrayBuffer()), { contentType: proof.type, upsert: false });
+    if (uploadError) return { error: uploadError.message || "Failed to upload proof of payment" };
+  }
+
+  const { error } = await auth.supabase.from("job_payments").insert({
+    job_id: parsed.data.jobId,
+    invoice_id: parsed.data.invoiceId || null,
+    kind: parsed.data.kind,
+    method: parsed.data.method,
+    amount: parsed.data.amount,
+    paid_at: parsed.data.paidAt || new Date().toISOString().slice(0, 10),
+    reference: parsed.data.reference || null,
+    proof_path: proofPath,
+    notes: parsed.data.notes || null,
+    created_by: auth.user.id,
+  });
+  if (error) {
+    if (proofPath) await getAdminSupabase()?.storage.from(PROOF_BUCKET).remove([proofPath]);
+    return { error: error.message };
+  }
+
+  if (ctx.leadDbId) {
+    await auth.supabase.from("lead_events").insert({
+      lead_db_id: ctx.leadDbId,
+      actor_user_id: auth.user.id,
+      event_type: parsed.data.kind === "refund" ? "payment_refunded" : "payment_recorded",
+      payload: {
+        jobId: parsed.data.jobId,
+        kind: parsed.data.kind,
+        amount: formatMoney(parsed.data.amount),
+        reference: parsed.data.reference || null,
+      },
+    });
+  }
+
+  revalidateJob(parsed.data.jobId, ctx.leadDbId);
+  return { success: true };
+}
+
+export async function deleteJobPaymentAction(formData: FormData) {
+  const parsed = deletePaymentSchema.safeParse({
+    jobId: formData.get("jobId"),
+    paymentId: formData.get("paymentId"),
+  });
+  if (!parsed.success) return { error: parsed.error.issues[0]?.message || "Invalid input" };
+
+  const auth = await requireAdmin();
+  if ("error" in auth) return { error: auth.error };
+
+  const ctx = await loadJobContext(auth.supabase, parsed.data.jobId);
+  if (!ctx) return { error: "Job not found" };
+
+  const { data: payment, error } = await auth.supabase
+    .from("job_payments")
+    .delete()
+    .eq("id", parsed.data.paymentId)
+    .eq("job_id", parsed.data.jobId)
+    .select("id, amount, kind, proof_path")
+    .maybeSingle();
+  if (error) return { error: error.message };
+  if (!payment) return { error: "Payment not found" };
+
+  if (payment.proof_path) {
+    await getAdminSupabase()?.storage.from(PROOF_BUCKET).remove([payment.proof_path]);
+  }
+
+  if (ctx.leadDbId) {
+    await auth.supabase.from("lead_events").insert({
+      lead_db_id: ctx.leadDbId,
+      actor_user_id: auth.user.id,
+      event_type: "payment_deleted",
+      payload: { jobId: parsed.data.jobId, kind: payment.kind, amount: formatMoney(Number(payment.amount)) },
+    });
+  }
+
+  revalidateJob(parsed.data.jobId, ctx.leadDbId);
+  return { success: true };
+}
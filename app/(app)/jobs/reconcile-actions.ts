@@ -0,0 +1,45 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import { requireAdmin } from "@/lib/supabase/server";
+import { buildTrelloDriftReport, resolveTrelloDrift } from "@/lib/trello-reconcile";
+
+const resolveDriftSchema = z.object({
+  jobId: z.string().uuid(),
+  field: z.enum(["stage", "product_list", "design_notes", "delivery_date", "card_missing"]),
+  side: z.enum(["trello", "admin"]),
+});
+
+export async function runTrelloReconciliationAction() {
+  const auth = await requireAdmin();
+  if ("error" in auth) return { error: auth.error };
+
+  const report = await buildTrelloDriftReport(auth.supabase);
+  if ("error" in report) return { error: report.error };
+
+  return { success: true, report };
+}
+
+export async function resolveTrelloDriftAction(formData: FormData) {
+  const parsed = resolveDriftSchema.safeParse({
+    jobId: formData.get("jobId"),
+    field: formData.get("field"),
+    side: formData.get("side"),
+  });
+  if (!parsed.success) return { error: parsed.error.issues[0]?.message || "Invalid input" };
+
+  const auth = await requireAdmin();
+  if ("error" in auth) return { error: auth.error };
+
+  const result = await resolveTrelloDrift(auth.supabase, {
+    ...parsed.data,
+    actorUserId: auth.user.id,
+    actorName: auth.profile.full_name || auth.profile.email || auth.user.email || "Admin",
+  });
+  if ("error" in result) return { error: result.error };
+
+  revalidatePath("/jobs");
+  revalidatePath(`/jobs/${parsed.data.jobId}`);
+  return { success: true };
+}
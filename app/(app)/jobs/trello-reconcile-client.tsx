@@ -0,0 +1,130 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { GitCompare } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { TRELLO_DRIFT_FIELD_LABELS, type TrelloDriftReport, type TrelloDriftRow, type TrelloDriftSide } from "@/types/trello";
+import { resolveTrelloDriftAction, runTrelloReconciliationAction } from "./reconcile-actions";
+
+function DriftValue({ value }: { value: string | null }) {
+  if (!value) return <span className="text-muted-foreground">—</span>;
+  return <span className="whitespace-pre-wrap line-clamp-3 text-xs">{value}</span>;
+}
+
+export function TrelloReconcileClient() {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [report, setReport] = useState<TrelloDriftReport | null>(null);
+  const [pendingRowId, setPendingRowId] = useState<string | null>(null);
+  const [isRunning, startRun] = useTransition();
+  const [, startResolve] = useTransition();
+
+  function runReconciliation() {
+    setOpen(true);
+    startRun(async () => {
+      const result = await runTrelloReconciliationAction();
+      if ("error" in result) {
+        toast.error(result.error);
+        return;
+      }
+      setReport(result.report);
+    });
+  }
+
+  function resolve(row: TrelloDriftRow, side: TrelloDriftSide) {
+    const formData = new FormData();
+    formData.set("jobId", row.job_id);
+    formData.set("field", row.field);
+    formData.set("side", side);
+    setPendingRowId(row.id);
+    startResolve(async () => {
+      const result = await resolveTrelloDriftAction(formData);
+      setPendingRowId(null);
+      if ("error" in result) {
+        toast.error(result.error);
+        return;
+      }
+      toast.success(side === "trello" ? "Updated from Trello" : "Pushed to Trello");
+      setReport((prev) => (prev ? { ...prev, rows: prev.rows.filter((r) => r.id !== row.id) } : prev));
+      router.refresh();
+    });
+  }
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={runReconciliation} disabled={isRunning} className="min-h-[44px] gap-2">
+        <GitCompare className="h-4 w-4" />
+        <span>{isRunning ? "Checking Trello..." : "Reconcile Trello"}</span>
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-5xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Trello Drift Report</DialogTitle>
+            <DialogDescription>
+              {report
+                ? `${report.jobs_checked} jobs compared against ${report.cards_checked} cards · ${new Date(report.generated_at).toLocaleString()}`
+                : "Comparing every card on the production board with jobs and leads..."}
+            </DialogDescription>
+          </DialogHeader>
+
+          {report && report.rows.length === 0 && (
+            <p className="py-8 text-center text-sm text-muted-foreground">Trello and the admin are in sync.</p>
+          )}
+
+          {report && report.rows.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Job</TableHead>
+                  <TableHead>Field</TableHead>
+                  <TableHead>Admin</TableHead>
+                  <TableHead>Trello</TableHead>
+                  <TableHead className="text-right">Resolve</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.rows.map((row) => (
+                  <TableRow key={row.id}>
+                    <TableCell className="align-top">
+                      <a href={`/jobs/${row.job_id}`} className="font-medium hover:underline">
+                        {row.lead_code || row.job_id.substring(0, 8)}
+                      </a>
+                      <p className="text-xs text-muted-foreground">{row.customer_name}</p>
+                      {row.trello_card_url && (
+                        <a href={row.trello_card_url} target="_blank" rel="noreferrer" className="text-xs text-muted-foreground underline">
+                          Card
+                        </a>
+                      )}
+                    </TableCell>
+                    <TableCell className="align-top">{TRELLO_DRIFT_FIELD_LABELS[row.field]}</TableCell>
+                    <TableCell className="align-top max-w-[220px]">
+                      <DriftValue value={row.admin_value} />
+                    </TableCell>
+                    <TableCell className="align-top max-w-[220px]">
+                      <DriftValue value={row.field === "card_missing" ? "Not on board (archived or deleted)" : row.trello_value} />
+                    </TableCell>
+                    <TableCell className="align-top text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button size="sm" variant="outline" disabled={pendingRowId === row.id} onClick={() => resolve(row, "trello")}>
+                          {row.field === "card_missing" ? "Unlink Card" : "Take Trello"}
+                        </Button>
+                        <Button size="sm" disabled={pendingRowId === row.id} onClick={() => resolve(row, "admin")}>
+                          {row.field === "card_missing" ? "Restore Card" : "Take Admin"}
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
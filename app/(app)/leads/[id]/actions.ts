@@ -6,6 +6,16 @@ import { z } from "zod";
 import { randomUUID } from "crypto";
 import { TRELLO_LISTS } from "@/lib/trello";
 import { renderTrelloCardDescription } from "@/lib/trello-card-template";
+import { pushLeadFieldsToTrello } from "@/lib/trello-sync";
+import { stampTrelloFieldEdits } from "@/lib/trello-labels";
+import { getProductionBoardSettings, TRELLO_DISABLED_ERROR, trelloEnabled } from "@/lib/production-board";
+import {
+  LEAD_ROUTING_LEAD_SELECT,
+  leadRoutingColumns,
+  leadRoutingEvent,
+  MANUAL_ASSIGNMENT_ROUTING_COLUMNS,
+  routeLead,
+} from "@/lib/lead-routing";
 
 const addNoteSchema = z.object({
   leadId: z.string().uuid(),
@@ -20,6 +30,7 @@ const deleteNoteSchema = z.object({
 const changeStatusSchema = z.object({
   leadId: z.string().uuid(),
   status: z.enum(["New", "Assigned", "Contacted", "Quote Sent", "Quote Approved", "In Production", "Completed", "Lost", "Answered"]),
+  quoteId: z.string().uuid().optional(),
 });
 
 const assignRepSchema = z.object({
@@ -61,6 +72,7 @@ const leadFieldUpdatesSchema = z
     preferred_deadline_date: z.string().nullable().optional(),
     message: z.string().nullable().optional(),
     design_notes: z.string().nullable().optional(),
+    trello_product_list: z.string().nullable().optional(),
     attachments: z.array(z.string()).nullable().optional(),
   })
   .strict();
@@ -193,12 +205,71 @@ export async function deleteNoteAction(formData: FormData): Promise<{ error?: st
   revalidatePath(`/leads/${result.data.leadId}`);
 }
 
+async function linkQuoteRevision(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  leadId: string,
+  status: "Quote Sent" | "Quote Approved",
+  quoteId?: string
+): Promise<{ error: string } | { quote: { id: string; version: number } }> {
+  let query = supabase
+    .from("quotes")
+    .select("id, version, status")
+    .eq("lead_db_id", leadId)
+    .neq("status", "superseded");
+  if (quoteId) {
+    query = query.eq("id", quoteId);
+  } else if (status === "Quote Approved") {
+    query = query.in("status", ["sent", "approved"]);
+  }
+
+  const { data: quote, error: quoteError } = await query
+    .order("version", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (quoteError) {
+    return { error: quoteError.message || "Failed to load quote" };
+  }
+  if (!quote) {
+    return {
+      error:
+        status === "Quote Sent"
+          ? "Create a quote revision before marking this lead as Quote Sent"
+          : "Send a quote revision before marking this lead as Quote Approved",
+    };
+  }
+
+  const now = new Date().toISOString();
+  const { error: updateError } = await supabase
+    .from("quotes")
+    .update(
+      status === "Quote Sent"
+        ? { status: "sent", sent_at: now, updated_at: now }
+        : { status: "approved", approved_at: now, approved_via: "admin", updated_at: now }
+    )
+    .eq("id", quote.id);
+  if (updateError) {
+    return { error: updateError.message || "Failed to update quote" };
+  }
+
+  // Older open revisions no longer represent what the customer is looking at
+  await supabase
+    .from("quotes")
+    .update({ status: "superseded", updated_at: now })
+    .eq("lead_db_id", leadId)
+    .neq("id", quote.id)
+    .in("status", ["draft", "sent"])
+    .lt("version", quote.version);
+
+  return { quote: { id: quote.id, version: quote.version } };
+}
+
 export async function changeStatusAction(
   formData: FormData
 ): Promise<{ error?: string } | void> {
   const rawFormData = {
     leadId: formData.get("leadId") as string,
     status: formData.get("status") as string,
+    quoteId: (formData.get("quoteId") as string | null) || undefined,
   };
 
   const result = changeStatusSchema.safeParse(rawFormData);
@@ -240,12 +311,23 @@ export async function changeStatusAction(
 
   const oldStatus = currentLead.status;
   const newStatus = result.data.status;
-  
+
+  // Quote Sent / Quote Approved always point at a concrete quote revision
+  let linkedQuote: { id: string; version: number } | null = null;
+  if (newStatus === "Quote Sent" || newStatus === "Quote Approved") {
+    const linkResult = await linkQuoteRevision(supabase, result.data.leadId, newStatus, result.data.quoteId);
+    if ("error" in linkResult) {
+      return { error: linkResult.error };
+    }
+    linkedQuote = linkResult.quote;
+  }
+
   const { error: updateError } = await supabase
     .from("leads")
     .update({
       status: newStatus,
       sales_status: newStatus,
+      ...(linkedQuote ? { current_quote_id: linkedQuote.id } : {}),
       updated_at: new Date().toISOString(),
       last_modified: new Date().toISOString(),
       last_modified_by: modifierName,
@@ -260,7 +342,9 @@ export async function changeStatusAction(
     lead_db_id: result.data.leadId,
     actor_user_id: user.id,
     event_type: "status_changed",
-    payload: { from: oldStatus, to: newStatus },
+    payload: linkedQuote
+      ? { from: oldStatus, to: newStatus, quoteId: linkedQuote.id, quoteVersion: linkedQuote.version }
+      : { from: oldStatus, to: newStatus },
   });
 
   revalidatePath(`/leads/${result.data.leadId}`);
@@ -319,6 +403,7 @@ export async function assignRepAction(
   if (!result.data.repId || result.data.repId === "") {
     const updateData = {
       assigned_rep_id: null,
+      ...MANUAL_ASSIGNMENT_ROUTING_COLUMNS,
       updated_at: new Date().toISOString(),
       last_modified: new Date().toISOString(),
       last_modified_by: modifierName,
@@ -375,7 +460,7 @@ export async function assignRepAction(
 
   const { error: updateError } = await supabase
     .from("leads")
-    .update(updateData)
+    .update({ ...updateData, ...MANUAL_ASSIGNMENT_ROUTING_COLUMNS })
     .eq("id", result.data.leadId);
 
   if (updateError) {
@@ -427,13 +512,21 @@ export async function updateDesignNotesAction(
   
   const modifierName = profile?.full_name || user.email || "Admin";
 
+  const { data: before } = await supabase
+    .from("leads")
+    .select("design_notes, trello_field_edited_at")
+    .eq("id", result.data.leadId)
+    .maybeSingle();
+
   // Update design notes with audit fields
+  const nowIso = new Date().toISOString();
   const { error: updateError } = await supabase
     .from("leads")
     .update({
       design_notes: result.data.designNotes || null,
-      updated_at: new Date().toISOString(),
-      last_modified: new Date().toISOString(),
+      trello_field_edited_at: stampTrelloFieldEdits(before?.trello_field_edited_at, ["design_notes"], nowIso),
+      updated_at: nowIso,
+      last_modified: nowIso,
       last_modified_by: modifierName,
     })
     .eq("id", result.data.leadId);
@@ -442,6 +535,15 @@ export async function updateDesignNotesAction(
     return { error: updateError.message || "Failed to update design notes" };
   }
 
+  const sync = await pushLeadFieldsToTrello({
+    supabase,
+    leadDbId: result.data.leadId,
+    actorUserId: user.id,
+    previous: { design_notes: before?.design_notes ?? null },
+    changes: { design_notes: result.data.designNotes || null },
+  });
+  if ("error" in sync) console.error("[trello-sync] push failed:", sync.error);
+
   revalidatePath(`/leads/${result.data.leadId}`);
 }
 
@@ -493,12 +595,25 @@ export async function updateLeadFieldsAction(
 
   const modifierName = profile?.full_name || user.email || "Admin";
 
+  const syncedKeys = (["design_notes", "trello_product_list"] as const).filter((key) => key in updatesParsed.data);
+  const { data: before } = syncedKeys.length
+    ? await supabase
+        .from("leads")
+        .select("design_notes, trello_product_list, trello_field_edited_at")
+        .eq("id", result.data.leadId)
+        .maybeSingle()
+    : { data: null };
+
+  const nowIso = new Date().toISOString();
   const updateData: Record<string, unknown> = {
     ...updatesParsed.data,
-    updated_at: new Date().toISOString(),
-    last_modified: new Date().toISOString(),
+    updated_at: nowIso,
+    last_modified: nowIso,
     last_modified_by: modifierName,
   };
+  if (syncedKeys.length > 0) {
+    updateData.trello_field_edited_at = stampTrelloFieldEdits(before?.trello_field_edited_at, [...syncedKeys], nowIso);
+  }
 
   const { error: updateError } = await supabase
     .from("leads")
@@ -517,6 +632,17 @@ export async function updateLeadFieldsAction(
     payload: { keys },
   });
 
+  if (syncedKeys.length > 0) {
+    const sync = await pushLeadFieldsToTrello({
+      supabase,
+      leadDbId: result.data.leadId,
+      actorUserId: user.id,
+      previous: Object.fromEntries(syncedKeys.map((key) => [key, before?.[key] ?? null])),
+      changes: Object.fromEntries(syncedKeys.map((key) => [key, updatesParsed.data[key] ?? null])),
+    });
+    if ("error" in sync) console.error("[trello-sync] push failed:", sync.error);
+  }
+
   revalidatePath(`/leads/${result.data.leadId}`);
 }
 
@@ -555,6 +681,11 @@ export async function createTrelloCardAction(
     return { error: "Unauthorized: Only CEO/Admin can create Trello cards" };
   }
 
+  const boardSettings = await getProductionBoardSettings(supabase);
+  if (!trelloEnabled(boardSettings.mode)) {
+    return { error: TRELLO_DISABLED_ERROR };
+  }
+
   const leadSelect =
     "id, lead_id, customer_name, name, email, phone, organization, status, sales_status, payment_status, production_stage, delivery_date, design_notes, trello_product_list, selected_apparel_items, trello_card_id, card_created";
 
@@ -755,10 +886,9 @@ export async function autoAssignLeadAction(
     return { error: "Unauthorized: Only CEO/Admin can auto-assign leads" };
   }
 
-  // Get lead to find lead_id (text field)
   const { data: lead, error: leadError } = await supabase
     .from("leads")
-    .select("lead_id")
+    .select(`${LEAD_ROUTING_LEAD_SELECT}, assigned_rep_id`)
     .eq("id", result.data.leadId)
     .single();
 
@@ -766,28 +896,33 @@ export async function autoAssignLeadAction(
     return { error: "Lead not found" };
   }
 
-  // Call RPC function to auto-assign
-  const { data: assignedRepId, error: rpcError } = await supabase.rpc(
-    "assign_lead_auto",
-    { p_lead_id: lead.lead_id }
-  );
-
-  if (rpcError) {
-    return { error: rpcError.message || "Failed to auto-assign lead" };
+  const leadRow = lead as unknown as Record<string, unknown>;
+  if (leadRow.assigned_rep_id) {
+    return { repId: leadRow.assigned_rep_id as string };
   }
 
-  if (!assignedRepId) {
+  const routing = await routeLead(supabase, leadRow);
+  if (!routing) {
     return { error: "No rep available for assignment" };
   }
 
-  // Insert event
-  await supabase.from("lead_events").insert({
-    lead_db_id: result.data.leadId,
-    actor_user_id: user.id,
-    event_type: "rep_auto_assigned",
-    payload: { repId: assignedRepId },
-  });
+  const nowIso = new Date().toISOString();
+  const { error: updateError } = await supabase
+    .from("leads")
+    .update({
+      ...leadRoutingColumns(routing, nowIso),
+      updated_at: nowIso,
+      last_modified: nowIso,
+      last_modified_by: "system:routing",
+    })
+    .eq("id", result.data.leadId);
 
-  revalidatePath(`/leads/${lead.lead_id}`);
-  return { repId: assignedRepId };
+  if (updateError) {
+    return { error: updateError.message || "Failed to auto-assign lead" };
+  }
+
+  await supabase.from("lead_events").insert(leadRoutingEvent(result.data.leadId, routing, user.id));
+
+  revalidatePath(`/leads/${leadRow.lead_id}`);
+  return { repId: routing.repId };
 }
@@ -0,0 +1,131 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import { Badge } from "@/components/ui/badge";
+import { describeLeadActivity, leadActivityCategory } from "@/lib/lead-activity";
+import {
+  LEAD_ACTIVITY_CATEGORIES,
+  LEAD_ACTIVITY_CATEGORY_LABELS,
+  type LeadActivityCategory,
+  type LeadActivityEvent,
+} from "@/types/lead-activity";
+
+const ALL = "all";
+const SYSTEM = "system";
+
+const selectClassName =
+  "h-9 rounded-md border border-input bg-background px-3 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring";
+
+interface LeadActivityTimelineProps {
+  events: LeadActivityEvent[];
+  people: Array<{ id: string; name: string | null }>;
+  createdAt: string | null;
+}
+
+function formatWhen(value: string): string {
+  const d = new Date(value);
+  if (Number.isNaN(d.getTime())) return "—";
+  return d.toLocaleString("en-US", { year: "numeric", month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" });
+}
+
+export function LeadActivityTimeline({ events, people, createdAt }: LeadActivityTimelineProps) {
+  const [category, setCategory] = useState<LeadActivityCategory | typeof ALL>(ALL);
+  const [actor, setActor] = useState<string>(ALL);
+
+  const names = useMemo(
+    () => new Map(people.filter((p) => p.name).map((p) => [p.id, p.name as string])),
+    [people]
+  );
+
+  const rows = useMemo(
+    () =>
+      events.map((event) => ({
+        event,
+        category: leadActivityCategory(event.event_type),
+        description: describeLeadActivity(event, names),
+      })),
+    [events, names]
+  );
+
+  // Only offer filters that match something on this lead
+  const categories = LEAD_ACTIVITY_CATEGORIES.filter((c) => rows.some((row) => row.category === c));
+  const actorIds = Array.from(new Set(events.map((e) => e.actor_user_id).filter((id): id is string => !!id)));
+  const hasSystemEvents = events.some((e) => !e.actor_user_id);
+
+  const visible = rows.filter(
+    (row) =>
+      (category === ALL || row.category === category) &&
+      (actor === ALL || (actor === SYSTEM ? !row.event.actor_user_id : row.event.actor_user_id === actor))
+  );
+  const filtered = category !== ALL || actor !== ALL;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={category}
+          onChange={(e) => setCategory(e.target.value as LeadActivityCategory | typeof ALL)}
+          className={selectClassName}
+          aria-label="Filter by event type"
+        >
+          <option value={ALL}>All activity</option>
+          {categories.map((c) => (
+            <option key={c} value={c}>
+              {LEAD_ACTIVITY_CATEGORY_LABELS[c]}
+            </option>
+          ))}
+        </select>
+        <select value={actor} onChange={(e) => setActor(e.target.value)} className={selectClassName} aria-label="Filter by person">
+          <option value={ALL}>Everyone</option>
+          {actorIds.map((id) => (
+            <option key={id} value={id}>
+              {names.get(id) || id.substring(0, 8)}
+            </option>
+          ))}
+          {hasSystemEvents && <option value={SYSTEM}>System / customer</option>}
+        </select>
+        <span className="text-xs text-muted-foreground">
+          {visible.length} of {rows.length} events
+        </span>
+      </div>
+
+      <div className="space-y-6 relative pl-4 border-l-2 border-muted ml-2">
+        {visible.length === 0 && <p className="text-sm text-muted-foreground">No activity matches these filters.</p>}
+
+        {visible.map(({ event, category: rowCategory, description }) => (
+          <div key={event.id} className="relative">
+            <div className="absolute -left-[21px] top-1 h-3 w-3 rounded-full bg-muted-foreground/20 border-2 border-muted-foreground"></div>
+            <div className="flex flex-wrap items-center gap-2">
+              {description.href ? (
+                <Link href={description.href} className="text-sm font-medium underline-offset-4 hover:underline">
+                  {description.title}
+                </Link>
+              ) : (
+                <p className="text-sm font-medium">{description.title}</p>
+              )}
+              <Badge variant="outline" className="text-[10px]">
+                {LEAD_ACTIVITY_CATEGORY_LABELS[rowCategory]}
+              </Badge>
+            </div>
+            {description.detail && (
+              <p className="mt-0.5 text-sm text-muted-foreground whitespace-pre-wrap break-words">{description.detail}</p>
+            )}
+            <p className="text-xs text-muted-foreground">
+              {formatWhen(event.created_at)} ·{" "}
+              {event.actor_user_id ? names.get(event.actor_user_id) || "Unknown user" : "System"}
+            </p>
+          </div>
+        ))}
+
+        {!filtered && createdAt && (
+          <div className="relative">
+            <div className="absolute -left-[21px] top-1 h-3 w-3 rounded-full bg-primary/20 border-2 border-primary"></div>
+            <p className="text-sm font-medium">Lead created</p>
+            <p className="text-xs text-muted-foreground">{formatWhen(createdAt)}</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
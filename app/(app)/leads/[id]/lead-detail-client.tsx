@@ -25,16 +25,25 @@ import { useRouter } from "next/navigation";
 import { addNoteAction, deleteNoteAction, changeStatusAction, updateDesignNotesAction, updateLeadFieldsAction } from "./actions";
 import { AttachmentGallery } from "./attachment-gallery";
 import type { Lead } from "@/types/leads";
+import type { Snippet } from "@/types/snippets";
+import { getShortcutQuery, matchSnippets, replaceShortcut } from "@/lib/snippets";
+import { SnippetSuggestions } from "@/components/snippet-suggestions";
+import { expandSnippetAction } from "../../snippets/actions";
 import { Separator } from "@/components/ui/separator";
 import { ExternalLink, Pencil, Trash2, Plus, ArrowUp, ArrowDown, RotateCcw, Copy } from "lucide-react";
 import { getTrelloCardUrl, TRELLO_LISTS } from "@/lib/trello";
 import { renderTrelloCardDescription } from "@/lib/trello-card-template";
 import { TrelloProductListEditor } from "./trello-product-list-editor";
 import { formatTrelloProductList, parseTrelloProductList, type TrelloProductLine } from "./trello-product-list";
+import { QuoteBuilder } from "./quote-builder";
+import { LeadActivityTimeline } from "./lead-activity-timeline";
+import type { LeadActivityEvent } from "@/types/lead-activity";
+import type { PriceBookEntry, Quote } from "@/types/quotes";
 
 const leadDetailTabs = [
   { value: "overview", label: "Overview" },
   { value: "quote", label: "Quote" },
+  { value: "quotes", label: "Quote Builder" },
   { value: "booking", label: "Booking" },
   { value: "question", label: "Question" },
   { value: "timeline", label: "Timeline" },
@@ -61,26 +70,18 @@ interface DisplayLead extends Lead {
   submission_date?: string | null;
   assigned_rep_id?: string | null;
   assigned_rep_name?: string | null;
+  routing_reason?: string | null;
 }
 
 interface Note {
   id: string;
   lead_db_id: string;
-  author_user_id: string;
+  author_user_id: string | null;
   author_display_name?: string | null;
   note: string;
   created_at: string;
 }
 
-interface Event {
-  id: string;
-  lead_db_id: string;
-  actor_user_id: string;
-  event_type: string;
-  payload: Record<string, unknown>;
-  created_at: string;
-}
-
 interface Rep {
   id: string;
   name: string | null;
@@ -92,7 +93,7 @@ interface LeadDetailClientProps {
   lead: DisplayLead;
   initialStatus: string;
   notes: Note[];
-  events: Event[];
+  events: LeadActivityEvent[];
   isCeoOrAdmin: boolean;
   reps: Rep[];
   job?: {
@@ -102,6 +103,9 @@ interface LeadDetailClientProps {
     trello_list_id: string | null;
     production_stage: string | null;
   } | null;
+  quotes: Quote[];
+  priceBook: PriceBookEntry[];
+  snippets: Snippet[];
 }
 
 export function LeadDetailClient({
@@ -111,7 +115,11 @@ export function LeadDetailClient({
   notes,
   events,
   isCeoOrAdmin,
+  reps,
   job,
+  quotes,
+  priceBook,
+  snippets,
 }: LeadDetailClientProps) {
   const router = useRouter();
   const [noteText, setNoteText] = useState("");
@@ -450,6 +458,7 @@ export function LeadDetailClient({
     | "deadline"
     | "message"
     | "design_notes"
+    | "product_list"
     | "attachments";
 
   const [quoteEditOpen, setQuoteEditOpen] = useState(false);
@@ -484,6 +493,8 @@ export function LeadDetailClient({
       setEditTextValue(String(lead.message || ""));
     } else if (mode === "design_notes") {
       setEditTextValue(String(lead.design_notes || ""));
+    } else if (mode === "product_list") {
+      setEditTextValue(String(lead.trello_product_list || ""));
     } else if (mode === "attachments") {
       const urls = normalizeStringArray(lead.attachments);
       setEditListValue(urls.join("\n"));
@@ -511,6 +522,7 @@ export function LeadDetailClient({
     }
     if (mode === "message") updates.message = null;
     if (mode === "design_notes") updates.design_notes = null;
+    if (mode === "product_list") updates.trello_product_list = null;
     if (mode === "attachments") updates.attachments = null;
 
     formData.set("updates", JSON.stringify(updates));
@@ -554,6 +566,8 @@ export function LeadDetailClient({
       updates.message = editTextValue.trim() ? editTextValue.trim() : null;
     } else if (quoteEditMode === "design_notes") {
       updates.design_notes = editTextValue.trim() ? editTextValue.trim() : null;
+    } else if (quoteEditMode === "product_list") {
+      updates.trello_product_list = editTextValue.trim() ? editTextValue.trim() : null;
     } else if (quoteEditMode === "attachments") {
       const urls = editListValue
         .split("\n")
@@ -585,6 +599,7 @@ export function LeadDetailClient({
     if (mode === "deadline") return "Edit Deadline";
     if (mode === "message") return "Edit Message";
     if (mode === "design_notes") return "Edit Design Notes";
+    if (mode === "product_list") return "Edit Production Product List";
     if (mode === "attachments") return "Edit Attachments";
     return "Edit";
   }
@@ -700,6 +715,10 @@ export function LeadDetailClient({
     return lead.design_notes ? <span className="whitespace-pre-wrap">{lead.design_notes}</span> : "Not provided";
   }
 
+  function formatProductListValue() {
+    return lead.trello_product_list ? <span className="whitespace-pre-wrap">{lead.trello_product_list}</span> : "Not provided";
+  }
+
   function formatApparelInterestValue() {
     return apparelInterest || "Not provided";
   }
@@ -719,19 +738,11 @@ export function LeadDetailClient({
     if (mode === "deadline") return normalizeBoolean(lead.has_deadline) === null && isEmptyValue(lead.preferred_deadline_date);
     if (mode === "message") return isEmptyValue(lead.message);
     if (mode === "design_notes") return isEmptyValue(lead.design_notes);
+    if (mode === "product_list") return isEmptyValue(lead.trello_product_list);
     if (mode === "attachments") return normalizeStringArray(lead.attachments).length === 0;
     return true;
   }
 
-  function formatPayload(payload: Record<string, unknown>): string {
-    try {
-      const str = JSON.stringify(payload, null, 2);
-      return str.length > 200 ? str.substring(0, 200) + "..." : str;
-    } catch {
-      return String(payload);
-    }
-  }
-
   function handleAddNote(formData: FormData) {
     setNoteError(null);
     formData.set("leadId", leadId);
@@ -748,6 +759,18 @@ export function LeadDetailClient({
     });
   }
 
+  const snippetQuery = getShortcutQuery(noteText);
+  const snippetSuggestions = snippetQuery === null ? [] : matchSnippets(snippets, snippetQuery);
+
+  async function handlePickSnippet(snippet: Snippet) {
+    const result = await expandSnippetAction({ snippetId: snippet.id, context: "lead_note", leadId });
+    if ("error" in result) {
+      toast.error(result.error);
+      return;
+    }
+    setNoteText((prev) => replaceShortcut(prev, result.text));
+  }
+
   function handleDeleteNote(noteId: string) {
     if (!confirm("Delete this note?")) return;
     const formData = new FormData();
@@ -1166,6 +1189,11 @@ export function LeadDetailClient({
                 <div>
                   <p className="text-sm font-medium mb-1">Assigned Rep</p>
                   <p className="text-sm text-muted-foreground">{lead.assigned_rep_name || "Unassigned"}</p>
+                  {lead.assigned_rep_id && lead.routing_reason && (
+                    <p className="mt-1 text-xs text-muted-foreground">
+                      Assigned to {lead.assigned_rep_name || "this rep"} because {lead.routing_reason}.
+                    </p>
+                  )}
                 </div>
                 <Separator />
                 <div>
@@ -1352,6 +1380,14 @@ export function LeadDetailClient({
                 </div>
               )}
 
+              {quoteEditMode === "product_list" && (
+                <div className="space-y-2">
+                  <Label>Production Product List</Label>
+                  <Textarea value={editTextValue} onChange={(e) => setEditTextValue(e.target.value)} className="min-h-[160px]" />
+                  <p className="text-xs text-muted-foreground">Changes are pushed to the job&apos;s Trello card.</p>
+                </div>
+              )}
+
               {quoteEditMode === "attachments" && (
                 <div className="space-y-2">
                   <Label>Attachments (one URL per line)</Label>
@@ -1443,6 +1479,18 @@ export function LeadDetailClient({
                   />
                 </div>
 
+                {(job?.trello_card_id || !quoteFieldEmpty("product_list")) && (
+                  <div className="md:col-span-2">
+                    <QuoteField
+                      label="Production Product List"
+                      value={formatProductListValue()}
+                      empty={quoteFieldEmpty("product_list")}
+                      onEdit={() => openQuoteEdit("product_list")}
+                      onClear={() => clearQuoteField("product_list")}
+                    />
+                  </div>
+                )}
+
                 <div className="md:col-span-2">
                   <QuoteField
                     label="Attachments"
@@ -1471,6 +1519,18 @@ export function LeadDetailClient({
           </Card>
         </TabsContent>
 
+        {/* Quote Builder Tab */}
+        <TabsContent value="quotes" className="space-y-4">
+          <QuoteBuilder
+            leadId={lead.id || leadId}
+            trelloProductList={lead.trello_product_list}
+            quotes={quotes}
+            priceBook={priceBook}
+            disabled={!canUseDbActions()}
+            isCeoOrAdmin={isCeoOrAdmin}
+          />
+        </TabsContent>
+
         {/* Booking Tab */}
         <TabsContent value="booking" className="space-y-4">
           {(lead.has_booked_call || lead.booking_data || bookingTimeValue) ? (
@@ -1574,38 +1634,11 @@ export function LeadDetailClient({
           <Card>
             <CardContent className="pt-6">
               <h3 className="text-lg font-semibold mb-4">Timeline</h3>
-              <div className="space-y-6 relative pl-4 border-l-2 border-muted ml-2">
-                {/* Date-based timeline entries - Merged into a single sorted list with events if possible, but for now stack them */}
-                
-                <div className="relative">
-                  <div className="absolute -left-[21px] top-1 h-3 w-3 rounded-full bg-primary/20 border-2 border-primary"></div>
-                  <p className="text-sm font-medium">Created</p>
-                  <p className="text-xs text-muted-foreground">
-                    {formatDateSafe(getQuoteValueFallback(lead.created_at, lead.submission_date))}
-                  </p>
-                </div>
-
-                {events.map((event) => (
-                  <div key={event.id} className="relative">
-                    <div className="absolute -left-[21px] top-1 h-3 w-3 rounded-full bg-muted-foreground/20 border-2 border-muted-foreground"></div>
-                    <p className="text-sm font-medium">{event.event_type.replace(/_/g, ' ')}</p>
-                    <p className="text-xs text-muted-foreground">{formatDateSafe(event.created_at)}</p>
-                    {Object.keys(event.payload).length > 0 && (
-                       <div className="mt-1 text-xs bg-muted p-2 rounded">
-                         <pre className="whitespace-pre-wrap font-mono">{formatPayload(event.payload)}</pre>
-                       </div>
-                    )}
-                  </div>
-                ))}
-                
-                {lead.updated_at && (
-                   <div className="relative">
-                    <div className="absolute -left-[21px] top-1 h-3 w-3 rounded-full bg-muted border-2 border-muted-foreground/50"></div>
-                    <p className="text-sm font-medium">Last Updated</p>
-                    <p className="text-xs text-muted-foreground">{formatDateSafe(lead.updated_at)}</p>
-                   </div>
-                )}
-              </div>
+              <LeadActivityTimeline
+                events={events}
+                people={reps}
+                createdAt={getQuoteValueFallback(lead.created_at, lead.submission_date)}
+              />
             </CardContent>
           </Card>
         </TabsContent>
@@ -1615,14 +1648,21 @@ export function LeadDetailClient({
           <Card>
             <CardContent className="pt-6">
               <form action={handleAddNote} className="space-y-4">
-                <div className="space-y-2">
+                <div className="relative space-y-2">
                   <Label htmlFor="note">Add Note</Label>
+                  <SnippetSuggestions snippets={snippetSuggestions} onPick={handlePickSnippet} className="bottom-auto top-full mt-1" />
                   <Textarea
                     id="note"
                     name="note"
-                    placeholder="Enter a note..."
+                    placeholder="Enter a note... Type / for snippets"
                     value={noteText}
                     onChange={(e) => setNoteText(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (snippetSuggestions.length > 0 && (e.key === "Enter" || e.key === "Tab")) {
+                        e.preventDefault();
+                        void handlePickSnippet(snippetSuggestions[0]);
+                      }
+                    }}
                     disabled={isNotePending}
                     className="min-h-[100px]"
                     required
@@ -1698,7 +1738,7 @@ export function LeadDetailClient({
                       <div className="flex flex-col gap-2">
                         <div className="flex items-center justify-between text-xs text-muted-foreground">
                           <span className="truncate">
-                            {note.author_display_name || `${note.author_user_id.substring(0, 8)}...`}
+                            {note.author_display_name || (note.author_user_id ? `${note.author_user_id.substring(0, 8)}...` : "Unknown")}
                           </span>
                           <div className="flex items-center gap-2">
                             <span>{formatDateSafe(note.created_at)}</span>
@@ -1,5 +1,5 @@
 import { createClient } from "@/lib/supabase/server";
-import { notFound } from "next/navigation";
+import { notFound, redirect } from "next/navigation";
 import Link from "next/link";
 import { LeadDetailClient } from "./lead-detail-client";
 import { loadLeadsFromSpreadsheet } from "@/lib/leads/importLeadsFromSpreadsheet";
@@ -8,6 +8,12 @@ import { getViewer } from "@/lib/viewer";
 import { Button } from "@/components/ui/button";
 import { ArrowLeft } from "lucide-react";
 import type { SupabaseClient } from "@supabase/supabase-js";
+import type { PriceBookEntry, Quote } from "@/types/quotes";
+import { getSnippets } from "@/lib/snippets";
+import { getTasks } from "@/lib/tasks";
+import { getLeadActivity } from "@/lib/lead-activity";
+import { TasksPanel } from "@/components/tasks-panel";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 
 type ServerSupabaseClient = Awaited<ReturnType<typeof createClient>>;
 type DbClient = { from: SupabaseClient["from"] };
@@ -19,21 +25,13 @@ interface LeadDetailPageProps {
 interface Note {
   id: string;
   lead_db_id: string;
-  author_user_id: string;
+  author_user_id: string | null;
+  author_name?: string | null;
   author_display_name?: string | null;
   note: string;
   created_at: string;
 }
 
-interface Event {
-  id: string;
-  lead_db_id: string;
-  actor_user_id: string;
-  event_type: string;
-  payload: Record<string, unknown>;
-  created_at: string;
-}
-
 interface Rep {
   id: string;
   name: string | null;
@@ -123,7 +121,9 @@ const LEAD_FIELDS = `
   quantity_rough,
   preferred_deadline_date,
   card_id,
-  card_created
+  card_created,
+  merged_into_id,
+  routing_reason
 `;
 
 async function getLeadRow(client: DbClient, id: string) {
@@ -296,13 +296,15 @@ async function getLead(id: string): Promise<Lead | null> {
     preferred_deadline_date: (row.preferred_deadline_date as string | null) ?? null,
     card_id: (row.trello_card_id as string | null) ?? null,
     card_created: data.card_created,
+    merged_into_id: (row.merged_into_id as string | null) ?? null,
+    routing_reason: (row.routing_reason as string | null) ?? null,
   } as Lead;
 }
 
 async function getNotes(supabase: ServerSupabaseClient, leadId: string): Promise<Note[]> {
   const { data, error } = await supabase
     .from("lead_notes")
-    .select("id, lead_db_id, author_user_id, note, created_at")
+    .select("id, lead_db_id, author_user_id, author_name, note, created_at")
     .eq("lead_db_id", leadId)
     .order("created_at", { ascending: false });
 
@@ -314,7 +316,7 @@ async function getNotes(supabase: ServerSupabaseClient, leadId: string): Promise
 
   const notes = data || [];
   const authorIds = Array.from(new Set(notes.map((n) => n.author_user_id).filter(Boolean)));
-  if (authorIds.length === 0) return notes;
+  if (authorIds.length === 0) return notes.map((n) => ({ ...n, author_display_name: n.author_name || null }));
 
   const { data: profilesData } = await supabase
     .from("profiles")
@@ -329,24 +331,42 @@ async function getNotes(supabase: ServerSupabaseClient, leadId: string): Promise
 
   return notes.map((n) => ({
     ...n,
-    author_display_name: profileMap.get(n.author_user_id) || null,
+    author_display_name: (n.author_user_id && profileMap.get(n.author_user_id)) || n.author_name || null,
   }));
 }
 
-async function getEvents(supabase: ServerSupabaseClient, leadId: string): Promise<Event[]> {
+async function getQuotes(supabase: ServerSupabaseClient, leadId: string): Promise<Quote[]> {
   const { data, error } = await supabase
-    .from("lead_events")
-    .select("id, lead_db_id, actor_user_id, event_type, payload, created_at")
+    .from("quotes")
+    .select("*, line_items:quote_line_items(*), responses:quote_responses(*)")
     .eq("lead_db_id", leadId)
-    .order("created_at", { ascending: false });
+    .order("version", { ascending: false });
 
   if (error) {
-    if (error.code === "22P02") return [];
-    console.error("Error fetching events:", JSON.stringify(error, null, 2));
+    console.error("Error fetching quotes:", error);
+    return [];
+  }
+
+  return ((data || []) as Quote[]).map((quote) => ({
+    ...quote,
+    line_items: [...(quote.line_items || [])].sort((a, b) => a.sort_order - b.sort_order),
+    responses: [...(quote.responses || [])].sort((a, b) => b.created_at.localeCompare(a.created_at)),
+  }));
+}
+
+async function getPriceBook(supabase: ServerSupabaseClient): Promise<PriceBookEntry[]> {
+  const { data, error } = await supabase
+    .from("price_book")
+    .select("*")
+    .eq("is_active", true)
+    .order("product_type", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching price book:", error);
     return [];
   }
 
-  return data || [];
+  return (data || []) as PriceBookEntry[];
 }
 
 type JobSummary = {
@@ -379,21 +399,30 @@ async function getJobForLead(supabase: ServerSupabaseClient, lead: Lead): Promis
 export default async function LeadDetailPage({ params }: LeadDetailPageProps) {
   const { id } = await params;
 
-  const { supabase, userRole } = await getViewer();
+  const { supabase, user, userRole } = await getViewer();
   const lead = await getLead(id);
 
   if (!lead) {
     notFound();
   }
 
+  // Merged duplicates are tombstones; old links land on the surviving lead
+  if (lead.merged_into_id) {
+    redirect(`/leads/${lead.merged_into_id}`);
+  }
+
   const isUuid = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(lead.id || "");
   const leadDbId = isUuid ? lead.id : null;
 
-  const [notes, events, reps, job] = await Promise.all([
+  const [notes, events, reps, job, quotes, priceBook, snippets, tasks] = await Promise.all([
     leadDbId ? getNotes(supabase, leadDbId) : Promise.resolve([]),
-    leadDbId ? getEvents(supabase, leadDbId) : Promise.resolve([]),
+    leadDbId ? getLeadActivity(supabase, leadDbId) : Promise.resolve([]),
     getUsersForAssignment(supabase),
     getJobForLead(supabase, lead),
+    leadDbId ? getQuotes(supabase, leadDbId) : Promise.resolve([]),
+    getPriceBook(supabase),
+    getSnippets(supabase),
+    leadDbId ? getTasks(supabase, { leadDbId }) : Promise.resolve([]),
   ]);
 
   const isCeoOrAdmin = userRole === "ceo" || userRole === "admin";
@@ -418,7 +447,27 @@ export default async function LeadDetailPage({ params }: LeadDetailPageProps) {
         isCeoOrAdmin={isCeoOrAdmin}
         reps={reps}
         job={job}
+        quotes={quotes}
+        priceBook={priceBook}
+        snippets={snippets}
       />
+      {leadDbId && user && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Tasks</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <TasksPanel
+              tasks={tasks}
+              staff={reps.map((rep) => ({ id: rep.id, name: rep.name || rep.id.substring(0, 8) }))}
+              currentUserId={user.id}
+              isAdmin={isCeoOrAdmin}
+              leadDbId={leadDbId}
+              defaultAssigneeId={lead.assigned_rep_id ?? user.id}
+            />
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
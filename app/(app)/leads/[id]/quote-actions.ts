@@ -0,0 +1,204 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { createClient } from "@/lib/supabase/server";
+import { getAppBaseUrl } from "@/lib/app-url";
+import { z } from "zod";
+import { calculateQuoteTotals } from "@/lib/quotes";
+import { signQuoteLinkToken } from "@/lib/quote-links";
+
+const quoteLineSchema = z.object({
+  product_type: z.string().trim().min(1, "Product is required"),
+  size: z.string().trim().nullable().optional(),
+  description: z.string().trim().max(500).nullable().optional(),
+  quantity: z.coerce.number().positive("Quantity must be greater than 0"),
+  unit_price: z.coerce.number().min(0, "Unit price cannot be negative"),
+});
+
+const createQuoteRevisionSchema = z.object({
+  leadId: z.string().uuid(),
+  lines: z.string().min(2),
+  discountType: z.enum(["none", "percent", "amount"]),
+  discountValue: z.coerce.number().min(0),
+  vatRate: z.coerce.number().min(0).max(100),
+  notes: z.string().max(5000).optional(),
+  validUntil: z.string().optional(),
+});
+
+const createApprovalLinkSchema = z.object({
+  leadId: z.string().uuid(),
+  quoteId: z.string().uuid(),
+  expiresInDays: z.coerce.number().int().min(1).max(90),
+});
+
+export async function createQuoteRevisionAction(
+  formData: FormData
+): Promise<{ error: string } | { success: true; quoteId: string; version: number }> {
+  const parsed = createQuoteRevisionSchema.safeParse({
+    leadId: formData.get("leadId"),
+    lines: formData.get("lines"),
+    discountType: formData.get("discountType") || "none",
+    discountValue: formData.get("discountValue") || 0,
+    vatRate: formData.get("vatRate") ?? 15,
+    notes: (formData.get("notes") as string | null) || undefined,
+    validUntil: (formData.get("validUntil") as string | null) || undefined,
+  });
+  if (!parsed.success) return { error: parsed.error.issues[0]?.message || "Invalid input" };
+
+  let rawLines: unknown;
+  try {
+    rawLines = JSON.parse(parsed.data.lines);
+  } catch {
+    return { error: "Invalid line items" };
+  }
+  const linesResult = z.array(quoteLineSchema).min(1, "Add at least one line item").safeParse(rawLines);
+  if (!linesResult.success) return { error: linesResult.error.issues[0]?.message || "Invalid line items" };
+
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return { error: "Not authenticated" };
+
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("full_name, email")
+    .eq("user_id", user.id)
+    .single();
+  const modifierName = profile?.full_name || user.email || "Admin";
+
+  const { data: latest } = await supabase
+    .from("quotes")
+    .select("version")
+    .eq("lead_db_id", parsed.data.leadId)
+    .order("version", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  const version = Number(latest?.version || 0) + 1;
+
+  const totals = calculateQuoteTotals({
+    lines: linesResult.data.map((line) => ({
+      product_type: line.product_type,
+      size: line.size || null,
+      description: line.description || null,
+      quantity: line.quantity,
+      unit_price: line.unit_price,
+    })),
+    discountType: parsed.data.discountType,
+    discountValue: parsed.data.discountValue,
+    vatRate: parsed.data.vatRate,
+  });
+
+  const { data: quote, error: quoteError } = await supabase
+    .from("quotes")
+    .insert({
+      lead_db_id: parsed.data.leadId,
+      version,
+      status: "draft",
+      discount_type: parsed.data.discountType,
+      discount_value: parsed.data.discountType === "none" ? 0 : parsed.data.discountValue,
+      vat_rate: parsed.data.vatRate,
+      subtotal: totals.subtotal,
+      discount_total: totals.discount_total,
+      vat_total: totals.vat_total,
+      total: totals.total,
+      notes: parsed.data.notes || null,
+      valid_until: parsed.data.validUntil || null,
+      created_by: user.id,
+      created_by_name: modifierName,
+    })
+    .select("id, version")
+    .single();
+
+  if (quoteError || !quote) {
+    return { error: quoteError?.message || "Failed to create quote" };
+  }
+
+  const { error: linesError } = await supabase.from("quote_line_items").insert(
+    totals.lines.map((line, idx) => ({
+      quote_id: quote.id,
+      sort_order: idx,
+      product_type: line.product_type,
+      size: line.size,
+      description: line.description || null,
+      quantity: line.quantity,
+      unit_price: line.unit_price,
+      line_total: line.line_total,
+    }))
+  );
+
+  if (linesError) {
+    await supabase.from("quotes").delete().eq("id", quote.id);
+    return { error: linesError.message || "Failed to save quote lines" };
+  }
+
+  await supabase.from("lead_events").insert({
+    lead_db_id: parsed.data.leadId,
+    actor_user_id: user.id,
+    event_type: "quote_created",
+    payload: { quoteId: quote.id, version: quote.version, total: totals.total },
+  });
+
+  revalidatePath(`/leads/${parsed.data.leadId}`);
+  return { success: true, quoteId: quote.id, version: quote.version };
+}
+
+export async function createQuoteApprovalLinkAction(
+  formData: FormData
+): Promise<{ error: string } | { success: true; url: string; expiresAt: string }> {
+  const parsed = createApprovalLinkSchema.safeParse({
+    leadId: formData.get("leadId"),
+    quoteId: formData.get("quoteId"),
+    expiresInDays: formData.get("expiresInDays") || 14,
+  });
+  if (!parsed.success) return { error: parsed.error.issues[0]?.message || "Invalid input" };
+
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return { error: "Not authenticated" };
+
+  const { data: quote } = await supabase
+    .from("quotes")
+    .select("id, version, status")
+    .eq("id", parsed.data.quoteId)
+    .eq("lead_db_id", parsed.data.leadId)
+    .maybeSingle();
+  if (!quote) return { error: "Quote not found" };
+  if (quote.status !== "sent") {
+    return { error: "Mark the quote as sent before sharing an approval link" };
+  }
+
+  const baseUrl = await getAppBaseUrl();
+  if (!baseUrl) return { error: "Missing NEXT_PUBLIC_BASE_URL for approval link" };
+
+  const expiresAt = new Date(Date.now() + parsed.data.expiresInDays * 24 * 60 * 60 * 1000);
+  const { data: link, error: linkError } = await supabase
+    .from("quote_approval_links")
+    .insert({
+      quote_id: quote.id,
+      lead_db_id: parsed.data.leadId,
+      expires_at: expiresAt.toISOString(),
+      created_by: user.id,
+    })
+    .select("id")
+    .single();
+  if (linkError || !link) return { error: linkError?.message || "Failed to create approval link" };
+
+  const signed = signQuoteLinkToken(link.id, expiresAt);
+  if ("error" in signed) {
+    await supabase.from("quote_approval_links").delete().eq("id", link.id);
+    return { error: signed.error };
+  }
+
+  await supabase.from("lead_events").insert({
+    lead_db_id: parsed.data.leadId,
+    actor_user_id: user.id,
+    event_type: "quote_link_created",
+    payload: { quoteId: quote.id, version: quote.version, expiresAt: expiresAt.toISOString() },
+  });
+
+  revalidatePath(`/leads/${parsed.data.leadId}`);
+  return { success: true, url: `${baseUrl}/quote/${signed.token}`, expiresAt: expiresAt.toISOString() };
+}
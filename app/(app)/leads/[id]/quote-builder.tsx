@@ -0,0 +1,487 @@
+"use client";
+
+import { useMemo, useState, useTransition } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { Copy, FileText, Link2, Plus, Trash2 } from "lucide-react";
+import type { PriceBookEntry, Quote, QuoteDiscountType } from "@/types/quotes";
+import { QUOTE_STATUS_LABELS } from "@/types/quotes";
+import { DEFAULT_VAT_RATE, calculateQuoteTotals, findPriceBookEntry, formatMoney } from "@/lib/quotes";
+import { parseTrelloProductList } from "./trello-product-list";
+import { createQuoteApprovalLinkAction, createQuoteRevisionAction } from "./quote-actions";
+import { changeStatusAction } from "./actions";
+
+type EditableLine = {
+  key: string;
+  product_type: string;
+  size: string;
+  quantity: string;
+  unit_price: string;
+};
+
+function createKey(): string {
+  return Math.random().toString(36).slice(2);
+}
+
+function statusVariant(status: Quote["status"]): "default" | "secondary" | "outline" | "destructive" {
+  if (status === "approved") return "default";
+  if (status === "sent") return "secondary";
+  return "outline";
+}
+
+export function QuoteBuilder({
+  leadId,
+  trelloProductList,
+  quotes,
+  priceBook,
+  disabled,
+  isCeoOrAdmin,
+}: {
+  leadId: string;
+  trelloProductList: string | null | undefined;
+  quotes: Quote[];
+  priceBook: PriceBookEntry[];
+  disabled?: boolean;
+  isCeoOrAdmin: boolean;
+}) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [lines, setLines] = useState<EditableLine[]>([]);
+  const [discountType, setDiscountType] = useState<QuoteDiscountType>("none");
+  const [discountValue, setDiscountValue] = useState("0");
+  const [vatRate, setVatRate] = useState(String(DEFAULT_VAT_RATE));
+  const [validUntil, setValidUntil] = useState("");
+  const [notes, setNotes] = useState("");
+  const [shareLink, setShareLink] = useState<{ url: string; expiresAt: string; version: number } | null>(null);
+
+  function priceFor(productType: string, size: string): string {
+    const entry = findPriceBookEntry(priceBook, productType, size || null);
+    return entry ? String(entry.unit_price) : "";
+  }
+
+  function linesFromProductList(): EditableLine[] {
+    return parseTrelloProductList(trelloProductList || "").flatMap((line) =>
+      line.variants.map((variant) => ({
+        key: createKey(),
+        product_type: line.product,
+        size: variant.size,
+        quantity: String(variant.qty),
+        unit_price: priceFor(line.product, variant.size),
+      }))
+    );
+  }
+
+  function openEditor(base?: Quote) {
+    if (base) {
+      setLines(
+        (base.line_items || []).map((item) => ({
+          key: createKey(),
+          product_type: item.product_type,
+          size: item.size || "",
+          quantity: String(item.quantity),
+          unit_price: String(item.unit_price),
+        }))
+      );
+      setDiscountType(base.discount_type);
+      setDiscountValue(String(base.discount_value || 0));
+      setVatRate(String(base.vat_rate));
+      setValidUntil(base.valid_until || "");
+      setNotes(base.notes || "");
+    } else {
+      setLines(linesFromProductList());
+      setDiscountType("none");
+      setDiscountValue("0");
+      setVatRate(String(DEFAULT_VAT_RATE));
+      setValidUntil("");
+      setNotes("");
+    }
+    setEditorOpen(true);
+  }
+
+  function updateLine(key: string, patch: Partial<EditableLine>) {
+    setLines((prev) =>
+      prev.map((line) => {
+        if (line.key !== key) return line;
+        const next = { ...line, ...patch };
+        // Re-price from the price book when the product/size changes and no manual price was typed
+        if ((patch.product_type !== undefined || patch.size !== undefined) && !line.unit_price) {
+          next.unit_price = priceFor(next.product_type, next.size);
+        }
+        return next;
+      })
+    );
+  }
+
+  const totals = useMemo(() => {
+    return calculateQuoteTotals({
+      lines: lines.map((line) => ({
+        product_type: line.product_type,
+        size: line.size || null,
+        quantity: Number(line.quantity || 0),
+        unit_price: Number(line.unit_price || 0),
+      })),
+      discountType,
+      discountValue: Number(discountValue || 0),
+      vatRate: Number(vatRate || 0),
+    });
+  }, [discountType, discountValue, lines, vatRate]);
+
+  const missingPrices = lines.filter((line) => line.product_type.trim() && line.unit_price === "").length;
+
+  function saveRevision() {
+    const payload = lines
+      .filter((line) => line.product_type.trim())
+      .map((line) => ({
+        product_type: line.product_type.trim(),
+        size: line.size.trim() || null,
+        quantity: Number(line.quantity || 0),
+        unit_price: Number(line.unit_price || 0),
+      }));
+    const formData = new FormData();
+    formData.set("leadId", leadId);
+    formData.set("lines", JSON.stringify(payload));
+    formData.set("discountType", discountType);
+    formData.set("discountValue", discountValue || "0");
+    formData.set("vatRate", vatRate || "0");
+    if (validUntil) formData.set("validUntil", validUntil);
+    if (notes.trim()) formData.set("notes", notes.trim());
+
+    startTransition(async () => {
+      const result = await createQuoteRevisionAction(formData);
+      if ("error" in result) {
+        toast.error(result.error);
+        return;
+      }
+      toast.success(`Quote v${result.version} saved`);
+      setEditorOpen(false);
+      router.refresh();
+    });
+  }
+
+  function markQuote(quote: Quote, status: "Quote Sent" | "Quote Approved") {
+    const formData = new FormData();
+    formData.set("leadId", leadId);
+    formData.set("status", status);
+    formData.set("quoteId", quote.id);
+    startTransition(async () => {
+      const result = await changeStatusAction(formData);
+      if (result && "error" in result) {
+        toast.error(result.error);
+        return;
+      }
+      toast.success(status === "Quote Sent" ? `Quote v${quote.version} marked as sent` : `Quote v${quote.version} approved`);
+      router.refresh();
+    });
+  }
+
+  function createShareLink(quote: Quote) {
+    const formData = new FormData();
+    formData.set("leadId", leadId);
+    formData.set("quoteId", quote.id);
+    startTransition(async () => {
+      const result = await createQuoteApprovalLinkAction(formData);
+      if ("error" in result) {
+        toast.error(result.error);
+        return;
+      }
+      setShareLink({ url: result.url, expiresAt: result.expiresAt, version: quote.version });
+      router.refresh();
+    });
+  }
+
+  async function copyShareLink() {
+    if (!shareLink) return;
+    try {
+      await navigator.clipboard.writeText(shareLink.url);
+      toast.success("Copied approval link");
+    } catch {
+      toast.error("Copy failed");
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0">
+        <CardTitle className="text-base">Quotes</CardTitle>
+        <div className="flex items-center gap-2">
+          {isCeoOrAdmin && (
+            <Button asChild variant="ghost" size="sm">
+              <Link href="/price-book">Price book</Link>
+            </Button>
+          )}
+          <Button size="sm" onClick={() => openEditor(quotes[0])} disabled={disabled || isPending}>
+            <Plus className="h-4 w-4 mr-2" />
+            {quotes.length > 0 ? "New Revision" : "Build Quote"}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {quotes.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No quotes yet. Build one from the product list to move this lead to Quote Sent.
+          </p>
+        ) : (
+          <div className="divide-y rounded-md border">
+            {quotes.map((quote) => (
+              <div key={quote.id} className="flex flex-wrap items-center justify-between gap-3 p-3">
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium">Version {quote.version}</span>
+                    <Badge variant={statusVariant(quote.status)}>{QUOTE_STATUS_LABELS[quote.status]}</Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {formatMoney(quote.total)} · {(quote.line_items || []).length} line(s) ·{" "}
+                    {new Date(quote.created_at).toLocaleDateString("en-ZA")}
+                    {quote.created_by_name ? ` · ${quote.created_by_name}` : ""}
+                  </p>
+                  {quote.status === "approved" && quote.approved_via === "customer_link" && (
+                    <p className="text-xs text-muted-foreground">
+                      Accepted online by {quote.approved_by_name || "customer"}
+                      {quote.approved_at ? ` on ${new Date(quote.approved_at).toLocaleDateString("en-ZA")}` : ""}
+                    </p>
+                  )}
+                  {quote.responses?.[0] && (
+                    <p className="text-xs">
+                      <span className="font-medium">
+                        {quote.responses[0].action === "accepted" ? "Customer accepted" : "Changes requested"} by{" "}
+                        {quote.responses[0].customer_name}:
+                      </span>{" "}
+                      <span className="text-muted-foreground">{quote.responses[0].comment || "No comment"}</span>
+                    </p>
+                  )}
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <Button asChild variant="outline" size="sm">
+                    <Link href={`/leads/${leadId}/quotes/${quote.id}`}>
+                      <FileText className="h-4 w-4 mr-2" />
+                      View
+                    </Link>
+                  </Button>
+                  {quote.status === "draft" && (
+                    <Button size="sm" variant="secondary" disabled={disabled || isPending} onClick={() => markQuote(quote, "Quote Sent")}>
+                      Mark Sent
+                    </Button>
+                  )}
+                  {quote.status === "sent" && (
+                    <Button size="sm" variant="outline" disabled={disabled || isPending} onClick={() => createShareLink(quote)}>
+                      <Link2 className="h-4 w-4 mr-2" />
+                      Share Link
+                    </Button>
+                  )}
+                  {quote.status === "sent" && (
+                    <Button size="sm" disabled={disabled || isPending} onClick={() => markQuote(quote, "Quote Approved")}>
+                      Mark Approved
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!shareLink} onOpenChange={(open) => !open && setShareLink(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Approval link for v{shareLink?.version}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Input readOnly value={shareLink?.url || ""} onFocus={(e) => e.currentTarget.select()} />
+            <p className="text-xs text-muted-foreground">
+              The customer can view, accept or request changes until{" "}
+              {shareLink ? new Date(shareLink.expiresAt).toLocaleDateString("en-ZA") : ""}.
+            </p>
+          </div>
+          <DialogFooter>
+            <Button type="button" onClick={copyShareLink}>
+              <Copy className="h-4 w-4 mr-2" />
+              Copy link
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={editorOpen} onOpenChange={setEditorOpen}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{quotes.length > 0 ? `Quote v${quotes[0].version + 1}` : "New Quote"}</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="flex items-center justify-between gap-2">
+              <Label>Line Items</Label>
+              <div className="flex gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setLines(linesFromProductList())}
+                  disabled={!String(trelloProductList || "").trim()}
+                >
+                  Fill from product list
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() =>
+                    setLines((prev) => [...prev, { key: createKey(), product_type: "", size: "", quantity: "1", unit_price: "" }])
+                  }
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add line
+                </Button>
+              </div>
+            </div>
+
+            {lines.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No line items yet.</p>
+            ) : (
+              <div className="space-y-2">
+                <div className="hidden sm:grid grid-cols-[1fr_90px_80px_110px_100px_40px] gap-2 text-xs text-muted-foreground">
+                  <span>Product</span>
+                  <span>Size</span>
+                  <span>Qty</span>
+                  <span>Unit price</span>
+                  <span className="text-right">Total</span>
+                  <span />
+                </div>
+                {lines.map((line, idx) => (
+                  <div key={line.key} className="grid grid-cols-2 sm:grid-cols-[1fr_90px_80px_110px_100px_40px] gap-2 items-center">
+                    <Input
+                      value={line.product_type}
+                      placeholder="Product"
+                      className="col-span-2 sm:col-span-1"
+                      onChange={(e) => updateLine(line.key, { product_type: e.target.value })}
+                    />
+                    <Input value={line.size} placeholder="Size" onChange={(e) => updateLine(line.key, { size: e.target.value })} />
+                    <Input
+                      type="number"
+                      min="1"
+                      value={line.quantity}
+                      onChange={(e) => updateLine(line.key, { quantity: e.target.value })}
+                    />
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={line.unit_price}
+                      placeholder="No price"
+                      onChange={(e) => updateLine(line.key, { unit_price: e.target.value })}
+                    />
+                    <span className="text-sm text-right tabular-nums">{formatMoney(totals.lines[idx]?.line_total ?? 0)}</span>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setLines((prev) => prev.filter((l) => l.key !== line.key))}
+                      aria-label="Remove line"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                {missingPrices > 0 && (
+                  <p className="text-xs text-destructive">
+                    {missingPrices} line(s) have no price book entry. Enter a unit price manually.
+                  </p>
+                )}
+              </div>
+            )}
+
+            <div className="grid gap-4 sm:grid-cols-3">
+              <div className="grid gap-2">
+                <Label>Discount</Label>
+                <Select value={discountType} onValueChange={(v) => setDiscountType(v as QuoteDiscountType)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No discount</SelectItem>
+                    <SelectItem value="percent">Percentage</SelectItem>
+                    <SelectItem value="amount">Fixed amount</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="quote-discount-value">{discountType === "percent" ? "Discount %" : "Discount amount"}</Label>
+                <Input
+                  id="quote-discount-value"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={discountValue}
+                  disabled={discountType === "none"}
+                  onChange={(e) => setDiscountValue(e.target.value)}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="quote-vat-rate">VAT %</Label>
+                <Input
+                  id="quote-vat-rate"
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.01"
+                  value={vatRate}
+                  onChange={(e) => setVatRate(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="grid gap-2">
+                <Label htmlFor="quote-valid-until">Valid until</Label>
+                <Input id="quote-valid-until" type="date" value={validUntil} onChange={(e) => setValidUntil(e.target.value)} />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="quote-notes">Notes</Label>
+                <Textarea id="quote-notes" rows={2} value={notes} onChange={(e) => setNotes(e.target.value)} />
+              </div>
+            </div>
+
+            <div className="rounded-md border p-3 space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Subtotal</span>
+                <span className="tabular-nums">{formatMoney(totals.subtotal)}</span>
+              </div>
+              {totals.discount_total > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Discount</span>
+                  <span className="tabular-nums">-{formatMoney(totals.discount_total)}</span>
+                </div>
+              )}
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">VAT ({Number(vatRate || 0)}%)</span>
+                <span className="tabular-nums">{formatMoney(totals.vat_total)}</span>
+              </div>
+              <div className="flex justify-between border-t pt-1 font-semibold">
+                <span>Total</span>
+                <span className="tabular-nums">{formatMoney(totals.total)}</span>
+              </div>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setEditorOpen(false)} disabled={isPending}>
+              Cancel
+            </Button>
+            <Button type="button" onClick={saveRevision} disabled={isPending || lines.length === 0}>
+              {isPending ? "Saving..." : "Save Revision"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
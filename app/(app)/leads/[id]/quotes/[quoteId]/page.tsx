@@ -0,0 +1,170 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { createClient } from "@/lib/supabase/server";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft } from "lucide-react";
+import type { Quote } from "@/types/quotes";
+import { QUOTE_STATUS_LABELS } from "@/types/quotes";
+import { formatMoney } from "@/lib/quotes";
+import { PrintQuoteClient } from "./print-quote-client";
+
+export const dynamic = "force-dynamic";
+
+type LeadRow = {
+  id: string;
+  lead_id: string;
+  customer_name: string | null;
+  name: string | null;
+  email: string | null;
+  phone: string | null;
+  organization: string | null;
+};
+
+function formatDate(value: string | null | undefined): string {
+  if (!value) return "—";
+  const d = new Date(value);
+  if (Number.isNaN(d.getTime())) return "—";
+  return d.toLocaleDateString("en-ZA", { year: "numeric", month: "long", day: "numeric" });
+}
+
+export default async function LeadQuotePage({ params }: { params: Promise<{ id: string; quoteId: string }> }) {
+  const { id, quoteId } = await params;
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return (
+      <div className="p-8 text-center">
+        <h1 className="text-2xl font-bold text-destructive">Access Denied</h1>
+        <p className="text-muted-foreground mt-2">Please sign in to view quotes.</p>
+      </div>
+    );
+  }
+
+  const { data: quoteData } = await supabase
+    .from("quotes")
+    .select("*, line_items:quote_line_items(*)")
+    .eq("id", quoteId)
+    .eq("lead_db_id", id)
+    .maybeSingle();
+
+  if (!quoteData) notFound();
+  const quote = quoteData as Quote;
+  const lineItems = [...(quote.line_items || [])].sort((a, b) => a.sort_order - b.sort_order);
+
+  const { data: leadData } = await supabase
+    .from("leads")
+    .select("id, lead_id, customer_name, name, email, phone, organization")
+    .eq("id", id)
+    .maybeSingle();
+  const lead = leadData as LeadRow | null;
+  const customerName = lead?.customer_name || lead?.name || "Customer";
+
+  return (
+    <div className="space-y-6 print:space-y-4">
+      <div className="flex items-center justify-between gap-3 print:hidden">
+        <Button asChild variant="ghost" size="sm" className="min-h-[44px] sm:min-h-[36px] px-2">
+          <Link href={`/leads/${id}`}>
+            <ArrowLeft className="h-4 w-4" />
+            <span className="ml-2">Back</span>
+          </Link>
+        </Button>
+        <PrintQuoteClient />
+      </div>
+
+      <Card className="print:border-0 print:shadow-none">
+        <CardContent className="space-y-6 pt-6">
+          <div className="flex flex-wrap items-start justify-between gap-4">
+            <div>
+              <h1 className="text-2xl font-bold">Quotation</h1>
+              <p className="text-sm text-muted-foreground">RecklessBear</p>
+            </div>
+            <div className="text-sm text-right space-y-1">
+              <div className="flex items-center justify-end gap-2">
+                <span className="font-medium">
+                  {lead?.lead_id || "Quote"} · v{quote.version}
+                </span>
+                <Badge variant="outline" className="print:hidden">
+                  {QUOTE_STATUS_LABELS[quote.status]}
+                </Badge>
+              </div>
+              <p className="text-muted-foreground">Date: {formatDate(quote.created_at)}</p>
+              {quote.valid_until && <p className="text-muted-foreground">Valid until: {formatDate(quote.valid_until)}</p>}
+            </div>
+          </div>
+
+          <div className="text-sm space-y-1">
+            <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">Prepared for</p>
+            <p className="font-medium">{customerName}</p>
+            {lead?.organization && <p>{lead.organization}</p>}
+            {lead?.email && <p className="text-muted-foreground">{lead.email}</p>}
+            {lead?.phone && <p className="text-muted-foreground">{lead.phone}</p>}
+          </div>
+
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead>Size</TableHead>
+                  <TableHead className="text-right">Qty</TableHead>
+                  <TableHead className="text-right">Unit Price</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lineItems.map((item) => (
+                  <TableRow key={item.id}>
+                    <TableCell className="font-medium">
+                      {item.product_type}
+                      {item.description ? <span className="block text-xs text-muted-foreground">{item.description}</span> : null}
+                    </TableCell>
+                    <TableCell>{item.size || "—"}</TableCell>
+                    <TableCell className="text-right tabular-nums">{Number(item.quantity)}</TableCell>
+                    <TableCell className="text-right tabular-nums">{formatMoney(item.unit_price)}</TableCell>
+                    <TableCell className="text-right tabular-nums">{formatMoney(item.line_total)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div className="ml-auto w-full max-w-xs space-y-1 text-sm">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Subtotal</span>
+              <span className="tabular-nums">{formatMoney(quote.subtotal)}</span>
+            </div>
+            {Number(quote.discount_total) > 0 && (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">
+                  Discount{quote.discount_type === "percent" ? ` (${Number(quote.discount_value)}%)` : ""}
+                </span>
+                <span className="tabular-nums">-{formatMoney(quote.discount_total)}</span>
+              </div>
+            )}
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">VAT ({Number(quote.vat_rate)}%)</span>
+              <span className="tabular-nums">{formatMoney(quote.vat_total)}</span>
+            </div>
+            <div className="flex justify-between border-t pt-1 text-base font-semibold">
+              <span>Total</span>
+              <span className="tabular-nums">{formatMoney(quote.total)}</span>
+            </div>
+          </div>
+
+          {quote.notes && (
+            <div className="text-sm space-y-1">
+              <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">Notes</p>
+              <p className="whitespace-pre-wrap">{quote.notes}</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,11 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+
+export function PrintQuoteClient() {
+  return (
+    <Button variant="outline" onClick={() => window.print()}>
+      Download PDF
+    </Button>
+  );
+}
@@ -3,6 +3,16 @@
 import { revalidatePath } from "next/cache";
 import { z } from "zod";
 import { createClient } from "@/lib/supabase/server";
+import {
+  LEAD_ROUTING_LEAD_SELECT,
+  leadRoutingColumns,
+  leadRoutingEvent,
+  loadLeadRoutingContext,
+  MANUAL_ASSIGNMENT_ROUTING_COLUMNS,
+  pickLeadRoute,
+  saveLeadRoutingCursors,
+} from "@/lib/lead-routing";
+import type { LeadRoutingDecision } from "@/types/lead-routing";
 
 const assignToMeSchema = z.object({
   leadId: z.string().uuid(),
@@ -42,24 +52,16 @@ export async function autoAssignAllLeadsAction(): Promise<{ error?: string; assi
   cutoff.setMonth(cutoff.getMonth() - 2);
   const cutoffIso = cutoff.toISOString();
 
-  const { data: reps, error: repsError } = await supabase
-    .from("profiles")
-    .select("user_id")
-    .eq("role", "rep");
-
-  if (repsError) {
-    return { error: repsError.message || "Failed to load reps" };
-  }
-
-  const repIds = (reps || []).map((r) => r.user_id).filter(Boolean) as string[];
-  if (repIds.length === 0) {
-    return { error: "No reps available" };
+  const context = await loadLeadRoutingContext(supabase);
+  if ("error" in context) {
+    return { error: context.error || "Failed to load routing rules" };
   }
 
   const { data: leads, error: leadsError } = await supabase
     .from("leads")
-    .select("id, status")
+    .select(`${LEAD_ROUTING_LEAD_SELECT}, status`)
     .is("assigned_rep_id", null)
+    .is("merged_into_id", null)
     .gte("created_at", cutoffIso)
     .order("created_at", { ascending: true })
     .limit(10000);
@@ -68,29 +70,37 @@ export async function autoAssignAllLeadsAction(): Promise<{ error?: string; assi
     return { error: leadsError.message || "Failed to load leads" };
   }
 
-  const leadRows = (leads || []).filter((l) => !!l.id) as Array<{ id: string; status: string | null }>;
+  const leadRows = ((leads || []) as unknown as Array<Record<string, unknown>>).filter((l) => !!l.id);
   if (leadRows.length === 0) {
     return { assigned: 0 };
   }
 
-  const assignments = new Map<string, string[]>();
-  for (let i = 0; i < leadRows.length; i++) {
-    const repId = repIds[i % repIds.length];
-    const list = assignments.get(repId) || [];
-    list.push(leadRows[i].id);
-    assignments.set(repId, list);
+  // Leads with the same rep and explanation are written together
+  const assignments = new Map<string, { decision: LeadRoutingDecision; ids: string[] }>();
+  for (const lead of leadRows) {
+    const decision = pickLeadRoute(context, lead);
+    if (!decision) continue;
+    const key = `${decision.repId}|${decision.reason}`;
+    const group = assignments.get(key) || { decision, ids: [] };
+    group.ids.push(lead.id as string);
+    assignments.set(key, group);
+  }
+
+  if (assignments.size === 0) {
+    return { error: "No reps available" };
   }
 
   const nowIso = new Date().toISOString();
   const chunkSize = 200;
+  let assigned = 0;
 
-  for (const [repId, ids] of assignments.entries()) {
+  for (const { decision, ids } of assignments.values()) {
     for (let i = 0; i < ids.length; i += chunkSize) {
       const chunk = ids.slice(i, i + chunkSize);
 
       const { error: updateError } = await supabase
         .from("leads")
-        .update({ assigned_rep_id: repId, updated_at: nowIso })
+        .update({ ...leadRoutingColumns(decision, nowIso), updated_at: nowIso })
         .in("id", chunk);
 
       if (updateError) {
@@ -106,11 +116,16 @@ export async function autoAssignAllLeadsAction(): Promise<{ error?: string; assi
       if (statusError) {
         return { error: statusError.message || "Failed to update lead status" };
       }
+
+      await supabase.from("lead_events").insert(chunk.map((id) => leadRoutingEvent(id, decision, user.id)));
+      assigned += chunk.length;
     }
   }
 
+  await saveLeadRoutingCursors(supabase, context);
+
   revalidatePath("/leads");
-  return { assigned: leadRows.length };
+  return { assigned };
 }
 
 export async function assignToMeAction(formData: FormData): Promise<{ error?: string } | void> {
@@ -177,7 +192,7 @@ export async function assignToMeAction(formData: FormData): Promise<{ error?: st
 
   const { error: updateError } = await supabase
     .from("leads")
-    .update(updateData)
+    .update({ ...updateData, ...MANUAL_ASSIGNMENT_ROUTING_COLUMNS })
     .eq("id", result.data.leadId);
 
   if (updateError) {
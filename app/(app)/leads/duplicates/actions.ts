@@ -0,0 +1,186 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { requireAdmin } from "@/lib/supabase/server";
+
+const mergeLeadsSchema = z
+  .object({
+    winnerId: z.string().uuid(),
+    loserIds: z.array(z.string().uuid()).min(1, "Select at least one lead to merge").max(20),
+  })
+  .refine((data) => !data.loserIds.includes(data.winnerId), {
+    message: "A lead cannot be merged into itself",
+  });
+
+// Scalar columns the surviving lead keeps, filled from the merged lead only when empty
+const FILLABLE_FIELDS = [
+  "customer_name",
+  "name",
+  "email",
+  "phone",
+  "organization",
+  "category",
+  "product_type",
+  "accessories_selected",
+  "include_warmups",
+  "quantity_range",
+  "has_deadline",
+  "preferred_deadline_date",
+  "delivery_date",
+  "apparel_interest",
+  "message",
+  "design_notes",
+  "trello_product_list",
+  "booking_time",
+  "booking_approved",
+  "pre_call_notes",
+  "question",
+  "current_quote_id",
+] as const;
+
+const INTENT_FLAGS = ["has_requested_quote", "has_booked_call", "has_asked_question"] as const;
+
+const DATA_FIELDS = ["quote_data", "booking_data", "question_data"] as const;
+
+type LeadRow = Record<string, unknown> & { id: string; lead_id: string; merged_into_id: string | null };
+
+function isBlank(value: unknown): boolean {
+  return value === null || value === undefined || (typeof value === "string" && value.trim() === "");
+}
+
+function toStringArray(value: unknown): string[] {
+  if (!value) return [];
+  if (Array.isArray(value)) return value.map(String).map((s) => s.trim()).filter(Boolean);
+  if (typeof value !== "string") return [];
+  const trimmed = value.trim();
+  if (!trimmed) return [];
+  if (trimmed.startsWith("[") && trimmed.endsWith("]")) {
+    try {
+      const parsed = JSON.parse(trimmed);
+      if (Array.isArray(parsed)) return parsed.map(String).map((s) => s.trim()).filter(Boolean);
+    } catch {
+      // fall through to comma-separated
+    }
+  }
+  return trimmed
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Shallow-merge two request blobs; the surviving lead's non-empty values win.
+ */
+function mergeData(winner: unknown, loser: unknown): Record<string, unknown> | null {
+  const w = winner && typeof winner === "object" ? (winner as Record<string, unknown>) : {};
+  const l = loser && typeof loser === "object" ? (loser as Record<string, unknown>) : {};
+  const merged: Record<string, unknown> = { ...l };
+  for (const [key, value] of Object.entries(w)) {
+    if (!isBlank(value) || !(key in merged)) merged[key] = value;
+  }
+  return Object.keys(merged).length > 0 ? merged : null;
+}
+
+function buildWinnerUpdate(winner: LeadRow, loser: LeadRow): Record<string, unknown> {
+  const update: Record<string, unknown> = {};
+
+  for (const field of FILLABLE_FIELDS) {
+    if (isBlank(winner[field]) && !isBlank(loser[field])) update[field] = loser[field];
+  }
+  for (const flag of INTENT_FLAGS) {
+    if (winner[flag] !== true && loser[flag] === true) update[flag] = true;
+  }
+  for (const field of DATA_FIELDS) {
+    if (loser[field]) update[field] = mergeData(winner[field], loser[field]);
+  }
+
+  const winnerAttachments = toStringArray(winner.attachments);
+  const attachments = Array.from(new Set([...winnerAttachments, ...toStringArray(loser.attachments)]));
+  if (attachments.length > winnerAttachments.length) update.attachments = attachments;
+
+  const winnerActivity = Date.parse(String(winner.last_activity_at || "")) || 0;
+  const loserActivity = Date.parse(String(loser.last_activity_at || "")) || 0;
+  if (loserActivity > winnerActivity) update.last_activity_at = loser.last_activity_at;
+
+  return update;
+}
+
+const MERGE_ERRORS: Record<string, string> = {
+  forbidden: "Unauthorized",
+  lead_not_found: "Lead to merge not found",
+  lead_already_merged: "One of these leads has already been merged",
+};
+
+/**
+ * Move the merged lead's notes, events, conversations, quotes, jobs, tasks and SLA breaches over
+ * and tombstone it.
+ * merge_lead_into does it all in one transaction.
+ */
+async function mergeLeadInto(
+  supabase: SupabaseClient,
+  winner: LeadRow,
+  loser: LeadRow
+): Promise<{ winner: LeadRow } | { error: string }> {
+  const update = buildWinnerUpdate(winner, loser);
+  const { error } = await supabase.rpc("merge_lead_into", {
+    p_winner_id: winner.id,
+    p_loser_id: loser.id,
+    p_winner_update: update,
+  });
+  if (error) {
+    if (error.message === "both_leads_have_active_jobs") {
+      return { error: `${loser.lead_id} and ${winner.lead_id} both have an active job. Archive one before merging.` };
+    }
+    return { error: `Merge of ${loser.lead_id} failed: ${MERGE_ERRORS[error.message] || error.message}` };
+  }
+
+  return { winner: { ...winner, ...update } };
+}
+
+/**
+ * Merge duplicate leads into one surviving lead. Notes, events, WhatsApp conversations,
+ * quotes, jobs, follow-up tasks and SLA breaches move over; request data, intents and attachments are combined; each merged
+ * lead stays behind as a tombstone whose merged_into_id points at the winner.
+ */
+export async function mergeLeadsAction(input: {
+  winnerId: string;
+  loserIds: string[];
+}): Promise<{ error: string } | { success: true; merged: number }> {
+  const auth = await requireAdmin();
+  if ("error" in auth) return { error: auth.error };
+
+  const parsed = mergeLeadsSchema.safeParse(input);
+  if (!parsed.success) return { error: parsed.error.issues[0]?.message || "Invalid input" };
+
+  const ids = [parsed.data.winnerId, ...parsed.data.loserIds];
+  const { data: rows, error } = await auth.supabase.from("leads").select("*").in("id", ids);
+  if (error) return { error: error.message || "Failed to load leads" };
+
+  const byId = new Map(((rows || []) as LeadRow[]).map((row) => [row.id, row]));
+  let winner = byId.get(parsed.data.winnerId);
+  if (!winner) return { error: "Surviving lead not found" };
+  if (winner.merged_into_id) return { error: "The surviving lead has already been merged into another lead" };
+
+  let merged = 0;
+  for (const loserId of parsed.data.loserIds) {
+    const loser = byId.get(loserId);
+    if (!loser) return { error: "Lead to merge not found" };
+    if (loser.merged_into_id) continue;
+
+    const result = await mergeLeadInto(auth.supabase, winner, loser);
+    if ("error" in result) {
+      revalidatePath("/leads/duplicates");
+      return { error: result.error };
+    }
+    winner = result.winner;
+    merged += 1;
+  }
+
+  revalidatePath("/leads");
+  revalidatePath("/leads/duplicates");
+  revalidatePath(`/leads/${winner.id}`);
+  revalidatePath("/inbox");
+  return { success: true, merged };
+}
@@ -0,0 +1,153 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import type { ContactMatchReason, DuplicateLeadGroup, LeadIdentity } from "@/types/leads";
+import { mergeLeadsAction } from "./actions";
+
+const REASON_LABELS: Record<ContactMatchReason, string> = {
+  phone: "Same phone",
+  email: "Same email",
+  organization: "Similar organization",
+  name: "Similar name",
+};
+
+function formatDate(value: string | null): string {
+  if (!value) return "—";
+  const d = new Date(value);
+  if (Number.isNaN(d.getTime())) return "—";
+  return d.toLocaleDateString("en-ZA", { year: "numeric", month: "short", day: "numeric" });
+}
+
+interface DuplicatesClientProps {
+  groups: DuplicateLeadGroup[];
+  repNames: Record<string, string>;
+}
+
+export function DuplicatesClient({ groups, repNames }: DuplicatesClientProps) {
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        {groups.length} {groups.length === 1 ? "group" : "groups"} to review. Pick the lead to keep; the others are merged
+        into it and left as a link to the surviving lead.
+      </p>
+      {groups.map((group) => (
+        <DuplicateGroupCard key={group.key} group={group} repNames={repNames} />
+      ))}
+    </div>
+  );
+}
+
+function DuplicateGroupCard({ group, repNames }: { group: DuplicateLeadGroup; repNames: Record<string, string> }) {
+  const router = useRouter();
+  const [winnerId, setWinnerId] = useState(group.leads[0].id);
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(group.leads.slice(1).map((lead) => lead.id)));
+  const [isPending, startTransition] = useTransition();
+
+  const winner = group.leads.find((lead) => lead.id === winnerId) as LeadIdentity;
+  const loserIds = group.leads.filter((lead) => lead.id !== winnerId && selected.has(lead.id)).map((lead) => lead.id);
+
+  function chooseWinner(id: string) {
+    setWinnerId(id);
+    setSelected(new Set(group.leads.filter((lead) => lead.id !== id).map((lead) => lead.id)));
+  }
+
+  function toggleSelected(id: string, checked: boolean) {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  }
+
+  function handleMerge() {
+    if (loserIds.length === 0) return;
+    if (!window.confirm(`Merge ${loserIds.length} lead${loserIds.length === 1 ? "" : "s"} into ${winner.lead_id}? This cannot be undone.`)) {
+      return;
+    }
+    startTransition(async () => {
+      const result = await mergeLeadsAction({ winnerId, loserIds });
+      if ("error" in result) {
+        toast.error(result.error);
+        router.refresh();
+        return;
+      }
+      toast.success(`Merged ${result.merged} lead${result.merged === 1 ? "" : "s"} into ${winner.lead_id}`);
+      router.refresh();
+    });
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <CardTitle className="text-base">{winner.customer_name || winner.email || winner.phone || winner.lead_id}</CardTitle>
+          <div className="flex flex-wrap gap-1">
+            {group.reasons.map((reason) => (
+              <Badge key={reason} variant="secondary">
+                {REASON_LABELS[reason]}
+              </Badge>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="divide-y divide-border rounded-md border border-border">
+          {group.leads.map((lead) => {
+            const isWinner = lead.id === winnerId;
+            return (
+              <div key={lead.id} className="flex items-start gap-3 p-3">
+                <input
+                  type="radio"
+                  name={`winner_${group.key}`}
+                  checked={isWinner}
+                  onChange={() => chooseWinner(lead.id)}
+                  className="mt-1 h-4 w-4 accent-primary"
+                  aria-label={`Keep ${lead.lead_id}`}
+                />
+                <div className="min-w-0 flex-1 space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Link href={`/leads/${lead.id}`} className="font-mono text-sm font-medium hover:underline">
+                      {lead.lead_id}
+                    </Link>
+                    {lead.status && <Badge variant="outline">{lead.status}</Badge>}
+                    {isWinner && <Badge>Keep</Badge>}
+                  </div>
+                  <p className="truncate text-sm">
+                    {[lead.customer_name, lead.organization].filter(Boolean).join(" · ") || "No name"}
+                  </p>
+                  <p className="truncate text-xs text-muted-foreground">
+                    {[lead.phone, lead.email].filter(Boolean).join(" · ") || "No contact details"}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    Created {formatDate(lead.created_at)} · Last activity {formatDate(lead.last_activity_at)}
+                    {lead.assigned_rep_id ? ` · ${repNames[lead.assigned_rep_id] || "Assigned"}` : " · Unassigned"}
+                  </p>
+                </div>
+                {!isWinner && (
+                  <label className="flex shrink-0 items-center gap-2 text-xs text-muted-foreground">
+                    <Checkbox
+                      checked={selected.has(lead.id)}
+                      onCheckedChange={(checked) => toggleSelected(lead.id, checked === true)}
+                    />
+                    Merge
+                  </label>
+                )}
+              </div>
+            );
+          })}
+        </div>
+        <Button type="button" onClick={handleMerge} disabled={isPending || loserIds.length === 0} className="min-h-[44px]">
+          {isPending ? "Merging..." : `Merge ${loserIds.length} into ${winner.lead_id}`}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
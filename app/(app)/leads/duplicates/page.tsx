@@ -0,0 +1,71 @@
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { ArrowLeft } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { PageHeader } from "@/components/page-header";
+import { getViewer } from "@/lib/viewer";
+import { getAdminSupabase } from "@/lib/supabase/admin";
+import { groupDuplicateLeads, LEAD_IDENTITY_SELECT, type LeadIdentityRow } from "@/lib/contact-identity";
+import { DuplicatesClient } from "./duplicates-client";
+
+// Grouping runs in memory, so only the most recently active leads are scanned
+const SCAN_LIMIT = 5000;
+
+export default async function LeadDuplicatesPage() {
+  const { supabase, user, userRole } = await getViewer();
+
+  if (!user) {
+    redirect("/login");
+  }
+  if (userRole !== "ceo" && userRole !== "admin") {
+    redirect("/leads");
+  }
+
+  const leadClient = getAdminSupabase() ?? supabase;
+
+  const [{ data: leadRows, error }, { data: profiles }] = await Promise.all([
+    leadClient
+      .from("leads")
+      .select(LEAD_IDENTITY_SELECT)
+      .is("merged_into_id", null)
+      .order("last_activity_at", { ascending: false, nullsFirst: false })
+      .limit(SCAN_LIMIT),
+    supabase.from("profiles").select("user_id, full_name, email"),
+  ]);
+
+  if (error) {
+    console.error("[duplicates] lead scan failed:", error.message);
+  }
+
+  const groups = groupDuplicateLeads((leadRows || []) as LeadIdentityRow[]);
+  const repNames = Object.fromEntries(
+    (profiles || []).map((p) => [p.user_id as string, (p.full_name || p.email || "") as string])
+  );
+
+  return (
+    <div className="space-y-6">
+      <PageHeader
+        title="Duplicate Leads"
+        subtitle="Leads that share a phone number, email address or a very similar name."
+        actions={
+          <Button asChild variant="outline" className="min-h-[44px]">
+            <Link href="/leads">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Leads
+            </Link>
+          </Button>
+        }
+      />
+      {groups.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-sm text-muted-foreground">
+            No likely duplicates found.
+          </CardContent>
+        </Card>
+      ) : (
+        <DuplicatesClient groups={groups} repNames={repNames} />
+      )}
+    </div>
+  );
+}
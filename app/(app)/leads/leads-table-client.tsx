@@ -17,10 +17,10 @@ import { Card, CardContent } from "@/components/ui/card";
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { ChevronDown, ChevronUp, LayoutGrid, List, SlidersHorizontal, Trash2, X } from "lucide-react";
+import { ChevronDown, ChevronUp, LayoutGrid, List, SlidersHorizontal, Timer, Trash2, X } from "lucide-react";
 import { toast } from "sonner";
 
-import type { Lead } from '@/types/leads';
+import { LEAD_SLA_MILESTONE_LABELS, type Lead, type LeadSlaStatus } from '@/types/leads';
 import { assignRepAction } from "./[id]/actions";
 import { assignToMeAction, deleteLeadAction } from "./actions";
 
@@ -38,6 +38,7 @@ interface DisplayLead extends Lead {
   updated_at?: string | null;
   last_activity_at?: string | null;
   organization?: string | null;
+  sla?: LeadSlaStatus | null;
 }
 
 interface Rep {
@@ -135,6 +136,35 @@ function attentionPillClass(answered: boolean): string {
     : "bg-primary/10 text-primary border-primary/20";
 }
 
+function formatSlaDuration(ms: number): string {
+  const minutes = Math.max(1, Math.round(Math.abs(ms) / 60000));
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return `${hours}h ${minutes % 60}m`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+}
+
+function SlaCountdown({ sla, now }: { sla: LeadSlaStatus; now: number }) {
+  const remaining = Date.parse(sla.due_at) - now;
+  const label = LEAD_SLA_MILESTONE_LABELS[sla.milestone];
+  const tone =
+    remaining <= 0
+      ? "bg-destructive/10 text-destructive border-destructive/20"
+      : remaining < 60 * 60 * 1000
+        ? "bg-amber-500/10 text-amber-700 dark:text-amber-400 border-amber-500/20"
+        : "bg-muted text-muted-foreground border-border";
+  return (
+    <span
+      className={["inline-flex items-center gap-1 rounded-full border px-2.5 py-1 text-xs font-medium tabular-nums", tone].join(" ")}
+      title={`${label} due ${new Date(sla.due_at).toLocaleString("en-US", { dateStyle: "medium", timeStyle: "short" })}`}
+      suppressHydrationWarning
+    >
+      <Timer className="h-3 w-3" />
+      {remaining <= 0 ? `${label} overdue ${formatSlaDuration(remaining)}` : `${label} in ${formatSlaDuration(remaining)}`}
+    </span>
+  );
+}
+
 function isUuid(value: string | null | undefined): boolean {
   if (!value) return false;
   return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value);
@@ -158,6 +188,13 @@ function LeadsTableClientContent({ initialLeads, reps, currentUserId, isCeoOrAdm
   const [isDeletePending, startDeleteTransition] = useTransition();
   const [viewMode, setViewMode] = useState<"cards" | "table">("cards");
   const realtimeRefreshTimerRef = useRef<number | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  // Keeps the SLA countdowns ticking between refreshes
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), 30_000);
+    return () => window.clearInterval(timer);
+  }, []);
 
   // Debounced search update
   useEffect(() => {
@@ -491,6 +528,7 @@ function LeadsTableClientContent({ initialLeads, reps, currentUserId, isCeoOrAdm
                 <span className={["inline-flex items-center rounded-full border px-2.5 py-1 text-xs font-medium", attentionPillClass(answered)].join(" ")}>
                   {answered ? "Answered" : "Needs Attention"}
                 </span>
+                {lead.sla && <SlaCountdown sla={lead.sla} now={now} />}
                 <span className="text-[11px] sm:text-xs text-muted-foreground">
                   Submitted {formatDate(lead.submission_date || lead.created_at || "")}
                 </span>
@@ -833,9 +871,12 @@ function LeadsTableClientContent({ initialLeads, reps, currentUserId, isCeoOrAdm
                                   )}
                                 </TableCell>
                                 <TableCell>
-                                  <span className={["inline-flex items-center rounded-full border px-2.5 py-1 text-xs font-medium", attentionPillClass(answered)].join(" ")}>
-                                    {answered ? "Answered" : "Needs Attention"}
-                                  </span>
+                                  <div className="flex flex-wrap items-center gap-1">
+                                    <span className={["inline-flex items-center rounded-full border px-2.5 py-1 text-xs font-medium", attentionPillClass(answered)].join(" ")}>
+                                      {answered ? "Answered" : "Needs Attention"}
+                                    </span>
+                                    {lead.sla && <SlaCountdown sla={lead.sla} now={now} />}
+                                  </div>
                                 </TableCell>
                                 <TableCell className="max-w-[180px] truncate">{repName}</TableCell>
                                 <TableCell className="whitespace-nowrap text-muted-foreground">
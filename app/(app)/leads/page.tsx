@@ -10,6 +10,8 @@ import { AutoAssignAllButton } from "./auto-assign-all-button";
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import type { SupabaseClient } from "@supabase/supabase-js";
+import { getLeadSlaClock, getLeadSlaSettings, getLeadSlaStatus, type LeadSlaClock } from "@/lib/lead-sla";
+import type { LeadSlaSettings } from "@/types/leads";
 
 export const revalidate = 10;
 
@@ -49,6 +51,8 @@ async function getLeadsPage(params: {
   query?: string;
   status?: string;
   rep?: string;
+  slaSettings: LeadSlaSettings;
+  slaClock: LeadSlaClock;
 }): Promise<{ leads: Lead[]; hasNextPage: boolean }> {
   const { supabase, user } = await getViewer();
   const allowSpreadsheetFallback = process.env.NODE_ENV !== "production";
@@ -106,8 +110,12 @@ async function getLeadsPage(params: {
       "question",
       "card_id",
       "card_created",
+      "first_contacted_at",
+      "last_contacted_at",
+      "quote_sent_at",
     ].join(","))
-    .gte('created_at', cutoffIso);
+    .gte('created_at', cutoffIso)
+    .is('merged_into_id', null);
 
   // Apply server-side filters
   if (params.query) {
@@ -192,6 +200,22 @@ async function getLeadsPage(params: {
       ["Quote", "Booking", "Question"].includes(intent)
     );
 
+    const slaRow = {
+      id: pickString(lead.id) || "",
+      lead_id: pickString(lead.lead_id) || "",
+      customer_name: pickString(lead.customer_name),
+      name: pickString(lead.name),
+      status: pickString(lead.status),
+      assigned_rep_id: pickString(lead.assigned_rep_id),
+      has_requested_quote: pickBool(lead.has_requested_quote),
+      has_booked_call: pickBool(lead.has_booked_call),
+      has_asked_question: pickBool(lead.has_asked_question),
+      created_at: pickString(lead.created_at),
+      first_contacted_at: pickString(lead.first_contacted_at),
+      last_contacted_at: pickString(lead.last_contacted_at),
+      quote_sent_at: pickString(lead.quote_sent_at),
+    };
+
     return {
       id: pickString(lead.id) || "",
       lead_id: pickString(lead.lead_id) || pickString(lead.id) || "",
@@ -221,6 +245,10 @@ async function getLeadsPage(params: {
       question: pickString(lead.question),
       card_id: pickString(lead.card_id) || pickString(lead.trello_card_id),
       card_created: pickBool(lead.card_created),
+      first_contacted_at: slaRow.first_contacted_at,
+      last_contacted_at: slaRow.last_contacted_at,
+      quote_sent_at: slaRow.quote_sent_at,
+      sla: getLeadSlaStatus(slaRow, params.slaSettings, Date.now(), params.slaClock),
     } as Lead;
   });
 
@@ -242,8 +270,9 @@ export default async function LeadsPage({
   const status = params?.status || "all";
   const rep = params?.rep || "all";
 
+  const [slaSettings, slaClock] = await Promise.all([getLeadSlaSettings(supabase), getLeadSlaClock(supabase)]);
   const [{ leads, hasNextPage }, reps] = await Promise.all([
-    getLeadsPage({ page, pageSize, query, status, rep }),
+    getLeadsPage({ page, pageSize, query, status, rep, slaSettings, slaClock }),
     getUsersForAssignment(supabase),
   ]);
 
@@ -256,6 +285,11 @@ export default async function LeadsPage({
         subtitle="Manage and track your leads."
         actions={
           <div className="flex flex-wrap gap-2">
+            {!!isCeoOrAdmin && (
+              <Button asChild variant="outline">
+                <Link href="/leads/duplicates">Duplicates</Link>
+              </Button>
+            )}
             {!!isCeoOrAdmin && <AutoAssignAllButton />}
             <RefreshButton />
           </div>
@@ -0,0 +1,95 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { requireAdmin } from "@/lib/supabase/server";
+import { z } from "zod";
+
+const priceEntrySchema = z.object({
+  productType: z.string().trim().min(1, "Product type is required"),
+  size: z.string().optional(),
+  unitPrice: z.coerce.number().min(0, "Price cannot be negative"),
+  notes: z.string().max(1000).optional(),
+});
+
+const priceUpdateSchema = priceEntrySchema.extend({
+  id: z.string().uuid(),
+});
+
+const priceDeleteSchema = z.object({
+  id: z.string().uuid(),
+});
+
+export async function createPriceEntryAction(formData: FormData) {
+  const parsed = priceEntrySchema.safeParse({
+    productType: formData.get("productType"),
+    size: formData.get("size") || undefined,
+    unitPrice: formData.get("unitPrice"),
+    notes: formData.get("notes") || undefined,
+  });
+  if (!parsed.success) return { error: parsed.error.issues[0]?.message || "Invalid input" };
+
+  const auth = await requireAdmin();
+  if ("error" in auth) return { error: auth.error };
+
+  const { error } = await auth.supabase.from("price_book").insert({
+    product_type: parsed.data.productType,
+    size: parsed.data.size?.trim() ? parsed.data.size.trim() : null,
+    unit_price: parsed.data.unitPrice,
+    notes: parsed.data.notes || null,
+    last_modified_by: auth.user.email || null,
+  });
+  if (error) {
+    if (error.code === "23505") return { error: "A price for this product and size already exists" };
+    return { error: error.message };
+  }
+
+  revalidatePath("/price-book");
+  return { success: true };
+}
+
+export async function updatePriceEntryAction(formData: FormData) {
+  const parsed = priceUpdateSchema.safeParse({
+    id: formData.get("id"),
+    productType: formData.get("productType"),
+    size: formData.get("size") || undefined,
+    unitPrice: formData.get("unitPrice"),
+    notes: formData.get("notes") || undefined,
+  });
+  if (!parsed.success) return { error: parsed.error.issues[0]?.message || "Invalid input" };
+
+  const auth = await requireAdmin();
+  if ("error" in auth) return { error: auth.error };
+
+  const { error } = await auth.supabase
+    .from("price_book")
+    .update({
+      product_type: parsed.data.productType,
+      size: parsed.data.size?.trim() ? parsed.data.size.trim() : null,
+      unit_price: parsed.data.unitPrice,
+      notes: parsed.data.notes || null,
+      last_modified: new Date().toISOString(),
+      last_modified_by: auth.user.email || null,
+    })
+    .eq("id", parsed.data.id);
+  if (error) {
+    if (error.code === "23505") return { error: "A price for this product and size already exists" };
+    return { error: error.message };
+  }
+
+  revalidatePath("/price-book");
+  return { success: true };
+}
+
+export async function deletePriceEntryAction(formData: FormData) {
+  const parsed = priceDeleteSchema.safeParse({ id: formData.get("id") });
+  if (!parsed.success) return { error: parsed.error.issues[0]?.message || "Invalid input" };
+
+  const auth = await requireAdmin();
+  if ("error" in auth) return { error: auth.error };
+
+  const { error } = await auth.supabase.from("price_book").delete().eq("id", parsed.data.id);
+  if (error) return { error: error.message };
+
+  revalidatePath("/price-book");
+  return { success: true };
+}
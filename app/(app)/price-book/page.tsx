@@ -0,0 +1,68 @@
+import { createClient } from "@/lib/supabase/server";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { PageHeader } from "@/components/page-header";
+import type { PriceBookEntry } from "@/types/quotes";
+import { PriceBookClient } from "./price-book-client";
+
+export const dynamic = "force-dynamic";
+
+async function getPriceBook(): Promise<PriceBookEntry[]> {
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from("price_book")
+    .select("*")
+    .order("product_type", { ascending: true })
+    .order("size", { ascending: true, nullsFirst: true });
+
+  if (error) {
+    console.error("Error fetching price book:", error);
+    return [];
+  }
+
+  return (data || []) as PriceBookEntry[];
+}
+
+export default async function PriceBookPage() {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    return (
+      <div className="p-8 text-center">
+        <h1 className="text-2xl font-bold text-destructive">Access Denied</h1>
+        <p className="text-muted-foreground mt-2">Please sign in to view the price book.</p>
+      </div>
+    );
+  }
+
+  const { data: profile } = await supabase.from("profiles").select("role").eq("user_id", user.id).single();
+  const isAdmin = !!profile && (profile.role === "ceo" || profile.role === "admin");
+  if (!isAdmin) {
+    return (
+      <div className="p-8 text-center">
+        <h1 className="text-2xl font-bold text-destructive">Access Denied</h1>
+        <p className="text-muted-foreground mt-2">Only Admins and CEOs can manage the price book.</p>
+      </div>
+    );
+  }
+
+  const entries = await getPriceBook();
+
+  return (
+    <div className="space-y-6">
+      <PageHeader
+        title="Price Book"
+        subtitle="Unit prices per product and size. Size-less prices apply to every size without its own price."
+      />
+      <Card>
+        <CardHeader>
+          <CardTitle>Prices</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <PriceBookClient entries={entries} />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
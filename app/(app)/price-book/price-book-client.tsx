@@ -0,0 +1,242 @@
+"use client";
+
+import { useMemo, useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import type { PriceBookEntry } from "@/types/quotes";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { Plus } from "lucide-react";
+import { formatMoney } from "@/lib/quotes";
+import { createPriceEntryAction, deletePriceEntryAction, updatePriceEntryAction } from "./actions";
+
+export function PriceBookClient(props: { entries: PriceBookEntry[] }) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [searchValue, setSearchValue] = useState("");
+
+  const [isAddOpen, setIsAddOpen] = useState(false);
+  const [isEditOpen, setIsEditOpen] = useState(false);
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+  const [selectedEntry, setSelectedEntry] = useState<PriceBookEntry | null>(null);
+
+  const filteredEntries = useMemo(() => {
+    const q = searchValue.trim().toLowerCase();
+    if (!q) return props.entries;
+    return props.entries.filter(
+      (entry) => entry.product_type.toLowerCase().includes(q) || (entry.size || "").toLowerCase().includes(q)
+    );
+  }, [props.entries, searchValue]);
+
+  function handleAdd(formData: FormData) {
+    startTransition(async () => {
+      const result = await createPriceEntryAction(formData);
+      if (result?.error) {
+        toast.error(result.error);
+        return;
+      }
+      toast.success("Price added");
+      setIsAddOpen(false);
+      router.refresh();
+    });
+  }
+
+  function handleEdit(formData: FormData) {
+    startTransition(async () => {
+      const result = await updatePriceEntryAction(formData);
+      if (result?.error) {
+        toast.error(result.error);
+        return;
+      }
+      toast.success("Price updated");
+      setIsEditOpen(false);
+      router.refresh();
+    });
+  }
+
+  function handleDelete(formData: FormData) {
+    startTransition(async () => {
+      const result = await deletePriceEntryAction(formData);
+      if (result?.error) {
+        toast.error(result.error);
+        return;
+      }
+      toast.success("Price deleted");
+      setIsDeleteOpen(false);
+      setSelectedEntry(null);
+      router.refresh();
+    });
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <Input
+          placeholder="Search product or size..."
+          className="max-w-md"
+          value={searchValue}
+          onChange={(e) => setSearchValue(e.target.value)}
+        />
+
+        <Dialog open={isAddOpen} onOpenChange={setIsAddOpen}>
+          <DialogTrigger asChild>
+            <Button>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Price
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Add Price</DialogTitle>
+            </DialogHeader>
+            <form action={handleAdd} className="space-y-4">
+              <div className="grid gap-2">
+                <Label htmlFor="productType">Product Type</Label>
+                <Input id="productType" name="productType" required placeholder="e.g. Hoodie" />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="size">Size (optional)</Label>
+                <Input id="size" name="size" placeholder="Leave blank for all sizes" />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="unitPrice">Unit Price (excl. VAT)</Label>
+                <Input id="unitPrice" name="unitPrice" type="number" step="0.01" min="0" required placeholder="0.00" />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="notes">Notes (optional)</Label>
+                <Input id="notes" name="notes" />
+              </div>
+              <Button type="submit" className="w-full" disabled={isPending}>
+                {isPending ? "Saving..." : "Save Price"}
+              </Button>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Product</TableHead>
+              <TableHead>Size</TableHead>
+              <TableHead className="text-right">Unit Price</TableHead>
+              <TableHead>Notes</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {filteredEntries.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
+                  No prices found. Add one to get started.
+                </TableCell>
+              </TableRow>
+            ) : (
+              filteredEntries.map((entry) => (
+                <TableRow key={entry.id}>
+                  <TableCell className="font-medium">{entry.product_type}</TableCell>
+                  <TableCell className="text-muted-foreground">{entry.size || "All sizes"}</TableCell>
+                  <TableCell className="text-right tabular-nums">{formatMoney(entry.unit_price)}</TableCell>
+                  <TableCell className="text-muted-foreground">{entry.notes || "—"}</TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => {
+                          setSelectedEntry(entry);
+                          setIsEditOpen(true);
+                        }}
+                      >
+                        Edit
+                      </Button>
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        onClick={() => {
+                          setSelectedEntry(entry);
+                          setIsDeleteOpen(true);
+                        }}
+                      >
+                        Delete
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <Dialog open={isEditOpen} onOpenChange={setIsEditOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit Price</DialogTitle>
+          </DialogHeader>
+          {selectedEntry && (
+            <form action={handleEdit} className="space-y-4">
+              <input type="hidden" name="id" value={selectedEntry.id} />
+              <div className="grid gap-2">
+                <Label htmlFor="edit-productType">Product Type</Label>
+                <Input id="edit-productType" name="productType" required defaultValue={selectedEntry.product_type} />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="edit-size">Size (optional)</Label>
+                <Input id="edit-size" name="size" defaultValue={selectedEntry.size || ""} />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="edit-unitPrice">Unit Price (excl. VAT)</Label>
+                <Input
+                  id="edit-unitPrice"
+                  name="unitPrice"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  required
+                  defaultValue={String(selectedEntry.unit_price)}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="edit-notes">Notes (optional)</Label>
+                <Input id="edit-notes" name="notes" defaultValue={selectedEntry.notes || ""} />
+              </div>
+              <Button type="submit" className="w-full" disabled={isPending}>
+                {isPending ? "Saving..." : "Save Changes"}
+              </Button>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={isDeleteOpen} onOpenChange={setIsDeleteOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Price</DialogTitle>
+          </DialogHeader>
+          {selectedEntry && (
+            <form action={handleDelete} className="space-y-4">
+              <input type="hidden" name="id" value={selectedEntry.id} />
+              <p className="text-sm text-muted-foreground">
+                Delete price for {selectedEntry.product_type}
+                {selectedEntry.size ? ` (${selectedEntry.size})` : ""}? Existing quotes keep their prices.
+              </p>
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setIsDeleteOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" variant="destructive" disabled={isPending}>
+                  {isPending ? "Deleting..." : "Delete"}
+                </Button>
+              </DialogFooter>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
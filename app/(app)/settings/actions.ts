@@ -4,6 +4,16 @@ import { revalidatePath } from 'next/cache';
 import { redirect } from 'next/navigation';
 import { createClient } from '@/lib/supabase/server';
 import { z } from 'zod';
+import { PRODUCTION_STAGES } from '@/types/stock';
+import { PRODUCTION_BOARD_SETTINGS_KEY } from '@/lib/production-board';
+import { countTemplatePlaceholders } from '@/lib/whatsapp-templates';
+import { CUSTOMER_STAGE_ALERTS_SETTINGS_KEY } from '@/lib/customer-stage-alerts';
+import { LEAD_SLA_SETTINGS_KEY } from '@/lib/lead-sla';
+import { TEAM_HOURS_SETTINGS_KEY } from '@/lib/availability';
+import { TASK_AUTOMATIONS_SETTINGS_KEY } from '@/lib/tasks';
+import { LEAD_APPAREL_CATEGORIES } from '@/types/lead-routing';
+import { WHATSAPP_TEMPLATE_VARIABLES } from '@/types/inbox';
+import { LEAD_INTENTS, LEAD_SLA_MILESTONES, LEAD_STATUSES } from '@/types/leads';
 
 const settingsSchema = z.object({
   whatsappAlertsEnabled: z.preprocess((val) =>
@@ -16,6 +26,123 @@ const settingsSchema = z.object({
   ),
 });
 
+const productionBoardSettingsSchema = z.object({
+  mode: z.enum(['trello_primary', 'admin_primary', 'admin_only']),
+  wip_limits: z.partialRecord(z.enum(PRODUCTION_STAGES), z.number().int().positive()),
+});
+
+const customerStageAlertRuleSchema = z.discriminatedUnion('channel', [
+  z.object({
+    channel: z.literal('whatsapp'),
+    template_id: z.string().uuid('Choose a WhatsApp template for every WhatsApp stage'),
+    email_subject: z.literal(''),
+    email_body: z.literal(''),
+  }),
+  z.object({
+    channel: z.literal('email'),
+    template_id: z.null(),
+    email_subject: z.string().trim().min(1, 'Email subject is required').max(200),
+    email_body: z.string().trim().min(1, 'Email body is required').max(5000),
+  }),
+]);
+
+const customerStageAlertSettingsSchema = z.object({
+  stages: z.partialRecord(z.enum(PRODUCTION_STAGES), customerStageAlertRuleSchema),
+});
+
+const slaHoursSchema = z.number().positive('SLA hours must be greater than zero').max(24 * 90).nullable();
+
+const leadSlaSettingsSchema = z.object({
+  intents: z.record(
+    z.enum(LEAD_INTENTS),
+    z.object({
+      first_contact_hours: slaHoursSchema,
+      quote_sent_hours: slaHoursSchema,
+      follow_up_hours: slaHoursSchema,
+    })
+  ),
+  escalate_after_hours: z.number({ error: 'Escalation delay is required' }).positive('Escalation delay must be greater than zero').max(24 * 30),
+});
+
+const teamHoursSchema = z
+  .object({
+    timezone: z.string().trim().refine((tz) => {
+      try {
+        new Intl.DateTimeFormat('en-US', { timeZone: tz });
+        return true;
+      } catch {
+        return false;
+      }
+    }, 'Unknown time zone'),
+    working_days: z.array(z.coerce.number().int().min(0).max(6)),
+    start_time: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Start time must be HH:MM'),
+    end_time: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'End time must be HH:MM'),
+  })
+  .refine((value) => value.start_time < value.end_time, 'Working hours must end after they start');
+
+const leadRoutingRuleSchema = z.object({
+  id: z.string().uuid().optional(),
+  name: z.string().trim().min(1, 'Rule name is required').max(100),
+  intents: z.array(z.enum(LEAD_INTENTS)),
+  categories: z.array(z.enum(LEAD_APPAREL_CATEGORIES)),
+  sources: z.array(z.string().trim().min(1).max(50)),
+  organization_pattern: z.string().trim().max(100).nullable(),
+  hours: z.enum(['any', 'working', 'after_hours']),
+  strategy: z.enum(['round_robin', 'weighted']),
+  reps: z
+    .array(z.object({ user_id: z.string().uuid(), weight: z.number().int().min(1, 'Weights must be at least 1').max(100) }))
+    .min(1, 'Choose at least one rep for the rule'),
+});
+
+const taskAutomationSettingsSchema = z.object({
+  rules: z
+    .array(
+      z.object({
+        status: z.enum(LEAD_STATUSES),
+        title: z.string().trim().min(1, 'Task title is required').max(200),
+        due_in_days: z.number({ error: 'Due in days must be a number' }).int('Due in days must be a whole number').min(0).max(365),
+      })
+    )
+    .max(20),
+});
+
+const whatsappTemplateSchema = z.object({
+  id: z.string().uuid().optional(),
+  // Must match the template name approved in Meta Business Manager
+  name: z
+    .string()
+    .trim()
+    .regex(/^[a-z0-9_]+$/, 'Template name may only contain lowercase letters, numbers and underscores'),
+  language: z.string().trim().min(2, 'Language is required').max(10),
+  category: z.enum(['utility', 'marketing', 'authentication']),
+  body: z.string().trim().min(1, 'Template body is required').max(1024),
+  variables: z.array(z.enum(WHATSAPP_TEMPLATE_VARIABLES)),
+});
+
+async function requireSettingsAdmin() {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect('/login');
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('user_id', user.id)
+    .single();
+
+  if (!profile || !['admin', 'ceo'].includes(profile.role)) {
+    redirect('/dashboard');
+  }
+
+  return { supabase, user };
+}
+
 export async function saveSettingsAction(formData: FormData) {
   const supabase = await createClient();
 
@@ -62,3 +189,374 @@ export async function saveSettingsAction(formData: FormData) {
 
   revalidatePath('/settings');
 }
+
+export async function saveProductionBoardSettingsAction(formData: FormData) {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect('/login');
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('user_id', user.id)
+    .single();
+
+  if (!profile || !['admin', 'ceo'].includes(profile.role)) {
+    redirect('/dashboard');
+  }
+
+  // Blank or zero WIP inputs mean "no limit" and are left out
+  const wipLimits: Record<string, number> = {};
+  for (const stage of PRODUCTION_STAGES) {
+    const raw = String(formData.get(`wip_${stage}`) ?? '').trim();
+    if (!raw) continue;
+    const limit = Number(raw);
+    if (!Number.isInteger(limit) || limit < 0) {
+      throw new Error('WIP limits must be whole numbers');
+    }
+    if (limit > 0) wipLimits[stage] = limit;
+  }
+
+  const result = productionBoardSettingsSchema.safeParse({
+    mode: formData.get('mode'),
+    wip_limits: wipLimits,
+  });
+  if (!result.success) {
+    throw new Error(result.error.issues[0]?.message ?? 'Invalid production board settings');
+  }
+
+  const { error } = await supabase.from('system_settings').upsert(
+    {
+      key: PRODUCTION_BOARD_SETTINGS_KEY,
+      value: result.data,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: 'key' }
+  );
+
+  if (error) {
+    throw new Error(error.message || 'Failed to save production board settings');
+  }
+
+  revalidatePath('/settings');
+  revalidatePath('/jobs');
+}
+
+export async function saveWhatsAppTemplateAction(formData: FormData) {
+  const { supabase, user } = await requireSettingsAdmin();
+
+  const body = String(formData.get('body') ?? '');
+  const placeholderCount = countTemplatePlaceholders(body);
+  const variables = Array.from({ length: placeholderCount }, (_, i) => formData.get(`var_${i + 1}`));
+
+  const result = whatsappTemplateSchema.safeParse({
+    id: formData.get('id') || undefined,
+    name: formData.get('name'),
+    language: formData.get('language') || 'en',
+    category: formData.get('category') || 'utility',
+    body,
+    variables,
+  });
+  if (!result.success) {
+    throw new Error(result.error.issues[0]?.message ?? 'Invalid template');
+  }
+
+  const { id, ...values } = result.data;
+  const nowIso = new Date().toISOString();
+  const { error } = id
+    ? await supabase.from('wa_templates').update({ ...values, updated_at: nowIso }).eq('id', id)
+    : await supabase.from('wa_templates').insert({ ...values, created_by: user.id });
+
+  if (error) {
+    if (error.code === '23505') {
+      throw new Error('A template with this name and language already exists');
+    }
+    throw new Error(error.message || 'Failed to save template');
+  }
+
+  revalidatePath('/settings');
+  revalidatePath('/inbox');
+}
+
+export async function setWhatsAppTemplateActiveAction(templateId: string, isActive: boolean) {
+  const { supabase } = await requireSettingsAdmin();
+
+  const parsed = z.string().uuid().safeParse(templateId);
+  if (!parsed.success) {
+    throw new Error('Invalid template');
+  }
+
+  const { error } = await supabase
+    .from('wa_templates')
+    .update({ is_active: isActive, updated_at: new Date().toISOString() })
+    .eq('id', parsed.data);
+
+  if (error) {
+    throw new Error(error.message || 'Failed to update template');
+  }
+
+  revalidatePath('/settings');
+  revalidatePath('/inbox');
+}
+
+export async function saveCustomerStageAlertSettingsAction(formData: FormData) {
+  const { supabase } = await requireSettingsAdmin();
+
+  const stages: Record<string, unknown> = {};
+  for (const stage of PRODUCTION_STAGES) {
+    const channel = String(formData.get(`channel_${stage}`) ?? 'off');
+    if (channel === 'whatsapp') {
+      stages[stage] = {
+        channel,
+        template_id: String(formData.get(`template_${stage}`) ?? ''),
+        email_subject: '',
+        email_body: '',
+      };
+    } else if (channel === 'email') {
+      stages[stage] = {
+        channel,
+        template_id: null,
+        email_subject: String(formData.get(`subject_${stage}`) ?? ''),
+        email_body: String(formData.get(`body_${stage}`) ?? ''),
+      };
+    }
+  }
+
+  const result = customerStageAlertSettingsSchema.safeParse({ stages });
+  if (!result.success) {
+    throw new Error(result.error.issues[0]?.message ?? 'Invalid customer update settings');
+  }
+
+  const { error } = await supabase.from('system_settings').upsert(
+    {
+      key: CUSTOMER_STAGE_ALERTS_SETTINGS_KEY,
+      value: result.data,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: 'key' }
+  );
+
+  if (error) {
+    throw new Error(error.message || 'Failed to save customer update settings');
+  }
+
+  revalidatePath('/settings');
+}
+
+export async function saveLeadSlaSettingsAction(formData: FormData) {
+  const { supabase } = await requireSettingsAdmin();
+
+  // Blank inputs mean "no SLA" for that milestone
+  const readHours = (name: string): number | null => {
+    const raw = String(formData.get(name) ?? '').trim();
+    if (!raw) return null;
+    const hours = Number(raw);
+    if (!Number.isFinite(hours)) {
+      throw new Error('SLA targets must be numbers of hours');
+    }
+    return hours;
+  };
+
+  const intents: Record<string, Record<string, number | null>> = {};
+  for (const intent of LEAD_INTENTS) {
+    intents[intent] = {};
+    for (const milestone of LEAD_SLA_MILESTONES) {
+      intents[intent][`${milestone}_hours`] =
+        milestone === 'quote_sent' && intent !== 'Quote' ? null : readHours(`sla_${intent}_${milestone}`);
+    }
+  }
+
+  const result = leadSlaSettingsSchema.safeParse({
+    intents,
+    escalate_after_hours: readHours('escalate_after_hours'),
+  });
+  if (!result.success) {
+    throw new Error(result.error.issues[0]?.message ?? 'Invalid SLA settings');
+  }
+
+  const { error } = await supabase.from('system_settings').upsert(
+    {
+      key: LEAD_SLA_SETTINGS_KEY,
+      value: result.data,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: 'key' }
+  );
+
+  if (error) {
+    throw new Error(error.message || 'Failed to save SLA settings');
+  }
+
+  revalidatePath('/settings');
+  revalidatePath('/leads');
+}
+
+export async function saveTeamHoursAction(formData: FormData) {
+  const { supabase } = await requireSettingsAdmin();
+
+  const result = teamHoursSchema.safeParse({
+    timezone: String(formData.get('timezone') ?? ''),
+    working_days: formData.getAll('working_days'),
+    start_time: String(formData.get('start_time') ?? ''),
+    end_time: String(formData.get('end_time') ?? ''),
+  });
+  if (!result.success) {
+    throw new Error(result.error.issues[0]?.message ?? 'Invalid working hours');
+  }
+
+  const { error } = await supabase.from('system_settings').upsert(
+    {
+      key: TEAM_HOURS_SETTINGS_KEY,
+      value: result.data,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: 'key' }
+  );
+
+  if (error) {
+    throw new Error(error.message || 'Failed to save working hours');
+  }
+
+  revalidatePath('/settings');
+  revalidatePath('/users');
+  revalidatePath('/leads');
+}
+
+export async function saveLeadRoutingRuleAction(formData: FormData) {
+  const { supabase, user } = await requireSettingsAdmin();
+
+  const repIds = formData.getAll('rep_ids').map(String);
+  const result = leadRoutingRuleSchema.safeParse({
+    id: formData.get('id') || undefined,
+    name: String(formData.get('name') ?? ''),
+    intents: formData.getAll('intents'),
+    categories: formData.getAll('categories'),
+    sources: String(formData.get('sources') ?? '')
+      .split(',')
+      .map((s) => s.trim())
+      .filter(Boolean),
+    organization_pattern: String(formData.get('organization_pattern') ?? '').trim() || null,
+    hours: formData.get('hours') || 'any',
+    strategy: formData.get('strategy') || 'round_robin',
+    reps: repIds.map((userId) => ({ user_id: userId, weight: Number(formData.get(`weight_${userId}`) || 1) })),
+  });
+  if (!result.success) {
+    throw new Error(result.error.issues[0]?.message ?? 'Invalid routing rule');
+  }
+
+  const { id, ...values } = result.data;
+  const nowIso = new Date().toISOString();
+  let error;
+  if (id) {
+    ({ error } = await supabase.from('lead_routing_rules').update({ ...values, updated_at: nowIso }).eq('id', id));
+  } else {
+    // New rules go to the bottom so existing precedence is kept
+    const { data: last } = await supabase
+      .from('lead_routing_rules')
+      .select('position')
+      .order('position', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    ({ error } = await supabase
+      .from('lead_routing_rules')
+      .insert({ ...values, position: (last?.position ?? -1) + 1, created_by: user.id }));
+  }
+
+  if (error) {
+    throw new Error(error.message || 'Failed to save routing rule');
+  }
+
+  revalidatePath('/settings');
+}
+
+export async function setLeadRoutingRuleActiveAction(ruleId: string, isActive: boolean) {
+  const { supabase } = await requireSettingsAdmin();
+
+  const { error } = await supabase
+    .from('lead_routing_rules')
+    .update({ is_active: isActive, updated_at: new Date().toISOString() })
+    .eq('id', ruleId);
+
+  if (error) {
+    throw new Error(error.message || 'Failed to update routing rule');
+  }
+
+  revalidatePath('/settings');
+}
+
+export async function moveLeadRoutingRuleAction(ruleId: string, direction: 'up' | 'down') {
+  const { supabase } = await requireSettingsAdmin();
+
+  const { data: rules, error: loadError } = await supabase
+    .from('lead_routing_rules')
+    .select('id, position')
+    .order('position', { ascending: true });
+  if (loadError) {
+    throw new Error(loadError.message || 'Failed to load routing rules');
+  }
+
+  const ordered = rules || [];
+  const index = ordered.findIndex((rule) => rule.id === ruleId);
+  const swapIndex = direction === 'up' ? index - 1 : index + 1;
+  if (index < 0 || swapIndex < 0 || swapIndex >= ordered.length) return;
+
+  // Rewrite positions densely so older duplicates can't keep two rules tied
+  [ordered[index], ordered[swapIndex]] = [ordered[swapIndex], ordered[index]];
+  for (let i = 0; i < ordered.length; i++) {
+    if (ordered[i].position === i) continue;
+    const { error } = await supabase.from('lead_routing_rules').update({ position: i }).eq('id', ordered[i].id);
+    if (error) {
+      throw new Error(error.message || 'Failed to reorder routing rules');
+    }
+  }
+
+  revalidatePath('/settings');
+}
+
+export async function deleteLeadRoutingRuleAction(ruleId: string) {
+  const { supabase } = await requireSettingsAdmin();
+
+  const { error } = await supabase.from('lead_routing_rules').delete().eq('id', ruleId);
+
+  if (error) {
+    throw new Error(error.message || 'Failed to delete routing rule');
+  }
+
+  revalidatePath('/settings');
+}
+
+export async function saveTaskAutomationSettingsAction(formData: FormData) {
+  const { supabase } = await requireSettingsAdmin();
+
+  const statuses = formData.getAll('rule_status').map(String);
+  const titles = formData.getAll('rule_title').map(String);
+  const dueInDays = formData.getAll('rule_due_in_days').map((value) => Number(String(value).trim() || '0'));
+
+  const result = taskAutomationSettingsSchema.safeParse({
+    rules: statuses.map((status, i) => ({ status, title: titles[i] ?? '', due_in_days: dueInDays[i] })),
+  });
+  if (!result.success) {
+    throw new Error(result.error.issues[0]?.message ?? 'Invalid task automations');
+  }
+
+  const { error } = await supabase.from('system_settings').upsert(
+    {
+      key: TASK_AUTOMATIONS_SETTINGS_KEY,
+      value: result.data,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: 'key' }
+  );
+
+  if (error) {
+    throw new Error(error.message || 'Failed to save task automations');
+  }
+
+  revalidatePath('/settings');
+}
@@ -0,0 +1,141 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { PRODUCTION_STAGES, PRODUCTION_STAGE_LABELS, type ProductionStage } from "@/types/stock";
+import {
+  CUSTOMER_ALERT_CHANNEL_LABELS,
+  type CustomerAlertChannel,
+  type CustomerStageAlertSettings,
+} from "@/types/production-board";
+import { WHATSAPP_TEMPLATE_VARIABLES, type WhatsAppTemplate } from "@/types/inbox";
+import { saveCustomerStageAlertSettingsAction } from "./actions";
+
+const OFF = "off";
+
+const selectClassName =
+  "h-9 w-full rounded-md border border-input bg-background px-3 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring";
+
+interface CustomerStageAlertsFormProps {
+  initialSettings: CustomerStageAlertSettings;
+  templates: WhatsAppTemplate[];
+  updatedAt: string | null;
+}
+
+export function CustomerStageAlertsForm({ initialSettings, templates, updatedAt }: CustomerStageAlertsFormProps) {
+  const router = useRouter();
+  const [channels, setChannels] = useState<Partial<Record<ProductionStage, CustomerAlertChannel>>>(() =>
+    Object.fromEntries(Object.entries(initialSettings.stages).map(([stage, rule]) => [stage, rule?.channel]))
+  );
+  const [isPending, startTransition] = useTransition();
+
+  function handleSubmit(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    startTransition(async () => {
+      try {
+        await saveCustomerStageAlertSettingsAction(formData);
+        toast.success("Customer update settings saved");
+        router.refresh();
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : "Failed to save settings");
+      }
+    });
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <p className="text-xs text-muted-foreground">
+        Each stage notifies a customer at most once per job. Email text can use{" "}
+        {WHATSAPP_TEMPLATE_VARIABLES.map((v) => `{{${v}}}`).join(", ")}.
+      </p>
+
+      <div className="divide-y divide-border rounded-md border border-border">
+        {PRODUCTION_STAGES.map((stage) => {
+          const channel = channels[stage];
+          const rule = initialSettings.stages[stage];
+          return (
+            <div key={stage} className="space-y-3 p-3">
+              <div className="flex items-center justify-between gap-3">
+                <Label htmlFor={`channel_${stage}`} className="truncate text-sm font-normal">
+                  {PRODUCTION_STAGE_LABELS[stage]}
+                </Label>
+                <select
+                  id={`channel_${stage}`}
+                  name={`channel_${stage}`}
+                  value={channel ?? OFF}
+                  onChange={(e) =>
+                    setChannels((prev) => ({
+                      ...prev,
+                      [stage]: e.target.value === OFF ? undefined : (e.target.value as CustomerAlertChannel),
+                    }))
+                  }
+                  className={`${selectClassName} w-48`}
+                >
+                  <option value={OFF}>Off</option>
+                  {(Object.keys(CUSTOMER_ALERT_CHANNEL_LABELS) as CustomerAlertChannel[]).map((option) => (
+                    <option key={option} value={option}>
+                      {CUSTOMER_ALERT_CHANNEL_LABELS[option]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {channel === "whatsapp" && (
+                <select
+                  name={`template_${stage}`}
+                  defaultValue={rule?.template_id ?? ""}
+                  className={selectClassName}
+                  aria-label="WhatsApp template"
+                >
+                  <option value="">Choose a template</option>
+                  {templates.map((t) => (
+                    <option key={t.id} value={t.id}>
+                      {t.name} ({t.language})
+                    </option>
+                  ))}
+                </select>
+              )}
+
+              {channel === "email" && (
+                <div className="space-y-2">
+                  <Input
+                    name={`subject_${stage}`}
+                    placeholder="Subject"
+                    defaultValue={rule?.email_subject ?? ""}
+                    aria-label="Email subject"
+                  />
+                  <Textarea
+                    name={`body_${stage}`}
+                    rows={3}
+                    placeholder="Hi {{first_name}}, your order is now being printed."
+                    defaultValue={rule?.email_body ?? ""}
+                    aria-label="Email body"
+                  />
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {updatedAt && (
+        <p className="text-xs text-muted-foreground">
+          Last saved{" "}
+          {new Date(updatedAt).toLocaleString("en-US", {
+            dateStyle: "medium",
+            timeStyle: "short",
+          })}
+        </p>
+      )}
+      <Button type="submit" disabled={isPending} className="min-h-[44px]">
+        {isPending ? "Saving..." : "Save customer updates"}
+      </Button>
+    </form>
+  );
+}
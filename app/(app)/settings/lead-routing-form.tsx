@@ -0,0 +1,390 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { ArrowDown, ArrowUp } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  LEAD_APPAREL_CATEGORIES,
+  LEAD_APPAREL_CATEGORY_LABELS,
+  LEAD_ROUTING_HOURS_LABELS,
+  LEAD_ROUTING_STRATEGY_LABELS,
+  type LeadRoutingHours,
+  type LeadRoutingRule,
+  type LeadRoutingStrategy,
+} from "@/types/lead-routing";
+import { WEEKDAY_LABELS, type TeamHours } from "@/types/availability";
+import { LEAD_INTENTS } from "@/types/leads";
+import {
+  deleteLeadRoutingRuleAction,
+  moveLeadRoutingRuleAction,
+  saveLeadRoutingRuleAction,
+  saveTeamHoursAction,
+  setLeadRoutingRuleActiveAction,
+} from "./actions";
+
+const HOURS: LeadRoutingHours[] = ["any", "working", "after_hours"];
+const STRATEGIES: LeadRoutingStrategy[] = ["round_robin", "weighted"];
+
+const selectClassName =
+  "h-9 w-full rounded-md border border-input bg-background px-3 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring";
+
+interface RoutingStaffMember {
+  user_id: string;
+  name: string;
+  role: string | null;
+}
+
+interface LeadRoutingFormProps {
+  teamHours: TeamHours;
+  rules: LeadRoutingRule[];
+  staff: RoutingStaffMember[];
+  updatedAt: string | null;
+}
+
+function describeRule(rule: LeadRoutingRule): string {
+  const parts: string[] = [];
+  if (rule.intents.length > 0) parts.push(rule.intents.join("/"));
+  if (rule.categories.length > 0) parts.push(rule.categories.map((c) => LEAD_APPAREL_CATEGORY_LABELS[c]).join("/"));
+  if (rule.organization_pattern) parts.push(`org contains "${rule.organization_pattern}"`);
+  if (rule.sources.length > 0) parts.push(`source ${rule.sources.join("/")}`);
+  if (rule.hours !== "any") parts.push(LEAD_ROUTING_HOURS_LABELS[rule.hours].toLowerCase());
+  return parts.length > 0 ? parts.join(" · ") : "Every lead";
+}
+
+export function LeadRoutingForm({ teamHours, rules, staff, updatedAt }: LeadRoutingFormProps) {
+  const router = useRouter();
+  const [editing, setEditing] = useState<LeadRoutingRule | null>(null);
+  const [strategy, setStrategy] = useState<LeadRoutingStrategy>("round_robin");
+  const [formKey, setFormKey] = useState(0);
+  const [isPending, startTransition] = useTransition();
+
+  const staffName = (userId: string) => staff.find((s) => s.user_id === userId)?.name || "Unknown user";
+
+  function startEdit(rule: LeadRoutingRule | null) {
+    setEditing(rule);
+    setStrategy(rule?.strategy ?? "round_robin");
+    setFormKey((k) => k + 1);
+  }
+
+  function run(action: () => Promise<void>, success: string) {
+    startTransition(async () => {
+      try {
+        await action();
+        toast.success(success);
+        router.refresh();
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : "Failed to save routing");
+      }
+    });
+  }
+
+  function handleTeamHoursSubmit(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    run(() => saveTeamHoursAction(formData), "Working hours saved");
+  }
+
+  function handleRuleSubmit(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    run(async () => {
+      await saveLeadRoutingRuleAction(formData);
+      startEdit(null);
+    }, editing ? "Rule updated" : "Rule added");
+  }
+
+  function handleDelete(rule: LeadRoutingRule) {
+    if (!window.confirm(`Delete the rule "${rule.name}"?`)) return;
+    run(async () => {
+      await deleteLeadRoutingRuleAction(rule.id);
+      if (editing?.id === rule.id) startEdit(null);
+    }, "Rule deleted");
+  }
+
+  return (
+    <div className="space-y-8">
+      <form onSubmit={handleTeamHoursSubmit} className="space-y-4">
+        <div>
+          <Label>Team working hours</Label>
+          <p className="text-xs text-muted-foreground">
+            Used by working-hours rules and for anyone without their own schedule. Personal hours, leave and away are set
+            per user on the Users page.
+          </p>
+        </div>
+        <div className="grid gap-3 sm:grid-cols-3">
+          <div className="space-y-1">
+            <Label htmlFor="routing_timezone">Time zone</Label>
+            <Input id="routing_timezone" name="timezone" defaultValue={teamHours.timezone} required />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="routing_start_time">Working hours start</Label>
+            <Input id="routing_start_time" name="start_time" type="time" defaultValue={teamHours.start_time} required />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="routing_end_time">Working hours end</Label>
+            <Input id="routing_end_time" name="end_time" type="time" defaultValue={teamHours.end_time} required />
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label>Working days</Label>
+          <div className="flex flex-wrap gap-3">
+            {WEEKDAY_LABELS.map((day, index) => (
+              <label key={day} className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  name="working_days"
+                  value={index}
+                  defaultChecked={teamHours.working_days.includes(index)}
+                  className="h-4 w-4"
+                />
+                {day}
+              </label>
+            ))}
+          </div>
+        </div>
+        {updatedAt && (
+          <p className="text-xs text-muted-foreground">
+            Last saved{" "}
+            {new Date(updatedAt).toLocaleString("en-US", {
+              dateStyle: "medium",
+              timeStyle: "short",
+            })}
+          </p>
+        )}
+        <Button type="submit" disabled={isPending} className="min-h-[44px]">
+          {isPending ? "Saving..." : "Save working hours"}
+        </Button>
+      </form>
+
+      <div className="space-y-3">
+        <div>
+          <Label>Rules</Label>
+          <p className="text-xs text-muted-foreground">
+            Checked top to bottom. The first active rule that matches and has someone on shift assigns the lead; if none
+            does, the rep with the fewest open leads gets it.
+          </p>
+        </div>
+        {rules.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No rules yet.</p>
+        ) : (
+          <div className="divide-y divide-border rounded-md border border-border">
+            {rules.map((rule, index) => (
+              <div key={rule.id} className="flex items-start justify-between gap-3 p-3">
+                <div className="min-w-0 space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-sm font-medium">
+                      {index + 1}. {rule.name}
+                    </span>
+                    <Badge variant="outline">{LEAD_ROUTING_STRATEGY_LABELS[rule.strategy]}</Badge>
+                    {!rule.is_active && <Badge variant="secondary">Inactive</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground">{describeRule(rule)}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {rule.reps
+                      .map((rep) => (rule.strategy === "weighted" ? `${staffName(rep.user_id)} ×${rep.weight}` : staffName(rep.user_id)))
+                      .join(", ")}
+                  </p>
+                </div>
+                <div className="flex shrink-0 flex-wrap justify-end gap-1">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    disabled={isPending || index === 0}
+                    onClick={() => run(() => moveLeadRoutingRuleAction(rule.id, "up"), "Rule moved")}
+                    aria-label="Move up"
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    disabled={isPending || index === rules.length - 1}
+                    onClick={() => run(() => moveLeadRoutingRuleAction(rule.id, "down"), "Rule moved")}
+                    aria-label="Move down"
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    disabled={isPending}
+                    onClick={() =>
+                      run(
+                        () => setLeadRoutingRuleActiveAction(rule.id, !rule.is_active),
+                        rule.is_active ? "Rule deactivated" : "Rule activated"
+                      )
+                    }
+                  >
+                    {rule.is_active ? "Deactivate" : "Activate"}
+                  </Button>
+                  <Button type="button" variant="outline" size="sm" disabled={isPending} onClick={() => startEdit(rule)}>
+                    Edit
+                  </Button>
+                  <Button type="button" variant="ghost" size="sm" disabled={isPending} onClick={() => handleDelete(rule)}>
+                    Delete
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <form key={formKey} onSubmit={handleRuleSubmit} className="space-y-4 rounded-md border border-border p-4">
+        <div className="flex items-center justify-between">
+          <p className="text-sm font-medium">{editing ? `Edit "${editing.name}"` : "Add rule"}</p>
+          {editing && (
+            <Button type="button" variant="ghost" size="sm" onClick={() => startEdit(null)}>
+              Cancel
+            </Button>
+          )}
+        </div>
+        {editing && <input type="hidden" name="id" value={editing.id} />}
+        <div className="grid gap-3 sm:grid-cols-3">
+          <div className="space-y-1 sm:col-span-1">
+            <Label htmlFor="rule_name">Name</Label>
+            <Input id="rule_name" name="name" placeholder="Rugby schools" defaultValue={editing?.name ?? ""} required />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="rule_hours">When</Label>
+            <select id="rule_hours" name="hours" defaultValue={editing?.hours ?? "any"} className={selectClassName}>
+              {HOURS.map((hours) => (
+                <option key={hours} value={hours}>
+                  {LEAD_ROUTING_HOURS_LABELS[hours]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="rule_strategy">Strategy</Label>
+            <select
+              id="rule_strategy"
+              name="strategy"
+              value={strategy}
+              onChange={(e) => setStrategy(e.target.value as LeadRoutingStrategy)}
+              className={selectClassName}
+            >
+              {STRATEGIES.map((option) => (
+                <option key={option} value={option}>
+                  {LEAD_ROUTING_STRATEGY_LABELS[option]}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Intents</Label>
+          <div className="flex flex-wrap gap-3">
+            {LEAD_INTENTS.map((intent) => (
+              <label key={intent} className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  name="intents"
+                  value={intent}
+                  defaultChecked={editing?.intents.includes(intent) ?? false}
+                  className="h-4 w-4"
+                />
+                {intent}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Apparel categories</Label>
+          <div className="flex flex-wrap gap-3">
+            {LEAD_APPAREL_CATEGORIES.map((category) => (
+              <label key={category} className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  name="categories"
+                  value={category}
+                  defaultChecked={editing?.categories.includes(category) ?? false}
+                  className="h-4 w-4"
+                />
+                {LEAD_APPAREL_CATEGORY_LABELS[category]}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid gap-3 sm:grid-cols-2">
+          <div className="space-y-1">
+            <Label htmlFor="rule_organization">Organization contains</Label>
+            <Input
+              id="rule_organization"
+              name="organization_pattern"
+              placeholder="High School"
+              defaultValue={editing?.organization_pattern ?? ""}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="rule_sources">Sources</Label>
+            <Input
+              id="rule_sources"
+              name="sources"
+              placeholder="WhatsApp, Website"
+              defaultValue={editing?.sources.join(", ") ?? ""}
+            />
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">Leave a criterion empty to match any lead.</p>
+
+        <div className="space-y-2">
+          <Label>Reps</Label>
+          {strategy === "weighted" && (
+            <p className="text-xs text-muted-foreground">
+              Weight is relative capacity: a rep at 2 carries twice the open leads of a rep at 1.
+            </p>
+          )}
+          <div className="grid gap-2 sm:grid-cols-2">
+            {staff.map((member) => {
+              const current = editing?.reps.find((rep) => rep.user_id === member.user_id);
+              return (
+                <div key={member.user_id} className="flex items-center justify-between gap-3">
+                  <label className="flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      name="rep_ids"
+                      value={member.user_id}
+                      defaultChecked={!!current}
+                      className="h-4 w-4"
+                    />
+                    {member.name}
+                  </label>
+                  {strategy === "weighted" && (
+                    <Input
+                      name={`weight_${member.user_id}`}
+                      type="number"
+                      min={1}
+                      max={100}
+                      step={1}
+                      defaultValue={current?.weight ?? 1}
+                      aria-label={`${member.name} weight`}
+                      className="w-20"
+                    />
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <Button type="submit" disabled={isPending} className="min-h-[44px]">
+          {isPending ? "Saving..." : editing ? "Save rule" : "Add rule"}
+        </Button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+"use client";
+
+import { useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  LEAD_INTENTS,
+  LEAD_SLA_MILESTONES,
+  LEAD_SLA_MILESTONE_LABELS,
+  type LeadSlaSettings,
+  type LeadSlaTargets,
+} from "@/types/leads";
+import { saveLeadSlaSettingsAction } from "./actions";
+
+interface LeadSlaFormProps {
+  initialSettings: LeadSlaSettings;
+  updatedAt: string | null;
+}
+
+export function LeadSlaForm({ initialSettings, updatedAt }: LeadSlaFormProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+
+  function handleSubmit(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    startTransition(async () => {
+      try {
+        await saveLeadSlaSettingsAction(formData);
+        toast.success("SLA settings saved");
+        router.refresh();
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : "Failed to save settings");
+      }
+    });
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div className="space-y-2">
+        <Label>Targets (hours)</Label>
+        <p className="text-xs text-muted-foreground">
+          First contact and quote sent are counted from submission, follow-up from when the quote went out (or from first
+          contact when no quote is owed). Hours only run while the assigned rep is working, or during team hours when
+          nobody is assigned. Leads with several intents use the strictest target. Leave blank for no SLA.
+        </p>
+        <div className="overflow-x-auto">
+          <table className="w-full min-w-[480px] text-sm">
+            <thead>
+              <tr className="text-left text-xs text-muted-foreground">
+                <th className="py-2 pr-3 font-medium">Intent</th>
+                {LEAD_SLA_MILESTONES.map((milestone) => (
+                  <th key={milestone} className="py-2 pr-3 font-medium">
+                    {LEAD_SLA_MILESTONE_LABELS[milestone]}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {LEAD_INTENTS.map((intent) => (
+                <tr key={intent} className="border-t border-border">
+                  <td className="py-2 pr-3 font-medium">{intent}</td>
+                  {LEAD_SLA_MILESTONES.map((milestone) => {
+                    const key = `${milestone}_hours` as keyof LeadSlaTargets;
+                    const notApplicable = milestone === "quote_sent" && intent !== "Quote";
+                    return (
+                      <td key={milestone} className="py-2 pr-3">
+                        {notApplicable ? (
+                          <span className="text-muted-foreground">—</span>
+                        ) : (
+                          <Input
+                            name={`sla_${intent}_${milestone}`}
+                            type="number"
+                            min={0}
+                            step="0.5"
+                            defaultValue={initialSettings.intents[intent][key] ?? ""}
+                            aria-label={`${intent} ${LEAD_SLA_MILESTONE_LABELS[milestone]} hours`}
+                            className="w-24"
+                          />
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="escalate_after_hours">Escalate after (hours)</Label>
+        <p className="text-xs text-muted-foreground">
+          Breaches are pushed to the assigned rep first, then to admins and the CEO if still open after this long.
+          Unassigned leads and leads whose rep is away or on leave escalate straight away.
+        </p>
+        <Input
+          id="escalate_after_hours"
+          name="escalate_after_hours"
+          type="number"
+          min={0}
+          step="0.5"
+          defaultValue={initialSettings.escalate_after_hours}
+          className="w-24"
+          required
+        />
+      </div>
+
+      {updatedAt && (
+        <p className="text-xs text-muted-foreground">
+          Last saved{" "}
+          {new Date(updatedAt).toLocaleString("en-US", {
+            dateStyle: "medium",
+            timeStyle: "short",
+          })}
+        </p>
+      )}
+      <Button type="submit" disabled={isPending} className="min-h-[44px]">
+        {isPending ? "Saving..." : "Save SLA settings"}
+      </Button>
+    </form>
+  );
+}
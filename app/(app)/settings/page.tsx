@@ -1,5 +1,173 @@
 import { redirect } from 'next/navigation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { PageHeader } from '@/components/page-header';
+import { getViewer } from '@/lib/viewer';
+import { normalizeProductionBoardSettings, PRODUCTION_BOARD_SETTINGS_KEY } from '@/lib/production-board';
+import { SettingsForm } from './settings-form';
+import { ProductionBoardForm } from './production-board-form';
+import { WhatsAppTemplatesForm } from './whatsapp-templates-form';
+import { CustomerStageAlertsForm } from './customer-stage-alerts-form';
+import { LeadSlaForm } from './lead-sla-form';
+import { LeadRoutingForm } from './lead-routing-form';
+import { TaskAutomationsForm } from './task-automations-form';
+import { LEAD_SLA_SETTINGS_KEY, normalizeLeadSlaSettings } from '@/lib/lead-sla';
+import { LEAD_ROUTING_RULE_SELECT, normalizeLeadRoutingRule } from '@/lib/lead-routing';
+import { normalizeTeamHours, TEAM_HOURS_SETTINGS_KEY } from '@/lib/availability';
+import { normalizeTaskAutomationSettings, TASK_AUTOMATIONS_SETTINGS_KEY } from '@/lib/tasks';
+import { CUSTOMER_STAGE_ALERTS_SETTINGS_KEY, normalizeCustomerStageAlertSettings } from '@/lib/customer-stage-alerts';
+import { normalizeTemplateVariables } from '@/lib/whatsapp-templates';
+import type { WhatsAppTemplate } from '@/types/inbox';
 
 export default async function SettingsPage() {
-  redirect('/dashboard');
+  const { supabase, user, userRole } = await getViewer();
+
+  if (!user) {
+    redirect('/login');
+  }
+  if (userRole !== 'ceo' && userRole !== 'admin') {
+    redirect('/dashboard');
+  }
+
+  const [{ data: rows }, { data: templateRows }, { data: routingRuleRows }, { data: staffRows }] = await Promise.all([
+    supabase
+      .from('system_settings')
+      .select('key, value, updated_at')
+      .in('key', [
+        'alerts',
+        PRODUCTION_BOARD_SETTINGS_KEY,
+        CUSTOMER_STAGE_ALERTS_SETTINGS_KEY,
+        LEAD_SLA_SETTINGS_KEY,
+        TEAM_HOURS_SETTINGS_KEY,
+        TASK_AUTOMATIONS_SETTINGS_KEY,
+      ]),
+    supabase
+      .from('wa_templates')
+      .select('id, name, language, category, body, variables, is_active, updated_at')
+      .order('name', { ascending: true }),
+    supabase.from('lead_routing_rules').select(LEAD_ROUTING_RULE_SELECT).order('position', { ascending: true }),
+    supabase.from('profiles').select('user_id, full_name, role').order('full_name', { ascending: true }),
+  ]);
+
+  const alertsRow = rows?.find((row) => row.key === 'alerts');
+  const boardRow = rows?.find((row) => row.key === PRODUCTION_BOARD_SETTINGS_KEY);
+  const customerAlertsRow = rows?.find((row) => row.key === CUSTOMER_STAGE_ALERTS_SETTINGS_KEY);
+  const leadSlaRow = rows?.find((row) => row.key === LEAD_SLA_SETTINGS_KEY);
+  const teamHoursRow = rows?.find((row) => row.key === TEAM_HOURS_SETTINGS_KEY);
+  const taskAutomationsRow = rows?.find((row) => row.key === TASK_AUTOMATIONS_SETTINGS_KEY);
+  const routingRules = (routingRuleRows || []).map((row) => normalizeLeadRoutingRule(row as Record<string, unknown>));
+  const routingStaff = (staffRows || []).map((row) => ({
+    user_id: row.user_id as string,
+    name: (row.full_name as string | null) || 'Unnamed user',
+    role: (row.role as string | null) ?? null,
+  }));
+  const templates = (templateRows || []).map((row) => ({
+    ...row,
+    variables: normalizeTemplateVariables(row.variables),
+  })) as WhatsAppTemplate[];
+  const alerts = (alertsRow?.value || {}) as { whatsappAlertsEnabled?: boolean; emailAlertsEnabled?: boolean };
+
+  return (
+    <div className="space-y-6">
+      <PageHeader title="Settings" subtitle="System-wide configuration." />
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Production Board</CardTitle>
+          <CardDescription>Choose whether Trello or the admin board drives production stages, and set WIP limits.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ProductionBoardForm
+            initialSettings={normalizeProductionBoardSettings(boardRow?.value)}
+            updatedAt={(boardRow?.updated_at as string | null) ?? null}
+          />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Lead SLAs</CardTitle>
+          <CardDescription>
+            Response time targets per intent. Each lead shows a countdown to its next milestone and breaches are pushed to the rep, then escalated.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <LeadSlaForm
+            initialSettings={normalizeLeadSlaSettings(leadSlaRow?.value)}
+            updatedAt={(leadSlaRow?.updated_at as string | null) ?? null}
+          />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Lead Routing</CardTitle>
+          <CardDescription>
+            Decide who gets new leads by intent, apparel category, organization, source and time of day. Each lead shows why it was assigned.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <LeadRoutingForm
+            teamHours={normalizeTeamHours(teamHoursRow?.value)}
+            rules={routingRules}
+            staff={routingStaff}
+            updatedAt={(teamHoursRow?.updated_at as string | null) ?? null}
+          />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Task Automations</CardTitle>
+          <CardDescription>Create follow-up tasks automatically when a lead reaches a status.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <TaskAutomationsForm
+            initialSettings={normalizeTaskAutomationSettings(taskAutomationsRow?.value)}
+            updatedAt={(taskAutomationsRow?.updated_at as string | null) ?? null}
+          />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Customer Stage Updates</CardTitle>
+          <CardDescription>
+            Notify the customer automatically when their job reaches a stage. Mute a single job from its card on the production board.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <CustomerStageAlertsForm
+            initialSettings={normalizeCustomerStageAlertSettings(customerAlertsRow?.value)}
+            templates={templates.filter((t) => t.is_active)}
+            updatedAt={(customerAlertsRow?.updated_at as string | null) ?? null}
+          />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>WhatsApp Templates</CardTitle>
+          <CardDescription>
+            Approved templates used to message customers outside the 24-hour window. Map each placeholder to a lead or job field.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <WhatsAppTemplatesForm templates={templates} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Alerts</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <SettingsForm
+            initialWhatsapp={!!alerts.whatsappAlertsEnabled}
+            initialEmail={!!alerts.emailAlertsEnabled}
+            updatedAt={(alertsRow?.updated_at as string | null) ?? null}
+          />
+        </CardContent>
+      </Card>
+    </div>
+  );
 }
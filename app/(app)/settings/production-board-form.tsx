@@ -0,0 +1,108 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { PRODUCTION_STAGES, PRODUCTION_STAGE_LABELS } from "@/types/stock";
+import {
+  PRODUCTION_BOARD_MODE_DESCRIPTIONS,
+  PRODUCTION_BOARD_MODE_LABELS,
+  type ProductionBoardMode,
+  type ProductionBoardSettings,
+} from "@/types/production-board";
+import { saveProductionBoardSettingsAction } from "./actions";
+
+const MODES: ProductionBoardMode[] = ["trello_primary", "admin_primary", "admin_only"];
+
+interface ProductionBoardFormProps {
+  initialSettings: ProductionBoardSettings;
+  updatedAt: string | null;
+}
+
+export function ProductionBoardForm({ initialSettings, updatedAt }: ProductionBoardFormProps) {
+  const router = useRouter();
+  const [mode, setMode] = useState<ProductionBoardMode>(initialSettings.mode);
+  const [isPending, startTransition] = useTransition();
+
+  function handleSubmit(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    startTransition(async () => {
+      try {
+        await saveProductionBoardSettingsAction(formData);
+        toast.success("Production board settings saved");
+        router.refresh();
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : "Failed to save settings");
+      }
+    });
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div className="space-y-2">
+        <Label>Source of Truth</Label>
+        <div className="space-y-2">
+          {MODES.map((option) => (
+            <label
+              key={option}
+              className="flex cursor-pointer items-start gap-3 rounded-md border border-border p-3 hover:bg-muted/50"
+            >
+              <input
+                type="radio"
+                name="mode"
+                value={option}
+                checked={mode === option}
+                onChange={() => setMode(option)}
+                className="mt-0.5 h-4 w-4"
+              />
+              <span className="space-y-0.5">
+                <span className="block text-sm font-medium">{PRODUCTION_BOARD_MODE_LABELS[option]}</span>
+                <span className="block text-xs text-muted-foreground">{PRODUCTION_BOARD_MODE_DESCRIPTIONS[option]}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>WIP Limits</Label>
+        <p className="text-xs text-muted-foreground">Maximum jobs per column. Leave blank for no limit.</p>
+        <div className="grid gap-2 sm:grid-cols-2">
+          {PRODUCTION_STAGES.map((stage) => (
+            <div key={stage} className="flex items-center justify-between gap-3">
+              <Label htmlFor={`wip_${stage}`} className="truncate text-sm font-normal">
+                {PRODUCTION_STAGE_LABELS[stage]}
+              </Label>
+              <Input
+                id={`wip_${stage}`}
+                name={`wip_${stage}`}
+                type="number"
+                min={0}
+                step={1}
+                defaultValue={initialSettings.wip_limits[stage] ?? ""}
+                className="w-24"
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {updatedAt && (
+        <p className="text-xs text-muted-foreground">
+          Last saved{" "}
+          {new Date(updatedAt).toLocaleString("en-US", {
+            dateStyle: "medium",
+            timeStyle: "short",
+          })}
+        </p>
+      )}
+      <Button type="submit" disabled={isPending} className="min-h-[44px]">
+        {isPending ? "Saving..." : "Save board settings"}
+      </Button>
+    </form>
+  );
+}
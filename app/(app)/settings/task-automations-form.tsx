@@ -0,0 +1,113 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { LEAD_STATUSES } from "@/types/leads";
+import type { TaskAutomationRule, TaskAutomationSettings } from "@/types/tasks";
+import { saveTaskAutomationSettingsAction } from "./actions";
+
+const selectClassName =
+  "h-9 w-full rounded-md border border-input bg-background px-3 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring";
+
+interface TaskAutomationsFormProps {
+  initialSettings: TaskAutomationSettings;
+  updatedAt: string | null;
+}
+
+export function TaskAutomationsForm({ initialSettings, updatedAt }: TaskAutomationsFormProps) {
+  const router = useRouter();
+  // Keys keep uncontrolled inputs attached to the right row when one is removed
+  const [rules, setRules] = useState<Array<TaskAutomationRule & { key: number }>>(() =>
+    initialSettings.rules.map((rule, i) => ({ ...rule, key: i }))
+  );
+  const [nextKey, setNextKey] = useState(initialSettings.rules.length);
+  const [isPending, startTransition] = useTransition();
+
+  function addRule() {
+    setRules((prev) => [...prev, { key: nextKey, status: "Quote Sent", title: "", due_in_days: 3 }]);
+    setNextKey((k) => k + 1);
+  }
+
+  function handleSubmit(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    startTransition(async () => {
+      try {
+        await saveTaskAutomationSettingsAction(formData);
+        toast.success("Task automations saved");
+        router.refresh();
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : "Failed to save settings");
+      }
+    });
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <p className="text-xs text-muted-foreground">
+        When a lead moves into a status, a task is created for its assigned rep, due the given number of days later.
+        A lead never has two open tasks from the same rule.
+      </p>
+
+      {rules.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No automations. Tasks are only created by hand.</p>
+      ) : (
+        <div className="divide-y divide-border rounded-md border border-border">
+          {rules.map((rule) => (
+            <div key={rule.key} className="grid gap-3 p-3 sm:grid-cols-[12rem_1fr_7rem_auto] sm:items-center">
+              <select name="rule_status" defaultValue={rule.status} className={selectClassName} aria-label="Lead status">
+                {LEAD_STATUSES.map((status) => (
+                  <option key={status} value={status}>
+                    {status}
+                  </option>
+                ))}
+              </select>
+              <Input name="rule_title" defaultValue={rule.title} placeholder="Follow up on quote" aria-label="Task title" required />
+              <Input
+                name="rule_due_in_days"
+                type="number"
+                min={0}
+                max={365}
+                defaultValue={rule.due_in_days}
+                aria-label="Due in days"
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => setRules((prev) => prev.filter((r) => r.key !== rule.key))}
+                aria-label="Remove automation"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Button type="button" variant="outline" size="sm" onClick={addRule}>
+        <Plus className="mr-2 h-4 w-4" />
+        Add automation
+      </Button>
+
+      {updatedAt && (
+        <p className="text-xs text-muted-foreground">
+          Last saved{" "}
+          {new Date(updatedAt).toLocaleString("en-US", {
+            dateStyle: "medium",
+            timeStyle: "short",
+          })}
+        </p>
+      )}
+      <div>
+        <Button type="submit" disabled={isPending} className="min-h-[44px]">
+          {isPending ? "Saving..." : "Save task automations"}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,187 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  WHATSAPP_TEMPLATE_VARIABLES,
+  WHATSAPP_TEMPLATE_VARIABLE_LABELS,
+  type WhatsAppTemplate,
+} from "@/types/inbox";
+import { countTemplatePlaceholders } from "@/lib/whatsapp-templates";
+import { saveWhatsAppTemplateAction, setWhatsAppTemplateActiveAction } from "./actions";
+
+const CATEGORIES = ["utility", "marketing", "authentication"] as const;
+
+const selectClassName =
+  "h-9 w-full rounded-md border border-input bg-background px-3 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring";
+
+interface WhatsAppTemplatesFormProps {
+  templates: WhatsAppTemplate[];
+}
+
+export function WhatsAppTemplatesForm({ templates }: WhatsAppTemplatesFormProps) {
+  const router = useRouter();
+  const [editing, setEditing] = useState<WhatsAppTemplate | null>(null);
+  const [body, setBody] = useState("");
+  const [formKey, setFormKey] = useState(0);
+  const [isPending, startTransition] = useTransition();
+
+  const placeholderCount = countTemplatePlaceholders(body);
+
+  function startEdit(template: WhatsAppTemplate | null) {
+    setEditing(template);
+    setBody(template?.body ?? "");
+    setFormKey((k) => k + 1);
+  }
+
+  function handleSubmit(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    const form = e.currentTarget;
+    const formData = new FormData(form);
+    startTransition(async () => {
+      try {
+        await saveWhatsAppTemplateAction(formData);
+        toast.success(editing ? "Template updated" : "Template added");
+        startEdit(null);
+        router.refresh();
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : "Failed to save template");
+      }
+    });
+  }
+
+  function toggleActive(template: WhatsAppTemplate) {
+    startTransition(async () => {
+      try {
+        await setWhatsAppTemplateActiveAction(template.id, !template.is_active);
+        toast.success(template.is_active ? "Template deactivated" : "Template activated");
+        router.refresh();
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : "Failed to update template");
+      }
+    });
+  }
+
+  return (
+    <div className="space-y-6">
+      {templates.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No templates yet.</p>
+      ) : (
+        <div className="divide-y divide-border rounded-md border border-border">
+          {templates.map((template) => (
+            <div key={template.id} className="flex items-start justify-between gap-3 p-3">
+              <div className="min-w-0 space-y-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-mono text-sm font-medium">{template.name}</span>
+                  <Badge variant="outline">{template.language}</Badge>
+                  <Badge variant="secondary">{template.category}</Badge>
+                  {!template.is_active && <Badge variant="destructive">Inactive</Badge>}
+                </div>
+                <p className="whitespace-pre-wrap text-xs text-muted-foreground">{template.body}</p>
+                {template.variables.length > 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    {template.variables
+                      .map((v, i) => `{{${i + 1}}} ${WHATSAPP_TEMPLATE_VARIABLE_LABELS[v]}`)
+                      .join(" · ")}
+                  </p>
+                )}
+              </div>
+              <div className="flex shrink-0 gap-2">
+                <Button type="button" variant="outline" size="sm" onClick={() => startEdit(template)} disabled={isPending}>
+                  Edit
+                </Button>
+                <Button type="button" variant="ghost" size="sm" onClick={() => toggleActive(template)} disabled={isPending}>
+                  {template.is_active ? "Deactivate" : "Activate"}
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <form key={formKey} onSubmit={handleSubmit} className="space-y-4">
+        <div className="flex items-center justify-between">
+          <Label className="text-sm font-semibold">{editing ? `Edit ${editing.name}` : "Add template"}</Label>
+          {editing && (
+            <Button type="button" variant="ghost" size="sm" onClick={() => startEdit(null)}>
+              Cancel
+            </Button>
+          )}
+        </div>
+        {editing && <input type="hidden" name="id" value={editing.id} />}
+        <div className="grid gap-3 sm:grid-cols-3">
+          <div className="space-y-1">
+            <Label htmlFor="wa_template_name">Name</Label>
+            <Input id="wa_template_name" name="name" placeholder="order_update" defaultValue={editing?.name ?? ""} required />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="wa_template_language">Language</Label>
+            <Input id="wa_template_language" name="language" defaultValue={editing?.language ?? "en"} required />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="wa_template_category">Category</Label>
+            <select
+              id="wa_template_category"
+              name="category"
+              defaultValue={editing?.category ?? "utility"}
+              className={selectClassName}
+            >
+              {CATEGORIES.map((category) => (
+                <option key={category} value={category}>
+                  {category}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="wa_template_body">Body</Label>
+          <Textarea
+            id="wa_template_body"
+            name="body"
+            rows={4}
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            placeholder="Hi {{1}}, your order is now in {{2}}."
+            required
+          />
+          <p className="text-xs text-muted-foreground">
+            Paste the body exactly as approved in Meta Business Manager. Use {"{{1}}"}, {"{{2}}"} … for variables.
+          </p>
+        </div>
+        {placeholderCount > 0 && (
+          <div className="grid gap-2 sm:grid-cols-2">
+            {Array.from({ length: placeholderCount }, (_, i) => (
+              <div key={i} className="flex items-center gap-3">
+                <Label htmlFor={`var_${i + 1}`} className="w-12 shrink-0 font-mono text-sm font-normal">
+                  {`{{${i + 1}}}`}
+                </Label>
+                <select
+                  id={`var_${i + 1}`}
+                  name={`var_${i + 1}`}
+                  defaultValue={editing?.variables[i] ?? WHATSAPP_TEMPLATE_VARIABLES[0]}
+                  className={selectClassName}
+                >
+                  {WHATSAPP_TEMPLATE_VARIABLES.map((variable) => (
+                    <option key={variable} value={variable}>
+                      {WHATSAPP_TEMPLATE_VARIABLE_LABELS[variable]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+        )}
+        <Button type="submit" disabled={isPending} className="min-h-[44px]">
+          {isPending ? "Saving..." : editing ? "Save template" : "Add template"}
+        </Button>
+      </form>
+    </div>
+  );
+}
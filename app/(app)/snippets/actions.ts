@@ -0,0 +1,151 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import { createClient } from "@/lib/supabase/server";
+import { SNIPPET_SELECT } from "@/lib/snippets";
+import { renderNamedPlaceholders, resolveTemplateValues } from "@/lib/whatsapp-templates";
+import { WHATSAPP_TEMPLATE_VARIABLES, type WhatsAppTemplateVariable } from "@/types/inbox";
+import type { Snippet } from "@/types/snippets";
+
+const saveSnippetSchema = z.object({
+  id: z.string().uuid().optional(),
+  shortcut: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .regex(/^[a-z0-9][a-z0-9_-]*$/, "Shortcut can only use letters, numbers, - and _")
+    .max(30),
+  title: z.string().trim().min(1, "Title is required").max(120),
+  body: z.string().trim().min(1, "Snippet text is required").max(4000),
+  category: z.string().trim().min(1).max(60),
+  shared: z.boolean(),
+});
+
+const expandSnippetSchema = z
+  .object({
+    snippetId: z.string().uuid(),
+    context: z.enum(["inbox", "lead_note"]),
+    conversationId: z.string().uuid().optional(),
+    leadId: z.string().uuid().optional(),
+  })
+  .refine((data) => (data.context === "inbox" ? !!data.conversationId : !!data.leadId), {
+    message: "Missing conversation or lead",
+  });
+
+async function requireUser() {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return { error: "Not authenticated" as const };
+
+  const { data: profile } = await supabase.from("profiles").select("role").eq("user_id", user.id).single();
+  const isAdmin = profile?.role === "ceo" || profile?.role === "admin";
+  return { supabase, user, isAdmin };
+}
+
+export async function saveSnippetAction(
+  input: z.input<typeof saveSnippetSchema>
+): Promise<{ error: string } | { success: true; snippet: Snippet }> {
+  const auth = await requireUser();
+  if ("error" in auth) return { error: auth.error };
+
+  const parsed = saveSnippetSchema.safeParse(input);
+  if (!parsed.success) return { error: parsed.error.issues[0]?.message || "Invalid input" };
+  if (parsed.data.shared && !auth.isAdmin) return { error: "Only admins can create shared snippets" };
+
+  const row = {
+    shortcut: parsed.data.shortcut,
+    title: parsed.data.title,
+    body: parsed.data.body,
+    category: parsed.data.category,
+    owner_user_id: parsed.data.shared ? null : auth.user.id,
+    updated_at: new Date().toISOString(),
+  };
+
+  const { data, error } = parsed.data.id
+    ? await auth.supabase.from("snippets").update(row).eq("id", parsed.data.id).select(SNIPPET_SELECT).maybeSingle()
+    : await auth.supabase
+        .from("snippets")
+        .insert({ ...row, created_by: auth.user.id })
+        .select(SNIPPET_SELECT)
+        .single();
+
+  if (error) {
+    if (error.code === "23505") return { error: `/${parsed.data.shortcut} is already in use` };
+    return { error: error.message || "Failed to save snippet" };
+  }
+  if (!data) return { error: "Snippet not found" };
+
+  revalidatePath("/snippets");
+  revalidatePath("/inbox");
+  return { success: true, snippet: data as Snippet };
+}
+
+export async function deleteSnippetAction(snippetId: string): Promise<{ error: string } | { success: true }> {
+  const auth = await requireUser();
+  if ("error" in auth) return { error: auth.error };
+  if (!z.string().uuid().safeParse(snippetId).success) return { error: "Invalid snippet" };
+
+  const { data, error } = await auth.supabase.from("snippets").delete().eq("id", snippetId).select("id");
+  if (error) return { error: error.message || "Failed to delete snippet" };
+  if (!data || data.length === 0) return { error: "Snippet not found or not yours to delete" };
+
+  revalidatePath("/snippets");
+  revalidatePath("/inbox");
+  return { success: true };
+}
+
+/**
+ * Render a snippet for the conversation or lead being written to and record the use.
+ * Placeholders are filled from the linked lead, the same way template variables are.
+ */
+export async function expandSnippetAction(input: {
+  snippetId: string;
+  context: "inbox" | "lead_note";
+  conversationId?: string;
+  leadId?: string;
+}): Promise<{ error: string } | { success: true; text: string }> {
+  const auth = await requireUser();
+  if ("error" in auth) return { error: auth.error };
+
+  const parsed = expandSnippetSchema.safeParse(input);
+  if (!parsed.success) return { error: parsed.error.issues[0]?.message || "Invalid input" };
+
+  const { data: snippet } = await auth.supabase
+    .from("snippets")
+    .select(SNIPPET_SELECT)
+    .eq("id", parsed.data.snippetId)
+    .maybeSingle();
+  if (!snippet) return { error: "Snippet not found" };
+
+  const target = parsed.data.conversationId
+    ? (
+        await auth.supabase
+          .from("wa_conversations")
+          .select("lead_id, display_name, custom_display_name")
+          .eq("id", parsed.data.conversationId)
+          .maybeSingle()
+      ).data
+    : { lead_id: parsed.data.leadId ?? null };
+  if (!target) return { error: "Conversation not found" };
+
+  const used = Array.from(String(snippet.body).matchAll(/\{\{\s*([a-z_]+)\s*\}\}/g), (m) => m[1]);
+  const variables = WHATSAPP_TEMPLATE_VARIABLES.filter((v): v is WhatsAppTemplateVariable => used.includes(v));
+  const resolved = variables.length > 0 ? await resolveTemplateValues(auth.supabase, { variables }, target) : [];
+  const text = renderNamedPlaceholders(
+    String(snippet.body),
+    Object.fromEntries(variables.map((v, i) => [v, resolved[i]]))
+  );
+
+  const { error: usageError } = await auth.supabase.from("snippet_uses").insert({
+    snippet_id: snippet.id,
+    user_id: auth.user.id,
+    context: parsed.data.context,
+    lead_db_id: target.lead_id,
+  });
+  if (usageError) console.error("[snippets] usage insert failed:", usageError.message);
+
+  return { success: true, text };
+}
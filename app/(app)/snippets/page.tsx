@@ -0,0 +1,53 @@
+import { redirect } from "next/navigation";
+import { PageHeader } from "@/components/page-header";
+import { getViewer } from "@/lib/viewer";
+import { getSnippets } from "@/lib/snippets";
+import type { SnippetWithUsage } from "@/types/snippets";
+import { SnippetsClient } from "./snippets-client";
+
+export default async function SnippetsPage() {
+  const { supabase, user, userRole } = await getViewer();
+
+  if (!user) {
+    redirect("/login");
+  }
+
+  const snippets = await getSnippets(supabase);
+  const { data: uses } =
+    snippets.length > 0
+      ? await supabase
+          .from("snippet_uses")
+          .select("snippet_id, user_id, used_at")
+          .in(
+            "snippet_id",
+            snippets.map((s) => s.id)
+          )
+      : { data: [] };
+
+  const since = Date.now() - 30 * 24 * 60 * 60 * 1000;
+  const withUsage: SnippetWithUsage[] = snippets.map((snippet) => {
+    const rows = (uses || []).filter((u) => u.snippet_id === snippet.id);
+    const lastUsed = rows.reduce<string | null>((latest, u) => (!latest || u.used_at > latest ? u.used_at : latest), null);
+    return {
+      ...snippet,
+      total_uses: rows.length,
+      my_uses: rows.filter((u) => u.user_id === user.id).length,
+      uses_last_30_days: rows.filter((u) => Date.parse(u.used_at) >= since).length,
+      last_used_at: lastUsed,
+    };
+  });
+
+  return (
+    <div className="space-y-6">
+      <PageHeader
+        title="Snippets"
+        subtitle="Canned replies for the WhatsApp inbox and lead notes. Type / and the shortcut in a composer to insert one."
+      />
+      <SnippetsClient
+        snippets={withUsage}
+        currentUserId={user.id}
+        isCeoOrAdmin={userRole === "ceo" || userRole === "admin"}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { WHATSAPP_TEMPLATE_VARIABLES } from "@/types/inbox";
+import { SNIPPET_CATEGORIES, type SnippetWithUsage } from "@/types/snippets";
+import { deleteSnippetAction, saveSnippetAction } from "./actions";
+
+function formatDate(value: string | null): string {
+  if (!value) return "never";
+  const d = new Date(value);
+  if (Number.isNaN(d.getTime())) return "never";
+  return d.toLocaleDateString("en-ZA", { year: "numeric", month: "short", day: "numeric" });
+}
+
+interface SnippetsClientProps {
+  snippets: SnippetWithUsage[];
+  currentUserId: string;
+  isCeoOrAdmin: boolean;
+}
+
+export function SnippetsClient({ snippets, currentUserId, isCeoOrAdmin }: SnippetsClientProps) {
+  const router = useRouter();
+  const [editing, setEditing] = useState<SnippetWithUsage | null>(null);
+  const [shared, setShared] = useState(false);
+  const [formKey, setFormKey] = useState(0);
+  const [isPending, startTransition] = useTransition();
+
+  const categories = Array.from(new Set([...SNIPPET_CATEGORIES, ...snippets.map((s) => s.category)]));
+  const grouped = categories
+    .map((category) => ({ category, items: snippets.filter((s) => s.category === category) }))
+    .filter((group) => group.items.length > 0);
+
+  const canEdit = (snippet: SnippetWithUsage) =>
+    snippet.owner_user_id === currentUserId || (snippet.owner_user_id === null && isCeoOrAdmin);
+
+  function startEdit(snippet: SnippetWithUsage | null) {
+    setEditing(snippet);
+    setShared(snippet ? snippet.owner_user_id === null : false);
+    setFormKey((k) => k + 1);
+  }
+
+  function handleSubmit(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    startTransition(async () => {
+      const result = await saveSnippetAction({
+        id: editing?.id,
+        shortcut: String(formData.get("shortcut") || "").replace(/^\//, ""),
+        title: String(formData.get("title") || ""),
+        body: String(formData.get("body") || ""),
+        category: String(formData.get("category") || "General"),
+        shared,
+      });
+      if ("error" in result) {
+        toast.error(result.error);
+        return;
+      }
+      toast.success(editing ? "Snippet updated" : "Snippet added");
+      startEdit(null);
+      router.refresh();
+    });
+  }
+
+  function handleDelete(snippet: SnippetWithUsage) {
+    if (!window.confirm(`Delete /${snippet.shortcut}?`)) return;
+    startTransition(async () => {
+      const result = await deleteSnippetAction(snippet.id);
+      if ("error" in result) {
+        toast.error(result.error);
+        return;
+      }
+      toast.success("Snippet deleted");
+      if (editing?.id === snippet.id) startEdit(null);
+      router.refresh();
+    });
+  }
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-[1fr_380px]">
+      <div className="space-y-4">
+        {grouped.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center text-sm text-muted-foreground">No snippets yet.</CardContent>
+          </Card>
+        ) : (
+          grouped.map((group) => (
+            <Card key={group.category}>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-base">{group.category}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="divide-y divide-border rounded-md border border-border">
+                  {group.items.map((snippet) => (
+                    <div key={snippet.id} className="flex items-start justify-between gap-3 p-3">
+                      <div className="min-w-0 space-y-1">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span className="font-mono text-sm font-medium">/{snippet.shortcut}</span>
+                          <span className="text-sm">{snippet.title}</span>
+                          <Badge variant={snippet.owner_user_id ? "outline" : "secondary"}>
+                            {snippet.owner_user_id ? "Private" : "Shared"}
+                          </Badge>
+                        </div>
+                        <p className="whitespace-pre-wrap text-xs text-muted-foreground">{snippet.body}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {snippet.total_uses} uses · {snippet.my_uses} by you · {snippet.uses_last_30_days} in the last 30
+                          days · last used {formatDate(snippet.last_used_at)}
+                        </p>
+                      </div>
+                      {canEdit(snippet) && (
+                        <div className="flex shrink-0 gap-2">
+                          <Button type="button" variant="outline" size="sm" onClick={() => startEdit(snippet)} disabled={isPending}>
+                            Edit
+                          </Button>
+                          <Button type="button" variant="ghost" size="sm" onClick={() => handleDelete(snippet)} disabled={isPending}>
+                            Delete
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          ))
+        )}
+      </div>
+
+      <Card className="h-fit">
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-base">{editing ? `Edit /${editing.shortcut}` : "Add snippet"}</CardTitle>
+            {editing && (
+              <Button type="button" variant="ghost" size="sm" onClick={() => startEdit(null)}>
+                Cancel
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          <form key={formKey} onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid gap-3 sm:grid-cols-2">
+              <div className="space-y-1">
+                <Label htmlFor="snippet_shortcut">Shortcut</Label>
+                <Input
+                  id="snippet_shortcut"
+                  name="shortcut"
+                  placeholder="sizing"
+                  defaultValue={editing?.shortcut ?? ""}
+                  required
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="snippet_category">Category</Label>
+                <Input
+                  id="snippet_category"
+                  name="category"
+                  list="snippet_categories"
+                  defaultValue={editing?.category ?? "General"}
+                  required
+                />
+                <datalist id="snippet_categories">
+                  {categories.map((category) => (
+                    <option key={category} value={category} />
+                  ))}
+                </datalist>
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="snippet_title">Title</Label>
+              <Input
+                id="snippet_title"
+                name="title"
+                placeholder="Size chart"
+                defaultValue={editing?.title ?? ""}
+                required
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="snippet_body">Text</Label>
+              <Textarea
+                id="snippet_body"
+                name="body"
+                rows={6}
+                placeholder="Hi {{first_name}}, our turnaround is 10 to 15 working days from design approval."
+                defaultValue={editing?.body ?? ""}
+                required
+              />
+              <p className="text-xs text-muted-foreground">
+                Filled from the linked lead: {WHATSAPP_TEMPLATE_VARIABLES.map((v) => `{{${v}}}`).join(", ")}.
+              </p>
+            </div>
+            {isCeoOrAdmin && (
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox checked={shared} onCheckedChange={(checked) => setShared(checked === true)} />
+                Shared with the whole team
+              </label>
+            )}
+            <Button type="submit" disabled={isPending} className="min-h-[44px]">
+              {isPending ? "Saving..." : editing ? "Save snippet" : "Add snippet"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
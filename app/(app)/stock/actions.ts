@@ -1,7 +1,7 @@
 "use server";
 
 import { revalidatePath } from "next/cache";
-import { createClient } from "@/lib/supabase/server";
+import { createClient, requireAdmin } from "@/lib/supabase/server";
 import { z } from "zod";
 
 const LOW_STOCK_WEBHOOK_URL =
@@ -16,6 +16,8 @@ const createMaterialSchema = z.object({
   minimum_level: z.coerce.number().min(0),
   restock_threshold: z.coerce.number().min(0),
   supplier: z.string().optional(),
+  costing_method: z.enum(["weighted_average", "last_cost"]).optional(),
+  unit_cost: z.coerce.number().min(0).optional(),
 });
 
 const updateMaterialSchema = z.object({
@@ -25,6 +27,7 @@ const updateMaterialSchema = z.object({
   minimum_level: z.coerce.number().min(0),
   restock_threshold: z.coerce.number().min(0),
   supplier: z.string().optional(),
+  costing_method: z.enum(["weighted_average", "last_cost"]).optional(),
 });
 
 const restockSchema = z.object({
@@ -40,6 +43,12 @@ const restockBatchSchema = z.object({
   items: z.string().min(2),
 });
 
+const receivePurchaseOrderSchema = z.object({
+  purchaseOrderId: z.string().uuid(),
+  notes: z.string().optional(),
+  items: z.string().min(2),
+});
+
 const consumeSchema = z.object({
   materialId: z.string().uuid(),
   quantity: z.coerce.number().positive(),
@@ -73,17 +82,16 @@ const bomDeleteSchema = z.object({
   id: z.string().uuid(),
 });
 
-async function requireAdmin() {
-  const supabase = await createClient();
-  const {
-    data: { user },
-  } = await supabase.auth.getUser();
-  if (!user) return { error: "Not authenticated" as const };
-
-  const { data: profile } = await supabase.from("profiles").select("role").eq("user_id", user.id).single();
-  if (!profile || (profile.role !== "ceo" && profile.role !== "admin")) return { error: "Unauthorized" as const };
-
-  return { supabase, user };
+async function resolveSupplierId(supabase: Awaited<ReturnType<typeof createClient>>, supplierName: string | undefined) {
+  const name = (supplierName || "").trim();
+  if (!name) return null;
+  const { data } = await supabase
+    .from("suppliers")
+    .select("id")
+    .ilike("name", name.replace(/[%_\\]/g, "\\$&"))
+    .limit(1)
+    .maybeSingle();
+  return (data?.id as string | undefined) || null;
 }
 
 type MaterialAlertRow = {
@@ -220,6 +228,8 @@ export async function createMaterialInventoryAction(formData: FormData) {
     minimum_level: formData.get("minimum_level"),
     restock_threshold: formData.get("restock_threshold"),
     supplier: formData.get("supplier"),
+    costing_method: formData.get("costing_method") || undefined,
+    unit_cost: formData.get("unit_cost") || undefined,
   };
 
   const parsed = createMaterialSchema.safeParse(raw);
@@ -237,6 +247,10 @@ export async function createMaterialInventoryAction(formData: FormData) {
       minimum_level: parsed.data.minimum_level,
       restock_threshold: parsed.data.restock_threshold,
       supplier: parsed.data.supplier || null,
+      supplier_id: await resolveSupplierId(auth.supabase, parsed.data.supplier),
+      costing_method: parsed.data.costing_method || "weighted_average",
+      average_cost: parsed.data.unit_cost ?? 0,
+      last_cost: parsed.data.unit_cost ?? null,
     })
     .select("id")
     .single();
@@ -257,6 +271,7 @@ export async function updateMaterialInventoryAction(formData: FormData) {
     minimum_level: formData.get("minimum_level"),
     restock_threshold: formData.get("restock_threshold"),
     supplier: formData.get("supplier"),
+    costing_method: formData.get("costing_method") || undefined,
   };
 
   const parsed = updateMaterialSchema.safeParse(raw);
@@ -273,6 +288,8 @@ export async function updateMaterialInventoryAction(formData: FormData) {
       minimum_level: parsed.data.minimum_level,
       restock_threshold: parsed.data.restock_threshold,
       supplier: parsed.data.supplier || null,
+      supplier_id: await resolveSupplierId(auth.supabase, parsed.data.supplier),
+      ...(parsed.data.costing_method ? { costing_method: parsed.data.costing_method } : {}),
       updated_at: new Date().toISOString(),
     })
     .eq("id", parsed.data.id);
@@ -387,6 +404,56 @@ export async function restockBatchAction(formData: FormData) {
   return { success: true, transactionId: (result as { transactionId?: string }).transactionId };
 }
 
+export async function receivePurchaseOrderAction(formData: FormData) {
+  const parsed = receivePurchaseOrderSchema.safeParse({
+    purchaseOrderId: formData.get("purchaseOrderId"),
+    notes: formData.get("notes"),
+    items: formData.get("items"),
+  });
+  if (!parsed.success) return { error: parsed.error.issues[0]?.message || "Invalid input" };
+
+  let itemsJson: unknown;
+  try {
+    itemsJson = JSON.parse(parsed.data.items);
+  } catch {
+    return { error: "Invalid items payload" };
+  }
+
+  const itemsParsed = z
+    .array(
+      z.object({
+        itemId: z.string().uuid(),
+        materialId: z.string().uuid(),
+        quantity: z.coerce.number().positive(),
+      })
+    )
+    .min(1, "Enter at least one received quantity")
+    .safeParse(itemsJson);
+  if (!itemsParsed.success) return { error: itemsParsed.error.issues[0]?.message || "Invalid items" };
+
+  const auth = await requireAdmin();
+  if ("error" in auth) return { error: auth.error };
+
+  const notes = parsed.data.notes?.trim() ? parsed.data.notes.trim() : null;
+  const { data, error } = await auth.supabase.rpc("receive_purchase_order", {
+    p_purchase_order_id: parsed.data.purchaseOrderId,
+    p_items: itemsParsed.data.map((i) => ({ item_id: i.itemId, qty: i.quantity })),
+    p_notes: notes,
+  });
+  if (error) {
+    if (error.message.includes("over_receipt")) return { error: "Received quantity is more than what is still open on the PO" };
+    if (error.message.includes("purchase_order_not_receivable")) return { error: "Only sent purchase orders can be received" };
+    return { error: error.message };
+  }
+
+  await processStockAlertsForMaterialIds(itemsParsed.data.map((i) => i.materialId));
+  revalidatePath("/stock");
+  revalidatePath("/stock/restock");
+  revalidatePath("/stock/purchase-orders");
+  revalidatePath("/analytics");
+  return { success: true, status: (data as { status?: string } | null)?.status || null };
+}
+
 export async function parseRestockPdfAction(formData: FormData) {
   const auth = await requireAdmin();
   if ("error" in auth) return { error: auth.error };
@@ -20,6 +20,7 @@ import {
 } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Plus, AlertTriangle } from "lucide-react";
 import {
   auditSetMaterialQuantityAction,
@@ -28,7 +29,9 @@ import {
 } from "./actions";
 import { toast } from "sonner";
 import { useRouter } from "next/navigation";
-import type { MaterialInventory } from "@/types/stock";
+import { MATERIAL_COSTING_METHOD_LABELS, type MaterialInventory } from "@/types/stock";
+import { formatMoney } from "@/lib/quotes";
+import { materialUnitCost } from "@/lib/stock-costing";
 import { Card, CardContent } from "@/components/ui/card";
 
 interface InventoryTableClientProps {
@@ -177,6 +180,27 @@ export function InventoryTableClient({ materials, isAdmin, consumedThisMonth, ma
                   <Label htmlFor="supplier">Supplier</Label>
                   <Input id="supplier" name="supplier" />
                 </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="grid gap-2">
+                    <Label htmlFor="costing_method">Costing Method</Label>
+                    <Select name="costing_method" defaultValue="weighted_average">
+                      <SelectTrigger id="costing_method">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(MATERIAL_COSTING_METHOD_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="grid gap-2">
+                    <Label htmlFor="unit_cost">Opening Unit Cost</Label>
+                    <Input id="unit_cost" name="unit_cost" type="number" step="0.01" min="0" placeholder="0.00" />
+                  </div>
+                </div>
                 <Button type="submit" className="w-full" disabled={isPending}>
                   {isPending ? "Adding..." : "Add Material"}
                 </Button>
@@ -192,9 +216,12 @@ export function InventoryTableClient({ materials, isAdmin, consumedThisMonth, ma
             <TableRow>
               <TableHead>Name</TableHead>
               <TableHead>Qty On Hand</TableHead>
+              <TableHead>Reserved</TableHead>
+              <TableHead>Available</TableHead>
               <TableHead>Unit</TableHead>
               <TableHead>Status</TableHead>
               <TableHead>Used This Month</TableHead>
+              <TableHead>Unit Cost</TableHead>
               <TableHead>Supplier</TableHead>
               <TableHead className="text-right">Actions</TableHead>
             </TableRow>
@@ -202,7 +229,7 @@ export function InventoryTableClient({ materials, isAdmin, consumedThisMonth, ma
           <TableBody>
             {filteredMaterials.length === 0 ? (
               <TableRow>
-                <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                <TableCell colSpan={10} className="text-center py-8 text-muted-foreground">
                   No materials found. Add one to get started.
                 </TableCell>
               </TableRow>
@@ -211,6 +238,8 @@ export function InventoryTableClient({ materials, isAdmin, consumedThisMonth, ma
                 const isLowStock = material.qty_on_hand <= material.minimum_level;
                 const needsRestock = !isLowStock && material.qty_on_hand <= material.restock_threshold;
                 const usedThisMonth = consumedMap.get(material.id) ?? 0;
+                const reserved = material.qty_reserved ?? 0;
+                const available = material.qty_on_hand - reserved;
                 return (
                   <TableRow key={material.id}>
                     <TableCell className="font-medium">{material.name}</TableCell>
@@ -219,6 +248,10 @@ export function InventoryTableClient({ materials, isAdmin, consumedThisMonth, ma
                         {material.qty_on_hand}
                       </span>
                     </TableCell>
+                    <TableCell className="text-muted-foreground">{reserved || "—"}</TableCell>
+                    <TableCell>
+                      <span className={available < 0 ? "text-destructive font-bold" : ""}>{available}</span>
+                    </TableCell>
                     <TableCell className="text-muted-foreground">{material.unit}</TableCell>
                     <TableCell>
                       {isLowStock ? (
@@ -238,6 +271,12 @@ export function InventoryTableClient({ materials, isAdmin, consumedThisMonth, ma
                       )}
                     </TableCell>
                     <TableCell className="text-muted-foreground">{usedThisMonth || "—"}</TableCell>
+                    <TableCell
+                      className="text-muted-foreground tabular-nums"
+                      title={MATERIAL_COSTING_METHOD_LABELS[material.costing_method || "weighted_average"]}
+                    >
+                      {formatMoney(materialUnitCost(material))}
+                    </TableCell>
                     <TableCell>{material.supplier || "—"}</TableCell>
                     <TableCell className="text-right">
                       {isAdmin ? (
@@ -283,6 +322,7 @@ export function InventoryTableClient({ materials, isAdmin, consumedThisMonth, ma
             const isLowStock = material.qty_on_hand <= material.minimum_level;
             const needsRestock = !isLowStock && material.qty_on_hand <= material.restock_threshold;
             const usedThisMonth = consumedMap.get(material.id) ?? 0;
+            const reserved = material.qty_reserved ?? 0;
             return (
                 <Card key={material.id}>
                     <CardContent className="p-4">
@@ -303,9 +343,15 @@ export function InventoryTableClient({ materials, isAdmin, consumedThisMonth, ma
                                 <p className="text-xs text-muted-foreground">
                                   Min (Critical): {material.minimum_level} · Restock (Low): {material.restock_threshold}
                                 </p>
+                                <p className="text-xs text-muted-foreground">
+                                  Reserved: {reserved || "—"} · Available: {material.qty_on_hand - reserved} {material.unit}
+                                </p>
                                 <p className="text-xs text-muted-foreground">
                                   Used this month: {usedThisMonth || "—"} {material.unit}
                                 </p>
+                                <p className="text-xs text-muted-foreground">
+                                  Unit cost: {formatMoney(materialUnitCost(material))}
+                                </p>
                                 {needsRestock && !isLowStock && (
                                   <p className="text-xs font-medium text-yellow-700">Restock recommended</p>
                                 )}
@@ -405,6 +451,25 @@ export function InventoryTableClient({ materials, isAdmin, consumedThisMonth, ma
                             <Input id="edit-threshold" name="restock_threshold" type="number" step="0.01" defaultValue={selectedMaterial.restock_threshold} />
                         </div>
                     </div>
+                    <div className="grid gap-2">
+                        <Label htmlFor="edit-costing-method">Costing Method</Label>
+                        <Select name="costing_method" defaultValue={selectedMaterial.costing_method || "weighted_average"}>
+                            <SelectTrigger id="edit-costing-method">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {Object.entries(MATERIAL_COSTING_METHOD_LABELS).map(([value, label]) => (
+                                    <SelectItem key={value} value={value}>
+                                        {label}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        <p className="text-xs text-muted-foreground">
+                            Average {formatMoney(Number(selectedMaterial.average_cost ?? 0))} · Last{" "}
+                            {selectedMaterial.last_cost != null ? formatMoney(Number(selectedMaterial.last_cost)) : "—"}
+                        </p>
+                    </div>
                     <Button type="submit" className="w-full" disabled={isPending}>
                         {isPending ? "Saving..." : "Save Changes"}
                     </Button>
@@ -17,7 +17,9 @@ type ServerSupabase = SupabaseClient;
 async function getMaterials(supabase: ServerSupabase): Promise<MaterialInventory[]> {
   const { data, error } = await supabase
     .from("materials_inventory")
-    .select("id, name, unit, qty_on_hand, minimum_level, restock_threshold, supplier, updated_at, low_alert_sent_at, critical_alert_sent_at")
+    .select(
+      "id, name, unit, qty_on_hand, minimum_level, restock_threshold, supplier, updated_at, low_alert_sent_at, critical_alert_sent_at, costing_method, average_cost, last_cost"
+    )
     .order("name");
 
   if (error) {
@@ -25,7 +27,21 @@ async function getMaterials(supabase: ServerSupabase): Promise<MaterialInventory
     return [];
   }
 
-  return (data || []) as unknown as MaterialInventory[];
+  const materials = (data || []) as unknown as MaterialInventory[];
+
+  const { data: reserved, error: reservedError } = await supabase
+    .from("material_reservation_totals")
+    .select("material_id, qty_reserved");
+
+  if (reservedError) {
+    console.error("Error fetching reservations:", reservedError);
+    return materials;
+  }
+
+  const reservedByMaterial = new Map(
+    ((reserved || []) as Array<{ material_id: string; qty_reserved: number }>).map((r) => [r.material_id, Number(r.qty_reserved ?? 0)])
+  );
+  return materials.map((m) => ({ ...m, qty_reserved: reservedByMaterial.get(m.id) ?? 0 }));
 }
 
 type StockTxRow = StockTransaction & {
@@ -337,6 +353,9 @@ export default async function StockPage() {
           </div>
           {isAdmin && (
             <div className="flex gap-2">
+              <Button asChild variant="outline">
+                <a href="/stock/purchase-orders">Purchase Orders</a>
+              </Button>
               <Button asChild variant="outline">
                 <a href="/stock/restock">Restock</a>
               </Button>
@@ -0,0 +1,212 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import { requireAdmin } from "@/lib/supabase/server";
+
+const supplierSchema = z.object({
+  name: z.string().trim().min(1, "Supplier name is required").max(200),
+  contactName: z.string().trim().max(200).optional(),
+  email: z.string().trim().email("Invalid email").max(320).optional(),
+  phone: z.string().trim().max(50).optional(),
+  notes: z.string().max(2000).optional(),
+});
+
+const updateSupplierSchema = supplierSchema.extend({
+  id: z.string().uuid(),
+  isActive: z.enum(["true", "false"]).optional(),
+});
+
+const poItemSchema = z.object({
+  materialId: z.string().uuid(),
+  qty: z.coerce.number().positive("Quantity must be greater than 0"),
+  unitCost: z.coerce.number().min(0, "Unit cost cannot be negative"),
+});
+
+const createPurchaseOrderSchema = z.object({
+  supplierId: z.string().uuid("Select a supplier"),
+  expectedDate: z.string().optional(),
+  notes: z.string().max(2000).optional(),
+  items: z.string().min(2),
+});
+
+const purchaseOrderIdSchema = z.object({
+  id: z.string().uuid(),
+});
+
+function generatePoNumber(): string {
+  const year = new Date().getFullYear();
+  const random = Math.random().toString(36).substring(2, 7).toUpperCase();
+  return `PO-${year}-${random}`;
+}
+
+function revalidatePurchasing() {
+  revalidatePath("/stock/purchase-orders");
+  revalidatePath("/stock/restock");
+  revalidatePath("/stock");
+}
+
+export async function createSupplierAction(formData: FormData) {
+  const parsed = supplierSchema.safeParse({
+    name: formData.get("name"),
+    contactName: formData.get("contactName") || undefined,
+    email: formData.get("email") || undefined,
+    phone: formData.get("phone") || undefined,
+    notes: formData.get("notes") || undefined,
+  });
+  if (!parsed.success) return { error: parsed.error.issues[0]?.message || "Invalid input" };
+
+  const auth = await requireAdmin();
+  if ("error" in auth) return { error: auth.error };
+
+  const { error } = await auth.supabase.from("suppliers").insert({
+    name: parsed.data.name,
+    contact_name: parsed.data.contactName || null,
+    email: parsed.data.email || null,
+    phone: parsed.data.phone || null,
+    notes: parsed.data.notes || null,
+  });
+  if (error) {
+    if (error.code === "23505") return { error: "A supplier with this name already exists" };
+    return { error: error.message };
+  }
+
+  revalidatePurchasing();
+  return { success: true };
+}
+
+export async function updateSupplierAction(formData: FormData) {
+  const parsed = updateSupplierSchema.safeParse({
+    id: formData.get("id"),
+    name: formData.get("name"),
+    contactName: formData.get("contactName") || undefined,
+    email: formData.get("email") || undefined,
+    phone: formData.get("phone") || undefined,
+    notes: formData.get("notes") || undefined,
+    isActive: formData.get("isActive") || undefined,
+  });
+  if (!parsed.success) return { error: parsed.error.issues[0]?.message || "Invalid input" };
+
+  const auth = await requireAdmin();
+  if ("error" in auth) return { error: auth.error };
+
+  const { error } = await auth.supabase
+    .from("suppliers")
+    .update({
+      name: parsed.data.name,
+      contact_name: parsed.data.contactName || null,
+      email: parsed.data.email || null,
+      phone: parsed.data.phone || null,
+      notes: parsed.data.notes || null,
+      ...(parsed.data.isActive ? { is_active: parsed.data.isActive === "true" } : {}),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", parsed.data.id);
+  if (error) {
+    if (error.code === "23505") return { error: "A supplier with this name already exists" };
+    return { error: error.message };
+  }
+
+  // Keep the legacy free-text column in sync for materials linked to this supplier
+  await auth.supabase.from("materials_inventory").update({ supplier: parsed.data.name }).eq("supplier_id", parsed.data.id);
+
+  revalidatePurchasing();
+  return { success: true };
+}
+
+export async function createPurchaseOrderAction(formData: FormData) {
+  const parsed = createPurchaseOrderSchema.safeParse({
+    supplierId: formData.get("supplierId"),
+    expectedDate: formData.get("expectedDate") || undefined,
+    notes: formData.get("notes") || undefined,
+    items: formData.get("items"),
+  });
+  if (!parsed.success) return { error: parsed.error.issues[0]?.message || "Invalid input" };
+
+  let itemsJson: unknown;
+  try {
+    itemsJson = JSON.parse(parsed.data.items);
+  } catch {
+    return { error: "Invalid items payload" };
+  }
+
+  const itemsParsed = z.array(poItemSchema).min(1, "Add at least one material").safeParse(itemsJson);
+  if (!itemsParsed.success) return { error: itemsParsed.error.issues[0]?.message || "Invalid items" };
+
+  const auth = await requireAdmin();
+  if ("error" in auth) return { error: auth.error };
+
+  const { data: po, error } = await auth.supabase
+    .from("purchase_orders")
+    .insert({
+      po_number: generatePoNumber(),
+      supplier_id: parsed.data.supplierId,
+      expected_date: parsed.data.expectedDate || null,
+      notes: parsed.data.notes || null,
+      created_by: auth.user.id,
+    })
+    .select("id, po_number")
+    .single();
+  if (error || !po) return { error: error?.message || "Failed to create purchase order" };
+
+  const { error: itemsError } = await auth.supabase.from("purchase_order_items").insert(
+    itemsParsed.data.map((item) => ({
+      purchase_order_id: po.id,
+      material_id: item.materialId,
+      qty_ordered: item.qty,
+      unit_cost: item.unitCost,
+    }))
+  );
+  if (itemsError) {
+    await auth.supabase.from("purchase_orders").delete().eq("id", po.id);
+    return { error: itemsError.message };
+  }
+
+  revalidatePurchasing();
+  return { success: true, id: po.id as string, poNumber: po.po_number as string };
+}
+
+export async function markPurchaseOrderSentAction(formData: FormData) {
+  const parsed = purchaseOrderIdSchema.safeParse({ id: formData.get("id") });
+  if (!parsed.success) return { error: parsed.error.issues[0]?.message || "Invalid input" };
+
+  const auth = await requireAdmin();
+  if ("error" in auth) return { error: auth.error };
+
+  const now = new Date().toISOString();
+  const { data, error } = await auth.supabase
+    .from("purchase_orders")
+    .update({ status: "sent", sent_at: now, updated_at: now })
+    .eq("id", parsed.data.id)
+    .eq("status", "draft")
+    .select("id")
+    .maybeSingle();
+  if (error) return { error: error.message };
+  if (!data) return { error: "Only draft purchase orders can be marked as sent" };
+
+  revalidatePurchasing();
+  return { success: true };
+}
+
+export async function cancelPurchaseOrderAction(formData: FormData) {
+  const parsed = purchaseOrderIdSchema.safeParse({ id: formData.get("id") });
+  if (!parsed.success) return { error: parsed.error.issues[0]?.message || "Invalid input" };
+
+  const auth = await requireAdmin();
+  if ("error" in auth) return { error: auth.error };
+
+  // Stock already received stays on hand; cancelling only closes the open remainder
+  const now = new Date().toISOString();
+  const { data, error } = await auth.supabase
+    .from("purchase_orders")
+    .update({ status: "cancelled", cancelled_at: now, updated_at: now })
+    .eq("id", parsed.data.id)
+    .in("status", ["draft", "sent", "partially_received"])
+    .select("id")
+    .maybeSingle();
+  if (error) return { error: error.message };
+  if (!data) return { error: "This purchase order can no longer be cancelled" };
+
+  revalidatePurchasing();
+  return { success: true };
+}
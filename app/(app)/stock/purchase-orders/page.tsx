@@ -0,0 +1,101 @@
+import { createClient } from "@/lib/supabase/server";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { PageHeader } from "@/components/page-header";
+import type { MaterialInventory, PurchaseOrder, Supplier } from "@/types/stock";
+import { PurchaseOrdersClient } from "./purchase-orders-client";
+
+export const dynamic = "force-dynamic";
+
+type ServerSupabase = Awaited<ReturnType<typeof createClient>>;
+
+async function getSuppliers(supabase: ServerSupabase): Promise<Supplier[]> {
+  const { data, error } = await supabase.from("suppliers").select("*").order("name");
+  if (error) {
+    console.error("Error fetching suppliers:", error);
+    return [];
+  }
+  return (data || []) as Supplier[];
+}
+
+async function getMaterials(supabase: ServerSupabase): Promise<MaterialInventory[]> {
+  const { data, error } = await supabase.from("materials_inventory").select("*").order("name");
+  if (error) {
+    console.error("Error fetching materials:", error);
+    return [];
+  }
+  return (data || []) as MaterialInventory[];
+}
+
+async function getPurchaseOrders(supabase: ServerSupabase): Promise<PurchaseOrder[]> {
+  const { data, error } = await supabase
+    .from("purchase_orders")
+    .select(
+      `
+      *,
+      supplier:suppliers(name),
+      items:purchase_order_items(
+        id,
+        purchase_order_id,
+        material_id,
+        qty_ordered,
+        qty_received,
+        unit_cost,
+        material:materials_inventory(name, unit)
+      )
+    `
+    )
+    .order("created_at", { ascending: false })
+    .limit(200);
+
+  if (error) {
+    console.error("Error fetching purchase orders:", error);
+    return [];
+  }
+  return (data || []) as unknown as PurchaseOrder[];
+}
+
+export default async function PurchaseOrdersPage() {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    return (
+      <div className="p-8 text-center">
+        <h1 className="text-2xl font-bold text-destructive">Access Denied</h1>
+        <p className="text-muted-foreground mt-2">Please sign in to view purchase orders.</p>
+      </div>
+    );
+  }
+
+  const { data: profile } = await supabase.from("profiles").select("role").eq("user_id", user.id).single();
+  const isAdmin = !!profile && (profile.role === "ceo" || profile.role === "admin");
+  if (!isAdmin) {
+    return (
+      <div className="p-8 text-center">
+        <h1 className="text-2xl font-bold text-destructive">Access Denied</h1>
+        <p className="text-muted-foreground mt-2">Only Admins and CEOs can manage purchase orders.</p>
+      </div>
+    );
+  }
+
+  const [suppliers, materials, purchaseOrders] = await Promise.all([
+    getSuppliers(supabase),
+    getMaterials(supabase),
+    getPurchaseOrders(supabase),
+  ]);
+
+  return (
+    <div className="space-y-6">
+      <PageHeader title="Purchase Orders" subtitle="Order materials from suppliers and track deliveries." />
+      <Card>
+        <CardHeader>
+          <CardTitle>Purchasing</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <PurchaseOrdersClient suppliers={suppliers} materials={materials} purchaseOrders={purchaseOrders} />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
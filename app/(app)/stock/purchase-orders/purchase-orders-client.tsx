@@ -0,0 +1,512 @@
+"use client";
+
+import { useMemo, useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { formatMoney } from "@/lib/quotes";
+import {
+  PURCHASE_ORDER_STATUS_LABELS,
+  type MaterialInventory,
+  type PurchaseOrder,
+  type PurchaseOrderStatus,
+  type Supplier,
+} from "@/types/stock";
+import {
+  cancelPurchaseOrderAction,
+  createPurchaseOrderAction,
+  createSupplierAction,
+  markPurchaseOrderSentAction,
+  updateSupplierAction,
+} from "./actions";
+
+type DraftLine = {
+  key: string;
+  materialId: string;
+  qty: string;
+  unitCost: string;
+};
+
+function statusVariant(status: PurchaseOrderStatus): "default" | "secondary" | "destructive" | "outline" {
+  if (status === "received") return "default";
+  if (status === "cancelled") return "destructive";
+  if (status === "draft") return "outline";
+  return "secondary";
+}
+
+function orderTotal(po: PurchaseOrder) {
+  return (po.items || []).reduce((sum, item) => sum + Number(item.qty_ordered) * Number(item.unit_cost), 0);
+}
+
+function newLine(): DraftLine {
+  return { key: `${Date.now()}-${Math.random()}`, materialId: "", qty: "", unitCost: "" };
+}
+
+export function PurchaseOrdersClient(props: {
+  suppliers: Supplier[];
+  materials: MaterialInventory[];
+  purchaseOrders: PurchaseOrder[];
+}) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [supplierId, setSupplierId] = useState("");
+  const [expectedDate, setExpectedDate] = useState("");
+  const [poNotes, setPoNotes] = useState("");
+  const [lines, setLines] = useState<DraftLine[]>([newLine()]);
+  const [viewing, setViewing] = useState<PurchaseOrder | null>(null);
+
+  const [isSupplierAddOpen, setIsSupplierAddOpen] = useState(false);
+  const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
+
+  const activeSuppliers = props.suppliers.filter((s) => s.is_active);
+
+  const draftTotal = useMemo(
+    () => lines.reduce((sum, l) => sum + (Number(l.qty) || 0) * (Number(l.unitCost) || 0), 0),
+    [lines]
+  );
+
+  function resetCreate() {
+    setSupplierId("");
+    setExpectedDate("");
+    setPoNotes("");
+    setLines([newLine()]);
+  }
+
+  function updateLine(key: string, patch: Partial<DraftLine>) {
+    setLines((prev) => prev.map((l) => (l.key === key ? { ...l, ...patch } : l)));
+  }
+
+  function run(action: (formData: FormData) => Promise<{ error?: string } | undefined>, formData: FormData, message: string, onDone?: () => void) {
+    startTransition(async () => {
+      const result = await action(formData);
+      if (result?.error) {
+        toast.error(result.error);
+        return;
+      }
+      toast.success(message);
+      onDone?.();
+      router.refresh();
+    });
+  }
+
+  function submitCreate() {
+    const items = lines
+      .filter((l) => l.materialId && Number(l.qty) > 0)
+      .map((l) => ({ materialId: l.materialId, qty: Number(l.qty), unitCost: Number(l.unitCost) || 0 }));
+
+    if (!supplierId) {
+      toast.error("Select a supplier");
+      return;
+    }
+    if (items.length === 0) {
+      toast.error("Add at least one material with a quantity");
+      return;
+    }
+
+    const formData = new FormData();
+    formData.set("supplierId", supplierId);
+    if (expectedDate) formData.set("expectedDate", expectedDate);
+    if (poNotes.trim()) formData.set("notes", poNotes.trim());
+    formData.set("items", JSON.stringify(items));
+
+    run(createPurchaseOrderAction, formData, "Purchase order created", () => {
+      setIsCreateOpen(false);
+      resetCreate();
+    });
+  }
+
+  function poAction(action: (formData: FormData) => Promise<{ error?: string } | undefined>, po: PurchaseOrder, message: string) {
+    const formData = new FormData();
+    formData.set("id", po.id);
+    run(action, formData, message, () => setViewing(null));
+  }
+
+  return (
+    <Tabs defaultValue="orders" className="w-full">
+      <TabsList>
+        <TabsTrigger value="orders">Orders</TabsTrigger>
+        <TabsTrigger value="suppliers">Suppliers</TabsTrigger>
+      </TabsList>
+
+      <TabsContent value="orders" className="space-y-4">
+        <div className="flex justify-end">
+          <Button onClick={() => setIsCreateOpen(true)} disabled={activeSuppliers.length === 0}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Purchase Order
+          </Button>
+        </div>
+
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>PO #</TableHead>
+                <TableHead>Supplier</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Expected</TableHead>
+                <TableHead className="text-right">Total</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {props.purchaseOrders.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                    No purchase orders yet.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                props.purchaseOrders.map((po) => {
+                  const isOverdue =
+                    !!po.expected_date &&
+                    (po.status === "sent" || po.status === "partially_received") &&
+                    new Date(po.expected_date) < new Date(new Date().toDateString());
+                  return (
+                    <TableRow key={po.id}>
+                      <TableCell className="font-medium">{po.po_number}</TableCell>
+                      <TableCell>{po.supplier?.name || "—"}</TableCell>
+                      <TableCell>
+                        <Badge variant={statusVariant(po.status)}>{PURCHASE_ORDER_STATUS_LABELS[po.status] || po.status}</Badge>
+                      </TableCell>
+                      <TableCell className={isOverdue ? "text-destructive font-medium" : "text-muted-foreground"}>
+                        {po.expected_date ? new Date(po.expected_date).toLocaleDateString() : "—"}
+                      </TableCell>
+                      <TableCell className="text-right tabular-nums">{formatMoney(orderTotal(po))}</TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          <Button variant="outline" size="sm" onClick={() => setViewing(po)}>
+                            View
+                          </Button>
+                          {(po.status === "sent" || po.status === "partially_received") && (
+                            <Button size="sm" asChild>
+                              <a href={`/stock/restock?po=${po.id}`}>Receive</a>
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </TabsContent>
+
+      <TabsContent value="suppliers" className="space-y-4">
+        <div className="flex justify-end">
+          <Button onClick={() => setIsSupplierAddOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Supplier
+          </Button>
+        </div>
+
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Contact</TableHead>
+                <TableHead>Email</TableHead>
+                <TableHead>Phone</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {props.suppliers.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                    No suppliers yet. Add one to start ordering.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                props.suppliers.map((s) => (
+                  <TableRow key={s.id}>
+                    <TableCell className="font-medium">{s.name}</TableCell>
+                    <TableCell className="text-muted-foreground">{s.contact_name || "—"}</TableCell>
+                    <TableCell className="text-muted-foreground">{s.email || "—"}</TableCell>
+                    <TableCell className="text-muted-foreground">{s.phone || "—"}</TableCell>
+                    <TableCell>{s.is_active ? "Active" : <span className="text-muted-foreground">Inactive</span>}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="outline" size="sm" onClick={() => setEditingSupplier(s)}>
+                        Edit
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </TabsContent>
+
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>New Purchase Order</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="grid gap-2">
+                <Label>Supplier</Label>
+                <Select value={supplierId} onValueChange={setSupplierId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select supplier..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {activeSuppliers.map((s) => (
+                      <SelectItem key={s.id} value={s.id}>
+                        {s.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="expectedDate">Expected Delivery</Label>
+                <Input id="expectedDate" type="date" value={expectedDate} onChange={(e) => setExpectedDate(e.target.value)} />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              {lines.map((line) => {
+                const material = props.materials.find((m) => m.id === line.materialId);
+                return (
+                  <div key={line.key} className="grid grid-cols-12 gap-2 items-end">
+                    <div className="col-span-6 grid gap-1">
+                      <span className="text-xs text-muted-foreground">Material</span>
+                      <Select value={line.materialId} onValueChange={(val) => updateLine(line.key, { materialId: val })}>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select material..." />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {props.materials.map((m) => (
+                            <SelectItem key={m.id} value={m.id}>
+                              {m.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="col-span-2 grid gap-1">
+                      <span className="text-xs text-muted-foreground">Qty{material ? ` (${material.unit})` : ""}</span>
+                      <Input type="number" step="0.01" min="0" value={line.qty} onChange={(e) => updateLine(line.key, { qty: e.target.value })} />
+                    </div>
+                    <div className="col-span-3 grid gap-1">
+                      <span className="text-xs text-muted-foreground">Unit Cost</span>
+                      <Input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={line.unitCost}
+                        onChange={(e) => updateLine(line.key, { unitCost: e.target.value })}
+                      />
+                    </div>
+                    <div className="col-span-1">
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setLines((prev) => (prev.length > 1 ? prev.filter((l) => l.key !== line.key) : prev))}
+                        disabled={lines.length <= 1}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+              <Button type="button" variant="outline" size="sm" onClick={() => setLines((prev) => [...prev, newLine()])}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Line
+              </Button>
+            </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="poNotes">Notes (optional)</Label>
+              <Input id="poNotes" value={poNotes} onChange={(e) => setPoNotes(e.target.value)} />
+            </div>
+
+            <div className="flex justify-between text-sm font-medium">
+              <span>Order total (excl. VAT)</span>
+              <span className="tabular-nums">{formatMoney(draftTotal)}</span>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsCreateOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={submitCreate} disabled={isPending}>
+              {isPending ? "Saving..." : "Create Draft"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!viewing} onOpenChange={(open) => !open && setViewing(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>
+              {viewing?.po_number} · {viewing?.supplier?.name || ""}
+            </DialogTitle>
+          </DialogHeader>
+          {viewing && (
+            <div className="space-y-4">
+              <div className="flex flex-wrap gap-4 text-sm text-muted-foreground">
+                <span>Status: {PURCHASE_ORDER_STATUS_LABELS[viewing.status]}</span>
+                <span>Expected: {viewing.expected_date ? new Date(viewing.expected_date).toLocaleDateString() : "—"}</span>
+                {viewing.sent_at && <span>Sent: {new Date(viewing.sent_at).toLocaleDateString()}</span>}
+              </div>
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Material</TableHead>
+                      <TableHead className="text-right">Ordered</TableHead>
+                      <TableHead className="text-right">Received</TableHead>
+                      <TableHead className="text-right">Unit Cost</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {(viewing.items || []).map((item) => (
+                      <TableRow key={item.id}>
+                        <TableCell>{item.material?.name || "—"}</TableCell>
+                        <TableCell className="text-right tabular-nums">
+                          {Number(item.qty_ordered)} {item.material?.unit || ""}
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums">{Number(item.qty_received)}</TableCell>
+                        <TableCell className="text-right tabular-nums">{formatMoney(Number(item.unit_cost))}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+              {viewing.notes && <p className="text-sm text-muted-foreground">{viewing.notes}</p>}
+              <DialogFooter>
+                {viewing.status !== "received" && viewing.status !== "cancelled" && (
+                  <Button
+                    variant="destructive"
+                    disabled={isPending}
+                    onClick={() => {
+                      if (!confirm(`Cancel ${viewing.po_number}?`)) return;
+                      poAction(cancelPurchaseOrderAction, viewing, "Purchase order cancelled");
+                    }}
+                  >
+                    Cancel PO
+                  </Button>
+                )}
+                {viewing.status === "draft" && (
+                  <Button disabled={isPending} onClick={() => poAction(markPurchaseOrderSentAction, viewing, "Marked as sent")}>
+                    Mark Sent
+                  </Button>
+                )}
+              </DialogFooter>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={isSupplierAddOpen} onOpenChange={setIsSupplierAddOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Supplier</DialogTitle>
+          </DialogHeader>
+          <form
+            action={(formData) => run(createSupplierAction, formData, "Supplier added", () => setIsSupplierAddOpen(false))}
+            className="space-y-4"
+          >
+            <div className="grid gap-2">
+              <Label htmlFor="supplier-name">Name</Label>
+              <Input id="supplier-name" name="name" required />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="supplier-contact">Contact Person</Label>
+                <Input id="supplier-contact" name="contactName" />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="supplier-phone">Phone</Label>
+                <Input id="supplier-phone" name="phone" type="tel" />
+              </div>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="supplier-email">Email</Label>
+              <Input id="supplier-email" name="email" type="email" />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="supplier-notes">Notes</Label>
+              <Input id="supplier-notes" name="notes" />
+            </div>
+            <Button type="submit" className="w-full" disabled={isPending}>
+              {isPending ? "Saving..." : "Add Supplier"}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!editingSupplier} onOpenChange={(open) => !open && setEditingSupplier(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit Supplier</DialogTitle>
+          </DialogHeader>
+          {editingSupplier && (
+            <form
+              action={(formData) => run(updateSupplierAction, formData, "Supplier updated", () => setEditingSupplier(null))}
+              className="space-y-4"
+            >
+              <input type="hidden" name="id" value={editingSupplier.id} />
+              <div className="grid gap-2">
+                <Label htmlFor="edit-supplier-name">Name</Label>
+                <Input id="edit-supplier-name" name="name" required defaultValue={editingSupplier.name} />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="grid gap-2">
+                  <Label htmlFor="edit-supplier-contact">Contact Person</Label>
+                  <Input id="edit-supplier-contact" name="contactName" defaultValue={editingSupplier.contact_name || ""} />
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="edit-supplier-phone">Phone</Label>
+                  <Input id="edit-supplier-phone" name="phone" type="tel" defaultValue={editingSupplier.phone || ""} />
+                </div>
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="edit-supplier-email">Email</Label>
+                <Input id="edit-supplier-email" name="email" type="email" defaultValue={editingSupplier.email || ""} />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="edit-supplier-notes">Notes</Label>
+                <Input id="edit-supplier-notes" name="notes" defaultValue={editingSupplier.notes || ""} />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="edit-supplier-active">Status</Label>
+                <Select name="isActive" defaultValue={editingSupplier.is_active ? "true" : "false"}>
+                  <SelectTrigger id="edit-supplier-active">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="true">Active</SelectItem>
+                    <SelectItem value="false">Inactive</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button type="submit" className="w-full" disabled={isPending}>
+                {isPending ? "Saving..." : "Save Changes"}
+              </Button>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Tabs>
+  );
+}
@@ -1,8 +1,10 @@
 import { createClient } from "@/lib/supabase/server";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { PageHeader } from "@/components/page-header";
-import type { MaterialInventory } from "@/types/stock";
+import type { MaterialInventory, PurchaseOrder } from "@/types/stock";
 import { RestockClient } from "./restock-client";
+import { ReceivePurchaseOrderClient } from "./receive-po-client";
+import { getStockForecast } from "@/lib/stock-forecast";
 
 export const dynamic = "force-dynamic";
 
@@ -16,7 +18,36 @@ async function getMaterials(): Promise<MaterialInventory[]> {
   return data || [];
 }
 
-export default async function StockRestockPage() {
+async function getOpenPurchaseOrders(): Promise<PurchaseOrder[]> {
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from("purchase_orders")
+    .select(
+      `
+      *,
+      supplier:suppliers(name),
+      items:purchase_order_items(
+        id,
+        purchase_order_id,
+        material_id,
+        qty_ordered,
+        qty_received,
+        unit_cost,
+        material:materials_inventory(name, unit)
+      )
+    `
+    )
+    .in("status", ["sent", "partially_received"])
+    .order("expected_date", { ascending: true, nullsFirst: false });
+  if (error) {
+    console.error("Error fetching purchase orders:", error);
+    return [];
+  }
+  return (data || []) as unknown as PurchaseOrder[];
+}
+
+export default async function StockRestockPage({ searchParams }: { searchParams?: Promise<{ po?: string }> }) {
+  const params = (await searchParams) || {};
   const supabase = await createClient();
   const {
     data: { user },
@@ -41,17 +72,29 @@ export default async function StockRestockPage() {
     );
   }
 
-  const materials = await getMaterials();
+  const [materials, purchaseOrders, forecast] = await Promise.all([
+    getMaterials(),
+    getOpenPurchaseOrders(),
+    getStockForecast(supabase),
+  ]);
 
   return (
     <div className="space-y-6">
-      <PageHeader title="Restock" subtitle="Batch restock materials (manual entry or PDF upload)." />
+      <PageHeader title="Restock" subtitle="Receive purchase orders or batch restock materials (manual entry or PDF upload)." />
+      <Card>
+        <CardHeader>
+          <CardTitle>Receive Against Purchase Order</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ReceivePurchaseOrderClient purchaseOrders={purchaseOrders} initialPurchaseOrderId={params.po || null} />
+        </CardContent>
+      </Card>
       <Card>
         <CardHeader>
           <CardTitle>Restock Materials</CardTitle>
         </CardHeader>
         <CardContent>
-          <RestockClient materials={materials} />
+          <RestockClient materials={materials} forecast={forecast} />
         </CardContent>
       </Card>
     </div>
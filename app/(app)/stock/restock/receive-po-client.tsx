@@ -0,0 +1,162 @@
+"use client";
+
+import { useMemo, useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { PURCHASE_ORDER_STATUS_LABELS, type PurchaseOrder } from "@/types/stock";
+import { receivePurchaseOrderAction } from "../actions";
+
+export function ReceivePurchaseOrderClient(props: { purchaseOrders: PurchaseOrder[]; initialPurchaseOrderId: string | null }) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [poId, setPoId] = useState(
+    props.initialPurchaseOrderId && props.purchaseOrders.some((po) => po.id === props.initialPurchaseOrderId)
+      ? props.initialPurchaseOrderId
+      : ""
+  );
+  const [qtyByItemId, setQtyByItemId] = useState<Record<string, string>>({});
+  const [notes, setNotes] = useState("");
+
+  const po = useMemo(() => props.purchaseOrders.find((p) => p.id === poId) || null, [props.purchaseOrders, poId]);
+  const openItems = (po?.items || []).filter((item) => Number(item.qty_received) < Number(item.qty_ordered));
+
+  function selectPo(id: string) {
+    setPoId(id);
+    setQtyByItemId({});
+    setNotes("");
+  }
+
+  function fillRemaining() {
+    const next: Record<string, string> = {};
+    for (const item of openItems) {
+      next[item.id] = String(Number(item.qty_ordered) - Number(item.qty_received));
+    }
+    setQtyByItemId(next);
+  }
+
+  function receive() {
+    if (!po) return;
+    const items: Array<{ itemId: string; materialId: string; quantity: number }> = [];
+    for (const item of openItems) {
+      const qty = Number(qtyByItemId[item.id]);
+      if (Number.isNaN(qty) || qty <= 0) continue;
+      items.push({ itemId: item.id, materialId: item.material_id, quantity: qty });
+    }
+
+    if (items.length === 0) {
+      toast.error("Enter at least one received quantity");
+      return;
+    }
+
+    const formData = new FormData();
+    formData.set("purchaseOrderId", po.id);
+    if (notes.trim()) formData.set("notes", notes.trim());
+    formData.set("items", JSON.stringify(items));
+
+    startTransition(async () => {
+      const result = await receivePurchaseOrderAction(formData);
+      if (result?.error) {
+        toast.error(result.error);
+        return;
+      }
+      const status = (result as { status?: string | null }).status;
+      toast.success(status === "received" ? `${po.po_number} fully received` : `${po.po_number} partially received`);
+      setQtyByItemId({});
+      setNotes("");
+      if (status === "received") setPoId("");
+      router.refresh();
+    });
+  }
+
+  if (props.purchaseOrders.length === 0) {
+    return <p className="text-sm text-muted-foreground">No purchase orders are waiting for delivery.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col gap-3 md:flex-row md:items-end md:justify-between">
+        <div className="flex flex-col gap-3 md:flex-row md:items-end">
+          <div className="grid gap-1">
+            <span className="text-xs text-muted-foreground">Purchase Order</span>
+            <Select value={poId} onValueChange={selectPo}>
+              <SelectTrigger className="md:w-80">
+                <SelectValue placeholder="Select purchase order..." />
+              </SelectTrigger>
+              <SelectContent>
+                {props.purchaseOrders.map((p) => (
+                  <SelectItem key={p.id} value={p.id}>
+                    {p.po_number} · {p.supplier?.name || "—"} ({PURCHASE_ORDER_STATUS_LABELS[p.status]})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid gap-1">
+            <span className="text-xs text-muted-foreground">Notes</span>
+            <Input placeholder="Optional (delivery note #)" className="md:w-72" value={notes} onChange={(e) => setNotes(e.target.value)} />
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={fillRemaining} disabled={!po || isPending}>
+            Fill Remaining
+          </Button>
+          <Button onClick={receive} disabled={!po || isPending}>
+            {isPending ? "Receiving..." : "Receive"}
+          </Button>
+        </div>
+      </div>
+
+      {po && (
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Material</TableHead>
+                <TableHead className="text-right">Ordered</TableHead>
+                <TableHead className="text-right">Received</TableHead>
+                <TableHead className="text-right">Open</TableHead>
+                <TableHead className="text-right">Receive Now</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {(po.items || []).map((item) => {
+                const open = Number(item.qty_ordered) - Number(item.qty_received);
+                return (
+                  <TableRow key={item.id}>
+                    <TableCell className="font-medium">
+                      {item.material?.name || "—"} <span className="text-xs text-muted-foreground">{item.material?.unit || ""}</span>
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">{Number(item.qty_ordered)}</TableCell>
+                    <TableCell className="text-right tabular-nums">{Number(item.qty_received)}</TableCell>
+                    <TableCell className="text-right tabular-nums">{open > 0 ? open : "—"}</TableCell>
+                    <TableCell className="text-right">
+                      {open > 0 ? (
+                        <Input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          max={open}
+                          className="w-32 ml-auto"
+                          value={qtyByItemId[item.id] ?? ""}
+                          onChange={(e) => setQtyByItemId((prev) => ({ ...prev, [item.id]: e.target.value }))}
+                          placeholder="0.00"
+                          disabled={isPending}
+                        />
+                      ) : (
+                        <span className="text-xs text-muted-foreground">Complete</span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
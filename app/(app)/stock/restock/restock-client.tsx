@@ -1,7 +1,7 @@
 "use client";
 
 import { useMemo, useRef, useState, useTransition } from "react";
-import type { MaterialInventory } from "@/types/stock";
+import type { MaterialForecast, MaterialInventory } from "@/types/stock";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import {
@@ -16,6 +16,7 @@ import { toast } from "sonner";
 import { useRouter } from "next/navigation";
 import { parseRestockPdfAction, restockBatchAction } from "../actions";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { REORDER_COVER_DAYS, REORDER_LEAD_TIME_DAYS } from "@/lib/stock-forecast";
 
 type Row = MaterialInventory & {
   isCritical: boolean;
@@ -30,7 +31,7 @@ type ParsedPdfRow = {
   confidence: number;
 };
 
-export function RestockClient(props: { materials: MaterialInventory[] }) {
+export function RestockClient(props: { materials: MaterialInventory[]; forecast: Record<string, MaterialForecast> }) {
   const router = useRouter();
   const [isApplying, startApply] = useTransition();
   const [isParsing, startParse] = useTransition();
@@ -63,6 +64,21 @@ export function RestockClient(props: { materials: MaterialInventory[] }) {
     return count;
   }, [qtyByMaterialId]);
 
+  const suggestionCount = useMemo(
+    () => Object.values(props.forecast).filter((f) => f.suggested_reorder_qty > 0).length,
+    [props.forecast]
+  );
+
+  function applySuggestions() {
+    setQtyByMaterialId((prev) => {
+      const next: Record<string, string> = { ...prev };
+      for (const f of Object.values(props.forecast)) {
+        if (f.suggested_reorder_qty > 0) next[f.material_id] = String(f.suggested_reorder_qty);
+      }
+      return next;
+    });
+  }
+
   function setQty(materialId: string, value: string) {
     setQtyByMaterialId((prev) => ({ ...prev, [materialId]: value }));
   }
@@ -259,6 +275,9 @@ export function RestockClient(props: { materials: MaterialInventory[] }) {
           </div>
         </div>
         <div className="flex gap-2">
+          <Button variant="outline" onClick={applySuggestions} disabled={isApplying || isParsing || suggestionCount === 0}>
+            Use Suggestions ({suggestionCount})
+          </Button>
           <Button variant="outline" onClick={clearAll} disabled={isApplying || isParsing}>
             Clear
           </Button>
@@ -278,18 +297,24 @@ export function RestockClient(props: { materials: MaterialInventory[] }) {
               <TableHead>Min (Critical)</TableHead>
               <TableHead>Restock (Low)</TableHead>
               <TableHead>Supplier</TableHead>
+              <TableHead title="Available stock (on hand minus reserved) at the current usage rate">Days of Cover</TableHead>
+              <TableHead title={`Covers ${REORDER_LEAD_TIME_DAYS} days lead time plus ${REORDER_COVER_DAYS} days of usage, net of reservations and open POs`}>
+                Suggested
+              </TableHead>
               <TableHead className="text-right">Restock Amount</TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
             {rows.length === 0 ? (
               <TableRow>
-                <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                <TableCell colSpan={9} className="text-center py-8 text-muted-foreground">
                   No materials found.
                 </TableCell>
               </TableRow>
             ) : (
-              rows.map((m) => (
+              rows.map((m) => {
+                const f = props.forecast[m.id];
+                return (
                 <TableRow key={m.id}>
                   <TableCell className="font-medium">
                     {m.name}
@@ -300,6 +325,18 @@ export function RestockClient(props: { materials: MaterialInventory[] }) {
                   <TableCell className="text-muted-foreground">{m.minimum_level}</TableCell>
                   <TableCell className="text-muted-foreground">{m.restock_threshold}</TableCell>
                   <TableCell>{m.supplier || "—"}</TableCell>
+                  <TableCell className={f?.days_of_cover !== null && f?.days_of_cover !== undefined && f.days_of_cover < REORDER_LEAD_TIME_DAYS ? "text-destructive font-medium" : "text-muted-foreground"}>
+                    {f?.days_of_cover === null || f?.days_of_cover === undefined ? "—" : `${f.days_of_cover}d`}
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {f && f.suggested_reorder_qty > 0 ? (
+                      <button type="button" className="underline underline-offset-4" onClick={() => setQty(m.id, String(f.suggested_reorder_qty))}>
+                        {f.suggested_reorder_qty}
+                      </button>
+                    ) : (
+                      "—"
+                    )}
+                  </TableCell>
                   <TableCell className="text-right">
                     <Input
                       type="number"
@@ -313,7 +350,8 @@ export function RestockClient(props: { materials: MaterialInventory[] }) {
                     />
                   </TableCell>
                 </TableRow>
-              ))
+                );
+              })
             )}
           </TableBody>
         </Table>
@@ -0,0 +1,107 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import { createClient } from "@/lib/supabase/server";
+import { setTaskCompleted, snoozeTask } from "@/lib/tasks";
+
+const createTaskSchema = z.object({
+  title: z.string().trim().min(1, "Title is required").max(200),
+  notes: z.string().trim().max(2000).optional(),
+  dueAt: z.string().datetime({ offset: true, message: "Pick a due date and time" }),
+  assigneeUserId: z.string().uuid().nullable(),
+  leadDbId: z.string().uuid().optional(),
+  jobId: z.string().uuid().optional(),
+});
+
+const snoozeTaskSchema = z.object({
+  taskId: z.string().uuid(),
+  minutes: z.number().int().min(1).max(60 * 24 * 30),
+});
+
+async function requireUser() {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return { error: "Not authenticated" as const };
+  return { supabase, user };
+}
+
+function revalidateTaskPaths(task?: { lead_db_id: string | null; job_id: string | null } | null) {
+  revalidatePath("/tasks");
+  revalidatePath("/dashboard");
+  if (task?.lead_db_id) revalidatePath(`/leads/${task.lead_db_id}`);
+  if (task?.job_id) revalidatePath(`/jobs/${task.job_id}`);
+}
+
+export async function createTaskAction(
+  input: z.input<typeof createTaskSchema>
+): Promise<{ error: string } | { success: true }> {
+  const auth = await requireUser();
+  if ("error" in auth) return { error: auth.error };
+
+  const parsed = createTaskSchema.safeParse(input);
+  if (!parsed.success) return { error: parsed.error.issues[0]?.message || "Invalid input" };
+
+  const row = {
+    title: parsed.data.title,
+    notes: parsed.data.notes || null,
+    due_at: new Date(parsed.data.dueAt).toISOString(),
+    assignee_user_id: parsed.data.assigneeUserId,
+    lead_db_id: parsed.data.leadDbId ?? null,
+    job_id: parsed.data.jobId ?? null,
+    source: "manual",
+    created_by: auth.user.id,
+  };
+
+  const { error } = await auth.supabase.from("tasks").insert(row);
+  if (error) return { error: error.message || "Failed to create task" };
+
+  revalidateTaskPaths(row);
+  return { success: true };
+}
+
+export async function setTaskCompletedAction(
+  taskId: string,
+  completed: boolean
+): Promise<{ error: string } | { success: true }> {
+  const auth = await requireUser();
+  if ("error" in auth) return { error: auth.error };
+  if (!z.string().uuid().safeParse(taskId).success) return { error: "Invalid task" };
+
+  const result = await setTaskCompleted(auth.supabase, taskId, auth.user.id, completed);
+  if (result.error) return { error: result.error };
+
+  const { data: task } = await auth.supabase.from("tasks").select("lead_db_id, job_id").eq("id", taskId).maybeSingle();
+  revalidateTaskPaths(task);
+  return { success: true };
+}
+
+export async function snoozeTaskAction(taskId: string, minutes: number): Promise<{ error: string } | { success: true }> {
+  const auth = await requireUser();
+  if ("error" in auth) return { error: auth.error };
+
+  const parsed = snoozeTaskSchema.safeParse({ taskId, minutes });
+  if (!parsed.success) return { error: parsed.error.issues[0]?.message || "Invalid input" };
+
+  const result = await snoozeTask(auth.supabase, parsed.data.taskId, parsed.data.minutes);
+  if (result.error) return { error: result.error };
+
+  const { data: task } = await auth.supabase.from("tasks").select("lead_db_id, job_id").eq("id", taskId).maybeSingle();
+  revalidateTaskPaths(task);
+  return { success: true };
+}
+
+export async function deleteTaskAction(taskId: string): Promise<{ error: string } | { success: true }> {
+  const auth = await requireUser();
+  if ("error" in auth) return { error: auth.error };
+  if (!z.string().uuid().safeParse(taskId).success) return { error: "Invalid task" };
+
+  const { data, error } = await auth.supabase.from("tasks").delete().eq("id", taskId).select("lead_db_id, job_id");
+  if (error) return { error: error.message || "Failed to delete task" };
+  if (!data || data.length === 0) return { error: "Task not found or not yours to delete" };
+
+  revalidateTaskPaths(data[0]);
+  return { success: true };
+}
@@ -0,0 +1,93 @@
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { PageHeader } from "@/components/page-header";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { TasksPanel, type TaskStaffMember } from "@/components/tasks-panel";
+import { getViewer } from "@/lib/viewer";
+import { endOfLocalDay, getTeamHours } from "@/lib/availability";
+import { getTasks } from "@/lib/tasks";
+
+export const dynamic = "force-dynamic";
+
+interface TasksPageProps {
+  searchParams: Promise<{ scope?: string }>;
+}
+
+export default async function TasksPage({ searchParams }: TasksPageProps) {
+  const { supabase, user, userRole } = await getViewer();
+
+  if (!user) {
+    redirect("/login");
+  }
+
+  const { scope } = await searchParams;
+  const showAll = scope === "all";
+  const isAdmin = userRole === "ceo" || userRole === "admin";
+  const now = Date.now();
+  const completedSince = new Date(now - 7 * 24 * 60 * 60 * 1000).toISOString();
+
+  const [teamHours, tasks, { data: profiles }] = await Promise.all([
+    getTeamHours(supabase),
+    getTasks(supabase, { assigneeUserId: showAll ? undefined : user.id, completedSince, limit: 500 }),
+    supabase.from("profiles").select("user_id, full_name, email").order("full_name", { ascending: true }),
+  ]);
+
+  const staff: TaskStaffMember[] = (profiles || []).map((p) => ({
+    id: p.user_id as string,
+    name: (p.full_name || p.email || "Unknown") as string,
+  }));
+
+  const todayEnds = endOfLocalDay(teamHours.timezone, now);
+  const open = tasks.filter((t) => !t.completed_at);
+  const overdue = open.filter((t) => Date.parse(t.due_at) < now);
+  const today = open.filter((t) => Date.parse(t.due_at) >= now && Date.parse(t.due_at) < todayEnds);
+  const upcoming = open.filter((t) => Date.parse(t.due_at) >= todayEnds);
+  const completed = tasks
+    .filter((t) => !!t.completed_at)
+    .sort((a, b) => (b.completed_at as string).localeCompare(a.completed_at as string));
+
+  const sections = [
+    { title: `Overdue (${overdue.length})`, tasks: overdue, empty: "Nothing overdue.", allowCreate: false },
+    { title: `Today (${today.length})`, tasks: today, empty: "Nothing else due today.", allowCreate: true },
+    { title: `Upcoming (${upcoming.length})`, tasks: upcoming, empty: "Nothing scheduled.", allowCreate: false },
+    { title: "Completed in the last 7 days", tasks: completed, empty: "Nothing completed yet.", allowCreate: false },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <PageHeader
+        title="Tasks"
+        subtitle="Follow-ups on leads and jobs. Reminders are pushed when a task comes due."
+        actions={
+          <div className="flex gap-2 text-sm">
+            <Link href="/tasks" className={showAll ? "text-muted-foreground" : "font-medium underline underline-offset-4"}>
+              Mine
+            </Link>
+            <Link href="/tasks?scope=all" className={showAll ? "font-medium underline underline-offset-4" : "text-muted-foreground"}>
+              Everyone
+            </Link>
+          </div>
+        }
+      />
+
+      {sections.map((section) => (
+        <Card key={section.title}>
+          <CardHeader>
+            <CardTitle>{section.title}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <TasksPanel
+              tasks={section.tasks}
+              staff={staff}
+              currentUserId={user.id}
+              isAdmin={isAdmin}
+              showContext
+              allowCreate={section.allowCreate}
+              emptyText={section.empty}
+            />
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
@@ -1,28 +1,10 @@
 "use server";
 
 import { revalidatePath } from "next/cache";
-import { headers } from "next/headers";
 import { createClient } from "@/lib/supabase/server";
+import { getAppBaseUrl } from "@/lib/app-url";
 import { z } from "zod";
 
-async function getAppBaseUrl() {
-  const explicit = process.env.NEXT_PUBLIC_BASE_URL;
-  if (explicit) return explicit.replace(/\/+$/, "");
-  const vercel = process.env.VERCEL_URL;
-  if (vercel) return `https://${vercel}`.replace(/\/+$/, "");
-  try {
-    const h = await headers();
-    const host = h.get("x-forwarded-host") || h.get("host");
-    if (host) {
-      const proto = h.get("x-forwarded-proto") || "https";
-      return `${proto}://${host}`.replace(/\/+$/, "");
-    }
-  } catch {
-  }
-  if (process.env.NODE_ENV === "development") return "http://localhost:3000";
-  return null;
-}
-
 const updateUserSchema = z.object({
   userId: z.string().uuid(),
   fullName: z.string().min(1).max(255),
@@ -85,6 +67,99 @@ export async function updateUserAction(
   revalidatePath("/users");
 }
 
+const availabilityTimeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Times must be HH:MM");
+const availabilityDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Leave dates are required");
+
+const updateUserAvailabilitySchema = z.object({
+  userId: z.string().uuid(),
+  isAway: z.boolean(),
+  workingHours: z
+    .array(
+      z
+        .object({ day: z.number().int().min(0).max(6), start: availabilityTimeSchema, end: availabilityTimeSchema })
+        .refine((day) => day.start < day.end, "Working hours must end after they start")
+    )
+    .nullable(),
+  leavePeriods: z
+    .array(
+      z
+        .object({
+          starts_on: availabilityDateSchema,
+          ends_on: availabilityDateSchema,
+          note: z.string().trim().max(200).nullable(),
+        })
+        .refine((period) => period.starts_on <= period.ends_on, "Leave must end on or after the day it starts")
+    )
+    .max(50),
+});
+
+export async function updateUserAvailabilityAction(
+  formData: FormData
+): Promise<{ error?: string } | void> {
+  const useTeamHours = formData.get("useTeamHours") === "on";
+  const leaveStarts = formData.getAll("leaveStartsOn").map(String);
+  const leaveEnds = formData.getAll("leaveEndsOn").map(String);
+  const leaveNotes = formData.getAll("leaveNote").map(String);
+
+  const rawFormData = {
+    userId: formData.get("userId") as string,
+    isAway: formData.get("isAway") === "on",
+    workingHours: useTeamHours
+      ? null
+      : [0, 1, 2, 3, 4, 5, 6]
+          .filter((day) => formData.get(`works_${day}`) === "on")
+          .map((day) => ({
+            day,
+            start: String(formData.get(`start_${day}`) ?? ""),
+            end: String(formData.get(`end_${day}`) ?? ""),
+          })),
+    leavePeriods: leaveStarts.map((startsOn, index) => ({
+      starts_on: startsOn,
+      ends_on: leaveEnds[index] || startsOn,
+      note: leaveNotes[index]?.trim() || null,
+    })),
+  };
+
+  const result = updateUserAvailabilitySchema.safeParse(rawFormData);
+  if (!result.success) {
+    return {
+      error: result.error.issues[0]?.message || "Invalid input",
+    };
+  }
+
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return { error: "Not authenticated" };
+  }
+
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("role")
+    .eq("user_id", user.id)
+    .single();
+
+  if (!profile || (profile.role !== "ceo" && profile.role !== "admin")) {
+    return { error: "Unauthorized" };
+  }
+
+  const { error: updateError } = await supabase
+    .from("profiles")
+    .update({
+      is_away: result.data.isAway,
+      working_hours: result.data.workingHours,
+      leave_periods: [...result.data.leavePeriods].sort((a, b) => a.starts_on.localeCompare(b.starts_on)),
+    })
+    .eq("user_id", result.data.userId);
+
+  if (updateError) {
+    return { error: updateError.message || "Failed to update availability" };
+  }
+
+  revalidatePath("/users");
+  revalidatePath("/leads");
+}
+
 const updateUserPasswordSchema = z.object({
   userId: z.string().uuid(),
   password: z.string().min(6, "Password must be at least 6 characters"),
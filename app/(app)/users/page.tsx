@@ -5,6 +5,8 @@ import { UsersTableClient } from "./users-table-client";
 import { Button } from "@/components/ui/button";
 import Link from "next/link";
 import { PageHeader } from "@/components/page-header";
+import { getAvailabilityStatus, getTeamHours, normalizeProfileAvailability } from "@/lib/availability";
+import type { AvailabilityStatus, LeavePeriod, TeamHours, WorkingDay } from "@/types/availability";
 
 interface Profile {
   user_id: string;
@@ -13,6 +15,10 @@ interface Profile {
   phone: string | null;
   role: string;
   created_at: string;
+  is_away: boolean;
+  working_hours: WorkingDay[] | null;
+  leave_periods: LeavePeriod[];
+  availability_status: AvailabilityStatus;
 }
 
 async function getCurrentUserRole(): Promise<string | null> {
@@ -29,11 +35,11 @@ async function getCurrentUserRole(): Promise<string | null> {
   return data?.role || null;
 }
 
-async function getUsers(): Promise<Profile[]> {
+async function getUsers(teamHours: TeamHours): Promise<Profile[]> {
   const supabase = await createClient();
   const { data, error } = await supabase
     .from("profiles")
-    .select("user_id, full_name, email, phone, role, created_at")
+    .select("user_id, full_name, email, phone, role, created_at, is_away, working_hours, leave_periods")
     .order("created_at", { ascending: false });
 
   if (error) {
@@ -41,7 +47,22 @@ async function getUsers(): Promise<Profile[]> {
     return [];
   }
 
-  return data || [];
+  const now = Date.now();
+  return (data || []).map((row) => {
+    const availability = normalizeProfileAvailability(row);
+    return {
+      user_id: row.user_id,
+      full_name: row.full_name,
+      email: row.email,
+      phone: row.phone,
+      role: row.role,
+      created_at: row.created_at,
+      is_away: availability.is_away,
+      working_hours: availability.working_hours,
+      leave_periods: availability.leave_periods,
+      availability_status: getAvailabilityStatus(availability, teamHours, now),
+    };
+  });
 }
 
 export default async function UsersPage() {
@@ -51,7 +72,8 @@ export default async function UsersPage() {
     redirect("/dashboard");
   }
 
-  const users = await getUsers();
+  const teamHours = await getTeamHours(await createClient());
+  const users = await getUsers(teamHours);
 
   return (
     <div className="space-y-6">
@@ -71,7 +93,7 @@ export default async function UsersPage() {
           <CardTitle>Users List</CardTitle>
         </CardHeader>
         <CardContent>
-          <UsersTableClient initialUsers={users} currentUserRole={userRole} />
+          <UsersTableClient initialUsers={users} currentUserRole={userRole} teamHours={teamHours} />
         </CardContent>
       </Card>
     </div>
@@ -9,6 +9,7 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { UsersTableEdit } from "./users-table-edit";
+import type { AvailabilityStatus, LeavePeriod, TeamHours, WorkingDay } from "@/types/availability";
 
 interface Profile {
   user_id: string;
@@ -17,14 +18,19 @@ interface Profile {
   phone: string | null;
   role: string;
   created_at: string;
+  is_away: boolean;
+  working_hours: WorkingDay[] | null;
+  leave_periods: LeavePeriod[];
+  availability_status: AvailabilityStatus;
 }
 
 interface UsersTableClientProps {
   initialUsers: Profile[];
   currentUserRole: string | null;
+  teamHours: TeamHours;
 }
 
-export function UsersTableClient({ initialUsers, currentUserRole }: UsersTableClientProps) {
+export function UsersTableClient({ initialUsers, currentUserRole, teamHours }: UsersTableClientProps) {
   return (
     <div className="space-y-4">
       <div className="sm:hidden text-xs text-muted-foreground">Swipe left/right to see more</div>
@@ -52,6 +58,7 @@ export function UsersTableClient({ initialUsers, currentUserRole }: UsersTableCl
                   <UsersTableEdit
                     key={user.user_id}
                     user={user}
+                    teamHours={teamHours}
                     canDelete={currentUserRole === "ceo" || currentUserRole === "admin"}
                   />
                 ))
@@ -4,6 +4,8 @@ import { useState, useTransition } from "react";
 import { TableCell, TableRow } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import {
   Select,
   SelectContent,
@@ -13,8 +15,22 @@ import {
 } from "@/components/ui/select";
 import { toast } from "sonner";
 import { useRouter } from "next/navigation";
-import { deleteUserAction, updateUserAction, getInviteLinkAction, updateUserPasswordAction } from "./actions";
-import { LinkIcon, KeyRound } from "lucide-react";
+import {
+  deleteUserAction,
+  updateUserAction,
+  getInviteLinkAction,
+  updateUserPasswordAction,
+  updateUserAvailabilityAction,
+} from "./actions";
+import { LinkIcon, KeyRound, CalendarClock, Plus, Trash2 } from "lucide-react";
+import {
+  AVAILABILITY_STATUS_LABELS,
+  WEEKDAY_LABELS,
+  type AvailabilityStatus,
+  type LeavePeriod,
+  type TeamHours,
+  type WorkingDay,
+} from "@/types/availability";
 
 interface Profile {
   user_id: string;
@@ -23,17 +39,207 @@ interface Profile {
   phone: string | null;
   role: string;
   created_at: string;
+  is_away: boolean;
+  working_hours: WorkingDay[] | null;
+  leave_periods: LeavePeriod[];
+  availability_status: AvailabilityStatus;
 }
 
 interface UsersTableEditProps {
   user: Profile;
+  teamHours: TeamHours;
   canDelete?: boolean;
 }
 
-export function UsersTableEdit({ user: initialUser, canDelete = false }: UsersTableEditProps) {
+const availabilityBadgeClassName: Record<AvailabilityStatus, string> = {
+  available: "bg-green-100 text-green-800 dark:bg-green-950 dark:text-green-300",
+  off_shift: "bg-muted text-muted-foreground",
+  on_leave: "bg-amber-100 text-amber-800 dark:bg-amber-950 dark:text-amber-300",
+  away: "bg-amber-100 text-amber-800 dark:bg-amber-950 dark:text-amber-300",
+};
+
+interface AvailabilityDialogProps {
+  user: Profile;
+  teamHours: TeamHours;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function AvailabilityDialog({ user, teamHours, open, onOpenChange }: AvailabilityDialogProps) {
+  const router = useRouter();
+  const [useTeamHours, setUseTeamHours] = useState(user.working_hours === null);
+  const [leave, setLeave] = useState<LeavePeriod[]>(user.leave_periods);
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const week = user.working_hours ?? teamHours.working_days.map((day) => ({ day, start: teamHours.start_time, end: teamHours.end_time }));
+
+  function handleSubmit(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    setError(null);
+    const formData = new FormData(e.currentTarget);
+    formData.set("userId", user.user_id);
+
+    startTransition(async () => {
+      const result = await updateUserAvailabilityAction(formData);
+      if (result && "error" in result) {
+        setError(result.error ?? "Failed to update availability");
+        toast.error(result.error);
+      } else {
+        onOpenChange(false);
+        toast.success("Availability updated");
+        router.refresh();
+      }
+    });
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Availability · {user.full_name || user.email || "User"}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-5">
+          <label className="flex items-start gap-2 text-sm">
+            <input type="checkbox" name="isAway" defaultChecked={user.is_away} className="mt-0.5 h-4 w-4" />
+            <span>
+              <span className="font-medium">Away</span>
+              <span className="block text-xs text-muted-foreground">
+                No new leads, no push notifications and their SLA breaches escalate straight away until switched off.
+              </span>
+            </span>
+          </label>
+
+          <div className="space-y-2">
+            <Label>Working hours ({teamHours.timezone})</Label>
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                name="useTeamHours"
+                checked={useTeamHours}
+                onChange={(e) => setUseTeamHours(e.target.checked)}
+                className="h-4 w-4"
+              />
+              Use team hours ({teamHours.start_time}–{teamHours.end_time},{" "}
+              {teamHours.working_days.map((day) => WEEKDAY_LABELS[day]).join(", ") || "no days"})
+            </label>
+            {!useTeamHours && (
+              <div className="space-y-2">
+                {WEEKDAY_LABELS.map((label, day) => {
+                  const current = week.find((d) => d.day === day);
+                  return (
+                    <div key={label} className="flex items-center gap-2">
+                      <label className="flex w-16 items-center gap-2 text-sm">
+                        <input type="checkbox" name={`works_${day}`} defaultChecked={!!current} className="h-4 w-4" />
+                        {label}
+                      </label>
+                      <Input
+                        type="time"
+                        name={`start_${day}`}
+                        defaultValue={current?.start ?? teamHours.start_time}
+                        aria-label={`${label} start`}
+                        className="w-28"
+                      />
+                      <span className="text-muted-foreground">–</span>
+                      <Input
+                        type="time"
+                        name={`end_${day}`}
+                        defaultValue={current?.end ?? teamHours.end_time}
+                        aria-label={`${label} end`}
+                        className="w-28"
+                      />
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Leave</Label>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setLeave((prev) => [...prev, { starts_on: "", ends_on: "", note: null }])}
+              >
+                <Plus className="mr-1 h-4 w-4" />
+                Add leave
+              </Button>
+            </div>
+            {leave.length === 0 ? (
+              <p className="text-xs text-muted-foreground">No leave booked.</p>
+            ) : (
+              leave.map((period, index) => (
+                <div key={index} className="flex flex-wrap items-center gap-2">
+                  <Input
+                    type="date"
+                    name="leaveStartsOn"
+                    value={period.starts_on}
+                    onChange={(e) =>
+                      setLeave((prev) => prev.map((p, i) => (i === index ? { ...p, starts_on: e.target.value } : p)))
+                    }
+                    aria-label="Leave starts"
+                    className="w-36"
+                    required
+                  />
+                  <span className="text-muted-foreground">to</span>
+                  <Input
+                    type="date"
+                    name="leaveEndsOn"
+                    value={period.ends_on}
+                    min={period.starts_on || undefined}
+                    onChange={(e) =>
+                      setLeave((prev) => prev.map((p, i) => (i === index ? { ...p, ends_on: e.target.value } : p)))
+                    }
+                    aria-label="Leave ends"
+                    className="w-36"
+                    required
+                  />
+                  <Input
+                    name="leaveNote"
+                    value={period.note ?? ""}
+                    onChange={(e) =>
+                      setLeave((prev) => prev.map((p, i) => (i === index ? { ...p, note: e.target.value } : p)))
+                    }
+                    placeholder="Note"
+                    className="min-w-[120px] flex-1"
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setLeave((prev) => prev.filter((_, i) => i !== index))}
+                    aria-label="Remove leave"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))
+            )}
+          </div>
+
+          {error && <p className="text-xs text-destructive">{error}</p>}
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isPending}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isPending}>
+              {isPending ? "Saving..." : "Save availability"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function UsersTableEdit({ user: initialUser, teamHours, canDelete = false }: UsersTableEditProps) {
   const router = useRouter();
   const [isEditing, setIsEditing] = useState(false);
   const [isChangingPassword, setIsChangingPassword] = useState(false);
+  const [isAvailabilityOpen, setIsAvailabilityOpen] = useState(false);
   const [fullName, setFullName] = useState(initialUser.full_name || "");
   const [phone, setPhone] = useState(initialUser.phone || "");
   const [role, setRole] = useState(initialUser.role);
@@ -245,9 +451,16 @@ export function UsersTableEdit({ user: initialUser, canDelete = false }: UsersTa
       <TableCell className="hidden sm:table-cell">{initialUser.email || "—"}</TableCell>
       <TableCell className="hidden md:table-cell">{initialUser.phone || "—"}</TableCell>
       <TableCell>
-        <span className="inline-flex items-center rounded-md bg-muted px-2 py-1 text-xs font-medium uppercase">
-          {initialUser.role}
-        </span>
+        <div className="flex flex-wrap items-center gap-1">
+          <span className="inline-flex items-center rounded-md bg-muted px-2 py-1 text-xs font-medium uppercase">
+            {initialUser.role}
+          </span>
+          <span
+            className={`inline-flex items-center rounded-md px-2 py-1 text-xs font-medium ${availabilityBadgeClassName[initialUser.availability_status]}`}
+          >
+            {AVAILABILITY_STATUS_LABELS[initialUser.availability_status]}
+          </span>
+        </div>
       </TableCell>
       <TableCell className="text-right">
         <div className="flex justify-end gap-2">
@@ -261,6 +474,16 @@ export function UsersTableEdit({ user: initialUser, canDelete = false }: UsersTa
           >
             <LinkIcon className="h-4 w-4" />
           </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => setIsAvailabilityOpen(true)}
+            disabled={isPending}
+            className="min-h-[44px] w-[44px]"
+            title="Availability"
+          >
+            <CalendarClock className="h-4 w-4" />
+          </Button>
           <Button
             variant="outline"
             size="icon"
@@ -292,6 +515,10 @@ export function UsersTableEdit({ user: initialUser, canDelete = false }: UsersTa
             </Button>
           ) : null}
         </div>
+        {/* Mounted only while open so each opening starts from the saved availability */}
+        {isAvailabilityOpen && (
+          <AvailabilityDialog user={initialUser} teamHours={teamHours} open onOpenChange={setIsAvailabilityOpen} />
+        )}
       </TableCell>
     </TableRow>
   );
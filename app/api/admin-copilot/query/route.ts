@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
-import { createClient as createAdminClient } from "@supabase/supabase-js";
+import { getAdminSupabase } from "@/lib/supabase/admin";
 
 type Entity = "lead" | "job" | "wa_conversation" | "wa_message" | "stock";
 type Action = "search" | "get";
@@ -13,13 +13,6 @@ function jsonError(status: number, message: string) {
   return NextResponse.json({ success: false, error: message }, { status });
 }
 
-function getServiceClient() {
-  const url = process.env.SUPABASE_URL || process.env.NEXT_PUBLIC_SUPABASE_URL;
-  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
-  if (!url || !key) return null;
-  return createAdminClient(url, key, { auth: { autoRefreshToken: false, persistSession: false } });
-}
-
 function requireAdminCopilotSecret(request: NextRequest) {
   const expected = process.env.ADMIN_COPILOT_SECRET;
   if (!expected) return { ok: false as const, status: 500, error: "Missing ADMIN_COPILOT_SECRET" };
@@ -45,7 +38,7 @@ function safeString(input: unknown) {
 }
 
 async function getRoleAndProfileIdByEmail(
-  sb: NonNullable<ReturnType<typeof getServiceClient>>,
+  sb: NonNullable<ReturnType<typeof getAdminSupabase>>,
   email?: string
 ): Promise<{ role: Role; profile_id: string | null }> {
   const normalized = safeString(email);
@@ -70,7 +63,7 @@ export async function POST(request: NextRequest) {
   const auth = requireAdminCopilotSecret(request);
   if (!auth.ok) return jsonError(auth.status, auth.error);
 
-  const sb = getServiceClient();
+  const sb = getAdminSupabase();
   if (!sb) return jsonError(500, "Missing SUPABASE_URL (or NEXT_PUBLIC_SUPABASE_URL) or SUPABASE_SERVICE_ROLE_KEY");
 
   let body: unknown;
@@ -1,13 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
-import { createClient } from "@supabase/supabase-js";
-
-function getAdminSupabase() {
-  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
-  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
-  if (!url || !key) return null;
-  return createClient(url, key, { auth: { persistSession: false } });
-}
+import { getAdminSupabase } from "@/lib/supabase/admin";
+import { leadRoutingColumns, leadRoutingEvent, routeLead } from "@/lib/lead-routing";
 
 function assertIngestAuthorized(request: NextRequest): { ok: true } | { error: string; status: number } {
   const secret = process.env.LEADS_INGEST_SECRET;
@@ -32,6 +26,7 @@ const leadIngestSchema = z
     email: z.string().email().optional(),
     phone: z.string().min(1).optional(),
     organization: z.string().min(1).optional(),
+    source: z.string().min(1).optional(),
 
     has_requested_quote: z.boolean().optional(),
     has_booked_call: z.boolean().optional(),
@@ -106,13 +101,7 @@ export async function POST(request: NextRequest) {
     last_modified_by: "system:lead-ingest-api",
   };
 
-  // Auto-assign new leads to Etienne Viljoen (CEO)
-  // user_id: a3c426f6-0695-45b4-a307-aedf930de925
-  if (!existing) {
-    update.assigned_rep_id = "a3c426f6-0695-45b4-a307-aedf930de925";
-  }
-
-  for (const key of ["customer_name", "name", "email", "phone", "organization"] as const) {
+  for (const key of ["customer_name", "name", "email", "phone", "organization", "source"] as const) {
     const value = incoming[key];
     if (typeof value === "string" && value.trim()) update[key] = value.trim();
   }
@@ -125,6 +114,10 @@ export async function POST(request: NextRequest) {
   if (isPlainRecord(incoming.booking_data)) update.booking_data = nextBooking;
   if (isPlainRecord(incoming.question_data)) update.question_data = nextQuestion;
 
+  // New leads go through the routing rules; when nobody is available the insert trigger picks a rep
+  const routing = existing ? null : await routeLead(supabase, update);
+  if (routing) Object.assign(update, leadRoutingColumns(routing, nowIso));
+
   const { data: upserted, error: upsertError } = await supabase
     .from("leads")
     .upsert(update, { onConflict: "lead_id", ignoreDuplicates: false })
@@ -135,6 +128,10 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: upsertError?.message || "Failed to upsert lead" }, { status: 500 });
   }
 
+  if (routing) {
+    await supabase.from("lead_events").insert(leadRoutingEvent(upserted.id, routing, null));
+  }
+
   // Fire webhook for new/updated lead if configured
   // Prioritize NEW_LEAD_WEBHOOK_URL env var, otherwise fallback to hardcoded n8n webhook
   const webhookUrl = process.env.NEW_LEAD_WEBHOOK_URL || "https://dockerfile-1n82.onrender.com/webhook/supabase/lead-assigned";
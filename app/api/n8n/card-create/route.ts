@@ -1,6 +1,7 @@
 import { createClient } from "@/lib/supabase/server";
 import { NextRequest, NextResponse } from "next/server";
 import { revalidatePath } from "next/cache";
+import { getProductionBoardSettings, trelloEnabled } from "@/lib/production-board";
 
 function isUuid(value: string): boolean {
   return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value);
@@ -84,6 +85,35 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: "Set Quote Approved to start production" }, { status: 400 });
   }
 
+  // Admin only: start the job on the native board without asking n8n for a card
+  const boardSettings = await getProductionBoardSettings(supabase);
+  if (!trelloEnabled(boardSettings.mode)) {
+    const productionStage = lead.production_stage || "Orders Awaiting confirmation";
+    const { error: jobError } = await supabase.from("jobs").upsert(
+      {
+        id: jobId,
+        lead_id: lead.id,
+        production_stage: productionStage,
+        payment_status: lead.payment_status || "Pending",
+      },
+      { onConflict: "id" }
+    );
+    if (jobError) return NextResponse.json({ error: jobError.message }, { status: 500 });
+
+    await supabase.from("lead_events").insert({
+      lead_db_id: lead.id,
+      actor_user_id: actor.user.id,
+      event_type: "job_created",
+      payload: { jobId, trelloCardId: null, stage: productionStage, board_mode: boardSettings.mode },
+    });
+
+    revalidatePath(`/leads/${lead.lead_id}`);
+    revalidatePath("/leads");
+    revalidatePath("/jobs");
+
+    return NextResponse.json({ success: true, native: true });
+  }
+
   const webhookUrl = process.env.N8N_CARD_CREATE_WEBHOOK_URL || "https://dockerfile-1n82.onrender.com/webhook/create-trello-card";
 
   const payload = {
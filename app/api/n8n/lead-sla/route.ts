@@ -0,0 +1,26 @@
+import { NextRequest } from "next/server";
+import { getAdminSupabase } from "@/lib/supabase/admin";
+import { runLeadSlaEscalation } from "@/lib/lead-sla";
+
+function requireSecret(request: NextRequest) {
+  const expected = process.env.N8N_WEBHOOK_SECRET;
+  if (!expected) return { ok: false as const, status: 500, error: "Missing N8N_WEBHOOK_SECRET" };
+  const provided = request.headers.get("x-n8n-secret") || "";
+  if (!provided) return { ok: false as const, status: 401, error: "Missing secret" };
+  if (provided !== expected) return { ok: false as const, status: 403, error: "Invalid secret" };
+  return { ok: true as const };
+}
+
+// Scheduled from n8n every few minutes; safe to re-run, each breach notifies once per step
+export async function POST(request: NextRequest) {
+  const auth = requireSecret(request);
+  if (!auth.ok) return Response.json({ error: auth.error }, { status: auth.status });
+
+  const admin = getAdminSupabase();
+  if (!admin) return Response.json({ error: "Server configuration error" }, { status: 500 });
+
+  const result = await runLeadSlaEscalation(admin);
+  if ("error" in result) return Response.json({ error: result.error }, { status: 500 });
+
+  return Response.json(result);
+}
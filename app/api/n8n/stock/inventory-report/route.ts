@@ -1,12 +1,6 @@
 import { NextRequest } from "next/server";
-import { createClient as createAdminClient } from "@supabase/supabase-js";
-
-function getAdminClient() {
-  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
-  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
-  if (!url || !key) return null;
-  return createAdminClient(url, key, { auth: { autoRefreshToken: false, persistSession: false } });
-}
+import { getAdminSupabase } from "@/lib/supabase/admin";
+import { getStockForecast, REORDER_COVER_DAYS, REORDER_LEAD_TIME_DAYS } from "@/lib/stock-forecast";
 
 function requireSecret(request: NextRequest) {
   const expected = process.env.N8N_WEBHOOK_SECRET;
@@ -39,7 +33,7 @@ export async function GET(request: NextRequest) {
   const auth = requireSecret(request);
   if (!auth.ok) return Response.json({ error: auth.error }, { status: auth.status });
 
-  const admin = getAdminClient();
+  const admin = getAdminSupabase();
   if (!admin) return Response.json({ error: "Server configuration error" }, { status: 500 });
 
   const { searchParams } = new URL(request.url);
@@ -52,6 +46,8 @@ export async function GET(request: NextRequest) {
 
   if (error) return Response.json({ error: error.message }, { status: 500 });
 
+  const forecast = await getStockForecast(admin);
+
   const rows = (data || []).map((m) => ({
     id: m.id,
     name: m.name,
@@ -63,12 +59,20 @@ export async function GET(request: NextRequest) {
     updated_at: m.updated_at,
     is_low_stock: Number(m.qty_on_hand) <= Number(m.minimum_level),
     needs_restock: Number(m.qty_on_hand) <= Number(m.restock_threshold),
+    reserved: forecast[m.id]?.reserved ?? 0,
+    on_order: forecast[m.id]?.on_order ?? 0,
+    avg_daily_usage: forecast[m.id]?.avg_daily_usage ?? 0,
+    days_of_cover: forecast[m.id]?.days_of_cover ?? null,
+    suggested_reorder_qty: forecast[m.id]?.suggested_reorder_qty ?? 0,
   }));
 
   const summary = {
     total_materials: rows.length,
     low_stock_count: rows.filter((r) => r.is_low_stock).length,
     needs_restock_count: rows.filter((r) => r.needs_restock).length,
+    reorder_suggested_count: rows.filter((r) => r.suggested_reorder_qty > 0).length,
+    lead_time_days: REORDER_LEAD_TIME_DAYS,
+    cover_days: REORDER_COVER_DAYS,
   };
 
   if (format === "csv") {
@@ -84,6 +88,11 @@ export async function GET(request: NextRequest) {
         updated_at: r.updated_at,
         is_low_stock: r.is_low_stock ? 1 : 0,
         needs_restock: r.needs_restock ? 1 : 0,
+        reserved: r.reserved,
+        on_order: r.on_order,
+        avg_daily_usage: r.avg_daily_usage,
+        days_of_cover: r.days_of_cover,
+        suggested_reorder_qty: r.suggested_reorder_qty,
       }))
     );
     return new Response(csv, {
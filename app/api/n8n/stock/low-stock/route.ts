@@ -1,12 +1,5 @@
 import { NextRequest } from "next/server";
-import { createClient as createAdminClient } from "@supabase/supabase-js";
-
-function getAdminClient() {
-  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
-  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
-  if (!url || !key) return null;
-  return createAdminClient(url, key, { auth: { autoRefreshToken: false, persistSession: false } });
-}
+import { getAdminSupabase } from "@/lib/supabase/admin";
 
 function requireSecret(request: NextRequest) {
   const expected = process.env.N8N_WEBHOOK_SECRET;
@@ -21,7 +14,7 @@ export async function GET(request: NextRequest) {
   const auth = requireSecret(request);
   if (!auth.ok) return Response.json({ error: auth.error }, { status: auth.status });
 
-  const admin = getAdminClient();
+  const admin = getAdminSupabase();
   if (!admin) return Response.json({ error: "Server configuration error" }, { status: 500 });
 
   const { data, error } = await admin
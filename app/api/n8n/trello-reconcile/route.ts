@@ -0,0 +1,33 @@
+import { NextRequest } from "next/server";
+import { getAdminSupabase } from "@/lib/supabase/admin";
+import { buildTrelloDriftReport } from "@/lib/trello-reconcile";
+
+function requireSecret(request: NextRequest) {
+  const expected = process.env.N8N_WEBHOOK_SECRET;
+  if (!expected) return { ok: false as const, status: 500, error: "Missing N8N_WEBHOOK_SECRET" };
+  const provided = request.headers.get("x-n8n-secret") || "";
+  if (!provided) return { ok: false as const, status: 401, error: "Missing secret" };
+  if (provided !== expected) return { ok: false as const, status: 403, error: "Invalid secret" };
+  return { ok: true as const };
+}
+
+// Report only: drift is resolved by an admin from the Jobs page
+export async function GET(request: NextRequest) {
+  const auth = requireSecret(request);
+  if (!auth.ok) return Response.json({ error: auth.error }, { status: auth.status });
+
+  const admin = getAdminSupabase();
+  if (!admin) return Response.json({ error: "Server configuration error" }, { status: 500 });
+
+  const report = await buildTrelloDriftReport(admin);
+  if ("error" in report) return Response.json({ error: report.error }, { status: 502 });
+
+  const byField: Record<string, number> = {};
+  for (const row of report.rows) byField[row.field] = (byField[row.field] || 0) + 1;
+
+  return Response.json({
+    ...report,
+    drift_count: report.rows.length,
+    by_field: byField,
+  });
+}
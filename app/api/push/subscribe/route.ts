@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { createClient as createServerClient } from "@/lib/supabase/server";
-import { createClient as createAdminClient } from "@supabase/supabase-js";
+import { getAdminSupabase } from "@/lib/supabase/admin";
 
 const subscribeSchema = z.object({
   endpoint: z.string().url(),
@@ -11,13 +11,6 @@ const subscribeSchema = z.object({
   }),
 });
 
-function getAdminSupabase() {
-  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
-  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
-  if (!url || !key) return null;
-  return createAdminClient(url, key, { auth: { persistSession: false } });
-}
-
 export async function POST(request: NextRequest) {
   const supabase = await createServerClient();
   const {
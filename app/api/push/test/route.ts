@@ -12,12 +12,15 @@ export async function POST() {
   }
 
   try {
-    const result = await sendPushToAllAdmins({
-      title: "Test notification",
-      body: "If you can see this, push is working.",
-      url: "/leads",
-      tag: "rb-test",
-    });
+    const result = await sendPushToAllAdmins(
+      {
+        title: "Test notification",
+        body: "If you can see this, push is working.",
+        url: "/leads",
+        tag: "rb-test",
+      },
+      { includeUnavailable: true }
+    );
     return NextResponse.json({ ok: true, ...result });
   } catch (err) {
     const message = err instanceof Error ? err.message : "Failed to send";
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { createClient as createServerClient } from "@/lib/supabase/server";
+import { setTaskCompleted, snoozeTask } from "@/lib/tasks";
+
+const taskActionSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("complete") }),
+  z.object({ action: z.literal("snooze"), minutes: z.number().int().min(1).max(60 * 24 * 30).default(60) }),
+]);
+
+// Called by the service worker from the Done / Snooze buttons on a task reminder
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const supabase = await createServerClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const parsed = taskActionSchema.safeParse(body);
+  if (!parsed.success || !z.string().uuid().safeParse(id).success) {
+    return NextResponse.json({ error: parsed.error?.issues[0]?.message || "Invalid task" }, { status: 400 });
+  }
+
+  const result =
+    parsed.data.action === "complete"
+      ? await setTaskCompleted(supabase, id, user.id, true)
+      : await snoozeTask(supabase, id, parsed.data.minutes);
+  if (result.error) {
+    return NextResponse.json({ error: result.error }, { status: 500 });
+  }
+
+  return NextResponse.json({ ok: true });
+}
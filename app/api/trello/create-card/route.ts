@@ -3,6 +3,7 @@ import { revalidatePath } from "next/cache";
 import { NextRequest, NextResponse } from "next/server";
 import { createTrelloCard, getTrelloCardUrl, TRELLO_LISTS } from "@/lib/trello";
 import { renderTrelloCardDescription } from "@/lib/trello-card-template";
+import { getProductionBoardSettings, TRELLO_DISABLED_ERROR, trelloEnabled } from "@/lib/production-board";
 
 async function getActorOrReject(supabase: Awaited<ReturnType<typeof createClient>>) {
   const {
@@ -317,6 +318,11 @@ export async function POST(request: NextRequest) {
   const actor = await getActorOrReject(supabase);
   if (!actor.ok) return actor.response;
 
+  const boardSettings = await getProductionBoardSettings(supabase);
+  if (!trelloEnabled(boardSettings.mode)) {
+    return NextResponse.json({ error: TRELLO_DISABLED_ERROR }, { status: 409 });
+  }
+
   let leadId = "";
   let jobId = "";
   let cardTitle = "";
@@ -1,27 +1,426 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { getAdminSupabase } from "@/lib/supabase/admin";
 import crypto from "crypto";
+import { parseCardDescription, TRELLO_BOARD_ID } from "@/lib/trello";
+import { getProductionBoardSettings, mirrorStageToTrello, trelloDrivesStage, trelloEnabled } from "@/lib/production-board";
+import type { ProductionBoardSettings } from "@/types/production-board";
+import { notifyCustomerOfStageChange } from "@/lib/customer-stage-alerts";
+import { checkPaymentGate, toProductionStageKey } from "@/lib/payments";
+import { findLeadForJobRef } from "@/lib/job-leads";
+import { applyTrelloLabel } from "@/lib/trello-labels";
 
 type TrelloWebhookPayload = {
   action?: {
+    id?: string;
     type?: string;
+    date?: string;
+    memberCreator?: { fullName?: string; username?: string };
     data?: {
-      card?: { id?: string };
+      card?: { id?: string; desc?: string; due?: string | null };
+      old?: { desc?: string; due?: string | null; text?: string };
       listAfter?: { id?: string; name?: string };
       listBefore?: { id?: string; name?: string };
       board?: { id?: string };
+      text?: string;
+      action?: { id?: string; text?: string };
+      label?: { id?: string; name?: string; color?: string };
+      checklist?: { id?: string; name?: string };
+      checkItem?: { id?: string; name?: string; state?: string };
     };
   };
 };
 
+type WebhookAction = NonNullable<TrelloWebhookPayload["action"]>;
+
+type SyncJob = {
+  id: string;
+  lead_id: string;
+  trello_card_id: string | null;
+  trello_list_id: string | null;
+  production_stage: string | null;
+  trello_synced_at: string | null;
+  trello_labels: unknown;
+  trello_checklist_id: string | null;
+};
+
+type SyncLead = {
+  id: string;
+  lead_id: string | null;
+  design_notes: string | null;
+  trello_product_list: string | null;
+  delivery_date: string | null;
+  trello_field_edited_at: Record<string, string> | null;
+};
+
 function normalizeStageName(name: string): string {
   return name.trim();
 }
 
+function normalizeText(value: string | null | undefined): string | null {
+  const v = (value ?? "").replace(/\r\n/g, "\n").trim();
+  return v ? v : null;
+}
+
+function toDateOnly(value: string | null | undefined): string | null {
+  const v = (value ?? "").trim();
+  return v ? v.slice(0, 10) : null;
+}
+
 function jsonOk() {
   return NextResponse.json({ ok: true });
 }
 
+async function loadLead(supabase: SupabaseClient, jobLeadRef: string): Promise<SyncLead | null> {
+  return findLeadForJobRef<SyncLead>(supabase, jobLeadRef, "id, lead_id, design_notes, trello_product_list, delivery_date, trello_field_edited_at");
+}
+
+/**
+ * An admin edit of this field that has not reached Trello yet (edited after the last sync) and
+ * is newer than the Trello action wins; the Trello value is recorded instead of applied.
+ */
+function adminEditIsNewer(lead: SyncLead, job: SyncJob, field: string, actionDate: string): boolean {
+  const editedAt = lead.trello_field_edited_at?.[field];
+  const modified = editedAt ? Date.parse(editedAt) : NaN;
+  if (Number.isNaN(modified)) return false;
+  const synced = job.trello_synced_at ? Date.parse(job.trello_synced_at) : NaN;
+  if (!Number.isNaN(synced) && modified <= synced) return false;
+  const acted = Date.parse(actionDate);
+  return Number.isNaN(acted) || modified > acted;
+}
+
+async function logEvent(supabase: SupabaseClient, leadDbId: string, eventType: string, payload: Record<string, unknown>) {
+  await supabase.from("lead_events").insert({
+    lead_db_id: leadDbId,
+    actor_user_id: null,
+    event_type: eventType,
+    payload,
+  });
+}
+
+async function markSynced(supabase: SupabaseClient, jobId: string) {
+  await supabase.from("jobs").update({ trello_synced_at: new Date().toISOString() }).eq("id", jobId);
+}
+
+function memberLabel(action: WebhookAction) {
+  return action.memberCreator?.fullName || action.memberCreator?.username || "Trello";
+}
+
+async function handleListMove(supabase: SupabaseClient, job: SyncJob, lead: SyncLead | null, action: WebhookAction) {
+  const cardId = action.data?.card?.id || "";
+  const listAfterId = action.data?.listAfter?.id || "";
+  const listAfterName = action.data?.listAfter?.name || "";
+  const listBeforeName = action.data?.listBefore?.name || null;
+
+  const nextStage = normalizeStageName(listAfterName);
+
+  // Admin moves store the stage key and then move the card; Trello's echo of that move is not a new move
+  const currentKey = toProductionStageKey(job.production_stage);
+  if ((job.production_stage || "") === nextStage || (!!currentKey && currentKey === toProductionStageKey(nextStage))) {
+    if ((job.trello_list_id || "") !== listAfterId) {
+      await supabase.from("jobs").update({ trello_list_id: listAfterId }).eq("id", job.id);
+    }
+    return null;
+  }
+
+  const fromStage = (job.production_stage || listBeforeName || null) ? String(job.production_stage || listBeforeName || "").trim() : null;
+
+  const { error: updateJobError } = await supabase
+    .from("jobs")
+    .update({
+      trello_list_id: listAfterId,
+      production_stage: nextStage,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", job.id);
+
+  if (updateJobError) {
+    return NextResponse.json({ error: updateJobError.message || "Failed to update job" }, { status: 500 });
+  }
+
+  await supabase
+    .from("leads")
+    .update({
+      production_stage: nextStage,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", lead?.id || job.lead_id);
+
+  await supabase.from("job_stage_history").insert({
+    job_id: job.id,
+    trello_card_id: cardId,
+    trello_list_id: listAfterId,
+    stage: nextStage,
+    from_stage: fromStage,
+    to_stage: nextStage,
+    moved_at: new Date().toISOString(),
+    source: "trello_webhook",
+  });
+
+  await notifyCustomerOfStageChange({ jobId: job.id, stage: nextStage, actorUserId: null });
+
+  return null;
+}
+
+/**
+ * Puts a list move made in Trello back: under admin primary the admin board owns the stage, and
+ * under Trello primary a move past the full-payment gate is refused while a balance is owed.
+ */
+async function revertListMove(
+  supabase: SupabaseClient,
+  settings: ProductionBoardSettings,
+  job: SyncJob,
+  lead: SyncLead | null,
+  action: WebhookAction,
+  reason: string | null = null
+) {
+  const listAfterId = action.data?.listAfter?.id || "";
+  if ((job.trello_list_id || "") === listAfterId) return;
+
+  const reverted = job.production_stage
+    ? await mirrorStageToTrello(supabase, settings, { ...job, trello_list_id: listAfterId }, job.production_stage)
+    : false;
+
+  // Without a move back the card stays where Trello put it, so record the block rather than a revert
+  if (lead) {
+    await logEvent(supabase, lead.id, reverted ? "trello_move_reverted" : "trello_move_blocked", {
+      jobId: job.id,
+      trelloCardId: job.trello_card_id,
+      attemptedStage: action.data?.listAfter?.name || null,
+      stage: job.production_stage,
+      by: memberLabel(action),
+      reason,
+    });
+  }
+}
+
+async function handleDueChange(supabase: SupabaseClient, job: SyncJob, lead: SyncLead, action: WebhookAction) {
+  const nextDate = toDateOnly(action.data?.card?.due);
+  const previousDate = toDateOnly(action.data?.old?.due);
+  if (nextDate === toDateOnly(lead.delivery_date)) {
+    await markSynced(supabase, job.id);
+    return;
+  }
+
+  const actionDate = action.date || new Date().toISOString();
+  if (toDateOnly(lead.delivery_date) !== previousDate && adminEditIsNewer(lead, job, "delivery_date", actionDate)) {
+    await logEvent(supabase, lead.id, "trello_sync_conflict", {
+      field: "delivery_date",
+      direction: "trello_to_admin",
+      resolution: "admin_wins",
+      trelloValue: nextDate,
+      adminValue: lead.delivery_date,
+      trelloCardId: job.trello_card_id,
+    });
+    return;
+  }
+
+  const now = new Date().toISOString();
+  await supabase
+    .from("leads")
+    .update({ delivery_date: nextDate, updated_at: now, last_modified: now, last_modified_by: `${memberLabel(action)} (Trello)` })
+    .eq("id", lead.id);
+  await markSynced(supabase, job.id);
+  await logEvent(supabase, lead.id, "trello_due_date_synced", { from: lead.delivery_date, to: nextDate, trelloCardId: job.trello_card_id });
+}
+
+async function handleDescriptionChange(supabase: SupabaseClient, job: SyncJob, lead: SyncLead, action: WebhookAction) {
+  const next = parseCardDescription(action.data?.card?.desc || "");
+  const previous = parseCardDescription(action.data?.old?.desc || "");
+
+  // Never pull a description that was copied from another job's card
+  if (next.machine.JOB_ID && next.machine.JOB_ID !== job.id) {
+    console.warn("[trello-webhook] card description JOB_ID mismatch", { cardId: job.trello_card_id, jobId: job.id });
+    return;
+  }
+
+  const fields = [
+    { key: "design_notes" as const, next: next.designNotes, previous: previous.designNotes },
+    { key: "trello_product_list" as const, next: next.productList, previous: previous.productList },
+  ];
+
+  const actionDate = action.date || new Date().toISOString();
+  const updates: Record<string, string | null> = {};
+  for (const field of fields) {
+    const current = normalizeText(lead[field.key]);
+    const incoming = normalizeText(field.next);
+    if (incoming === current || incoming === normalizeText(field.previous)) continue;
+
+    if (current !== normalizeText(field.previous) && adminEditIsNewer(lead, job, field.key, actionDate)) {
+      await logEvent(supabase, lead.id, "trello_sync_conflict", {
+        field: field.key,
+        direction: "trello_to_admin",
+        resolution: "admin_wins",
+        trelloValue: incoming,
+        adminValue: lead[field.key],
+        trelloCardId: job.trello_card_id,
+      });
+      continue;
+    }
+    updates[field.key] = incoming;
+  }
+
+  const keys = Object.keys(updates);
+  if (keys.length === 0) {
+    await markSynced(supabase, job.id);
+    return;
+  }
+
+  const now = new Date().toISOString();
+  await supabase
+    .from("leads")
+    .update({ ...updates, updated_at: now, last_modified: now, last_modified_by: `${memberLabel(action)} (Trello)` })
+    .eq("id", lead.id);
+  await markSynced(supabase, job.id);
+  await logEvent(supabase, lead.id, "trello_description_synced", { keys, trelloCardId: job.trello_card_id });
+}
+
+async function handleComment(supabase: SupabaseClient, job: SyncJob, lead: SyncLead, action: WebhookAction) {
+  const actionType = action.type || "";
+
+  if (actionType === "commentCard") {
+    const text = (action.data?.text || "").trim();
+    if (!action.id || !text) return;
+
+    const { data: existing } = await supabase.from("lead_notes").select("id").eq("trello_comment_id", action.id).maybeSingle();
+    if (existing) return;
+
+    const { error } = await supabase.from("lead_notes").insert({
+      lead_db_id: lead.id,
+      author_user_id: null,
+      author_name: `${memberLabel(action)} (Trello)`,
+      note: text,
+      source: "trello",
+      trello_comment_id: action.id,
+    });
+    if (error && error.code !== "23505") {
+      console.error("[trello-webhook] failed to store comment:", error.message);
+      return;
+    }
+    await logEvent(supabase, lead.id, "note_added", { notePreview: text.substring(0, 80), source: "trello", trelloCardId: job.trello_card_id });
+    return;
+  }
+
+  const commentId = action.data?.action?.id;
+  if (!commentId) return;
+
+  if (actionType === "updateComment") {
+    const text = (action.data?.action?.text || "").trim();
+    if (!text) return;
+    await supabase.from("lead_notes").update({ note: text }).eq("trello_comment_id", commentId);
+    return;
+  }
+
+  if (actionType === "deleteComment") {
+    await supabase.from("lead_notes").delete().eq("trello_comment_id", commentId);
+  }
+}
+
+const LABEL_ACTIONS = ["addLabelToCard", "removeLabelFromCard"];
+const CHECK_ITEM_ACTIONS = ["createCheckItem", "updateCheckItem", "updateCheckItemStateOnCard", "deleteCheckItem"];
+
+async function handleLabelChange(supabase: SupabaseClient, job: SyncJob, lead: SyncLead | null, action: WebhookAction) {
+  const label = action.data?.label;
+  if (!label?.id) return;
+  const on = action.type === "addLabelToCard";
+
+  const labels = applyTrelloLabel(job.trello_labels, { id: label.id, name: label.name || "", color: label.color || null }, on);
+  await supabase.from("jobs").update({ trello_labels: labels, trello_synced_at: new Date().toISOString() }).eq("id", job.id);
+
+  if (lead) {
+    await logEvent(supabase, lead.id, on ? "trello_label_added" : "trello_label_removed", {
+      label: label.name || null,
+      color: label.color || null,
+      by: memberLabel(action),
+      trelloCardId: job.trello_card_id,
+    });
+  }
+}
+
+async function handleCheckItemChange(supabase: SupabaseClient, job: SyncJob, lead: SyncLead | null, action: WebhookAction) {
+  const actionType = action.type || "";
+  const checkItem = action.data?.checkItem;
+  if (!checkItem?.id) return;
+
+  const { data: existing } = await supabase
+    .from("job_checklist_items")
+    .select("id, label, is_done")
+    .eq("job_id", job.id)
+    .eq("trello_check_item_id", checkItem.id)
+    .maybeSingle();
+  const name = (checkItem.name || "").trim();
+  const isDone = checkItem.state === "complete";
+  const now = new Date().toISOString();
+
+  if (actionType === "createCheckItem") {
+    if (existing || !name) return;
+
+    // Items pushed from the admin are linked once Trello answers; link a same-named item that is
+    // still waiting instead of adding it twice
+    const { data: pending } = await supabase
+      .from("job_checklist_items")
+      .select("id")
+      .eq("job_id", job.id)
+      .eq("label", name)
+      .is("trello_check_item_id", null)
+      .limit(1)
+      .maybeSingle();
+
+    if (pending) {
+      await supabase.from("job_checklist_items").update({ trello_check_item_id: checkItem.id }).eq("id", pending.id);
+    } else {
+      const { data: last } = await supabase
+        .from("job_checklist_items")
+        .select("position")
+        .eq("job_id", job.id)
+        .order("position", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      const { error } = await supabase.from("job_checklist_items").insert({
+        job_id: job.id,
+        label: name,
+        is_done: isDone,
+        done_at: isDone ? now : null,
+        position: (Number(last?.position) || 0) + 1,
+        trello_check_item_id: checkItem.id,
+      });
+      if (error && error.code !== "23505") {
+        console.error("[trello-webhook] failed to store checklist item:", error.message);
+        return;
+      }
+    }
+    if (!job.trello_checklist_id && action.data?.checklist?.id) {
+      await supabase.from("jobs").update({ trello_checklist_id: action.data.checklist.id }).eq("id", job.id);
+    }
+  } else if (!existing) {
+    return;
+  } else if (actionType === "deleteCheckItem") {
+    await supabase.from("job_checklist_items").delete().eq("id", existing.id);
+  } else if (actionType === "updateCheckItemStateOnCard") {
+    if (existing.is_done === isDone) return;
+    await supabase
+      .from("job_checklist_items")
+      .update({ is_done: isDone, done_at: isDone ? now : null, done_by: null })
+      .eq("id", existing.id);
+  } else {
+    if (!name || name === existing.label) return;
+    await supabase.from("job_checklist_items").update({ label: name }).eq("id", existing.id);
+  }
+
+  await markSynced(supabase, job.id);
+  if (lead) {
+    await logEvent(supabase, lead.id, "trello_checklist_item_updated", {
+      checklist: action.data?.checklist?.name || null,
+      item: name || existing?.label || null,
+      change: actionType,
+      state: checkItem.state || null,
+      by: memberLabel(action),
+      trelloCardId: job.trello_card_id,
+    });
+  }
+}
+
 export async function HEAD() {
   return jsonOk();
 }
@@ -65,28 +464,39 @@ export async function POST(request: NextRequest) {
   }
 
   const boardId = payload?.action?.data?.board?.id;
-  if (boardId && boardId !== "688caf3f46d3b014e4913ec5") {
+  if (boardId && boardId !== TRELLO_BOARD_ID) {
     return jsonOk();
   }
 
-  const actionType = payload?.action?.type || "";
-  const cardId = payload?.action?.data?.card?.id || "";
-  const listAfterId = payload?.action?.data?.listAfter?.id || "";
-  const listAfterName = payload?.action?.data?.listAfter?.name || "";
-  const listBeforeName = payload?.action?.data?.listBefore?.name || null;
+  const action = payload?.action;
+  const actionType = action?.type || "";
+  const cardId = action?.data?.card?.id || "";
+  if (!action || !cardId) {
+    return jsonOk();
+  }
 
-  const isListMove = actionType === "updateCard" && !!cardId && !!listAfterId && !!listAfterName;
-  if (!isListMove) {
+  const isListMove = actionType === "updateCard" && !!action.data?.listAfter?.id && !!action.data?.listAfter?.name;
+  const isDueChange = actionType === "updateCard" && !!action.data?.old && "due" in action.data.old;
+  const isDescriptionChange = actionType === "updateCard" && !!action.data?.old && "desc" in action.data.old;
+  const isComment = actionType === "commentCard" || actionType === "updateComment" || actionType === "deleteComment";
+  const isLabelChange = LABEL_ACTIONS.includes(actionType);
+  const isCheckItemChange = CHECK_ITEM_ACTIONS.includes(actionType);
+
+  if (!isListMove && !isDueChange && !isDescriptionChange && !isComment && !isLabelChange && !isCheckItemChange) {
     return jsonOk();
   }
 
-  const nextStage = normalizeStageName(listAfterName);
+  const supabase = getAdminSupabase() ?? (await createClient());
 
-  const supabase = await createClient();
+  const boardSettings = await getProductionBoardSettings(supabase);
+  if (!trelloEnabled(boardSettings.mode)) {
+    return jsonOk();
+  }
+  const trelloIsPrimary = trelloDrivesStage(boardSettings.mode);
 
   const { data: job } = await supabase
     .from("jobs")
-    .select("id, lead_id, trello_card_id, trello_list_id, production_stage")
+    .select("id, lead_id, trello_card_id, trello_list_id, production_stage, trello_synced_at, trello_labels, trello_checklist_id")
     .eq("trello_card_id", cardId)
     .maybeSingle();
 
@@ -94,43 +504,33 @@ export async function POST(request: NextRequest) {
     return jsonOk();
   }
 
-  if ((job.production_stage || "") === nextStage && (job.trello_list_id || "") === listAfterId) {
-    return jsonOk();
-  }
+  const syncJob = job as SyncJob;
+  const lead = syncJob.lead_id ? await loadLead(supabase, syncJob.lead_id) : null;
 
-  const fromStage = (job.production_stage || listBeforeName || null) ? String(job.production_stage || listBeforeName || "").trim() : null;
+  if (isListMove) {
+    const gateError = trelloIsPrimary
+      ? await checkPaymentGate(supabase, syncJob.id, normalizeStageName(action.data?.listAfter?.name || ""))
+      : null;
+    if (trelloIsPrimary && !gateError) {
+      const errorResponse = await handleListMove(supabase, syncJob, lead, action);
+      if (errorResponse) return errorResponse;
+    } else {
+      await revertListMove(supabase, boardSettings, syncJob, lead, action, gateError);
+    }
+  }
 
-  const { error: updateJobError } = await supabase
-    .from("jobs")
-    .update({
-      trello_list_id: listAfterId,
-      production_stage: nextStage,
-      updated_at: new Date().toISOString(),
-    })
-    .eq("id", job.id);
+  // Labels and checklist items live on the job, so they sync in both modes and without a lead
+  if (isLabelChange) await handleLabelChange(supabase, syncJob, lead, action);
+  if (isCheckItemChange) await handleCheckItemChange(supabase, syncJob, lead, action);
 
-  if (updateJobError) {
-    return NextResponse.json({ error: updateJobError.message || "Failed to update job" }, { status: 500 });
+  if (!lead) {
+    return jsonOk();
   }
 
-  await supabase
-    .from("leads")
-    .update({
-      production_stage: nextStage,
-      updated_at: new Date().toISOString(),
-    })
-    .eq("id", job.lead_id);
-
-  await supabase.from("job_stage_history").insert({
-    job_id: job.id,
-    trello_card_id: cardId,
-    trello_list_id: listAfterId,
-    stage: nextStage,
-    from_stage: fromStage,
-    to_stage: nextStage,
-    moved_at: new Date().toISOString(),
-    source: "trello_webhook",
-  });
+  // Admin primary keeps the lead's fields authoritative; Trello edits to them are not pulled in
+  if (isDueChange && trelloIsPrimary) await handleDueChange(supabase, syncJob, lead, action);
+  if (isDescriptionChange && trelloIsPrimary) await handleDescriptionChange(supabase, syncJob, lead, action);
+  if (isComment) await handleComment(supabase, syncJob, lead, action);
 
   return jsonOk();
 }
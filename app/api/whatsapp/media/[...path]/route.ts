@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient as createServerClient } from "@/lib/supabase/server";
+import { getAdminSupabase } from "@/lib/supabase/admin";
+import { signWhatsAppMedia, WA_MEDIA_VIEW_SECONDS } from "@/lib/whatsapp-media";
+
+// whatsapp-media is private: staff who can see the message are sent on to a short-lived signed URL
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ path: string[] }> }) {
+  const { path: segments } = await params;
+  const path = segments.join("/");
+
+  const supabase = await createServerClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  // RLS on wa_messages decides who can see the message the media belongs to
+  const { data: message } = await supabase.from("wa_messages").select("id").eq("media_path", path).limit(1).maybeSingle();
+  if (!message) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const admin = getAdminSupabase();
+  if (!admin) {
+    return NextResponse.json({ error: "Supabase admin not configured" }, { status: 500 });
+  }
+
+  const signedUrl = await signWhatsAppMedia(admin, path, WA_MEDIA_VIEW_SECONDS);
+  if (!signedUrl) {
+    return NextResponse.json({ error: "Media unavailable" }, { status: 404 });
+  }
+  return NextResponse.redirect(signedUrl);
+}
@@ -1,31 +1,27 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
-import { createClient as createAdminClient } from "@supabase/supabase-js";
+import { getAdminSupabase } from "@/lib/supabase/admin";
 import { createClient } from "@/lib/supabase/server";
-
+import {
+  MAX_WA_IMAGE_BYTES,
+  MAX_WA_MEDIA_BYTES,
+  mediaKindFromMime,
+  mediaPreviewText,
+  signWhatsAppMedia,
+  storeWhatsAppMedia,
+  WA_MEDIA_BUCKET,
+  WA_MEDIA_SEND_LINK_SECONDS,
+} from "@/lib/whatsapp-media";
+import { buildTemplateMessage, isWithinServiceWindow } from "@/lib/whatsapp-templates";
+import { normalizePhone } from "@/lib/contact-identity";
+
+// Text is the caption when a file is attached; a templateId sends an approved template instead
 const sendSchema = z.object({
   conversationId: z.string().uuid(),
-  text: z.string().min(1).max(2000),
+  text: z.string().max(2000).default(""),
+  templateId: z.string().uuid().optional(),
 });
 
-function getAdminSupabase() {
-  const url = process.env.SUPABASE_URL || process.env.NEXT_PUBLIC_SUPABASE_URL;
-  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
-  if (!url || !key) return null;
-  return createAdminClient(url, key, { auth: { persistSession: false } });
-}
-
-function normalizePhone(input: string): string {
-  const trimmed = String(input || "").trim();
-  if (!trimmed) return "";
-  if (trimmed.startsWith("+")) return `+${trimmed.slice(1).replace(/\D/g, "")}`;
-  const digits = trimmed.replace(/\D/g, "");
-  if (!digits) return "";
-  if (digits.startsWith("27") && digits.length >= 11) return `+${digits}`;
-  if (digits.startsWith("0") && digits.length === 10) return `+27${digits.slice(1)}`;
-  return `+${digits}`;
-}
-
 export async function POST(request: NextRequest) {
   const supabase = await createClient();
   const {
@@ -35,16 +31,37 @@ export async function POST(request: NextRequest) {
   if (!user) return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
 
   let body: unknown;
-  try {
-    body = await request.json();
-  } catch {
-    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+  let file: File | null = null;
+  if ((request.headers.get("content-type") || "").includes("multipart/form-data")) {
+    const form = await request.formData().catch(() => null);
+    if (!form) return NextResponse.json({ error: "Invalid form data" }, { status: 400 });
+    body = { conversationId: form.get("conversationId"), text: form.get("text") || "" };
+    const upload = form.get("file");
+    file = upload instanceof File && upload.size > 0 ? upload : null;
+  } else {
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+    }
   }
 
   const parsed = sendSchema.safeParse(body);
   if (!parsed.success) return NextResponse.json({ error: parsed.error.issues[0]?.message || "Invalid payload" }, { status: 400 });
 
-  const { conversationId, text } = parsed.data;
+  const { conversationId, templateId } = parsed.data;
+  let text = parsed.data.text.trim();
+  if (!text && !file && !templateId) {
+    return NextResponse.json({ error: "Message text, attachment or template required" }, { status: 400 });
+  }
+
+  const mediaKind = file ? mediaKindFromMime(file.type) : null;
+  if (file) {
+    const maxBytes = mediaKind === "image" ? MAX_WA_IMAGE_BYTES : MAX_WA_MEDIA_BYTES;
+    if (file.size > maxBytes) {
+      return NextResponse.json({ error: `Attachment must be ${maxBytes / (1024 * 1024)}MB or smaller` }, { status: 400 });
+    }
+  }
 
   const { data: profile, error: profileError } = await supabase
     .from("profiles")
@@ -61,12 +78,19 @@ export async function POST(request: NextRequest) {
 
   const { data: conversation, error: convError } = await admin
     .from("wa_conversations")
-    .select("id, phone, lead_id")
+    .select("id, phone, lead_id, assigned_rep_id, last_inbound_at, display_name, custom_display_name")
     .eq("id", conversationId)
     .single();
 
   if (convError || !conversation) return NextResponse.json({ error: "Conversation not found" }, { status: 404 });
 
+  if (!templateId && !isWithinServiceWindow(conversation.last_inbound_at)) {
+    return NextResponse.json(
+      { error: "The 24-hour window has closed. Send an approved template instead.", code: "window_closed" },
+      { status: 409 }
+    );
+  }
+
   const targetPhone = normalizePhone(conversation.phone);
   if (!targetPhone) return NextResponse.json({ error: "Invalid conversation phone" }, { status: 400 });
 
@@ -79,7 +103,8 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: "Blocked recipient" }, { status: 403 });
   }
 
-  if (role === "rep") {
+  // Reps may send on conversations assigned to them or linked to one of their leads
+  if (role === "rep" && conversation.assigned_rep_id !== user.id) {
     if (!conversation.lead_id) return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
 
     const { data: lead, error: leadError } = await admin
@@ -93,8 +118,43 @@ export async function POST(request: NextRequest) {
     if (assignedRepId !== user.id) return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
   }
 
+  let mediaFields: Record<string, unknown> = {};
+  if (templateId) {
+    const built = await buildTemplateMessage(admin, templateId, conversation);
+    if ("error" in built) return NextResponse.json({ error: built.error }, { status: 400 });
+    text = built.text;
+    mediaFields = {
+      message_type: "template",
+      template_id: built.template.id,
+      template_name: built.template.name,
+      template_language: built.template.language,
+      template_variables: built.values,
+    };
+  } else if (file && mediaKind) {
+    const stored = await storeWhatsAppMedia(admin, {
+      conversationId,
+      buffer: Buffer.from(await file.arrayBuffer()),
+      mimeType: file.type || "application/octet-stream",
+      fileName: file.name,
+    });
+    if ("error" in stored) return NextResponse.json({ error: stored.error }, { status: 500 });
+    const sendLink = await signWhatsAppMedia(admin, stored.path, WA_MEDIA_SEND_LINK_SECONDS);
+    if (!sendLink) {
+      await admin.storage.from(WA_MEDIA_BUCKET).remove([stored.path]);
+      return NextResponse.json({ error: "Failed to prepare media for sending" }, { status: 500 });
+    }
+    mediaFields = {
+      message_type: mediaKind,
+      media_path: stored.path,
+      media_url: sendLink,
+      media_mime_type: file.type || null,
+      media_file_name: stored.fileName,
+      media_size_bytes: file.size,
+    };
+  }
+
   const nowIso = new Date().toISOString();
-  const preview = text.slice(0, 140);
+  const preview = mediaKind && !templateId ? mediaPreviewText(mediaKind, file?.name || null, text) : text.slice(0, 140);
 
   const { data: inserted, error: insertError } = await admin
     .from("wa_messages")
@@ -109,11 +169,15 @@ export async function POST(request: NextRequest) {
       sent_at: null,
       delivered_at: null,
       retry_count: 0,
+      ...mediaFields,
     })
     .select("id")
     .single();
 
-  if (insertError) return NextResponse.json({ error: insertError.message || "Failed to queue message" }, { status: 500 });
+  if (insertError) {
+    if (typeof mediaFields.media_path === "string") await admin.storage.from(WA_MEDIA_BUCKET).remove([mediaFields.media_path]);
+    return NextResponse.json({ error: insertError.message || "Failed to queue message" }, { status: 500 });
+  }
 
   await admin
     .from("wa_conversations")
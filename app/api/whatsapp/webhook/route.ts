@@ -1,6 +1,18 @@
 import { NextRequest, NextResponse } from "next/server";
 import crypto from "crypto";
-import { createClient } from "@supabase/supabase-js";
+import { getAdminSupabase } from "@/lib/supabase/admin";
+import { downloadWhatsAppMedia, mediaPreviewText, storeWhatsAppMedia, WA_MEDIA_BUCKET } from "@/lib/whatsapp-media";
+import { normalizePhone } from "@/lib/contact-identity";
+
+type WhatsAppMediaObject = { id?: string; mime_type?: string; caption?: string; filename?: string };
+
+type WhatsAppStatus = {
+  id?: string;
+  status?: string;
+  timestamp?: string;
+  recipient_id?: string;
+  errors?: Array<{ code?: number; title?: string; message?: string; error_data?: { details?: string } }>;
+};
 
 type WhatsAppWebhookPayload = {
   entry?: Array<{
@@ -12,7 +24,13 @@ type WhatsAppWebhookPayload = {
           type?: string;
           timestamp?: string;
           text?: { body?: string };
+          image?: WhatsAppMediaObject;
+          document?: WhatsAppMediaObject;
+          audio?: WhatsAppMediaObject & { voice?: boolean };
+          video?: WhatsAppMediaObject;
+          sticker?: WhatsAppMediaObject;
         }>;
+        statuses?: WhatsAppStatus[];
         metadata?: { phone_number_id?: string };
         contacts?: Array<{ wa_id?: string; profile?: { name?: string } }>;
       };
@@ -20,23 +38,7 @@ type WhatsAppWebhookPayload = {
   }>;
 };
 
-function getAdminSupabase() {
-  const url = process.env.SUPABASE_URL || process.env.NEXT_PUBLIC_SUPABASE_URL;
-  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
-  if (!url || !key) return null;
-  return createClient(url, key, { auth: { persistSession: false } });
-}
-
-function normalizePhone(input: string): string {
-  const trimmed = String(input || "").trim();
-  if (!trimmed) return "";
-  if (trimmed.startsWith("+")) return `+${trimmed.slice(1).replace(/\D/g, "")}`;
-  const digits = trimmed.replace(/\D/g, "");
-  if (!digits) return "";
-  if (digits.startsWith("27") && digits.length >= 11) return `+${digits}`;
-  if (digits.startsWith("0") && digits.length === 10) return `+27${digits.slice(1)}`;
-  return `+${digits}`;
-}
+type SupabaseAdmin = NonNullable<ReturnType<typeof getAdminSupabase>>;
 
 function safeString(value: unknown): string {
   return typeof value === "string" ? value : "";
@@ -51,6 +53,93 @@ function getPhoneNumberIdFromPayload(payload: WhatsAppWebhookPayload): string {
   return safeString(payload.entry?.[0]?.changes?.[0]?.value?.metadata?.phone_number_id);
 }
 
+function getStatusesFromPayload(payload: WhatsAppWebhookPayload): WhatsAppStatus[] {
+  return (payload.entry || []).flatMap((entry) => (entry.changes || []).flatMap((change) => change.value?.statuses || []));
+}
+
+// Receipts can arrive out of order; a message never moves back down this list
+const STATUS_RANK: Record<string, number> = { queued: 0, sending: 1, simulated_sent: 2, sent: 2, delivered: 3, read: 4 };
+
+async function applyStatusUpdates(supabase: SupabaseAdmin, statuses: WhatsAppStatus[]) {
+  for (const entry of statuses) {
+    const providerMessageId = safeString(entry.id);
+    const status = safeString(entry.status);
+    if (!providerMessageId || !status) continue;
+
+    const occurredAt = entry.timestamp ? new Date(Number(entry.timestamp) * 1000).toISOString() : new Date().toISOString();
+    const firstError = entry.errors?.[0];
+    const errorMessage = firstError
+      ? [firstError.title, firstError.error_data?.details || firstError.message].filter(Boolean).join(": ")
+      : null;
+
+    // n8n records the Cloud API response before provider_message_id existed; fall back to it
+    const { data: byId } = await supabase
+      .from("wa_messages")
+      .select("id, status, sent_at, delivered_at, read_at, provider_message_id")
+      .eq("provider_message_id", providerMessageId)
+      .maybeSingle();
+    const { data: byPayload } = byId
+      ? { data: null }
+      : await supabase
+          .from("wa_messages")
+          .select("id, status, sent_at, delivered_at, read_at, provider_message_id")
+          .eq("direction", "outbound")
+          .eq("provider_payload->messages->0->>id", providerMessageId)
+          .maybeSingle();
+    const message = byId || byPayload;
+
+    await supabase.from("wa_message_status_events").insert({
+      message_id: message?.id ?? null,
+      provider_message_id: providerMessageId,
+      status,
+      occurred_at: occurredAt,
+      recipient_id: safeString(entry.recipient_id) || null,
+      error_code: firstError?.code != null ? String(firstError.code) : null,
+      error_title: firstError?.title || null,
+      error_message: errorMessage,
+      payload: entry,
+    });
+
+    if (!message) continue;
+
+    const currentRank = STATUS_RANK[String(message.status || "")] ?? -1;
+    const updates: Record<string, unknown> = {};
+    if (!message.provider_message_id) updates.provider_message_id = providerMessageId;
+
+    if (status === "failed") {
+      if (currentRank < STATUS_RANK.delivered) {
+        updates.status = "failed";
+        updates.failed_at = occurredAt;
+        updates.error = (errorMessage || "Delivery failed").slice(0, 1000);
+        updates.error_code = firstError?.code != null ? String(firstError.code) : null;
+      }
+    } else if (status in STATUS_RANK) {
+      if (STATUS_RANK[status] > currentRank || message.status === "failed") {
+        updates.status = status;
+        updates.error = null;
+        updates.error_code = null;
+      }
+      if (!message.sent_at) updates.sent_at = occurredAt;
+      if ((status === "delivered" || status === "read") && !message.delivered_at) updates.delivered_at = occurredAt;
+      if (status === "read" && !message.read_at) updates.read_at = occurredAt;
+    }
+
+    if (Object.keys(updates).length > 0) {
+      await supabase.from("wa_messages").update(updates).eq("id", message.id);
+    }
+  }
+}
+
+const MEDIA_TYPES = ["image", "document", "audio", "video", "sticker"] as const;
+
+function getMediaFromMessage(msg: ReturnType<typeof getMessageFromPayload>) {
+  if (!msg) return null;
+  const kind = MEDIA_TYPES.find((type) => type === msg.type);
+  const media = kind ? msg[kind] : undefined;
+  if (!kind || !media?.id) return null;
+  return { kind, media };
+}
+
 function verifySignatureOrReject(request: NextRequest, rawBody: Buffer): NextResponse | null {
   const appSecret = process.env.WHATSAPP_APP_SECRET;
   if (!appSecret) return null;
@@ -108,8 +197,19 @@ export async function POST(request: NextRequest) {
   if (!rbPhoneNumberId) return NextResponse.json({ error: "Not configured" }, { status: 500 });
 
   const phoneNumberId = getPhoneNumberIdFromPayload(payload);
+  if (phoneNumberId !== rbPhoneNumberId) {
+    return NextResponse.json({ ok: true }, { status: 200 });
+  }
+
+  const statuses = getStatusesFromPayload(payload);
+  if (statuses.length > 0) {
+    const statusSupabase = getAdminSupabase();
+    if (!statusSupabase) return NextResponse.json({ error: "Supabase admin not configured" }, { status: 500 });
+    await applyStatusUpdates(statusSupabase, statuses);
+  }
+
   const hasMessage = !!getMessageFromPayload(payload);
-  if (!hasMessage || phoneNumberId !== rbPhoneNumberId) {
+  if (!hasMessage) {
     return NextResponse.json({ ok: true }, { status: 200 });
   }
 
@@ -117,7 +217,8 @@ export async function POST(request: NextRequest) {
   const from = normalizePhone(safeString(msg?.from));
   const providerMessageId = safeString(msg?.id);
   const messageType = safeString(msg?.type);
-  const textBody = safeString(msg?.text?.body || "");
+  const mediaInfo = getMediaFromMessage(msg);
+  const textBody = safeString(msg?.text?.body || mediaInfo?.media.caption || "");
   const sentAt = msg?.timestamp ? new Date(Number(msg.timestamp) * 1000).toISOString() : new Date().toISOString();
 
   if (!from || !providerMessageId) return NextResponse.json({ ok: true }, { status: 200 });
@@ -125,7 +226,10 @@ export async function POST(request: NextRequest) {
   const supabase = getAdminSupabase();
   if (!supabase) return NextResponse.json({ error: "Supabase admin not configured" }, { status: 500 });
 
-  const preview = textBody.slice(0, 140);
+  const mediaFileName = safeString(mediaInfo?.media.filename) || null;
+  const preview = mediaInfo
+    ? mediaPreviewText(mediaInfo.kind, mediaFileName, textBody)
+    : textBody.slice(0, 140);
 
   const { data: convRow, error: convError } = await supabase
     .from("wa_conversations")
@@ -137,6 +241,7 @@ export async function POST(request: NextRequest) {
         display_name: safeString(payload?.entry?.[0]?.changes?.[0]?.value?.contacts?.[0]?.profile?.name),
         last_message_at: sentAt,
         last_message_preview: preview,
+        last_inbound_at: sentAt,
         updated_at: new Date().toISOString(),
       },
       { onConflict: "phone" }
@@ -148,6 +253,43 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: convError?.message || "Failed to upsert conversation" }, { status: 500 });
   }
 
+  // Cloud API media URLs expire within minutes, so the file is copied into storage straight away.
+  // A failed download still records the message; the error is kept on the row.
+  let mediaFields: Record<string, unknown> = {};
+  if (mediaInfo) {
+    const { data: alreadyStored } = await supabase
+      .from("wa_messages")
+      .select("id")
+      .eq("provider_message_id", providerMessageId)
+      .maybeSingle();
+    if (alreadyStored) return NextResponse.json({ ok: true }, { status: 200 });
+
+    const mediaId = safeString(mediaInfo.media.id);
+    mediaFields = { provider_media_id: mediaId, media_mime_type: safeString(mediaInfo.media.mime_type) || null, media_file_name: mediaFileName };
+    const downloaded = await downloadWhatsAppMedia(mediaId);
+    const stored =
+      "error" in downloaded
+        ? downloaded
+        : await storeWhatsAppMedia(supabase, {
+            conversationId: convRow.id,
+            buffer: downloaded.buffer,
+            mimeType: downloaded.mimeType,
+            fileName: mediaFileName,
+          });
+    if ("error" in stored) {
+      console.error("[whatsapp-webhook] media download failed:", stored.error);
+      mediaFields.error = `Media download failed: ${stored.error}`.slice(0, 1000);
+    } else if (!("error" in downloaded)) {
+      mediaFields = {
+        ...mediaFields,
+        media_path: stored.path,
+        media_mime_type: downloaded.mimeType,
+        media_file_name: stored.fileName,
+        media_size_bytes: downloaded.size,
+      };
+    }
+  }
+
   const { error: msgInsertError } = await supabase.from("wa_messages").insert({
     conversation_id: convRow.id,
     direction: "inbound",
@@ -159,9 +301,13 @@ export async function POST(request: NextRequest) {
     provider_payload: payload,
     payload,
     created_at: new Date().toISOString(),
+    ...mediaFields,
   });
 
   if (msgInsertError) {
+    if (typeof mediaFields.media_path === "string") {
+      await supabase.storage.from(WA_MEDIA_BUCKET).remove([mediaFields.media_path]);
+    }
     const isDuplicate = msgInsertError.code === "23505" || msgInsertError.message.toLowerCase().includes("duplicate");
     if (!isDuplicate) {
       return NextResponse.json({ error: msgInsertError.message || "Failed to insert message" }, { status: 500 });
@@ -172,7 +318,8 @@ export async function POST(request: NextRequest) {
   const { data: leadMatches, error: leadError } = await supabase
     .from("leads")
     .select("id, last_activity_at, assigned_rep_id")
-    .eq("phone", from)
+    .eq("phone_e164", from)
+    .is("merged_into_id", null)
     .order("last_activity_at", { ascending: false, nullsFirst: false })
     .limit(1);
 
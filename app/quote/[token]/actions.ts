@@ -0,0 +1,172 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { headers } from "next/headers";
+import { z } from "zod";
+import { ensureJobAndTrelloCardForLead } from "@/lib/trello-sync";
+import { sendPushToAllAdmins } from "@/lib/push";
+import { getAdminSupabase } from "@/lib/supabase/admin";
+import { loadQuoteLinkContext } from "./quote-link";
+
+const respondSchema = z.object({
+  token: z.string().min(10),
+  decision: z.enum(["accept", "request_changes"]),
+  customerName: z.string().trim().min(1, "Please enter your name").max(200),
+  customerEmail: z.string().trim().email("Please enter a valid email").max(320).optional(),
+  comment: z.string().trim().max(5000).optional(),
+});
+
+async function notifyAdmins(title: string, body: string, leadDbId: string) {
+  try {
+    await sendPushToAllAdmins({ title, body, url: `/leads/${leadDbId}`, tag: `quote-${leadDbId}` });
+  } catch (error) {
+    console.error("[quote-link] push failed:", error);
+  }
+}
+
+export async function respondToQuoteAction(
+  formData: FormData
+): Promise<{ error: string } | { success: true; decision: "accept" | "request_changes" }> {
+  const parsed = respondSchema.safeParse({
+    token: formData.get("token"),
+    decision: formData.get("decision"),
+    customerName: formData.get("customerName"),
+    customerEmail: (formData.get("customerEmail") as string | null) || undefined,
+    comment: (formData.get("comment") as string | null) || undefined,
+  });
+  if (!parsed.success) return { error: parsed.error.issues[0]?.message || "Invalid input" };
+
+  if (parsed.data.decision === "request_changes" && !parsed.data.comment) {
+    return { error: "Please tell us what you would like changed" };
+  }
+
+  const supabase = getAdminSupabase();
+  if (!supabase) return { error: "Quote approvals are not available right now" };
+
+  const loaded = await loadQuoteLinkContext(supabase, parsed.data.token);
+  if ("error" in loaded) return { error: loaded.error };
+  const { link, quote, lead } = loaded.context;
+
+  if (quote.status !== "sent") {
+    return { error: "This quote can no longer be responded to. Please contact us for an updated quote." };
+  }
+
+  let ipAddress: string | null = null;
+  let userAgent: string | null = null;
+  try {
+    const h = await headers();
+    ipAddress = (h.get("x-forwarded-for") || "").split(",")[0]?.trim() || null;
+    userAgent = h.get("user-agent");
+  } catch {
+  }
+
+  const { error: responseError } = await supabase.from("quote_responses").insert({
+    quote_id: quote.id,
+    link_id: link.id,
+    action: parsed.data.decision === "accept" ? "accepted" : "changes_requested",
+    customer_name: parsed.data.customerName,
+    customer_email: parsed.data.customerEmail || null,
+    comment: parsed.data.comment || null,
+    ip_address: ipAddress,
+    user_agent: userAgent,
+  });
+  if (responseError) return { error: "Failed to record your response. Please try again." };
+
+  const customerLabel = `${parsed.data.customerName} (customer)`;
+
+  if (parsed.data.decision === "request_changes") {
+    await supabase.from("lead_events").insert({
+      lead_db_id: lead.id,
+      actor_user_id: null,
+      event_type: "quote_changes_requested",
+      payload: { quoteId: quote.id, version: quote.version, customer: parsed.data.customerName, comment: parsed.data.comment },
+    });
+    await notifyAdmins(
+      "Quote changes requested",
+      `${parsed.data.customerName} asked for changes to quote v${quote.version}`,
+      lead.id
+    );
+    revalidatePath(`/leads/${lead.id}`);
+    return { success: true, decision: "request_changes" };
+  }
+
+  const now = new Date().toISOString();
+  const { data: approved, error: approveError } = await supabase
+    .from("quotes")
+    .update({
+      status: "approved",
+      approved_at: now,
+      approved_by_name: parsed.data.customerName,
+      approved_via: "customer_link",
+      updated_at: now,
+    })
+    .eq("id", quote.id)
+    .eq("status", "sent")
+    .select("id")
+    .maybeSingle();
+  if (approveError || !approved) return { error: "Failed to accept the quote. Please try again." };
+
+  const { error: leadError } = await supabase
+    .from("leads")
+    .update({
+      status: "Quote Approved",
+      sales_status: "Quote Approved",
+      current_quote_id: quote.id,
+      date_approved: now,
+      updated_at: now,
+      last_modified: now,
+      last_modified_by: customerLabel,
+    })
+    .eq("id", lead.id);
+  if (leadError) {
+    console.error("[quote-link] lead update failed:", leadError);
+    // Put the quote back to sent so it doesn't read as approved on a lead that never moved
+    await supabase
+      .from("quotes")
+      .update({ status: "sent", approved_at: null, approved_by_name: null, approved_via: null, updated_at: now })
+      .eq("id", quote.id);
+    return { error: "Failed to accept the quote. Please try again." };
+  }
+
+  await supabase
+    .from("quotes")
+    .update({ status: "superseded", updated_at: now })
+    .eq("lead_db_id", lead.id)
+    .neq("id", quote.id)
+    .in("status", ["draft", "sent"])
+    .lt("version", quote.version);
+
+  await supabase.from("lead_events").insert({
+    lead_db_id: lead.id,
+    actor_user_id: null,
+    event_type: "status_changed",
+    payload: {
+      from: lead.status,
+      to: "Quote Approved",
+      quoteId: quote.id,
+      quoteVersion: quote.version,
+      via: "customer_link",
+      customer: parsed.data.customerName,
+      comment: parsed.data.comment || null,
+    },
+  });
+
+  // Job + Trello card are attributed to the rep who shared the link
+  const actorUserId = link.created_by || quote.created_by;
+  if (actorUserId) {
+    const jobResult = await ensureJobAndTrelloCardForLead({
+      supabase,
+      leadDbId: lead.id,
+      actorUserId,
+      actorProfile: { full_name: customerLabel },
+    });
+    if ("error" in jobResult) {
+      console.error("[quote-link] job creation failed:", jobResult.error);
+    }
+  }
+
+  await notifyAdmins("Quote accepted", `${parsed.data.customerName} accepted quote v${quote.version}`, lead.id);
+
+  revalidatePath(`/leads/${lead.id}`);
+  return { success: true, decision: "accept" };
+}
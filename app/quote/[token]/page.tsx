@@ -0,0 +1,138 @@
+import { Card, CardContent } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { formatMoney } from "@/lib/quotes";
+import { getAdminSupabase } from "@/lib/supabase/admin";
+import { loadQuoteLinkContext } from "./quote-link";
+import { QuoteResponseClient } from "./quote-response-client";
+
+export const dynamic = "force-dynamic";
+
+function formatDate(value: string | null | undefined): string {
+  if (!value) return "—";
+  const d = new Date(value);
+  if (Number.isNaN(d.getTime())) return "—";
+  return d.toLocaleDateString("en-ZA", { year: "numeric", month: "long", day: "numeric" });
+}
+
+function Message({ title, body }: { title: string; body: string }) {
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardContent className="pt-6 text-center space-y-2">
+          <h1 className="text-xl font-semibold">{title}</h1>
+          <p className="text-sm text-muted-foreground">{body}</p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export default async function PublicQuotePage({ params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params;
+  const supabase = getAdminSupabase();
+  if (!supabase) return <Message title="Quote unavailable" body="Please contact RecklessBear for a copy of your quote." />;
+
+  const loaded = await loadQuoteLinkContext(supabase, token);
+  if ("error" in loaded) return <Message title="Quote unavailable" body={`${loaded.error} Please contact RecklessBear for a new link.`} />;
+
+  const { link, quote, lead } = loaded.context;
+  await supabase.from("quote_approval_links").update({ last_viewed_at: new Date().toISOString() }).eq("id", link.id);
+
+  const customerName = lead.customer_name || lead.name || "";
+
+  return (
+    <div className="min-h-screen p-4 md:p-8">
+      <div className="mx-auto w-full max-w-3xl space-y-6">
+        <Card>
+          <CardContent className="space-y-6 pt-6">
+            <div className="flex flex-wrap items-start justify-between gap-4">
+              <div>
+                <h1 className="text-2xl font-bold">Quotation</h1>
+                <p className="text-sm text-muted-foreground">RecklessBear</p>
+              </div>
+              <div className="text-sm text-right space-y-1">
+                <p className="font-medium">
+                  {lead.lead_id} · v{quote.version}
+                </p>
+                <p className="text-muted-foreground">Date: {formatDate(quote.created_at)}</p>
+                {quote.valid_until && <p className="text-muted-foreground">Valid until: {formatDate(quote.valid_until)}</p>}
+              </div>
+            </div>
+
+            {(customerName || lead.organization) && (
+              <div className="text-sm space-y-1">
+                <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">Prepared for</p>
+                {customerName && <p className="font-medium">{customerName}</p>}
+                {lead.organization && <p>{lead.organization}</p>}
+              </div>
+            )}
+
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead>Size</TableHead>
+                    <TableHead className="text-right">Qty</TableHead>
+                    <TableHead className="text-right">Unit Price</TableHead>
+                    <TableHead className="text-right">Total</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {(quote.line_items || []).map((item) => (
+                    <TableRow key={item.id}>
+                      <TableCell className="font-medium">{item.product_type}</TableCell>
+                      <TableCell>{item.size || "—"}</TableCell>
+                      <TableCell className="text-right tabular-nums">{Number(item.quantity)}</TableCell>
+                      <TableCell className="text-right tabular-nums">{formatMoney(item.unit_price)}</TableCell>
+                      <TableCell className="text-right tabular-nums">{formatMoney(item.line_total)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="ml-auto w-full max-w-xs space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Subtotal</span>
+                <span className="tabular-nums">{formatMoney(quote.subtotal)}</span>
+              </div>
+              {Number(quote.discount_total) > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Discount</span>
+                  <span className="tabular-nums">-{formatMoney(quote.discount_total)}</span>
+                </div>
+              )}
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">VAT ({Number(quote.vat_rate)}%)</span>
+                <span className="tabular-nums">{formatMoney(quote.vat_total)}</span>
+              </div>
+              <div className="flex justify-between border-t pt-1 text-base font-semibold">
+                <span>Total</span>
+                <span className="tabular-nums">{formatMoney(quote.total)}</span>
+              </div>
+            </div>
+
+            {quote.notes && <p className="text-sm whitespace-pre-wrap">{quote.notes}</p>}
+          </CardContent>
+        </Card>
+
+        {quote.status === "approved" ? (
+          <Card>
+            <CardContent className="pt-6 text-sm">
+              Accepted{quote.approved_by_name ? ` by ${quote.approved_by_name}` : ""} on {formatDate(quote.approved_at)}. Thank you!
+            </CardContent>
+          </Card>
+        ) : quote.status === "sent" ? (
+          <QuoteResponseClient token={token} defaultName={customerName} />
+        ) : (
+          <Card>
+            <CardContent className="pt-6 text-sm text-muted-foreground">
+              This quote has been replaced by a newer version. Please contact RecklessBear for the latest quote.
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
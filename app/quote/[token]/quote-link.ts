@@ -0,0 +1,51 @@
+import "server-only";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { verifyQuoteLinkToken } from "@/lib/quote-links";
+import type { Quote } from "@/types/quotes";
+
+export type QuoteLinkContext = {
+  link: { id: string; quote_id: string; lead_db_id: string; expires_at: string; created_by: string | null };
+  quote: Quote;
+  lead: { id: string; lead_id: string; customer_name: string | null; name: string | null; organization: string | null; status: string | null };
+};
+
+export async function loadQuoteLinkContext(
+  supabase: SupabaseClient,
+  token: string
+): Promise<{ ok: true; context: QuoteLinkContext } | { ok: false; error: string }> {
+  const verified = verifyQuoteLinkToken(token);
+  if ("reason" in verified) {
+    return { ok: false, error: verified.reason === "expired" ? "This quote link has expired." : "This quote link is not valid." };
+  }
+
+  const { data: link } = await supabase
+    .from("quote_approval_links")
+    .select("id, quote_id, lead_db_id, expires_at, created_by, revoked_at")
+    .eq("id", verified.linkId)
+    .maybeSingle();
+  if (!link || link.revoked_at) return { ok: false, error: "This quote link is no longer active." };
+  if (new Date(link.expires_at).getTime() < Date.now()) return { ok: false, error: "This quote link has expired." };
+
+  const [{ data: quote }, { data: lead }] = await Promise.all([
+    supabase.from("quotes").select("*, line_items:quote_line_items(*)").eq("id", link.quote_id).maybeSingle(),
+    supabase
+      .from("leads")
+      .select("id, lead_id, customer_name, name, organization, status")
+      .eq("id", link.lead_db_id)
+      .maybeSingle(),
+  ]);
+  if (!quote || !lead) return { ok: false, error: "This quote could not be found." };
+
+  const typedQuote = quote as Quote;
+  return {
+    ok: true,
+    context: {
+      link,
+      quote: {
+        ...typedQuote,
+        line_items: [...(typedQuote.line_items || [])].sort((a, b) => a.sort_order - b.sort_order),
+      },
+      lead,
+    },
+  };
+}
@@ -0,0 +1,87 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { respondToQuoteAction } from "./actions";
+
+export function QuoteResponseClient({ token, defaultName }: { token: string; defaultName: string }) {
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+  const [done, setDone] = useState<"accept" | "request_changes" | null>(null);
+  const [customerName, setCustomerName] = useState(defaultName);
+  const [customerEmail, setCustomerEmail] = useState("");
+  const [comment, setComment] = useState("");
+
+  function submit(decision: "accept" | "request_changes") {
+    setError(null);
+    const formData = new FormData();
+    formData.set("token", token);
+    formData.set("decision", decision);
+    formData.set("customerName", customerName);
+    if (customerEmail.trim()) formData.set("customerEmail", customerEmail.trim());
+    if (comment.trim()) formData.set("comment", comment.trim());
+    startTransition(async () => {
+      const result = await respondToQuoteAction(formData);
+      if ("error" in result) {
+        setError(result.error);
+        return;
+      }
+      setDone(result.decision);
+    });
+  }
+
+  if (done) {
+    return (
+      <Card>
+        <CardContent className="pt-6 text-sm">
+          {done === "accept"
+            ? "Thank you! Your quote has been accepted and our team will be in touch about production."
+            : "Thanks for the feedback. Our team will send you an updated quote."}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Your response</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="grid gap-2">
+            <Label htmlFor="customerName">Your name</Label>
+            <Input id="customerName" value={customerName} onChange={(e) => setCustomerName(e.target.value)} required />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="customerEmail">Email (optional)</Label>
+            <Input id="customerEmail" type="email" value={customerEmail} onChange={(e) => setCustomerEmail(e.target.value)} />
+          </div>
+        </div>
+        <div className="grid gap-2">
+          <Label htmlFor="comment">Comment</Label>
+          <Textarea
+            id="comment"
+            rows={3}
+            placeholder="Anything we should know, or what you'd like changed"
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+          />
+        </div>
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        <div className="flex flex-col gap-2 sm:flex-row sm:justify-end">
+          <Button variant="outline" className="min-h-[44px]" disabled={isPending} onClick={() => submit("request_changes")}>
+            Request changes
+          </Button>
+          <Button className="min-h-[44px]" disabled={isPending || !customerName.trim()} onClick={() => submit("accept")}>
+            {isPending ? "Submitting..." : "Accept quote"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -14,7 +14,7 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
 import { Separator } from "@/components/ui/separator";
-import { LayoutDashboard, Users as UsersIcon, Menu, ShieldCheck, ChevronLeft, ChevronRight } from "lucide-react";
+import { LayoutDashboard, Users as UsersIcon, ListChecks, Menu, ShieldCheck, ChevronLeft, ChevronRight } from "lucide-react";
 import { signOutAction } from "@/app/login/actions";
 import { ThemeToggle } from "@/components/theme-toggle";
 import { NotificationsToggle } from "@/components/notifications-toggle";
@@ -24,6 +24,7 @@ import { useTheme } from "next-themes";
 const navigation = [
   { name: "Dashboard", href: "/dashboard", icon: LayoutDashboard },
   { name: "Leads", href: "/leads", icon: UsersIcon },
+  { name: "Tasks", href: "/tasks", icon: ListChecks },
   { name: "Users", href: "/users", icon: ShieldCheck },
 ];
 
@@ -145,7 +146,7 @@ export function AppShell({ children, userName, userRole }: AppShellProps) {
   return (
     <div className="min-h-screen text-foreground flex">
       <aside
-        className={`hidden md:flex border-r border-[hsl(var(--sidebar-border))] bg-[hsl(var(--sidebar))] p-4 flex-shrink-0 transition-[width] duration-200 ${
+        className={`hidden md:flex print:!hidden border-r border-[hsl(var(--sidebar-border))] bg-[hsl(var(--sidebar))] p-4 flex-shrink-0 transition-[width] duration-200 ${
           isDesktopCollapsed ? "w-[92px] p-3" : "w-64 p-4"
         }`}
       >
@@ -201,7 +202,7 @@ export function AppShell({ children, userName, userRole }: AppShellProps) {
       </aside>
 
       <div className="flex-1 flex flex-col min-w-0">
-        <header className="flex items-center justify-between border-b border-border bg-background/70 backdrop-blur px-4 py-3 flex-shrink-0">
+        <header className="print:hidden flex items-center justify-between border-b border-border bg-background/70 backdrop-blur px-4 py-3 flex-shrink-0">
           <div className="flex items-center gap-3">
             <Sheet open={isSheetOpen} onOpenChange={setIsSheetOpen}>
               <SheetTrigger asChild>
@@ -10,11 +10,13 @@
    const s = normalizePaymentStatus(status);
    if (!s) return "border-border bg-muted text-foreground";
  
-   if (s.includes("paid")) return "border-green-500/30 bg-green-500/15 text-green-200";
-   if (s.includes("partial")) return "border-amber-500/30 bg-amber-500/15 text-amber-200";
-   if (s.includes("pending")) return "border-amber-500/30 bg-amber-500/15 text-amber-200";
+   // Check the "...paid" variants before plain "paid" so "Unpaid"/"Partially Paid" don't render green
    if (s.includes("overdue")) return "border-destructive/40 bg-destructive/15 text-destructive";
    if (s.includes("unpaid")) return "border-destructive/40 bg-destructive/15 text-destructive";
+   if (s.includes("partial")) return "border-amber-500/30 bg-amber-500/15 text-amber-200";
+   if (s.includes("deposit")) return "border-amber-500/30 bg-amber-500/15 text-amber-200";
+   if (s.includes("pending")) return "border-amber-500/30 bg-amber-500/15 text-amber-200";
+   if (s.includes("paid")) return "border-green-500/30 bg-green-500/15 text-green-200";
  
    return "border-border bg-muted text-foreground";
  }
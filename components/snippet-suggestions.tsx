@@ -0,0 +1,41 @@
+"use client";
+
+import { cn } from "@/lib/utils";
+import type { Snippet } from "@/types/snippets";
+
+interface SnippetSuggestionsProps {
+  snippets: Snippet[];
+  onPick: (snippet: Snippet) => void;
+  className?: string;
+}
+
+/**
+ * Dropdown of snippets matching a "/shortcut", positioned above the composer it belongs to.
+ */
+export function SnippetSuggestions({ snippets, onPick, className }: SnippetSuggestionsProps) {
+  if (snippets.length === 0) return null;
+  return (
+    <div
+      className={cn(
+        "absolute bottom-full left-0 z-10 mb-1 w-80 max-w-full overflow-hidden rounded-md border border-border bg-popover text-popover-foreground shadow-md",
+        className
+      )}
+    >
+      {snippets.map((snippet) => (
+        <button
+          key={snippet.id}
+          type="button"
+          className="block w-full px-3 py-1.5 text-left hover:bg-muted"
+          // Keep focus in the textarea so typing can continue after the pick
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => onPick(snippet)}
+        >
+          <span className="font-mono text-xs text-primary">/{snippet.shortcut}</span>
+          <span className="ml-2 text-sm">{snippet.title}</span>
+          {snippet.owner_user_id && <span className="ml-2 text-xs text-muted-foreground">private</span>}
+          <span className="block truncate text-xs text-muted-foreground">{snippet.body}</span>
+        </button>
+      ))}
+    </div>
+  );
+}
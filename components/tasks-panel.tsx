@@ -0,0 +1,267 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { AlarmClock, Plus, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { TASK_SNOOZE_OPTIONS, type Task } from "@/types/tasks";
+import { createTaskAction, deleteTaskAction, setTaskCompletedAction, snoozeTaskAction } from "@/app/(app)/tasks/actions";
+
+const selectClassName =
+  "h-9 w-full rounded-md border border-input bg-background px-3 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring";
+
+export interface TaskStaffMember {
+  id: string;
+  name: string;
+}
+
+interface TasksPanelProps {
+  tasks: Task[];
+  staff: TaskStaffMember[];
+  currentUserId: string;
+  isAdmin: boolean;
+  /** New tasks are attached to this lead and/or job */
+  leadDbId?: string;
+  jobId?: string;
+  defaultAssigneeId?: string | null;
+  /** Show which lead or job each task belongs to */
+  showContext?: boolean;
+  /** Offer the "Add task" button (on by default) */
+  allowCreate?: boolean;
+  emptyText?: string;
+}
+
+function formatDue(value: string): string {
+  const d = new Date(value);
+  if (Number.isNaN(d.getTime())) return "—";
+  return d.toLocaleString("en-ZA", { day: "numeric", month: "short", hour: "2-digit", minute: "2-digit" });
+}
+
+/** Tomorrow 09:00 in the browser's zone, formatted for a datetime-local input */
+function defaultDueValue(): string {
+  const d = new Date();
+  d.setDate(d.getDate() + 1);
+  d.setHours(9, 0, 0, 0);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
+export function TasksPanel({
+  tasks,
+  staff,
+  currentUserId,
+  isAdmin,
+  leadDbId,
+  jobId,
+  defaultAssigneeId,
+  showContext = false,
+  allowCreate = true,
+  emptyText = "No open tasks.",
+}: TasksPanelProps) {
+  const router = useRouter();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [isPending, startTransition] = useTransition();
+  const now = Date.now();
+
+  const canChange = (task: Task) =>
+    isAdmin || task.assignee_user_id === currentUserId || task.created_by === currentUserId;
+  const canDelete = (task: Task) => isAdmin || task.created_by === currentUserId;
+
+  function run(action: () => Promise<{ error: string } | { success: true }>, successMessage: string) {
+    startTransition(async () => {
+      const result = await action();
+      if ("error" in result) {
+        toast.error(result.error);
+        return;
+      }
+      toast.success(successMessage);
+      router.refresh();
+    });
+  }
+
+  function handleCreate(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    const due = new Date(String(formData.get("dueAt") || ""));
+    if (Number.isNaN(due.getTime())) {
+      toast.error("Pick a due date and time");
+      return;
+    }
+    const assignee = String(formData.get("assigneeUserId") || "");
+    startTransition(async () => {
+      const result = await createTaskAction({
+        title: String(formData.get("title") || ""),
+        notes: String(formData.get("notes") || ""),
+        dueAt: due.toISOString(),
+        assigneeUserId: assignee || null,
+        leadDbId,
+        jobId,
+      });
+      if ("error" in result) {
+        toast.error(result.error);
+        return;
+      }
+      toast.success("Task added");
+      setDialogOpen(false);
+      router.refresh();
+    });
+  }
+
+  return (
+    <div className="space-y-3">
+      {tasks.length === 0 ? (
+        <p className="text-sm text-muted-foreground">{emptyText}</p>
+      ) : (
+        <ul className="space-y-2">
+          {tasks.map((task) => {
+            const done = !!task.completed_at;
+            const overdue = !done && new Date(task.due_at).getTime() < now;
+            return (
+              <li key={task.id} className="flex items-start gap-3 rounded-md border p-3">
+                <Checkbox
+                  checked={done}
+                  disabled={isPending || !canChange(task)}
+                  onCheckedChange={(checked) =>
+                    run(() => setTaskCompletedAction(task.id, checked === true), checked === true ? "Task done" : "Task reopened")
+                  }
+                  aria-label={done ? "Reopen task" : "Mark task done"}
+                  className="mt-0.5"
+                />
+                <div className="min-w-0 flex-1 space-y-1">
+                  <p className={`text-sm font-medium ${done ? "text-muted-foreground line-through" : ""}`}>{task.title}</p>
+                  {task.notes && <p className="text-xs text-muted-foreground whitespace-pre-wrap">{task.notes}</p>}
+                  <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-muted-foreground">
+                    <span className={overdue ? "font-medium text-destructive" : undefined}>
+                      {overdue ? "Overdue · " : "Due "}
+                      {formatDue(task.due_at)}
+                    </span>
+                    <span>{task.assignee_name || (task.assignee_user_id ? "Unknown" : "Unassigned")}</span>
+                    {task.source === "automation" && <Badge variant="outline">Auto</Badge>}
+                    {task.snooze_count > 0 && <span>Snoozed {task.snooze_count}×</span>}
+                    {showContext && task.lead_db_id && (
+                      <Link href={`/leads/${task.lead_db_id}`} className="underline underline-offset-4">
+                        {task.lead_label || "Lead"}
+                      </Link>
+                    )}
+                    {showContext && task.job_id && (
+                      <Link href={`/jobs/${task.job_id}`} className="underline underline-offset-4">
+                        {task.job_label || "Job"}
+                      </Link>
+                    )}
+                  </div>
+                </div>
+                {!done && canChange(task) && (
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="ghost" size="icon" className="h-8 w-8" disabled={isPending} aria-label="Snooze task">
+                        <AlarmClock className="h-4 w-4" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuLabel>Snooze for</DropdownMenuLabel>
+                      {TASK_SNOOZE_OPTIONS.map((option) => (
+                        <DropdownMenuItem
+                          key={option.minutes}
+                          onSelect={() => run(() => snoozeTaskAction(task.id, option.minutes), `Snoozed for ${option.label}`)}
+                        >
+                          {option.label}
+                        </DropdownMenuItem>
+                      ))}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                )}
+                {canDelete(task) && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    disabled={isPending}
+                    aria-label="Delete task"
+                    onClick={() => {
+                      if (!window.confirm(`Delete "${task.title}"?`)) return;
+                      run(() => deleteTaskAction(task.id), "Task deleted");
+                    }}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {allowCreate && (
+        <Button variant="outline" size="sm" onClick={() => setDialogOpen(true)}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add task
+        </Button>
+      )}
+
+      {dialogOpen && (
+        <Dialog open onOpenChange={setDialogOpen}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>New task</DialogTitle>
+            </DialogHeader>
+            <form id="new-task-form" onSubmit={handleCreate} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="task-title">Title</Label>
+                <Input id="task-title" name="title" required maxLength={200} placeholder="Call back about sizes" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="task-notes">Notes</Label>
+                <Textarea id="task-notes" name="notes" rows={3} maxLength={2000} />
+              </div>
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="task-due">Due</Label>
+                  <Input id="task-due" name="dueAt" type="datetime-local" required defaultValue={defaultDueValue()} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="task-assignee">Assignee</Label>
+                  <select
+                    id="task-assignee"
+                    name="assigneeUserId"
+                    defaultValue={defaultAssigneeId ?? currentUserId}
+                    className={selectClassName}
+                  >
+                    <option value="">Unassigned</option>
+                    {staff.map((member) => (
+                      <option key={member.id} value={member.id}>
+                        {member.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+            </form>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setDialogOpen(false)} disabled={isPending}>
+                Cancel
+              </Button>
+              <Button type="submit" form="new-task-form" disabled={isPending}>
+                {isPending ? "Saving..." : "Add task"}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+import "server-only";
+import { headers } from "next/headers";
+
+/** Public origin for links sent out of the app (invites, quote links). Null when it can't be worked out. */
+export async function getAppBaseUrl() {
+  const explicit = process.env.NEXT_PUBLIC_BASE_URL;
+  if (explicit) return explicit.replace(/\/+$/, "");
+  const vercel = process.env.VERCEL_URL;
+  if (vercel) return `https://${vercel}`.replace(/\/+$/, "");
+  try {
+    const h = await headers();
+    const host = h.get("x-forwarded-host") || h.get("host");
+    if (host) {
+      const proto = h.get("x-forwarded-proto") || "https";
+      return `${proto}://${host}`.replace(/\/+$/, "");
+    }
+  } catch {
+  }
+  if (process.env.NODE_ENV === "development") return "http://localhost:3000";
+  return null;
+}
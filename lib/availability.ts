@@ -0,0 +1,239 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type {
+  AvailabilityStatus,
+  LeavePeriod,
+  ProfileAvailability,
+  TeamHours,
+  WorkingDay,
+} from "@/types/availability";
+
+export const TEAM_HOURS_SETTINGS_KEY = "team_hours";
+
+export const DEFAULT_TEAM_HOURS: TeamHours = {
+  timezone: "Africa/Johannesburg",
+  working_days: [1, 2, 3, 4, 5],
+  start_time: "08:00",
+  end_time: "17:00",
+};
+
+export const PROFILE_AVAILABILITY_SELECT = "user_id, is_away, working_hours, leave_periods";
+
+const HOUR_MS = 60 * 60 * 1000;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+/** How far addWorkingTime looks ahead before giving up and using wall-clock time */
+const MAX_LOOKAHEAD_DAYS = 366;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isWeekday(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 6;
+}
+
+export function normalizeTeamHours(value: unknown): TeamHours {
+  const raw = isRecord(value) ? value : {};
+  const days = Array.isArray(raw.working_days) ? raw.working_days.map(Number).filter(isWeekday) : DEFAULT_TEAM_HOURS.working_days;
+  return {
+    timezone: typeof raw.timezone === "string" && raw.timezone ? raw.timezone : DEFAULT_TEAM_HOURS.timezone,
+    working_days: Array.from(new Set(days)).sort(),
+    start_time:
+      typeof raw.start_time === "string" && TIME_PATTERN.test(raw.start_time) ? raw.start_time : DEFAULT_TEAM_HOURS.start_time,
+    end_time: typeof raw.end_time === "string" && TIME_PATTERN.test(raw.end_time) ? raw.end_time : DEFAULT_TEAM_HOURS.end_time,
+  };
+}
+
+/**
+ * Falls back to the defaults when the row is missing or unreadable.
+ */
+export async function getTeamHours(supabase: SupabaseClient): Promise<TeamHours> {
+  const { data, error } = await supabase
+    .from("system_settings")
+    .select("value")
+    .eq("key", TEAM_HOURS_SETTINGS_KEY)
+    .maybeSingle();
+  if (error) {
+    console.error("[availability] team hours fetch failed:", error.message);
+    return DEFAULT_TEAM_HOURS;
+  }
+  return normalizeTeamHours(data?.value);
+}
+
+export function normalizeProfileAvailability(row: Record<string, unknown>): ProfileAvailability {
+  const workingHours: WorkingDay[] | null = Array.isArray(row.working_hours)
+    ? row.working_hours
+        .filter(isRecord)
+        .map((day) => ({ day: Number(day.day), start: String(day.start ?? ""), end: String(day.end ?? "") }))
+        .filter((day) => isWeekday(day.day) && TIME_PATTERN.test(day.start) && TIME_PATTERN.test(day.end) && day.start < day.end)
+    : null;
+  const leavePeriods: LeavePeriod[] = Array.isArray(row.leave_periods)
+    ? row.leave_periods
+        .filter(isRecord)
+        .map((period) => ({
+          starts_on: String(period.starts_on ?? ""),
+          ends_on: String(period.ends_on ?? ""),
+          note: typeof period.note === "string" && period.note.trim() ? period.note : null,
+        }))
+        .filter((period) => DATE_PATTERN.test(period.starts_on) && DATE_PATTERN.test(period.ends_on) && period.starts_on <= period.ends_on)
+    : [];
+  return {
+    user_id: String(row.user_id),
+    is_away: row.is_away === true,
+    working_hours: workingHours,
+    leave_periods: leavePeriods,
+  };
+}
+
+export async function getProfileAvailability(
+  supabase: SupabaseClient,
+  userIds?: string[]
+): Promise<Map<string, ProfileAvailability> | { error: string }> {
+  let query = supabase.from("profiles").select(PROFILE_AVAILABILITY_SELECT);
+  if (userIds) query = query.in("user_id", userIds);
+  const { data, error } = await query;
+  if (error) return { error: error.message };
+  const byUser = new Map<string, ProfileAvailability>();
+  for (const row of data || []) {
+    const availability = normalizeProfileAvailability(row as Record<string, unknown>);
+    byUser.set(availability.user_id, availability);
+  }
+  return byUser;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/** Local date (YYYY-MM-DD) and time (HH:MM) of an instant, or null for an unknown time zone */
+function localDateTime(ms: number, timezone: string): { date: string; time: string; offsetMs: number } | null {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    try {
+      formatter = new Intl.DateTimeFormat("en-US", {
+        timeZone: timezone,
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+        hour: "2-digit",
+        minute: "2-digit",
+        hourCycle: "h23",
+      });
+    } catch {
+      return null;
+    }
+    formatters.set(timezone, formatter);
+  }
+  const parts = formatter.formatToParts(new Date(ms));
+  const get = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)?.value || "00";
+  const [year, month, day, hour, minute] = [get("year"), get("month"), get("day"), get("hour"), get("minute")];
+  const wallClockMs = Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute));
+  return {
+    date: `${year}-${month}-${day}`,
+    time: `${hour}:${minute}`,
+    offsetMs: wallClockMs - Math.floor(ms / 60000) * 60000,
+  };
+}
+
+/** The instant a local date and time happen in the zone; resolves DST by re-checking the offset once */
+function zonedTime(date: string, time: string, timezone: string): number {
+  const [year, month, day] = date.split("-").map(Number);
+  const [hour, minute] = time.split(":").map(Number);
+  const wallClockMs = Date.UTC(year, month - 1, day, hour, minute);
+  const guess = wallClockMs - (localDateTime(wallClockMs, timezone)?.offsetMs ?? 0);
+  return wallClockMs - (localDateTime(guess, timezone)?.offsetMs ?? 0);
+}
+
+function weekdayOf(date: string): number {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+function nextDate(date: string): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day + 1)).toISOString().slice(0, 10);
+}
+
+/** The person's own week, or the team hours when they have none */
+export function workingDaysFor(team: TeamHours, availability: ProfileAvailability | null): WorkingDay[] {
+  if (availability?.working_hours) return availability.working_hours;
+  return team.working_days.map((day) => ({ day, start: team.start_time, end: team.end_time }));
+}
+
+export function isOnLeave(availability: ProfileAvailability | null, date: string): boolean {
+  return !!availability?.leave_periods.some((period) => date >= period.starts_on && date <= period.ends_on);
+}
+
+/**
+ * Where someone stands right now. Pass null to check the team hours alone.
+ * An unknown time zone counts as always on shift so nobody silently stops getting work.
+ */
+export function getAvailabilityStatus(
+  availability: ProfileAvailability | null,
+  team: TeamHours,
+  now = Date.now()
+): AvailabilityStatus {
+  if (availability?.is_away) return "away";
+  const local = localDateTime(now, team.timezone);
+  if (!local) return "available";
+  if (isOnLeave(availability, local.date)) return "on_leave";
+  const today = workingDaysFor(team, availability).find((day) => day.day === weekdayOf(local.date));
+  return today && local.time >= today.start && local.time < today.end ? "available" : "off_shift";
+}
+
+/** The instant the current local day ends in the zone (falls back to UTC midnight for an unknown zone) */
+export function endOfLocalDay(timezone: string, now = Date.now()): number {
+  const local = localDateTime(now, timezone);
+  if (!local) return Date.parse(`${nextDate(new Date(now).toISOString().slice(0, 10))}T00:00:00Z`);
+  return zonedTime(nextDate(local.date), "00:00", timezone);
+}
+
+export function isWithinTeamHours(team: TeamHours, now = Date.now()): boolean {
+  return getAvailabilityStatus(null, team, now) === "available";
+}
+
+/**
+ * The instant `hours` of working time after `fromMs`, counting only the person's working hours and
+ * skipping their leave (the team hours when availability is null). Falls back to wall-clock time when
+ * they have no working days at all.
+ */
+export function addWorkingTime(
+  fromMs: number,
+  hours: number,
+  team: TeamHours,
+  availability: ProfileAvailability | null
+): number {
+  const wallClock = fromMs + hours * HOUR_MS;
+  const days = workingDaysFor(team, availability);
+  const start = localDateTime(fromMs, team.timezone);
+  if (days.length === 0 || !start) return wallClock;
+
+  let remaining = hours * HOUR_MS;
+  let date = start.date;
+  let cursor = fromMs;
+  for (let i = 0; i < MAX_LOOKAHEAD_DAYS; i++) {
+    const window = days.find((day) => day.day === weekdayOf(date));
+    if (window && !isOnLeave(availability, date)) {
+      const open = Math.max(cursor, zonedTime(date, window.start, team.timezone));
+      const close = zonedTime(date, window.end, team.timezone);
+      if (open < close) {
+        if (remaining <= close - open) return open + remaining;
+        remaining -= close - open;
+      }
+    }
+    date = nextDate(date);
+    cursor = zonedTime(date, "00:00", team.timezone);
+  }
+  return wallClock;
+}
+
+/**
+ * Drops anyone away, on leave or off shift. Fails open: if availability can't be read everyone is kept.
+ */
+export async function filterAvailableUserIds(supabase: SupabaseClient, userIds: string[], now = Date.now()): Promise<string[]> {
+  if (userIds.length === 0) return [];
+  const [team, availability] = await Promise.all([getTeamHours(supabase), getProfileAvailability(supabase, userIds)]);
+  if ("error" in availability) {
+    console.error("[availability] profile fetch failed:", availability.error);
+    return userIds;
+  }
+  return userIds.filter((userId) => getAvailabilityStatus(availability.get(userId) ?? null, team, now) === "available");
+}
@@ -0,0 +1,318 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { ContactCandidate, ContactMatchReason, DuplicateLeadGroup, LeadIdentity } from "@/types/leads";
+
+/**
+ * E.164 phone number, South African by default. Mirrors public.normalize_phone_e164, which
+ * generates leads.phone_e164, so both sides of a lookup are normalized the same way.
+ */
+export function normalizePhone(input: string | null | undefined): string {
+  const trimmed = String(input || "").trim();
+  if (!trimmed) return "";
+  const digits = trimmed.replace(/\D/g, "");
+  if (!digits) return "";
+  if (trimmed.startsWith("+")) return `+${digits}`;
+  if (digits.startsWith("00")) return `+${digits.slice(2)}`;
+  if (digits.startsWith("27") && digits.length >= 11) return `+${digits}`;
+  if (digits.startsWith("0") && digits.length === 10) return `+27${digits.slice(1)}`;
+  return `+${digits}`;
+}
+
+export function normalizeEmail(input: string | null | undefined): string {
+  return String(input || "").trim().toLowerCase();
+}
+
+const ORGANIZATION_NOISE = new Set([
+  "the",
+  "pty",
+  "ltd",
+  "limited",
+  "inc",
+  "cc",
+  "npc",
+  "co",
+  "company",
+  "and",
+  "of",
+]);
+
+/**
+ * Lowercased organization name without punctuation or legal suffixes:
+ * "The Sharks (Pty) Ltd." and "sharks" normalize to the same value.
+ */
+export function normalizeOrganization(input: string | null | undefined): string {
+  return String(input || "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter((word) => word && !ORGANIZATION_NOISE.has(word))
+    .join(" ");
+}
+
+/**
+ * Lowercased person name with punctuation removed: "Smith, John." becomes "smith john".
+ */
+export function normalizeName(input: string | null | undefined): string {
+  return String(input || "")
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean)
+    .join(" ");
+}
+
+function bigrams(value: string): string[] {
+  const compact = value.replace(/\s+/g, " ");
+  const grams: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) grams.push(compact.slice(i, i + 2));
+  return grams;
+}
+
+/**
+ * Dice coefficient over character bigrams of two already-normalized values (0..1).
+ */
+function diceSimilarity(left: string, right: string): number {
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+  const leftGrams = bigrams(left);
+  const rightGrams = bigrams(right);
+  if (leftGrams.length === 0 || rightGrams.length === 0) return 0;
+
+  const counts = new Map<string, number>();
+  for (const gram of leftGrams) counts.set(gram, (counts.get(gram) || 0) + 1);
+  let overlap = 0;
+  for (const gram of rightGrams) {
+    const n = counts.get(gram) || 0;
+    if (n > 0) {
+      overlap++;
+      counts.set(gram, n - 1);
+    }
+  }
+  return (2 * overlap) / (leftGrams.length + rightGrams.length);
+}
+
+export function organizationSimilarity(a: string | null | undefined, b: string | null | undefined): number {
+  return diceSimilarity(normalizeOrganization(a), normalizeOrganization(b));
+}
+
+export function nameSimilarity(a: string | null | undefined, b: string | null | undefined): number {
+  return diceSimilarity(normalizeName(a), normalizeName(b));
+}
+
+export const ORGANIZATION_MATCH_THRESHOLD = 0.85;
+export const NAME_MATCH_THRESHOLD = 0.9;
+
+const REASON_WEIGHTS: Record<ContactMatchReason, number> = {
+  phone: 0.6,
+  email: 0.5,
+  organization: 0.3,
+  name: 0.3,
+};
+
+export const LEAD_IDENTITY_SELECT =
+  "id, lead_id, customer_name, name, email, phone, organization, status, assigned_rep_id, created_at, last_activity_at";
+
+export type LeadIdentityRow = {
+  id: string;
+  lead_id: string;
+  customer_name: string | null;
+  name: string | null;
+  email: string | null;
+  phone: string | null;
+  organization: string | null;
+  status: string | null;
+  assigned_rep_id: string | null;
+  created_at: string | null;
+  last_activity_at: string | null;
+};
+
+function toLeadIdentity(row: LeadIdentityRow): LeadIdentity {
+  return {
+    id: row.id,
+    lead_id: row.lead_id,
+    customer_name: row.customer_name || row.name,
+    email: row.email,
+    phone: row.phone,
+    organization: row.organization,
+    status: row.status,
+    assigned_rep_id: row.assigned_rep_id,
+    created_at: row.created_at,
+    last_activity_at: row.last_activity_at,
+  };
+}
+
+function activityTime(lead: { last_activity_at: string | null; created_at: string | null }): number {
+  return Date.parse(lead.last_activity_at || lead.created_at || "") || 0;
+}
+
+/**
+ * Leads that probably belong to the given contact, best match first.
+ * Phone and email are exact after normalization; organization is fuzzy and only counted
+ * at or above ORGANIZATION_MATCH_THRESHOLD.
+ */
+export async function findContactCandidates(
+  supabase: SupabaseClient,
+  contact: { phone?: string | null; email?: string | null; organization?: string | null },
+  options: { excludeLeadIds?: string[]; limit?: number } = {}
+): Promise<ContactCandidate[]> {
+  const phone = normalizePhone(contact.phone);
+  const email = normalizeEmail(contact.email);
+  const organization = normalizeOrganization(contact.organization);
+  const limit = options.limit ?? 10;
+
+  // The longest word keeps the organization prefilter selective; the fuzzy score decides
+  const orgKeyword = organization.split(" ").sort((a, b) => b.length - a.length)[0] || "";
+
+  const [byPhone, byEmail, byOrganization] = await Promise.all([
+    phone
+      ? supabase.from("leads").select(LEAD_IDENTITY_SELECT).is("merged_into_id", null).eq("phone_e164", phone).limit(50)
+      : Promise.resolve({ data: [] as LeadIdentityRow[] }),
+    email
+      ? supabase.from("leads").select(LEAD_IDENTITY_SELECT).is("merged_into_id", null).ilike("email", email).limit(50)
+      : Promise.resolve({ data: [] as LeadIdentityRow[] }),
+    orgKeyword.length >= 3
+      ? supabase
+          .from("leads")
+          .select(LEAD_IDENTITY_SELECT)
+          .is("merged_into_id", null)
+          .ilike("organization", `%${orgKeyword}%`)
+          .limit(100)
+      : Promise.resolve({ data: [] as LeadIdentityRow[] }),
+  ]);
+
+  const exclude = new Set(options.excludeLeadIds || []);
+  const candidates = new Map<string, { row: LeadIdentityRow; reasons: Set<ContactMatchReason> }>();
+  const add = (rows: LeadIdentityRow[] | null, reason: ContactMatchReason, accept: (row: LeadIdentityRow) => boolean) => {
+    for (const row of rows || []) {
+      if (exclude.has(row.id) || !accept(row)) continue;
+      const entry = candidates.get(row.id) || { row, reasons: new Set<ContactMatchReason>() };
+      entry.reasons.add(reason);
+      candidates.set(row.id, entry);
+    }
+  };
+
+  add(byPhone.data as LeadIdentityRow[] | null, "phone", () => true);
+  add(byEmail.data as LeadIdentityRow[] | null, "email", (row) => normalizeEmail(row.email) === email);
+  add(
+    byOrganization.data as LeadIdentityRow[] | null,
+    "organization",
+    (row) => organizationSimilarity(row.organization, organization) >= ORGANIZATION_MATCH_THRESHOLD
+  );
+
+  return Array.from(candidates.values())
+    .map(({ row, reasons }) => ({
+      ...toLeadIdentity(row),
+      reasons: Array.from(reasons),
+      score: Math.min(1, Array.from(reasons).reduce((sum, reason) => sum + REASON_WEIGHTS[reason], 0)),
+    }))
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        activityTime(b) - activityTime(a)
+    )
+    .slice(0, limit);
+}
+
+/**
+ * The lead a phone number belongs to: the most recently active lead with the same E.164 number.
+ */
+export async function findLeadByPhone<T = { id: string; lead_id: string; assigned_rep_id: string | null }>(
+  supabase: SupabaseClient,
+  phone: string | null | undefined,
+  select = "id, lead_id, assigned_rep_id"
+): Promise<T | null> {
+  const e164 = normalizePhone(phone);
+  if (!e164) return null;
+  const { data, error } = await supabase
+    .from("leads")
+    .select(select)
+    .eq("phone_e164", e164)
+    .is("merged_into_id", null)
+    .order("last_activity_at", { ascending: false, nullsFirst: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) {
+    console.error("[contact-identity] phone lookup failed:", error.message);
+    return null;
+  }
+  return (data as T | null) ?? null;
+}
+
+/**
+ * Group leads that probably describe the same person: same E.164 phone, same email, or a
+ * full name at or above NAME_MATCH_THRESHOLD. Matches are transitive, so A~B and B~C put
+ * all three in one group. Only groups of two or more leads are returned, largest first.
+ */
+export function groupDuplicateLeads(rows: LeadIdentityRow[]): DuplicateLeadGroup[] {
+  const parent = rows.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+  const edgeReasons = new Map<number, Set<ContactMatchReason>>();
+  const link = (a: number, b: number, reason: ContactMatchReason) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    const reasons = new Set([...(edgeReasons.get(rootA) || []), ...(edgeReasons.get(rootB) || []), reason]);
+    parent[rootB] = rootA;
+    edgeReasons.delete(rootB);
+    edgeReasons.set(rootA, reasons);
+  };
+
+  const linkByKey = (keyOf: (row: LeadIdentityRow) => string, reason: ContactMatchReason) => {
+    const firstIndex = new Map<string, number>();
+    rows.forEach((row, i) => {
+      const key = keyOf(row);
+      if (!key) return;
+      const first = firstIndex.get(key);
+      if (first === undefined) firstIndex.set(key, i);
+      else link(first, i, reason);
+    });
+  };
+
+  linkByKey((row) => normalizePhone(row.phone), "phone");
+  linkByKey((row) => normalizeEmail(row.email), "email");
+
+  // Only compare names within the same three-letter prefix, and only full names:
+  // a lone first name matches far too many unrelated people
+  const nameBlocks = new Map<string, Array<{ index: number; name: string }>>();
+  rows.forEach((row, i) => {
+    const name = normalizeName(row.customer_name || row.name);
+    if (!name.includes(" ")) return;
+    const block = nameBlocks.get(name.slice(0, 3)) || [];
+    block.push({ index: i, name });
+    nameBlocks.set(name.slice(0, 3), block);
+  });
+  for (const block of nameBlocks.values()) {
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        if (diceSimilarity(block[i].name, block[j].name) >= NAME_MATCH_THRESHOLD) {
+          link(block[i].index, block[j].index, "name");
+        }
+      }
+    }
+  }
+
+  const members = new Map<number, LeadIdentityRow[]>();
+  rows.forEach((row, i) => {
+    const root = find(i);
+    const group = members.get(root) || [];
+    group.push(row);
+    members.set(root, group);
+  });
+
+  return Array.from(members.entries())
+    .filter(([, group]) => group.length > 1)
+    .map(([root, group]) => {
+      const leads = group.map(toLeadIdentity).sort((a, b) => activityTime(b) - activityTime(a));
+      return {
+        key: leads.map((lead) => lead.id).sort().join(":"),
+        reasons: Array.from(edgeReasons.get(root) || []),
+        leads,
+      };
+    })
+    .sort((a, b) => b.leads.length - a.leads.length || activityTime(b.leads[0]) - activityTime(a.leads[0]));
+}
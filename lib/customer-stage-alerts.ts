@@ -0,0 +1,237 @@
+import "server-only";
+import { randomUUID } from "crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { getAdminSupabase } from "@/lib/supabase/admin";
+import { PRODUCTION_STAGES, type ProductionStage } from "@/types/stock";
+import { WHATSAPP_TEMPLATE_VARIABLES } from "@/types/inbox";
+import type { CustomerStageAlertRule, CustomerStageAlertSettings } from "@/types/production-board";
+import { toProductionStageKey } from "@/lib/payments";
+import { buildTemplateMessage, renderNamedPlaceholders, resolveTemplateValues } from "@/lib/whatsapp-templates";
+import { normalizePhone } from "@/lib/contact-identity";
+import { findLeadForJobRef } from "@/lib/job-leads";
+
+export const CUSTOMER_STAGE_ALERTS_SETTINGS_KEY = "customer_stage_alerts";
+
+export function normalizeCustomerStageAlertSettings(value: unknown): CustomerStageAlertSettings {
+  const raw = value && typeof value === "object" ? (value as Record<string, unknown>) : {};
+  const rawStages = raw.stages && typeof raw.stages === "object" ? (raw.stages as Record<string, unknown>) : {};
+
+  const stages: Partial<Record<ProductionStage, CustomerStageAlertRule>> = {};
+  for (const stage of PRODUCTION_STAGES) {
+    const rule = rawStages[stage] as Partial<CustomerStageAlertRule> | undefined;
+    if (!rule || (rule.channel !== "whatsapp" && rule.channel !== "email")) continue;
+    stages[stage] = {
+      channel: rule.channel,
+      template_id: typeof rule.template_id === "string" && rule.template_id ? rule.template_id : null,
+      email_subject: typeof rule.email_subject === "string" ? rule.email_subject : "",
+      email_body: typeof rule.email_body === "string" ? rule.email_body : "",
+    };
+  }
+
+  return { stages };
+}
+
+export async function getCustomerStageAlertSettings(supabase: SupabaseClient): Promise<CustomerStageAlertSettings> {
+  const { data, error } = await supabase
+    .from("system_settings")
+    .select("value")
+    .eq("key", CUSTOMER_STAGE_ALERTS_SETTINGS_KEY)
+    .maybeSingle();
+  if (error) {
+    console.error("[customer-alerts] settings fetch failed:", error.message);
+    return { stages: {} };
+  }
+  return normalizeCustomerStageAlertSettings(data?.value);
+}
+
+type AlertLead = {
+  id: string;
+  lead_id: string | null;
+  customer_name: string | null;
+  name: string | null;
+  email: string | null;
+  phone: string | null;
+};
+
+async function findOrCreateConversation(supabase: SupabaseClient, lead: AlertLead, phone: string) {
+  const { data: linked } = await supabase
+    .from("wa_conversations")
+    .select("id, phone, lead_id, display_name, custom_display_name")
+    .eq("lead_id", lead.id)
+    .order("last_message_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (linked) return linked;
+
+  const { data, error } = await supabase
+    .from("wa_conversations")
+    .upsert({ phone, provider: "whatsapp", lead_id: lead.id, updated_at: new Date().toISOString() }, { onConflict: "phone" })
+    .select("id, phone, lead_id, display_name, custom_display_name")
+    .single();
+  if (error) {
+    console.error("[customer-alerts] conversation upsert failed:", error.message);
+    return null;
+  }
+  return data;
+}
+
+async function sendWhatsAppAlert(
+  supabase: SupabaseClient,
+  rule: CustomerStageAlertRule,
+  lead: AlertLead,
+  actorUserId: string | null
+): Promise<{ messageId: string } | { error: string }> {
+  if (!rule.template_id) return { error: "No WhatsApp template configured for this stage" };
+  const phone = normalizePhone(lead.phone || "");
+  if (!phone) return { error: "Lead has no phone number" };
+
+  const conversation = await findOrCreateConversation(supabase, lead, phone);
+  if (!conversation) return { error: "Could not open a WhatsApp conversation" };
+
+  const built = await buildTemplateMessage(supabase, rule.template_id, { ...conversation, lead_id: lead.id });
+  if ("error" in built) return { error: built.error };
+
+  const messageId = randomUUID();
+  const nowIso = new Date().toISOString();
+  const { error } = await supabase.from("wa_messages").insert({
+    id: messageId,
+    conversation_id: conversation.id,
+    direction: "outbound",
+    text: built.text,
+    message_type: "template",
+    template_id: built.template.id,
+    template_name: built.template.name,
+    template_language: built.template.language,
+    template_variables: built.values,
+    created_by: actorUserId,
+    status: "queued",
+    to_phone: normalizePhone(conversation.phone) || phone,
+    sent_at: null,
+    delivered_at: null,
+    retry_count: 0,
+  });
+  if (error) return { error: error.message };
+
+  await supabase
+    .from("wa_conversations")
+    .update({ last_message_at: nowIso, last_message_preview: built.text.slice(0, 140), updated_at: nowIso })
+    .eq("id", conversation.id);
+
+  return { messageId };
+}
+
+async function sendEmailAlert(
+  supabase: SupabaseClient,
+  rule: CustomerStageAlertRule,
+  lead: AlertLead,
+  payload: { jobId: string; stage: ProductionStage }
+): Promise<{ messageId: string | null } | { error: string }> {
+  const webhookUrl = process.env.CUSTOMER_ALERT_EMAIL_WEBHOOK_URL;
+  if (!webhookUrl) return { error: "CUSTOMER_ALERT_EMAIL_WEBHOOK_URL is not configured" };
+  if (!lead.email) return { error: "Lead has no email address" };
+  if (!rule.email_subject.trim() || !rule.email_body.trim()) return { error: "Email subject or body is empty" };
+
+  const resolved = await resolveTemplateValues(supabase, { variables: WHATSAPP_TEMPLATE_VARIABLES }, { lead_id: lead.id });
+  const values = Object.fromEntries(WHATSAPP_TEMPLATE_VARIABLES.map((v, i) => [v, resolved[i]]));
+
+  try {
+    const res = await fetch(webhookUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        to: lead.email,
+        subject: renderNamedPlaceholders(rule.email_subject, values),
+        text: renderNamedPlaceholders(rule.email_body, values),
+        job_id: payload.jobId,
+        lead_id: lead.lead_id,
+        stage: payload.stage,
+      }),
+    });
+    if (!res.ok) return { error: `Email webhook failed (${res.status})` };
+    const json = (await res.json().catch(() => null)) as { message_id?: string; id?: string } | null;
+    return { messageId: json?.message_id || json?.id || null };
+  } catch (e) {
+    return { error: e instanceof Error ? e.message : String(e) };
+  }
+}
+
+/**
+ * Send the configured customer notification for a job that just moved into `stage`.
+ * The (job_id, stage, channel) row in job_customer_alerts is claimed before sending so a stage
+ * only ever notifies the customer once; the claim is released when the send fails.
+ * Never throws: a failed alert must not fail the stage move.
+ */
+export async function notifyCustomerOfStageChange(params: {
+  jobId: string;
+  stage: string | null | undefined;
+  actorUserId: string | null;
+}): Promise<{ sent: true; channel: string } | { sent: false; reason: string }> {
+  const stageKey = toProductionStageKey(params.stage);
+  if (!stageKey) return { sent: false, reason: "unknown_stage" };
+
+  const supabase = getAdminSupabase();
+  if (!supabase) return { sent: false, reason: "not_configured" };
+
+  try {
+    const settings = await getCustomerStageAlertSettings(supabase);
+    const rule = settings.stages[stageKey];
+    if (!rule) return { sent: false, reason: "no_rule" };
+
+    const { data: job } = await supabase
+      .from("jobs")
+      .select("id, lead_id, customer_alerts_muted")
+      .eq("id", params.jobId)
+      .maybeSingle();
+    if (!job) return { sent: false, reason: "job_not_found" };
+    if (job.customer_alerts_muted) return { sent: false, reason: "muted" };
+
+    const lead = await findLeadForJobRef<{
+      id: string;
+      lead_id: string | null;
+      customer_name: string | null;
+      name: string | null;
+      email: string | null;
+      phone: string | null;
+    }>(supabase, job.lead_id, "id, lead_id, customer_name, name, email, phone");
+    if (!lead) return { sent: false, reason: "lead_not_found" };
+
+    const { data: claim, error: claimError } = await supabase
+      .from("job_customer_alerts")
+      .insert({ job_id: job.id, stage: stageKey, channel: rule.channel })
+      .select("id")
+      .single();
+    if (claimError) {
+      if (claimError.code === "23505") return { sent: false, reason: "already_sent" };
+      console.error("[customer-alerts] claim failed:", claimError.message);
+      return { sent: false, reason: "claim_failed" };
+    }
+
+    const result =
+      rule.channel === "whatsapp"
+        ? await sendWhatsAppAlert(supabase, rule, lead as AlertLead, params.actorUserId)
+        : await sendEmailAlert(supabase, rule, lead as AlertLead, { jobId: job.id, stage: stageKey });
+
+    if ("error" in result) {
+      await supabase.from("job_customer_alerts").delete().eq("id", claim.id);
+      console.error(`[customer-alerts] ${rule.channel} alert for job ${job.id} (${stageKey}) failed:`, result.error);
+      return { sent: false, reason: result.error };
+    }
+
+    await supabase
+      .from("job_customer_alerts")
+      .update({ message_id: result.messageId, sent_at: new Date().toISOString() })
+      .eq("id", claim.id);
+
+    await supabase.from("lead_events").insert({
+      lead_db_id: lead.id,
+      actor_user_id: params.actorUserId,
+      event_type: "customer_stage_alert_sent",
+      payload: { jobId: job.id, stage: stageKey, channel: rule.channel, messageId: result.messageId },
+    });
+
+    return { sent: true, channel: rule.channel };
+  } catch (e) {
+    console.error("[customer-alerts] unexpected error:", e);
+    return { sent: false, reason: "unexpected_error" };
+  }
+}
@@ -0,0 +1,75 @@
+import type { PostgrestError, SupabaseClient } from "@supabase/supabase-js";
+
+// jobs.lead_id holds leads.id, but rows written before the uuid conversion (and Trello-created
+// jobs on databases that never ran it) hold the text leads.lead_id. Everything that crosses from a
+// job to its lead, or from a lead to its jobs, goes through these helpers.
+
+export const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function isUuid(value: string | null | undefined): value is string {
+  return !!value && UUID_RE.test(value);
+}
+
+/** The lead a jobs.lead_id value points at */
+export async function findLeadForJobRef<T>(supabase: SupabaseClient, jobLeadRef: string | null | undefined, select: string): Promise<T | null> {
+  const ref = String(jobLeadRef || "").trim();
+  if (!ref) return null;
+
+  const { data } = await supabase
+    .from("leads")
+    .select(select)
+    .or(isUuid(ref) ? `id.eq.${ref},lead_id.eq.${ref}` : `lead_id.eq.${ref}`)
+    .limit(1)
+    .maybeSingle();
+  return (data as T | null) ?? null;
+}
+
+/** leads.id for a job, `undefined` when the job doesn't exist and `null` when it has no lead */
+export async function findLeadDbIdForJob(supabase: SupabaseClient, jobId: string): Promise<string | null | undefined> {
+  const { data: job } = await supabase.from("jobs").select("id, lead_id").eq("id", jobId).maybeSingle();
+  if (!job) return undefined;
+  const lead = await findLeadForJobRef<{ id: string }>(supabase, job.lead_id as string | null, "id");
+  return lead?.id || null;
+}
+
+/** Leads for many jobs.lead_id values, keyed by both leads.id and leads.lead_id */
+export async function findLeadsForJobRefs<T extends { id: string; lead_id: string | null }>(
+  supabase: SupabaseClient,
+  jobLeadRefs: Array<string | null | undefined>,
+  select: string
+): Promise<Map<string, T>> {
+  const refs = Array.from(new Set(jobLeadRefs.filter((ref): ref is string => !!ref)));
+  if (refs.length === 0) return new Map();
+
+  const uuids = refs.filter((ref) => isUuid(ref));
+  const [byId, byCode] = await Promise.all([
+    uuids.length ? supabase.from("leads").select(select).in("id", uuids) : Promise.resolve({ data: [] }),
+    supabase.from("leads").select(select).in("lead_id", refs),
+  ]);
+
+  const map = new Map<string, T>();
+  for (const lead of [...((byId.data || []) as unknown as T[]), ...((byCode.data || []) as unknown as T[])]) {
+    map.set(lead.id, lead);
+    if (lead.lead_id) map.set(lead.lead_id, lead);
+  }
+  return map;
+}
+
+/** Every value of jobs.lead_id that can point at these leads */
+export function jobLeadRefs(leads: Array<{ id?: string | null; lead_id?: string | null }>): string[] {
+  return Array.from(new Set(leads.flatMap((lead) => [lead.id, lead.lead_id]).filter((ref): ref is string => !!ref)));
+}
+
+/**
+ * Runs a jobs query over `.in("lead_id", refs)`. Where jobs.lead_id is a uuid column it rejects
+ * lead codes (22P02), so the query is re-run with just the uuids.
+ */
+export async function queryJobsByLeadRefs<Q extends { error: PostgrestError | null }>(
+  refs: string[],
+  run: (refs: string[]) => PromiseLike<Q>
+): Promise<Q> {
+  const result = await run(refs);
+  const uuids = refs.filter((ref) => isUuid(ref));
+  if (result.error?.code === "22P02" && uuids.length < refs.length) return run(uuids);
+  return result;
+}
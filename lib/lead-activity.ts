@@ -0,0 +1,156 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { LeadActivityCategory, LeadActivityEvent } from "@/types/lead-activity";
+
+export const LEAD_ACTIVITY_SELECT = "id, lead_db_id, actor_user_id, event_type, payload, created_at";
+
+const CATEGORY_BY_TYPE: Record<string, LeadActivityCategory> = {
+  note_added: "notes",
+  note_deleted: "notes",
+  status_changed: "status",
+  rep_assigned: "assignment",
+  rep_unassigned: "assignment",
+  rep_self_assigned: "assignment",
+  rep_auto_assigned: "assignment",
+  job_assignee_changed: "assignment",
+  lead_created_from_whatsapp: "whatsapp",
+  customer_stage_alert_sent: "whatsapp",
+  job_created: "production",
+  job_cancelled: "production",
+  job_stage_changed: "production",
+  production_stage_updated: "production",
+  job_attachment_added: "production",
+  customer_alerts_muted: "production",
+  customer_alerts_unmuted: "production",
+  n8n_card_create_requested: "production",
+  stock_deducted: "stock",
+  stock_reservation_failed: "stock",
+  invoice_created: "payments",
+  invoice_voided: "payments",
+};
+
+export function leadActivityCategory(eventType: string): LeadActivityCategory {
+  const known = CATEGORY_BY_TYPE[eventType];
+  if (known) return known;
+  if (eventType.startsWith("whatsapp_")) return "whatsapp";
+  if (eventType.startsWith("trello_")) return "production";
+  if (eventType.startsWith("quote_")) return "quotes";
+  if (eventType.startsWith("payment_")) return "payments";
+  return "other";
+}
+
+function text(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value : typeof value === "number" ? String(value) : null;
+}
+
+/** Readable scalar fields of a payload, leaving out ids */
+function summarizePayload(payload: Record<string, unknown>): string | null {
+  const parts = Object.entries(payload)
+    .filter(([key, value]) => !/id$/i.test(key) && !/url$/i.test(key) && text(value) !== null)
+    .map(([key, value]) => `${key.replace(/_/g, " ")}: ${value}`);
+  return parts.length > 0 ? parts.join(" · ") : null;
+}
+
+export interface LeadActivityDescription {
+  title: string;
+  detail: string | null;
+  href: string | null;
+}
+
+/**
+ * A one-line summary of an event for the timeline. `names` maps user ids to display names.
+ * Unknown event types fall back to their type name.
+ */
+export function describeLeadActivity(event: LeadActivityEvent, names: Map<string, string>): LeadActivityDescription {
+  const p = event.payload || {};
+  const jobHref = text(p.jobId) ? `/jobs/${p.jobId}` : null;
+  const fromTo = (fallback: string) => {
+    const from = text(p.from);
+    const to = text(p.to);
+    return to ? `${from ? `${from} → ` : ""}${to}` : fallback;
+  };
+
+  switch (event.event_type) {
+    case "note_added":
+      return { title: "Note added", detail: text(p.notePreview), href: null };
+    case "note_deleted":
+      return { title: "Note deleted", detail: null, href: null };
+    case "status_changed":
+      return {
+        title: `Status: ${fromTo("changed")}`,
+        detail: p.via === "customer_link" ? `Approved by ${text(p.customer) || "the customer"} via the quote link` : null,
+        href: null,
+      };
+    case "rep_assigned":
+      return {
+        title: `Assigned to ${text(p.repLabel) || (text(p.repId) && names.get(p.repId as string)) || "a rep"}`,
+        detail: null,
+        href: null,
+      };
+    case "rep_auto_assigned":
+      return {
+        title: `Auto-assigned to ${(text(p.repId) && names.get(p.repId as string)) || "a rep"}`,
+        detail: text(p.reason),
+        href: null,
+      };
+    case "rep_self_assigned":
+      return { title: "Picked up the lead", detail: null, href: null };
+    case "rep_unassigned":
+      return { title: "Rep unassigned", detail: null, href: null };
+    case "whatsapp_message_received":
+      return {
+        title: "WhatsApp from customer",
+        detail: text(p.preview),
+        href: text(p.conversationId) ? `/inbox?conversation=${p.conversationId}` : null,
+      };
+    case "whatsapp_message_sent":
+      return {
+        title: "WhatsApp sent",
+        detail: text(p.preview),
+        href: text(p.conversationId) ? `/inbox?conversation=${p.conversationId}` : null,
+      };
+    case "job_stage_changed":
+    case "production_stage_updated":
+      return {
+        title: `Production: ${fromTo("stage changed")}`,
+        detail: text(p.source) ? `via ${String(p.source).replace(/_/g, " ")}` : null,
+        href: jobHref,
+      };
+    case "stock_deducted":
+      return {
+        title: "Stock deducted for production",
+        detail: text(p.notes),
+        href: jobHref ? `${jobHref}/stock-report` : null,
+      };
+    case "job_created":
+      return { title: "Job created", detail: null, href: jobHref };
+    case "quote_created":
+      return { title: `Quote v${text(p.version) ?? "?"} created`, detail: text(p.total) ? `Total ${p.total}` : null, href: null };
+    case "payment_recorded":
+    case "payment_refunded":
+      return {
+        title: `${event.event_type === "payment_refunded" ? "Refund" : "Payment"} ${text(p.amount) ?? ""}`.trim(),
+        detail: text(p.reference),
+        href: jobHref,
+      };
+    default: {
+      const label = event.event_type.replace(/_/g, " ");
+      return { title: label.charAt(0).toUpperCase() + label.slice(1), detail: summarizePayload(p), href: jobHref };
+    }
+  }
+}
+
+export async function getLeadActivity(supabase: SupabaseClient, leadDbId: string, limit = 500): Promise<LeadActivityEvent[]> {
+  const { data, error } = await supabase
+    .from("lead_events")
+    .select(LEAD_ACTIVITY_SELECT)
+    .eq("lead_db_id", leadDbId)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    if (error.code === "22P02") return [];
+    console.error("[lead-activity] fetch failed:", error.message);
+    return [];
+  }
+  return ((data || []) as LeadActivityEvent[]).map((event) => ({ ...event, payload: event.payload || {} }));
+}
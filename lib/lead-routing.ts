@@ -0,0 +1,338 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  getAvailabilityStatus,
+  getTeamHours,
+  isWithinTeamHours,
+  normalizeProfileAvailability,
+  PROFILE_AVAILABILITY_SELECT,
+} from "@/lib/availability";
+import { LEAD_SLA_CLOSED_STATUSES } from "@/lib/lead-sla";
+import type { ProfileAvailability, TeamHours } from "@/types/availability";
+import {
+  LEAD_APPAREL_CATEGORIES,
+  LEAD_APPAREL_CATEGORY_LABELS,
+  LEAD_ROUTING_STRATEGY_LABELS,
+  type LeadApparelCategory,
+  type LeadRoutingDecision,
+  type LeadRoutingHours,
+  type LeadRoutingRule,
+  type LeadRoutingRuleRep,
+  type LeadRoutingStrategy,
+} from "@/types/lead-routing";
+import { LEAD_INTENTS, type LeadIntent } from "@/types/leads";
+
+export const LEAD_ROUTING_RULE_SELECT =
+  "id, name, position, is_active, intents, categories, sources, organization_pattern, hours, strategy, reps, last_assigned_user_id, updated_at";
+
+/** Lead columns the rules can match on; anything missing simply doesn't match */
+export const LEAD_ROUTING_LEAD_SELECT = [
+  "id",
+  "lead_id",
+  "organization",
+  "source",
+  "has_requested_quote",
+  "has_booked_call",
+  "has_asked_question",
+  "apparel_interest",
+  "category",
+  "quote_data",
+  ...LEAD_APPAREL_CATEGORIES.map(categoryColumn),
+].join(", ");
+
+export interface RoutableLead {
+  organization?: string | null;
+  source?: string | null;
+  has_requested_quote?: boolean | null;
+  has_booked_call?: boolean | null;
+  has_asked_question?: boolean | null;
+  apparel_interest?: string | null;
+  category?: string | null;
+  quote_data?: unknown;
+  [key: string]: unknown;
+}
+
+const HOURS: LeadRoutingHours[] = ["any", "working", "after_hours"];
+const STRATEGIES: LeadRoutingStrategy[] = ["round_robin", "weighted"];
+
+function categoryColumn(category: LeadApparelCategory): string {
+  return category === "sports_kits" ? "sports_kits_selected" : `${category}_items`;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function stringArray(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === "string" && v.trim() !== "") : [];
+}
+
+export function normalizeLeadRoutingRule(row: Record<string, unknown>): LeadRoutingRule {
+  const reps: LeadRoutingRuleRep[] = Array.isArray(row.reps)
+    ? row.reps
+        .filter(isRecord)
+        .filter((rep) => typeof rep.user_id === "string")
+        .map((rep) => ({
+          user_id: rep.user_id as string,
+          weight: Number.isFinite(Number(rep.weight)) && Number(rep.weight) > 0 ? Number(rep.weight) : 1,
+        }))
+    : [];
+  return {
+    id: String(row.id),
+    name: String(row.name || ""),
+    position: Number(row.position) || 0,
+    is_active: row.is_active !== false,
+    intents: stringArray(row.intents).filter((i): i is LeadIntent => (LEAD_INTENTS as readonly string[]).includes(i)),
+    categories: stringArray(row.categories).filter((c): c is LeadApparelCategory =>
+      (LEAD_APPAREL_CATEGORIES as readonly string[]).includes(c)
+    ),
+    sources: stringArray(row.sources),
+    organization_pattern: typeof row.organization_pattern === "string" && row.organization_pattern.trim() ? row.organization_pattern : null,
+    hours: HOURS.includes(row.hours as LeadRoutingHours) ? (row.hours as LeadRoutingHours) : "any",
+    strategy: STRATEGIES.includes(row.strategy as LeadRoutingStrategy) ? (row.strategy as LeadRoutingStrategy) : "round_robin",
+    reps,
+    last_assigned_user_id: (row.last_assigned_user_id as string | null) ?? null,
+    updated_at: String(row.updated_at || ""),
+  };
+}
+
+export function leadApparelCategories(lead: RoutableLead): LeadApparelCategory[] {
+  const quote = isRecord(lead.quote_data) ? lead.quote_data : {};
+  const text = [lead.apparel_interest, lead.category, quote.apparel_interest, quote.category]
+    .filter((v): v is string => typeof v === "string")
+    .join(" ")
+    .toLowerCase();
+  return LEAD_APPAREL_CATEGORIES.filter((category) => {
+    const column = categoryColumn(category);
+    if (stringArray(lead[column]).length > 0 || stringArray(quote[column]).length > 0) return true;
+    return text.includes(LEAD_APPAREL_CATEGORY_LABELS[category].toLowerCase());
+  });
+}
+
+function leadIntents(lead: RoutableLead): LeadIntent[] {
+  const intents: LeadIntent[] = [];
+  if (lead.has_requested_quote) intents.push("Quote");
+  if (lead.has_booked_call) intents.push("Booking");
+  if (lead.has_asked_question) intents.push("Question");
+  return intents;
+}
+
+/** What the rule matched on, or null when any of its criteria fails */
+function matchRule(rule: LeadRoutingRule, lead: RoutableLead, inWorkingHours: boolean): string[] | null {
+  if (rule.hours === "working" && !inWorkingHours) return null;
+  if (rule.hours === "after_hours" && inWorkingHours) return null;
+
+  const matched: string[] = [];
+  if (rule.intents.length > 0) {
+    const hits = leadIntents(lead).filter((intent) => rule.intents.includes(intent));
+    if (hits.length === 0) return null;
+    matched.push(`intent ${hits.join("/")}`);
+  }
+  if (rule.categories.length > 0) {
+    const hits = leadApparelCategories(lead).filter((category) => rule.categories.includes(category));
+    if (hits.length === 0) return null;
+    matched.push(`category ${hits.map((c) => LEAD_APPAREL_CATEGORY_LABELS[c]).join("/")}`);
+  }
+  if (rule.organization_pattern) {
+    const organization = (lead.organization || "").toLowerCase();
+    if (!organization.includes(rule.organization_pattern.toLowerCase())) return null;
+    matched.push(`organization "${lead.organization}"`);
+  }
+  if (rule.sources.length > 0) {
+    const source = (lead.source || "").trim().toLowerCase();
+    if (!rule.sources.some((s) => s.trim().toLowerCase() === source)) return null;
+    matched.push(`source ${lead.source}`);
+  }
+  if (rule.hours === "working") matched.push("working hours");
+  if (rule.hours === "after_hours") matched.push("after hours");
+  return matched;
+}
+
+export interface LeadRoutingContext {
+  teamHours: TeamHours;
+  rules: LeadRoutingRule[];
+  /** user_id -> display name, for everyone who can be assigned */
+  names: Map<string, string>;
+  availability: Map<string, ProfileAvailability>;
+  /** Reps picked by the fallback when no rule applies */
+  defaultRepIds: string[];
+  openLeadCounts: Map<string, number>;
+  /** Round-robin cursors that moved and still need saving */
+  movedCursors: Map<string, string>;
+}
+
+/**
+ * Loads everything a routing decision needs once, so bulk assignment doesn't re-query per lead.
+ */
+export async function loadLeadRoutingContext(supabase: SupabaseClient): Promise<LeadRoutingContext | { error: string }> {
+  const [teamHours, { data: ruleRows, error: rulesError }, { data: profiles, error: profilesError }] = await Promise.all([
+    getTeamHours(supabase),
+    supabase.from("lead_routing_rules").select(LEAD_ROUTING_RULE_SELECT).eq("is_active", true).order("position", { ascending: true }),
+    supabase
+      .from("profiles")
+      .select(`full_name, role, created_at, ${PROFILE_AVAILABILITY_SELECT}`)
+      .order("created_at", { ascending: true }),
+  ]);
+  if (rulesError) return { error: rulesError.message };
+  if (profilesError) return { error: profilesError.message };
+
+  const names = new Map<string, string>();
+  const availability = new Map<string, ProfileAvailability>();
+  for (const profile of profiles || []) {
+    names.set(profile.user_id as string, (profile.full_name as string | null) || "a teammate");
+    availability.set(profile.user_id as string, normalizeProfileAvailability(profile as Record<string, unknown>));
+  }
+
+  const { data: openCounts, error: openError } = await supabase.rpc("lead_open_counts_by_rep", {
+    p_closed_statuses: LEAD_SLA_CLOSED_STATUSES,
+  });
+  if (openError) return { error: openError.message };
+
+  const openLeadCounts = new Map<string, number>();
+  for (const row of (openCounts || []) as Array<{ rep_id: string; open_leads: number | string }>) {
+    openLeadCounts.set(row.rep_id, Number(row.open_leads) || 0);
+  }
+
+  return {
+    teamHours,
+    rules: (ruleRows || []).map((row) => normalizeLeadRoutingRule(row as Record<string, unknown>)),
+    names,
+    availability,
+    defaultRepIds: (profiles || []).filter((p) => p.role === "rep").map((p) => p.user_id as string),
+    openLeadCounts,
+    movedCursors: new Map(),
+  };
+}
+
+/** Away and on-leave reps never get leads; off-shift reps only when nobody is on shift */
+function isAvailable(context: LeadRoutingContext, userId: string, now: Date, onShiftOnly: boolean): boolean {
+  if (!context.names.has(userId)) return false;
+  const status = getAvailabilityStatus(context.availability.get(userId) ?? null, context.teamHours, now.getTime());
+  return status === "available" || (!onShiftOnly && status === "off_shift");
+}
+
+function pickRoundRobin(context: LeadRoutingContext, rule: LeadRoutingRule, now: Date, onShiftOnly: boolean): string | null {
+  const cursor = context.movedCursors.get(rule.id) ?? rule.last_assigned_user_id;
+  const lastIndex = rule.reps.findIndex((rep) => rep.user_id === cursor);
+  for (let step = 1; step <= rule.reps.length; step++) {
+    const rep = rule.reps[(lastIndex + step) % rule.reps.length];
+    if (isAvailable(context, rep.user_id, now, onShiftOnly)) return rep.user_id;
+  }
+  return null;
+}
+
+function pickLeastLoaded(context: LeadRoutingContext, reps: LeadRoutingRuleRep[], now: Date, onShiftOnly: boolean): string | null {
+  let best: { userId: string; load: number } | null = null;
+  for (const rep of reps) {
+    if (!isAvailable(context, rep.user_id, now, onShiftOnly)) continue;
+    const load = (context.openLeadCounts.get(rep.user_id) || 0) / rep.weight;
+    if (!best || load < best.load) best = { userId: rep.user_id, load };
+  }
+  return best?.userId ?? null;
+}
+
+function pickWith(context: LeadRoutingContext, lead: RoutableLead, now: Date, onShiftOnly: boolean): LeadRoutingDecision | null {
+  const inWorkingHours = isWithinTeamHours(context.teamHours, now.getTime());
+
+  for (const rule of context.rules) {
+    if (rule.reps.length === 0) continue;
+    const matched = matchRule(rule, lead, inWorkingHours);
+    if (!matched) continue;
+
+    const repId =
+      rule.strategy === "round_robin"
+        ? pickRoundRobin(context, rule, now, onShiftOnly)
+        : pickLeastLoaded(context, rule.reps, now, onShiftOnly);
+    if (!repId) continue;
+
+    if (rule.strategy === "round_robin") context.movedCursors.set(rule.id, repId);
+    const criteria = matched.length > 0 ? `matched ${matched.join(", ")}` : "matches every lead";
+    return {
+      repId,
+      ruleId: rule.id,
+      ruleName: rule.name,
+      reason: `rule "${rule.name}" ${criteria} (${LEAD_ROUTING_STRATEGY_LABELS[rule.strategy].toLowerCase()})`,
+    };
+  }
+
+  const repId = pickLeastLoaded(
+    context,
+    context.defaultRepIds.map((userId) => ({ user_id: userId, weight: 1 })),
+    now,
+    onShiftOnly
+  );
+  if (!repId) return null;
+  return {
+    repId,
+    ruleId: null,
+    ruleName: null,
+    reason: `no routing rule matched and they had the fewest open leads (${context.openLeadCounts.get(repId) || 0})`,
+  };
+}
+
+/**
+ * Chooses a rep for the lead: the first active rule (by position) whose criteria all match and that has
+ * someone on shift, else the rep with the fewest open leads. When nobody is on shift the same choice is
+ * made among reps who are merely off shift, so the lead has an owner in the morning; away and on-leave
+ * reps are always skipped. Updates the context's open-lead counts and round-robin cursors so consecutive
+ * calls spread the load; call saveLeadRoutingCursors afterwards.
+ */
+export function pickLeadRoute(context: LeadRoutingContext, lead: RoutableLead, now = new Date()): LeadRoutingDecision | null {
+  let decision = pickWith(context, lead, now, true);
+  if (!decision) {
+    decision = pickWith(context, lead, now, false);
+    if (decision) decision.reason = `${decision.reason}; nobody eligible was on shift`;
+  }
+  if (!decision) return null;
+
+  context.openLeadCounts.set(decision.repId, (context.openLeadCounts.get(decision.repId) || 0) + 1);
+  return decision;
+}
+
+export async function saveLeadRoutingCursors(supabase: SupabaseClient, context: LeadRoutingContext): Promise<void> {
+  for (const [ruleId, userId] of context.movedCursors) {
+    const { error } = await supabase.from("lead_routing_rules").update({ last_assigned_user_id: userId }).eq("id", ruleId);
+    if (error) console.error("[lead-routing] cursor save failed:", error.message);
+  }
+  context.movedCursors.clear();
+}
+
+/**
+ * Routes a single lead and saves the round-robin cursor. Returns null when nobody can take it.
+ */
+export async function routeLead(supabase: SupabaseClient, lead: RoutableLead, now = new Date()): Promise<LeadRoutingDecision | null> {
+  const context = await loadLeadRoutingContext(supabase);
+  if ("error" in context) {
+    console.error("[lead-routing] context load failed:", context.error);
+    return null;
+  }
+  const decision = pickLeadRoute(context, lead, now);
+  await saveLeadRoutingCursors(supabase, context);
+  return decision;
+}
+
+/** Lead columns recording a routing decision; merge into the insert/update that assigns the rep */
+export function leadRoutingColumns(decision: LeadRoutingDecision, nowIso = new Date().toISOString()) {
+  return {
+    assigned_rep_id: decision.repId,
+    assigned_at: nowIso,
+    routing_rule_id: decision.ruleId,
+    routing_reason: decision.reason,
+    routed_at: nowIso,
+  };
+}
+
+/** Lead columns that clear a routing explanation when someone assigns by hand */
+export const MANUAL_ASSIGNMENT_ROUTING_COLUMNS = {
+  routing_rule_id: null,
+  routing_reason: null,
+  routed_at: null,
+};
+
+export function leadRoutingEvent(leadDbId: string, decision: LeadRoutingDecision, actorUserId: string | null) {
+  return {
+    lead_db_id: leadDbId,
+    actor_user_id: actorUserId,
+    event_type: "rep_auto_assigned",
+    payload: { repId: decision.repId, ruleId: decision.ruleId, ruleName: decision.ruleName, reason: decision.reason },
+  };
+}
@@ -0,0 +1,336 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { addWorkingTime, getAvailabilityStatus, getProfileAvailability, getTeamHours } from "@/lib/availability";
+import { sendPushToUsers } from "@/lib/push";
+import type { ProfileAvailability, TeamHours } from "@/types/availability";
+import {
+  LEAD_INTENTS,
+  LEAD_SLA_MILESTONE_LABELS,
+  type LeadIntent,
+  type LeadSlaBreach,
+  type LeadSlaMilestone,
+  type LeadSlaSettings,
+  type LeadSlaStatus,
+  type LeadSlaTargets,
+} from "@/types/leads";
+
+export const LEAD_SLA_SETTINGS_KEY = "lead_sla";
+
+const PAGE_SIZE = 1000;
+const BREACH_SELECT = "id, lead_db_id, milestone, intents, due_at, breached_at, assigned_rep_id, rep_notified_at, escalated_at, resolved_at";
+
+export const DEFAULT_LEAD_SLA_SETTINGS: LeadSlaSettings = {
+  intents: {
+    Quote: { first_contact_hours: 4, quote_sent_hours: 24, follow_up_hours: 48 },
+    Booking: { first_contact_hours: 2, quote_sent_hours: null, follow_up_hours: 24 },
+    Question: { first_contact_hours: 8, quote_sent_hours: null, follow_up_hours: null },
+  },
+  escalate_after_hours: 4,
+};
+
+/** Statuses where the lead no longer owes the customer anything */
+export const LEAD_SLA_CLOSED_STATUSES = ["Quote Approved", "In Production", "Completed", "Lost", "Answered"];
+
+export const LEAD_SLA_SELECT =
+  "id, lead_id, customer_name, name, status, assigned_rep_id, has_requested_quote, has_booked_call, has_asked_question, created_at, first_contacted_at, last_contacted_at, quote_sent_at";
+
+export interface LeadSlaRow {
+  id: string;
+  lead_id: string;
+  customer_name: string | null;
+  name: string | null;
+  status: string | null;
+  assigned_rep_id: string | null;
+  has_requested_quote: boolean | null;
+  has_booked_call: boolean | null;
+  has_asked_question: boolean | null;
+  created_at: string | null;
+  first_contacted_at: string | null;
+  last_contacted_at: string | null;
+  quote_sent_at: string | null;
+}
+
+/** Whose hours an SLA counts in: the assigned rep's schedule and leave, or the team hours when unassigned */
+export interface LeadSlaClock {
+  teamHours: TeamHours;
+  availability: Map<string, ProfileAvailability>;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function toHours(value: unknown): number | null {
+  const n = Number(value);
+  return value !== null && value !== "" && Number.isFinite(n) && n > 0 ? n : null;
+}
+
+export function normalizeLeadSlaSettings(value: unknown): LeadSlaSettings {
+  const raw = value && typeof value === "object" ? (value as Record<string, unknown>) : {};
+  const rawIntents = raw.intents && typeof raw.intents === "object" ? (raw.intents as Record<string, unknown>) : {};
+
+  const intents = {} as Record<LeadIntent, LeadSlaTargets>;
+  for (const intent of LEAD_INTENTS) {
+    const targets = rawIntents[intent];
+    if (!targets || typeof targets !== "object") {
+      intents[intent] = DEFAULT_LEAD_SLA_SETTINGS.intents[intent];
+      continue;
+    }
+    const t = targets as Record<string, unknown>;
+    intents[intent] = {
+      first_contact_hours: toHours(t.first_contact_hours),
+      // Only quote requests owe a quote
+      quote_sent_hours: intent === "Quote" ? toHours(t.quote_sent_hours) : null,
+      follow_up_hours: toHours(t.follow_up_hours),
+    };
+  }
+
+  return {
+    intents,
+    escalate_after_hours: toHours(raw.escalate_after_hours) ?? DEFAULT_LEAD_SLA_SETTINGS.escalate_after_hours,
+  };
+}
+
+/**
+ * Falls back to the defaults when the row is missing or unreadable.
+ */
+export async function getLeadSlaSettings(supabase: SupabaseClient): Promise<LeadSlaSettings> {
+  const { data, error } = await supabase
+    .from("system_settings")
+    .select("value")
+    .eq("key", LEAD_SLA_SETTINGS_KEY)
+    .maybeSingle();
+  if (error) {
+    console.error("[lead-sla] settings fetch failed:", error.message);
+    return DEFAULT_LEAD_SLA_SETTINGS;
+  }
+  return normalizeLeadSlaSettings(data?.value);
+}
+
+/**
+ * Fails open to the team hours with nobody's personal schedule if profiles can't be read.
+ */
+export async function getLeadSlaClock(supabase: SupabaseClient): Promise<LeadSlaClock> {
+  const [teamHours, availability] = await Promise.all([getTeamHours(supabase), getProfileAvailability(supabase)]);
+  if ("error" in availability) {
+    console.error("[lead-sla] availability fetch failed:", availability.error);
+    return { teamHours, availability: new Map() };
+  }
+  return { teamHours, availability };
+}
+
+/** Leads without any intent flag are treated as a general question */
+export function leadSlaIntents(lead: Pick<LeadSlaRow, "has_requested_quote" | "has_booked_call" | "has_asked_question">): LeadIntent[] {
+  const intents: LeadIntent[] = [];
+  if (lead.has_requested_quote) intents.push("Quote");
+  if (lead.has_booked_call) intents.push("Booking");
+  if (lead.has_asked_question) intents.push("Question");
+  return intents.length > 0 ? intents : ["Question"];
+}
+
+function strictest(settings: LeadSlaSettings, intents: LeadIntent[], key: keyof LeadSlaTargets): number | null {
+  const hours = intents.map((intent) => settings.intents[intent][key]).filter((h): h is number => h !== null);
+  return hours.length > 0 ? Math.min(...hours) : null;
+}
+
+function parseTime(value: string | null): number | null {
+  if (!value) return null;
+  const t = Date.parse(value);
+  return Number.isNaN(t) ? null : t;
+}
+
+/**
+ * The first milestone the lead has not met yet, using the strictest target across its intents.
+ * Follow-up is owed after the quote went out (or after first contact when no quote is owed)
+ * and is met by any later contact. With a clock, target hours only run while the assigned rep is
+ * working; without one they are wall-clock hours. Returns null when nothing is owed.
+ */
+export function getLeadSlaStatus(
+  lead: LeadSlaRow,
+  settings: LeadSlaSettings,
+  now = Date.now(),
+  clock?: LeadSlaClock
+): LeadSlaStatus | null {
+  if (LEAD_SLA_CLOSED_STATUSES.includes(lead.status || "")) return null;
+  const createdAt = parseTime(lead.created_at);
+  if (createdAt === null) return null;
+
+  const intents = leadSlaIntents(lead);
+  const firstContactedAt = parseTime(lead.first_contacted_at);
+  const lastContactedAt = parseTime(lead.last_contacted_at);
+  const quoteSentAt = parseTime(lead.quote_sent_at);
+
+  const repAvailability = lead.assigned_rep_id ? (clock?.availability.get(lead.assigned_rep_id) ?? null) : null;
+  const due = (milestone: LeadSlaMilestone, from: number, hours: number): LeadSlaStatus => {
+    const dueAt = clock ? addWorkingTime(from, hours, clock.teamHours, repAvailability) : from + hours * HOUR_MS;
+    return { milestone, due_at: new Date(dueAt).toISOString(), breached: now >= dueAt };
+  };
+
+  const firstContactHours = strictest(settings, intents, "first_contact_hours");
+  if (firstContactedAt === null && firstContactHours !== null) {
+    return due("first_contact", createdAt, firstContactHours);
+  }
+
+  const quoteSentHours = intents.includes("Quote") ? strictest(settings, intents, "quote_sent_hours") : null;
+  if (quoteSentAt === null && quoteSentHours !== null) {
+    return due("quote_sent", createdAt, quoteSentHours);
+  }
+
+  const followUpHours = strictest(settings, intents, "follow_up_hours");
+  const followUpFrom = quoteSentAt ?? firstContactedAt;
+  if (followUpHours !== null && followUpFrom !== null && !(lastContactedAt !== null && lastContactedAt > followUpFrom)) {
+    return due("follow_up", followUpFrom, followUpHours);
+  }
+
+  return null;
+}
+
+async function getEscalationRecipients(admin: SupabaseClient): Promise<string[]> {
+  const { data, error } = await admin.from("profiles").select("user_id").in("role", ["ceo", "admin"]);
+  if (error) {
+    console.error("[lead-sla] admin lookup failed:", error.message);
+    return [];
+  }
+  return (data || []).map((row) => row.user_id as string);
+}
+
+async function notify(userIds: string[], lead: LeadSlaRow, breach: Pick<LeadSlaBreach, "milestone">, escalated: boolean) {
+  const name = lead.customer_name || lead.name || lead.lead_id;
+  try {
+    const result = await sendPushToUsers(userIds, {
+      title: `${escalated ? "Escalated: " : ""}${LEAD_SLA_MILESTONE_LABELS[breach.milestone]} overdue`,
+      body: `${name} (${lead.status || "New"}) has missed its ${LEAD_SLA_MILESTONE_LABELS[breach.milestone].toLowerCase()} SLA.`,
+      url: `/leads/${lead.lead_id || lead.id}`,
+      tag: `lead-sla-${lead.id}-${breach.milestone}`,
+    });
+    return result.sent > 0;
+  } catch (err) {
+    console.error("[lead-sla] push failed:", err instanceof Error ? err.message : err);
+    return false;
+  }
+}
+
+export interface LeadSlaRunResult {
+  checked: number;
+  breached: number;
+  rep_notified: number;
+  escalated: number;
+  resolved: number;
+}
+
+async function getSlaLeads(admin: SupabaseClient, cutoff: string): Promise<LeadSlaRow[] | { error: string }> {
+  const rows: LeadSlaRow[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await admin
+      .from("leads")
+      .select(LEAD_SLA_SELECT)
+      .gte("created_at", cutoff)
+      .is("merged_into_id", null)
+      .order("id", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) return { error: error.message };
+    rows.push(...((data || []) as unknown as LeadSlaRow[]));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+async function getOpenBreaches(admin: SupabaseClient): Promise<LeadSlaBreach[] | { error: string }> {
+  const rows: LeadSlaBreach[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await admin
+      .from("lead_sla_breaches")
+      .select(BREACH_SELECT)
+      .is("resolved_at", null)
+      .order("id", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) return { error: error.message };
+    rows.push(...((data || []) as LeadSlaBreach[]));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+/**
+ * Logs new breaches, pushes them to the assigned rep, escalates to admins/CEO once they have sat for
+ * escalate_after_hours (straight away when nobody is assigned or the rep is away or on leave) and
+ * resolves breaches that were met. Pushes skip anyone off shift, so unsent ones retry on the next run.
+ * Expects a service-role client.
+ */
+export async function runLeadSlaEscalation(admin: SupabaseClient, now = Date.now()): Promise<LeadSlaRunResult | { error: string }> {
+  const [settings, clock] = await Promise.all([getLeadSlaSettings(admin), getLeadSlaClock(admin)]);
+  const cutoff = new Date(now - 60 * 24 * HOUR_MS).toISOString();
+
+  // Every lead in the window has to be evaluated, or its open breach would be resolved below
+  const [leads, openBreaches] = await Promise.all([getSlaLeads(admin, cutoff), getOpenBreaches(admin)]);
+  if ("error" in leads) return { error: leads.error };
+  if ("error" in openBreaches) return { error: openBreaches.error };
+
+  const result: LeadSlaRunResult = { checked: leads.length, breached: 0, rep_notified: 0, escalated: 0, resolved: 0 };
+  const stillBreached = new Set<string>();
+  const escalationMs = settings.escalate_after_hours * HOUR_MS;
+  let adminIds: string[] | null = null;
+  const nowIso = new Date(now).toISOString();
+
+  for (const lead of leads) {
+    const status = getLeadSlaStatus(lead, settings, now, clock);
+    if (!status?.breached) continue;
+
+    let breach = openBreaches.find((b) => b.lead_db_id === lead.id && b.milestone === status.milestone);
+    if (!breach) {
+      const { data: inserted, error } = await admin
+        .from("lead_sla_breaches")
+        .insert({
+          lead_db_id: lead.id,
+          milestone: status.milestone,
+          intents: leadSlaIntents(lead),
+          due_at: status.due_at,
+          breached_at: nowIso,
+          assigned_rep_id: lead.assigned_rep_id,
+        })
+        .select(BREACH_SELECT)
+        .single();
+      if (error || !inserted) {
+        console.error("[lead-sla] breach insert failed:", error?.message);
+        continue;
+      }
+      breach = inserted as LeadSlaBreach;
+      result.breached++;
+    }
+    stillBreached.add(breach.id);
+
+    const updates: Partial<Pick<LeadSlaBreach, "rep_notified_at" | "escalated_at" | "assigned_rep_id">> = {};
+    if (breach.assigned_rep_id !== lead.assigned_rep_id) updates.assigned_rep_id = lead.assigned_rep_id;
+
+    if (lead.assigned_rep_id && !breach.rep_notified_at) {
+      if (await notify([lead.assigned_rep_id], lead, breach, false)) {
+        updates.rep_notified_at = nowIso;
+        result.rep_notified++;
+      }
+    }
+
+    const overdueSince = Date.parse(breach.breached_at);
+    const repStatus = lead.assigned_rep_id
+      ? getAvailabilityStatus(clock.availability.get(lead.assigned_rep_id) ?? null, clock.teamHours, now)
+      : null;
+    const repUnreachable = !lead.assigned_rep_id || repStatus === "away" || repStatus === "on_leave";
+    if (!breach.escalated_at && (repUnreachable || now - overdueSince >= escalationMs)) {
+      adminIds ??= await getEscalationRecipients(admin);
+      if (await notify(adminIds, lead, breach, true)) {
+        updates.escalated_at = nowIso;
+        result.escalated++;
+      }
+    }
+
+    if (Object.keys(updates).length > 0) {
+      const { error } = await admin.from("lead_sla_breaches").update(updates).eq("id", breach.id);
+      if (error) console.error("[lead-sla] breach update failed:", error.message);
+    }
+  }
+
+  // Met, closed, merged, past the 60-day window or no longer covered by the settings
+  const resolvedIds = openBreaches.filter((b) => !stillBreached.has(b.id)).map((b) => b.id);
+  for (let i = 0; i < resolvedIds.length; i += 200) {
+    const chunk = resolvedIds.slice(i, i + 200);
+    const { error } = await admin.from("lead_sla_breaches").update({ resolved_at: nowIso }).in("id", chunk);
+    if (error) return { error: error.message };
+    result.resolved += chunk.length;
+  }
+
+  return result;
+}
@@ -0,0 +1,55 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { PRODUCTION_STAGES, PRODUCTION_STAGE_LABELS, type ProductionStage } from "@/types/stock";
+import type { JobPaymentBalance } from "@/types/payments";
+import { formatMoney } from "@/lib/quotes";
+
+// Stages that come after the "Full payment before collection/delivery" lists on the board
+const PAID_ONLY_STAGES: ProductionStage[] = ["ready_for_delivery_collection", "out_for_delivery", "delivered_collected"];
+
+/**
+ * production_stage holds either the stage key or the Trello list name depending on who wrote it.
+ */
+export function toProductionStageKey(stage: string | null | undefined): ProductionStage | null {
+  const value = (stage || "").trim().toLowerCase();
+  if (!value) return null;
+  for (const key of PRODUCTION_STAGES) {
+    if (key === value || PRODUCTION_STAGE_LABELS[key].toLowerCase() === value) return key;
+  }
+  return null;
+}
+
+export function requiresFullPayment(stage: string | null | undefined): boolean {
+  const key = toProductionStageKey(stage);
+  return !!key && PAID_ONLY_STAGES.includes(key);
+}
+
+export async function getJobPaymentBalance(supabase: SupabaseClient, jobId: string): Promise<JobPaymentBalance | null> {
+  const { data, error } = await supabase.from("job_payment_balances").select("*").eq("job_id", jobId).maybeSingle();
+  if (error || !data) return null;
+  return {
+    job_id: data.job_id,
+    invoiced_total: Number(data.invoiced_total ?? 0),
+    paid_total: Number(data.paid_total ?? 0),
+    balance: Number(data.balance ?? 0),
+    invoice_count: Number(data.invoice_count ?? 0),
+    deposit_only: !!data.deposit_only,
+  };
+}
+
+/**
+ * Returns an error message when the job still owes money and the target stage is past the full-payment gate.
+ */
+export async function checkPaymentGate(
+  supabase: SupabaseClient,
+  jobId: string,
+  toStage: string
+): Promise<string | null> {
+  if (!requiresFullPayment(toStage)) return null;
+  const balance = await getJobPaymentBalance(supabase, jobId);
+  // Legacy jobs without an invoice on the ledger are not gated
+  if (!balance || balance.invoice_count === 0) return null;
+  if (balance.balance > 0) {
+    return `Outstanding balance of ${formatMoney(balance.balance)} must be paid before moving to ${toStage}`;
+  }
+  return null;
+}
@@ -0,0 +1,112 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { PRODUCTION_STAGES, PRODUCTION_STAGE_LABELS, type ProductionStage } from "@/types/stock";
+import { toProductionStageKey } from "@/lib/payments";
+import { getTrelloBoardLists, moveTrelloCard, STAGE_TO_LIST_ID } from "@/lib/trello";
+import type { ProductionBoardMode, ProductionBoardSettings } from "@/types/production-board";
+
+export const PRODUCTION_BOARD_SETTINGS_KEY = "production_board";
+
+export const DEFAULT_PRODUCTION_BOARD_SETTINGS: ProductionBoardSettings = {
+  mode: "trello_primary",
+  wip_limits: {},
+};
+
+export const TRELLO_DISABLED_ERROR = "Trello is disabled: the production board is in Admin only mode";
+
+const MODES: ProductionBoardMode[] = ["trello_primary", "admin_primary", "admin_only"];
+
+export function normalizeProductionBoardSettings(value: unknown): ProductionBoardSettings {
+  const raw = value && typeof value === "object" ? (value as Record<string, unknown>) : {};
+  const mode = MODES.includes(raw.mode as ProductionBoardMode) ? (raw.mode as ProductionBoardMode) : DEFAULT_PRODUCTION_BOARD_SETTINGS.mode;
+
+  const limits: Partial<Record<ProductionStage, number>> = {};
+  const rawLimits = raw.wip_limits && typeof raw.wip_limits === "object" ? (raw.wip_limits as Record<string, unknown>) : {};
+  for (const stage of PRODUCTION_STAGES) {
+    const n = Number(rawLimits[stage]);
+    if (Number.isFinite(n) && n > 0) limits[stage] = Math.floor(n);
+  }
+
+  return { mode, wip_limits: limits };
+}
+
+/**
+ * Falls back to Trello primary when the row is missing or unreadable so existing behaviour is kept.
+ */
+export async function getProductionBoardSettings(supabase: SupabaseClient): Promise<ProductionBoardSettings> {
+  const { data, error } = await supabase
+    .from("system_settings")
+    .select("value")
+    .eq("key", PRODUCTION_BOARD_SETTINGS_KEY)
+    .maybeSingle();
+  if (error) {
+    console.error("[production-board] settings fetch failed:", error.message);
+    return DEFAULT_PRODUCTION_BOARD_SETTINGS;
+  }
+  return normalizeProductionBoardSettings(data?.value);
+}
+
+export function trelloEnabled(mode: ProductionBoardMode): boolean {
+  return mode !== "admin_only";
+}
+
+export function trelloDrivesStage(mode: ProductionBoardMode): boolean {
+  return mode === "trello_primary";
+}
+
+/**
+ * Returns an error message when moving the job into the stage would exceed the column's WIP limit.
+ */
+export async function checkWipLimit(
+  supabase: SupabaseClient,
+  settings: ProductionBoardSettings,
+  jobId: string | null,
+  toStage: string
+): Promise<string | null> {
+  const stageKey = toProductionStageKey(toStage);
+  const limit = stageKey ? settings.wip_limits[stageKey] : undefined;
+  if (!stageKey || !limit) return null;
+
+  const { data, error } = await supabase.from("jobs").select("id, production_stage").is("cancelled_at", null);
+  if (error) {
+    console.error("[production-board] WIP count failed:", error.message);
+    return null;
+  }
+
+  const inColumn = (data || []).filter((job) => job.id !== jobId && toProductionStageKey(job.production_stage) === stageKey).length;
+  if (inColumn >= limit) {
+    return `WIP limit reached for ${PRODUCTION_STAGE_LABELS[stageKey]} (${inColumn}/${limit})`;
+  }
+  return null;
+}
+
+/**
+ * Move the job's Trello card to the list for the stage. Failures are logged, not surfaced:
+ * the admin move has already been saved and reconciliation will report any drift.
+ * Resolves true only when the card was actually moved.
+ */
+export async function mirrorStageToTrello(
+  supabase: SupabaseClient,
+  settings: ProductionBoardSettings,
+  job: { id: string; trello_card_id: string | null; trello_list_id: string | null },
+  toStage: string
+): Promise<boolean> {
+  if (!trelloEnabled(settings.mode) || !job.trello_card_id) return false;
+
+  const stageKey = toProductionStageKey(toStage);
+  let listId = stageKey ? STAGE_TO_LIST_ID[stageKey] : undefined;
+  if (!listId) {
+    const lists = await getTrelloBoardLists();
+    if (!("error" in lists)) {
+      listId = lists.find((list) => list.name.trim().toLowerCase() === toStage.trim().toLowerCase())?.id;
+    }
+  }
+  if (!listId || listId === job.trello_list_id) return false;
+
+  const result = await moveTrelloCard(job.trello_card_id, listId);
+  if ("error" in result) {
+    console.error("[production-board] Trello mirror failed:", result.error);
+    return false;
+  }
+  await supabase.from("jobs").update({ trello_list_id: listId, trello_synced_at: new Date().toISOString() }).eq("id", job.id);
+  return true;
+}
@@ -1,6 +1,7 @@
 import "server-only";
-import { createClient as createAdminClient } from "@supabase/supabase-js";
+import { getAdminSupabase } from "@/lib/supabase/admin";
 import webpush, { type PushSubscription, type WebPushError } from "web-push";
+import { filterAvailableUserIds } from "@/lib/availability";
 
 let configured = false;
 function configureWebPush() {
@@ -15,13 +16,6 @@ function configureWebPush() {
   configured = true;
 }
 
-function getAdminSupabase() {
-  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
-  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
-  if (!url || !key) return null;
-  return createAdminClient(url, key, { auth: { persistSession: false } });
-}
-
 export interface NotificationPayload {
   title: string;
   body: string;
@@ -30,14 +24,20 @@ export interface NotificationPayload {
   data?: Record<string, unknown>;
 }
 
+export interface PushOptions {
+  /** Also reach people who are away, on leave or off shift (e.g. test pushes, @mentions) */
+  includeUnavailable?: boolean;
+}
+
 interface DbSubscription {
   id: string;
+  user_id: string | null;
   endpoint: string;
   p256dh: string;
   auth: string;
 }
 
-export async function sendPushToAllAdmins(payload: NotificationPayload): Promise<{
+export async function sendPushToAllAdmins(payload: NotificationPayload, options: PushOptions = {}): Promise<{
   sent: number;
   failed: number;
   removed: number;
@@ -50,11 +50,56 @@ export async function sendPushToAllAdmins(payload: NotificationPayload): Promise
 
   const { data: subs, error } = await supabase
     .from("push_subscriptions")
-    .select("id, endpoint, p256dh, auth")
+    .select("id, user_id, endpoint, p256dh, auth")
+    .returns<DbSubscription[]>();
+
+  if (error) throw new Error(error.message);
+  if (options.includeUnavailable) return sendToSubscriptions(supabase, subs || [], payload);
+
+  const userIds = Array.from(new Set((subs || []).map((sub) => sub.user_id).filter((id): id is string => !!id)));
+  const available = new Set(await filterAvailableUserIds(supabase, userIds));
+  return sendToSubscriptions(
+    supabase,
+    (subs || []).filter((sub) => !sub.user_id || available.has(sub.user_id)),
+    payload
+  );
+}
+
+/**
+ * Notify specific users on every device they subscribed from. People who are away, on leave or
+ * off shift are skipped unless includeUnavailable is set.
+ */
+export async function sendPushToUsers(
+  userIds: string[],
+  payload: NotificationPayload,
+  options: PushOptions = {}
+): Promise<{ sent: number; failed: number; removed: number }> {
+  if (userIds.length === 0) return { sent: 0, failed: 0, removed: 0 };
+  configureWebPush();
+  const supabase = getAdminSupabase();
+  if (!supabase) {
+    throw new Error("Supabase admin client not configured");
+  }
+
+  const recipients = options.includeUnavailable ? userIds : await filterAvailableUserIds(supabase, userIds);
+  if (recipients.length === 0) return { sent: 0, failed: 0, removed: 0 };
+
+  const { data: subs, error } = await supabase
+    .from("push_subscriptions")
+    .select("id, user_id, endpoint, p256dh, auth")
+    .in("user_id", recipients)
     .returns<DbSubscription[]>();
 
   if (error) throw new Error(error.message);
-  if (!subs || subs.length === 0) return { sent: 0, failed: 0, removed: 0 };
+  return sendToSubscriptions(supabase, subs || [], payload);
+}
+
+async function sendToSubscriptions(
+  supabase: NonNullable<ReturnType<typeof getAdminSupabase>>,
+  subs: DbSubscription[],
+  payload: NotificationPayload
+): Promise<{ sent: number; failed: number; removed: number }> {
+  if (subs.length === 0) return { sent: 0, failed: 0, removed: 0 };
 
   const json = JSON.stringify(payload);
   const stale: string[] = [];
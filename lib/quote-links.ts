@@ -0,0 +1,42 @@
+import "server-only";
+import { createHmac, timingSafeEqual } from "crypto";
+
+function getSecret(): string | null {
+  return process.env.QUOTE_LINK_SECRET || null;
+}
+
+function sign(value: string, secret: string): string {
+  return createHmac("sha256", secret).update(value).digest("base64url");
+}
+
+/**
+ * Token format: `<linkId>.<expiresUnixSeconds>.<hmac>`. The link row still has to exist
+ * (and not be revoked) for the token to be accepted, so links can be killed server-side.
+ */
+export function signQuoteLinkToken(linkId: string, expiresAt: Date): { token: string } | { error: string } {
+  const secret = getSecret();
+  if (!secret) return { error: "Missing QUOTE_LINK_SECRET" };
+  const payload = `${linkId}.${Math.floor(expiresAt.getTime() / 1000)}`;
+  return { token: `${payload}.${sign(payload, secret)}` };
+}
+
+export function verifyQuoteLinkToken(
+  token: string
+): { ok: true; linkId: string; expiresAt: Date } | { ok: false; reason: "invalid" | "expired" } {
+  const secret = getSecret();
+  const parts = String(token || "").split(".");
+  if (!secret || parts.length !== 3) return { ok: false, reason: "invalid" };
+
+  const [linkId, expRaw, signature] = parts;
+  const expected = Buffer.from(sign(`${linkId}.${expRaw}`, secret));
+  const provided = Buffer.from(signature);
+  if (expected.length !== provided.length || !timingSafeEqual(expected, provided)) {
+    return { ok: false, reason: "invalid" };
+  }
+
+  const expiresAt = new Date(Number(expRaw) * 1000);
+  if (Number.isNaN(expiresAt.getTime())) return { ok: false, reason: "invalid" };
+  if (expiresAt.getTime() < Date.now()) return { ok: false, reason: "expired" };
+
+  return { ok: true, linkId, expiresAt };
+}
@@ -0,0 +1,82 @@
+import type { PriceBookEntry, QuoteDiscountType } from "@/types/quotes";
+
+export const DEFAULT_VAT_RATE = 15;
+
+export type QuoteLineInput = {
+  product_type: string;
+  size: string | null;
+  description?: string | null;
+  quantity: number;
+  unit_price: number;
+};
+
+export type QuoteTotals = {
+  lines: Array<QuoteLineInput & { line_total: number }>;
+  subtotal: number;
+  discount_total: number;
+  vat_total: number;
+  total: number;
+};
+
+export function roundMoney(value: number): number {
+  const x = Number(value);
+  if (!Number.isFinite(x)) return 0;
+  return Math.round(x * 100) / 100;
+}
+
+export function formatMoney(value: number | null | undefined): string {
+  return new Intl.NumberFormat("en-ZA", { style: "currency", currency: "ZAR" }).format(roundMoney(Number(value ?? 0)));
+}
+
+/**
+ * Discount is applied to the subtotal before VAT; VAT is charged on the discounted amount.
+ */
+export function calculateQuoteTotals(params: {
+  lines: QuoteLineInput[];
+  discountType: QuoteDiscountType;
+  discountValue: number;
+  vatRate: number;
+}): QuoteTotals {
+  const lines = params.lines.map((line) => ({
+    ...line,
+    line_total: roundMoney(Number(line.quantity || 0) * Number(line.unit_price || 0)),
+  }));
+  const subtotal = roundMoney(lines.reduce((acc, line) => acc + line.line_total, 0));
+
+  let discount = 0;
+  if (params.discountType === "percent") {
+    discount = (subtotal * Math.min(Math.max(Number(params.discountValue || 0), 0), 100)) / 100;
+  } else if (params.discountType === "amount") {
+    discount = Math.min(Math.max(Number(params.discountValue || 0), 0), subtotal);
+  }
+  const discount_total = roundMoney(discount);
+
+  const taxable = subtotal - discount_total;
+  const vat_total = roundMoney((taxable * Math.max(Number(params.vatRate || 0), 0)) / 100);
+
+  return {
+    lines,
+    subtotal,
+    discount_total,
+    vat_total,
+    total: roundMoney(taxable + vat_total),
+  };
+}
+
+/**
+ * Size-specific price first, falling back to the product's size-less price (same rule as the BOM).
+ */
+export function findPriceBookEntry(
+  priceBook: PriceBookEntry[],
+  productType: string,
+  size: string | null
+): PriceBookEntry | null {
+  const product = productType.trim().toLowerCase();
+  const sizeKey = (size || "").trim().toLowerCase();
+  const candidates = priceBook.filter((p) => p.is_active && p.product_type.trim().toLowerCase() === product);
+  if (sizeKey) {
+    const specific = candidates.find((p) => (p.size || "").trim().toLowerCase() === sizeKey);
+    if (specific) return specific;
+  }
+  return candidates.find((p) => !p.size) || null;
+}
@@ -0,0 +1,55 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Snippet } from "@/types/snippets";
+
+export const SNIPPET_SELECT = "id, shortcut, title, body, category, owner_user_id, updated_at";
+
+/**
+ * The "/shortcut" being typed at the end of a composer, or null when the text does not end in one.
+ * The slash must start the text or follow whitespace so URLs and dates do not open the picker.
+ */
+export function getShortcutQuery(text: string): string | null {
+  const match = /(?:^|\s)\/([a-z0-9_-]{0,30})$/i.exec(text);
+  return match ? match[1].toLowerCase() : null;
+}
+
+/**
+ * Swap the trailing "/shortcut" for the expanded snippet text.
+ */
+export function replaceShortcut(text: string, expansion: string): string {
+  return text.replace(/\/[a-z0-9_-]{0,30}$/i, expansion);
+}
+
+/**
+ * Snippets whose shortcut or title matches the query. A private snippet hides a shared one with
+ * the same shortcut, so each rep can override team wording.
+ */
+export function matchSnippets<T extends Snippet>(snippets: T[], query: string, limit = 6): T[] {
+  const needle = query.trim().toLowerCase();
+  const byShortcut = new Map<string, T>();
+  for (const snippet of snippets) {
+    const existing = byShortcut.get(snippet.shortcut);
+    if (!existing || (existing.owner_user_id === null && snippet.owner_user_id !== null)) {
+      byShortcut.set(snippet.shortcut, snippet);
+    }
+  }
+  return Array.from(byShortcut.values())
+    .filter((s) => !needle || s.shortcut.startsWith(needle) || s.title.toLowerCase().includes(needle))
+    .sort((a, b) => Number(!a.shortcut.startsWith(needle)) - Number(!b.shortcut.startsWith(needle)) || a.shortcut.localeCompare(b.shortcut))
+    .slice(0, limit);
+}
+
+/**
+ * Shared snippets plus the user's own; RLS hides other reps' private snippets.
+ */
+export async function getSnippets(supabase: SupabaseClient): Promise<Snippet[]> {
+  const { data, error } = await supabase
+    .from("snippets")
+    .select(SNIPPET_SELECT)
+    .order("category", { ascending: true })
+    .order("shortcut", { ascending: true });
+  if (error) {
+    console.error("[snippets] fetch failed:", error.message);
+    return [];
+  }
+  return (data || []) as Snippet[];
+}
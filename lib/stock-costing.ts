@@ -0,0 +1,25 @@
+import type { MaterialInventory } from "@/types/stock";
+
+/**
+ * Mirrors public.material_unit_cost(): last_cost materials fall back to the average until first receipt.
+ */
+export function materialUnitCost(material: Pick<MaterialInventory, "costing_method" | "average_cost" | "last_cost"> | null | undefined) {
+  if (!material) return 0;
+  if (material.costing_method === "last_cost") return Number(material.last_cost ?? material.average_cost ?? 0);
+  return Number(material.average_cost ?? 0);
+}
+
+/**
+ * Margin is measured against quote revenue excluding VAT (subtotal less discounts).
+ */
+export function computeJobMargin(quote: { subtotal: number | null; discount_total: number | null } | null | undefined, cogs: number) {
+  if (!quote) return null;
+  const revenue = Number(quote.subtotal ?? 0) - Number(quote.discount_total ?? 0);
+  const margin = revenue - cogs;
+  return {
+    revenue,
+    cogs,
+    margin,
+    margin_pct: revenue > 0 ? Math.round((margin / revenue) * 1000) / 10 : null,
+  };
+}
@@ -0,0 +1,130 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { MaterialForecast } from "@/types/stock";
+
+// Supplier lead time we plan around, plus how many days of stock a reorder should buy
+export const REORDER_LEAD_TIME_DAYS = 14;
+export const REORDER_COVER_DAYS = 30;
+
+const SHORT_WINDOW_DAYS = 30;
+const LONG_WINDOW_DAYS = 90;
+const PAGE_SIZE = 1000;
+
+type MaterialRow = {
+  id: string;
+  qty_on_hand: number;
+  restock_threshold: number;
+};
+
+function ceilQty(value: number) {
+  return Math.ceil(value * 100) / 100;
+}
+
+/**
+ * Days of cover use available stock (on hand minus reservations); the suggested
+ * quantity tops up to usage over lead time + cover days plus the restock threshold,
+ * net of what is already on order.
+ */
+export function computeMaterialForecast(params: {
+  material: MaterialRow;
+  consumed30: number;
+  consumed90: number;
+  reserved: number;
+  onOrder: number;
+}): MaterialForecast {
+  const onHand = Number(params.material.qty_on_hand ?? 0);
+  const threshold = Number(params.material.restock_threshold ?? 0);
+  // Take the busier of the two windows so a recent spike isn't averaged away
+  const avgDailyUsage = Math.max(params.consumed30 / SHORT_WINDOW_DAYS, params.consumed90 / LONG_WINDOW_DAYS);
+  const available = onHand - params.reserved;
+  const daysOfCover = avgDailyUsage > 0 ? Math.max(0, available) / avgDailyUsage : null;
+  const target = avgDailyUsage * (REORDER_LEAD_TIME_DAYS + REORDER_COVER_DAYS) + threshold;
+  const shortfall = target - (available + params.onOrder);
+
+  return {
+    material_id: params.material.id,
+    consumed_30d: ceilQty(params.consumed30),
+    consumed_90d: ceilQty(params.consumed90),
+    avg_daily_usage: Math.round(avgDailyUsage * 1000) / 1000,
+    reserved: params.reserved,
+    on_order: params.onOrder,
+    available,
+    days_of_cover: daysOfCover === null ? null : Math.floor(daysOfCover),
+    suggested_reorder_qty: shortfall > 0 ? ceilQty(shortfall) : 0,
+  };
+}
+
+async function getConsumedSince(supabase: SupabaseClient, sinceIso: string) {
+  const rows: Array<{ material_id: string; delta_qty: number; created_at: string }> = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("stock_transaction_line_items")
+      .select("material_id, delta_qty, created_at, transaction:stock_transactions!inner(type)")
+      .eq("transaction.type", "production_deduction")
+      .gte("created_at", sinceIso)
+      .order("created_at", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) {
+      console.error("[stock-forecast] consumption fetch failed:", error.message);
+      break;
+    }
+    rows.push(...((data || []) as unknown as typeof rows));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return rows;
+}
+
+/**
+ * Forecast for every material keyed by material id.
+ */
+export async function getStockForecast(supabase: SupabaseClient): Promise<Record<string, MaterialForecast>> {
+  const now = Date.now();
+  const since90 = new Date(now - LONG_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const since30 = new Date(now - SHORT_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+  const [{ data: materials, error: materialsError }, consumption, { data: reserved }, { data: openItems }] = await Promise.all([
+    supabase.from("materials_inventory").select("id, qty_on_hand, restock_threshold"),
+    getConsumedSince(supabase, since90),
+    supabase.from("material_reservation_totals").select("material_id, qty_reserved"),
+    supabase
+      .from("purchase_order_items")
+      .select("material_id, qty_ordered, qty_received, purchase_order:purchase_orders!inner(status)")
+      .in("purchase_order.status", ["sent", "partially_received"]),
+  ]);
+
+  if (materialsError) {
+    console.error("[stock-forecast] materials fetch failed:", materialsError.message);
+    return {};
+  }
+
+  const consumed30 = new Map<string, number>();
+  const consumed90 = new Map<string, number>();
+  for (const row of consumption) {
+    const qty = Math.abs(Math.min(0, Number(row.delta_qty ?? 0)));
+    if (!qty) continue;
+    consumed90.set(row.material_id, (consumed90.get(row.material_id) ?? 0) + qty);
+    if (row.created_at >= since30) consumed30.set(row.material_id, (consumed30.get(row.material_id) ?? 0) + qty);
+  }
+
+  const reservedByMaterial = new Map<string, number>();
+  for (const row of (reserved || []) as Array<{ material_id: string; qty_reserved: number }>) {
+    reservedByMaterial.set(row.material_id, Number(row.qty_reserved ?? 0));
+  }
+
+  const onOrderByMaterial = new Map<string, number>();
+  for (const row of (openItems || []) as unknown as Array<{ material_id: string; qty_ordered: number; qty_received: number }>) {
+    const open = Math.max(0, Number(row.qty_ordered) - Number(row.qty_received));
+    onOrderByMaterial.set(row.material_id, (onOrderByMaterial.get(row.material_id) ?? 0) + open);
+  }
+
+  const result: Record<string, MaterialForecast> = {};
+  for (const material of (materials || []) as MaterialRow[]) {
+    result[material.id] = computeMaterialForecast({
+      material,
+      consumed30: consumed30.get(material.id) ?? 0,
+      consumed90: consumed90.get(material.id) ?? 0,
+      reserved: reservedByMaterial.get(material.id) ?? 0,
+      onOrder: onOrderByMaterial.get(material.id) ?? 0,
+    });
+  }
+  return result;
+}
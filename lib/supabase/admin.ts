@@ -0,0 +1,10 @@
+import "server-only";
+import { createClient } from "@supabase/supabase-js";
+
+/** Service-role client for webhooks, cron routes and writes RLS keeps from staff. Null when unconfigured. */
+export function getAdminSupabase() {
+  const url = process.env.SUPABASE_URL || process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !key) return null;
+  return createClient(url, key, { auth: { autoRefreshToken: false, persistSession: false } });
+}
@@ -27,3 +27,17 @@ export async function createClient() {
     }
   );
 }
+
+/** The signed-in user's client, or an error unless they are an admin or the CEO */
+export async function requireAdmin() {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return { error: "Not authenticated" as const };
+
+  const { data: profile } = await supabase.from("profiles").select("role, full_name, email").eq("user_id", user.id).single();
+  if (!profile || (profile.role !== "ceo" && profile.role !== "admin")) return { error: "Unauthorized" as const };
+
+  return { supabase, user, profile };
+}
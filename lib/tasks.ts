@@ -0,0 +1,215 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { filterAvailableUserIds } from "@/lib/availability";
+import { sendPushToUsers } from "@/lib/push";
+import { findLeadsForJobRefs } from "@/lib/job-leads";
+import type { Task, TaskAutomationRule, TaskAutomationSettings } from "@/types/tasks";
+
+export const TASK_AUTOMATIONS_SETTINGS_KEY = "task_automations";
+
+export const DEFAULT_TASK_AUTOMATIONS: TaskAutomationSettings = {
+  rules: [{ status: "Quote Sent", title: "Follow up on quote", due_in_days: 3 }],
+};
+
+export const TASK_SELECT =
+  "id, title, notes, due_at, assignee_user_id, lead_db_id, job_id, source, automation_key, snooze_count, reminder_sent_at, completed_at, completed_by, created_by, created_at, updated_at";
+
+export function normalizeTaskAutomationSettings(value: unknown): TaskAutomationSettings {
+  const raw = value && typeof value === "object" ? (value as Record<string, unknown>) : null;
+  if (!raw || !Array.isArray(raw.rules)) return DEFAULT_TASK_AUTOMATIONS;
+  const rules: TaskAutomationRule[] = raw.rules
+    .filter((rule): rule is Record<string, unknown> => !!rule && typeof rule === "object")
+    .map((rule) => ({
+      status: String(rule.status ?? ""),
+      title: String(rule.title ?? "").trim(),
+      due_in_days: Math.max(0, Math.round(Number(rule.due_in_days) || 0)),
+    }))
+    .filter((rule) => rule.status && rule.title);
+  return { rules };
+}
+
+/**
+ * Adds assignee names and lead/job labels for display.
+ */
+export async function withTaskLabels(supabase: SupabaseClient, rows: Task[]): Promise<Task[]> {
+  if (rows.length === 0) return rows;
+  const assigneeIds = Array.from(new Set(rows.map((t) => t.assignee_user_id).filter((id): id is string => !!id)));
+  const leadIds = Array.from(new Set(rows.map((t) => t.lead_db_id).filter((id): id is string => !!id)));
+  const jobIds = Array.from(new Set(rows.map((t) => t.job_id).filter((id): id is string => !!id)));
+
+  const { data: jobs } =
+    jobIds.length > 0
+      ? await supabase.from("jobs").select("id, lead_id").in("id", jobIds)
+      : { data: [] as Array<{ id: string; lead_id: string | null }> };
+
+  const [{ data: profiles }, leadsByRef] = await Promise.all([
+    assigneeIds.length > 0
+      ? supabase.from("profiles").select("user_id, full_name, email").in("user_id", assigneeIds)
+      : Promise.resolve({ data: [] as Array<{ user_id: string; full_name: string | null; email: string | null }> }),
+    findLeadsForJobRefs<{ id: string; lead_id: string | null; customer_name: string | null; name: string | null; organization: string | null }>(
+      supabase,
+      [...leadIds, ...(jobs || []).map((j) => j.lead_id as string | null)],
+      "id, lead_id, customer_name, name, organization"
+    ),
+  ]);
+
+  const names = new Map((profiles || []).map((p) => [p.user_id as string, (p.full_name || p.email || null) as string | null]));
+  const leadLabel = (ref: string) => {
+    const lead = leadsByRef.get(ref);
+    return lead ? lead.customer_name || lead.name || lead.organization || lead.lead_id || null : null;
+  };
+  // A job is labelled with its lead's code
+  const jobLabels = new Map(
+    (jobs || []).map((j) => {
+      const code = (j.lead_id && leadsByRef.get(j.lead_id as string)?.lead_id) || (j.id as string).substring(0, 8);
+      return [j.id as string, `Job ${code}`];
+    })
+  );
+
+  return rows.map((task) => ({
+    ...task,
+    assignee_name: task.assignee_user_id ? names.get(task.assignee_user_id) ?? null : null,
+    lead_label: task.lead_db_id ? leadLabel(task.lead_db_id) : null,
+    job_label: task.job_id ? jobLabels.get(task.job_id) ?? null : null,
+  }));
+}
+
+export interface TaskFilter {
+  leadDbId?: string;
+  jobId?: string;
+  assigneeUserId?: string;
+  /** Only tasks due before this instant */
+  dueBefore?: string;
+  /** Include tasks completed since this instant; open tasks only when unset */
+  completedSince?: string;
+  limit?: number;
+}
+
+export async function getTasks(supabase: SupabaseClient, filter: TaskFilter = {}): Promise<Task[]> {
+  let query = supabase.from("tasks").select(TASK_SELECT);
+  if (filter.leadDbId) query = query.eq("lead_db_id", filter.leadDbId);
+  if (filter.jobId) query = query.eq("job_id", filter.jobId);
+  if (filter.assigneeUserId) query = query.eq("assignee_user_id", filter.assigneeUserId);
+  if (filter.dueBefore) query = query.lt("due_at", filter.dueBefore);
+  query = filter.completedSince
+    ? query.or(`completed_at.is.null,completed_at.gte.${filter.completedSince}`)
+    : query.is("completed_at", null);
+
+  const { data, error } = await query.order("due_at", { ascending: true }).limit(filter.limit ?? 200);
+  if (error) {
+    console.error("[tasks] fetch failed:", error.message);
+    return [];
+  }
+  return withTaskLabels(supabase, (data || []) as Task[]);
+}
+
+export async function setTaskCompleted(
+  supabase: SupabaseClient,
+  taskId: string,
+  userId: string,
+  completed: boolean
+): Promise<{ error?: string }> {
+  const nowIso = new Date().toISOString();
+  const { data, error } = await supabase
+    .from("tasks")
+    .update({
+      completed_at: completed ? nowIso : null,
+      completed_by: completed ? userId : null,
+      updated_at: nowIso,
+    })
+    .eq("id", taskId)
+    .select("id");
+  if (error) return { error: error.message };
+  return data && data.length > 0 ? {} : { error: "Task not found or not yours to change" };
+}
+
+/**
+ * Pushes the task out by `minutes` from now and re-arms its reminder.
+ */
+export async function snoozeTask(supabase: SupabaseClient, taskId: string, minutes: number): Promise<{ error?: string }> {
+  const { data: task, error: fetchError } = await supabase
+    .from("tasks")
+    .select("snooze_count")
+    .eq("id", taskId)
+    .maybeSingle();
+  if (fetchError) return { error: fetchError.message };
+  if (!task) return { error: "Task not found" };
+
+  const now = Date.now();
+  const { data, error } = await supabase
+    .from("tasks")
+    .update({
+      due_at: new Date(now + minutes * 60 * 1000).toISOString(),
+      reminder_sent_at: null,
+      snooze_count: (Number(task.snooze_count) || 0) + 1,
+      updated_at: new Date(now).toISOString(),
+    })
+    .eq("id", taskId)
+    .select("id");
+  if (error) return { error: error.message };
+  return data && data.length > 0 ? {} : { error: "Task not found or not yours to change" };
+}
+
+export interface TaskReminderRunResult {
+  due: number;
+  reminded: number;
+}
+
+/**
+ * Pushes every open, assigned task that has come due and hasn't been reminded yet. The push carries the
+ * task id so the service worker can offer Done / Snooze. Only assignees who are available and have a
+ * push subscription are picked up; other tasks stay armed and go out on a later run, without holding
+ * up the batch. Expects a service-role client.
+ */
+export async function runTaskReminders(admin: SupabaseClient, now = Date.now()): Promise<TaskReminderRunResult | { error: string }> {
+  const nowIso = new Date(now).toISOString();
+  const { data: subs, error: subsError } = await admin.from("push_subscriptions").select("user_id");
+  if (subsError) return { error: subsError.message };
+  const subscribed = Array.from(new Set((subs || []).map((sub) => sub.user_id as string | null).filter((id): id is string => !!id)));
+  const reachable = await filterAvailableUserIds(admin, subscribed, now);
+  if (reachable.length === 0) return { due: 0, reminded: 0 };
+
+  const { data, error } = await admin
+    .from("tasks")
+    .select(TASK_SELECT)
+    .is("completed_at", null)
+    .is("reminder_sent_at", null)
+    .in("assignee_user_id", reachable)
+    .lte("due_at", nowIso)
+    .order("due_at", { ascending: true })
+    .limit(500);
+  if (error) return { error: error.message };
+
+  const tasks = await withTaskLabels(admin, (data || []) as Task[]);
+  const result: TaskReminderRunResult = { due: tasks.length, reminded: 0 };
+
+  for (const task of tasks) {
+    const context = task.lead_label || task.job_label;
+    try {
+      const sent = await sendPushToUsers(
+        [task.assignee_user_id as string],
+        {
+          title: `Task due: ${task.title}`,
+          body: context ? `${context}${task.notes ? ` — ${task.notes}` : ""}` : task.notes || "This task is due now.",
+          url: task.lead_db_id ? `/leads/${task.lead_db_id}` : task.job_id ? `/jobs/${task.job_id}` : "/tasks",
+          tag: `task-${task.id}`,
+          data: { type: "task", taskId: task.id },
+        },
+        // Availability was already checked when picking the tasks
+        { includeUnavailable: true }
+      );
+      if (sent.sent === 0) continue;
+    } catch (err) {
+      console.error("[tasks] reminder push failed:", err instanceof Error ? err.message : err);
+      continue;
+    }
+
+    const { error: updateError } = await admin.from("tasks").update({ reminder_sent_at: nowIso }).eq("id", task.id);
+    if (updateError) {
+      console.error("[tasks] reminder stamp failed:", updateError.message);
+      continue;
+    }
+    result.reminded++;
+  }
+
+  return result;
+}
@@ -0,0 +1,20 @@
+import type { TrelloLabel } from "@/types/trello";
+
+// Plain helpers for the Trello state kept on jobs and leads. lib/trello-sync.ts is a "use server"
+// module, which may only export async functions.
+
+/** jobs.trello_labels with `label` added or removed */
+export function applyTrelloLabel(current: unknown, label: TrelloLabel, on: boolean): TrelloLabel[] {
+  const labels = (Array.isArray(current) ? (current as TrelloLabel[]) : []).filter((l) => l && l.id !== label.id);
+  return on ? [...labels, label] : labels;
+}
+
+/**
+ * leads.trello_field_edited_at with `fields` stamped at `at`. Admin edits of synced fields record
+ * this so the webhook only lets such an edit beat a Trello change to the same field.
+ */
+export function stampTrelloFieldEdits(current: unknown, fields: string[], at: string): Record<string, string> {
+  const stamps = current && typeof current === "object" ? { ...(current as Record<string, string>) } : {};
+  for (const field of fields) stamps[field] = at;
+  return stamps;
+}
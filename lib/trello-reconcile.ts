@@ -0,0 +1,271 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  getTrelloBoardLists,
+  getTrelloBoardState,
+  getTrelloCardSnapshot,
+  moveTrelloCard,
+  parseCardDescription,
+  patchCardDescription,
+  STAGE_TO_LIST_ID,
+  updateTrelloCard,
+} from "@/lib/trello";
+import { toProductionStageKey } from "@/lib/payments";
+import { getProductionBoardSettings, TRELLO_DISABLED_ERROR, trelloEnabled } from "@/lib/production-board";
+import { notifyCustomerOfStageChange } from "@/lib/customer-stage-alerts";
+import { findLeadsForJobRefs } from "@/lib/job-leads";
+import type { TrelloDriftField, TrelloDriftReport, TrelloDriftRow, TrelloDriftSide } from "@/types/trello";
+
+type ReconcileJob = {
+  id: string;
+  lead_id: string | null;
+  trello_card_id: string;
+  trello_card_url: string | null;
+  trello_list_id: string | null;
+  production_stage: string | null;
+  cancelled_at: string | null;
+};
+
+type ReconcileLead = {
+  id: string;
+  lead_id: string | null;
+  customer_name: string | null;
+  name: string | null;
+  organization: string | null;
+  design_notes: string | null;
+  trello_product_list: string | null;
+  delivery_date: string | null;
+};
+
+const JOB_SELECT = "id, lead_id, trello_card_id, trello_card_url, trello_list_id, production_stage, cancelled_at";
+const LEAD_SELECT = "id, lead_id, customer_name, name, organization, design_notes, trello_product_list, delivery_date";
+
+function normalizeText(value: string | null | undefined): string | null {
+  const v = (value ?? "").replace(/\r\n/g, "\n").trim();
+  return v ? v : null;
+}
+
+function toDateOnly(value: string | null | undefined): string | null {
+  const v = (value ?? "").trim();
+  return v ? v.slice(0, 10) : null;
+}
+
+function sameStage(a: string | null | undefined, b: string | null | undefined): boolean {
+  const keyA = toProductionStageKey(a);
+  const keyB = toProductionStageKey(b);
+  if (keyA && keyB) return keyA === keyB;
+  return (a || "").trim().toLowerCase() === (b || "").trim().toLowerCase();
+}
+
+/**
+ * Compare every card on the production board with its job and lead.
+ * Cancelled jobs whose card is gone are expected and not reported.
+ */
+export async function buildTrelloDriftReport(supabase: SupabaseClient): Promise<TrelloDriftReport | { error: string }> {
+  const settings = await getProductionBoardSettings(supabase);
+  if (!trelloEnabled(settings.mode)) return { error: TRELLO_DISABLED_ERROR };
+
+  const board = await getTrelloBoardState();
+  if ("error" in board) return { error: board.error };
+
+  const { data: jobsData, error } = await supabase.from("jobs").select(JOB_SELECT).not("trello_card_id", "is", null);
+  if (error) return { error: error.message };
+
+  const jobs = (jobsData || []) as ReconcileJob[];
+  const leadsByRef = await findLeadsForJobRefs<ReconcileLead>(
+    supabase,
+    jobs.map((job) => job.lead_id),
+    LEAD_SELECT
+  );
+  const cardsById = new Map(board.cards.map((card) => [card.id, card]));
+  const listNames = new Map(board.lists.map((list) => [list.id, list.name]));
+
+  const rows: TrelloDriftRow[] = [];
+  for (const job of jobs) {
+    const lead = job.lead_id ? leadsByRef.get(job.lead_id) ?? null : null;
+    const card = cardsById.get(job.trello_card_id);
+    const push = (field: TrelloDriftField, adminValue: string | null, trelloValue: string | null) => {
+      rows.push({
+        id: `${job.id}:${field}`,
+        job_id: job.id,
+        lead_db_id: lead?.id ?? null,
+        lead_code: lead?.lead_id ?? null,
+        customer_name: lead?.organization || lead?.customer_name || lead?.name || "Unknown",
+        trello_card_id: job.trello_card_id,
+        trello_card_url: card?.url || job.trello_card_url,
+        field,
+        admin_value: adminValue,
+        trello_value: trelloValue,
+      });
+    };
+
+    if (!card) {
+      if (!job.cancelled_at) push("card_missing", job.production_stage, null);
+      continue;
+    }
+
+    const listName = listNames.get(card.idList) ?? null;
+    const listIdDiffers = !!job.trello_list_id && job.trello_list_id !== card.idList;
+    if (listIdDiffers || !sameStage(job.production_stage, listName)) {
+      push("stage", job.production_stage, listName);
+    }
+
+    if (!lead) continue;
+
+    const parsed = parseCardDescription(card.desc);
+    // A description copied from another job's card is not this job's data
+    if (!parsed.machine.JOB_ID || parsed.machine.JOB_ID === job.id) {
+      if (normalizeText(parsed.productList) !== normalizeText(lead.trello_product_list)) {
+        push("product_list", lead.trello_product_list, parsed.productList);
+      }
+      if (normalizeText(parsed.designNotes) !== normalizeText(lead.design_notes)) {
+        push("design_notes", lead.design_notes, parsed.designNotes);
+      }
+    }
+
+    if (toDateOnly(card.due) !== toDateOnly(lead.delivery_date)) {
+      push("delivery_date", toDateOnly(lead.delivery_date), toDateOnly(card.due));
+    }
+  }
+
+  return {
+    generated_at: new Date().toISOString(),
+    cards_checked: board.cards.length,
+    jobs_checked: jobs.length,
+    rows,
+  };
+}
+
+/**
+ * Resolve one drift row by copying the chosen side over the other.
+ * Every fix is written to job_stage_history with the values on both sides.
+ */
+export async function resolveTrelloDrift(
+  supabase: SupabaseClient,
+  params: { jobId: string; field: TrelloDriftField; side: TrelloDriftSide; actorUserId: string | null; actorName: string }
+): Promise<{ ok: true } | { error: string }> {
+  const settings = await getProductionBoardSettings(supabase);
+  if (!trelloEnabled(settings.mode)) return { error: TRELLO_DISABLED_ERROR };
+
+  const { data: jobData } = await supabase.from("jobs").select(JOB_SELECT).eq("id", params.jobId).maybeSingle();
+  const job = jobData as ReconcileJob | null;
+  if (!job?.trello_card_id) return { error: "Job has no Trello card" };
+
+  const lead = job.lead_id ? (await findLeadsForJobRefs<ReconcileLead>(supabase, [job.lead_id], LEAD_SELECT)).get(job.lead_id) ?? null : null;
+  const nowIso = new Date().toISOString();
+
+  let adminValue: string | null = null;
+  let trelloValue: string | null = null;
+  let stageAfter = job.production_stage;
+  let listIdAfter = job.trello_list_id;
+
+  if (params.field === "card_missing") {
+    adminValue = job.production_stage;
+    if (params.side === "admin") {
+      // The card is usually archived rather than deleted; reopen it
+      const result = await updateTrelloCard(job.trello_card_id, { closed: false });
+      if ("error" in result) return { error: `${result.error}. Recreate the card from the lead page instead.` };
+    } else {
+      const { error } = await supabase
+        .from("jobs")
+        .update({ trello_card_id: null, trello_card_url: null, trello_list_id: null, updated_at: nowIso })
+        .eq("id", job.id);
+      if (error) return { error: error.message };
+      if (lead) await supabase.from("leads").update({ card_id: null, card_created: false, updated_at: nowIso }).eq("id", lead.id);
+      listIdAfter = null;
+    }
+  } else {
+    const card = await getTrelloCardSnapshot(job.trello_card_id);
+    if ("error" in card) return { error: card.error };
+
+    if (params.field === "stage") {
+      const lists = await getTrelloBoardLists();
+      if ("error" in lists) return { error: lists.error };
+      adminValue = job.production_stage;
+      trelloValue = lists.find((list) => list.id === card.idList)?.name ?? null;
+
+      if (params.side === "trello") {
+        if (!trelloValue) return { error: "The card's list is not on the production board" };
+        const { error } = await supabase
+          .from("jobs")
+          .update({ production_stage: trelloValue, trello_list_id: card.idList, updated_at: nowIso })
+          .eq("id", job.id);
+        if (error) return { error: error.message };
+        if (lead) await supabase.from("leads").update({ production_stage: trelloValue, updated_at: nowIso }).eq("id", lead.id);
+        stageAfter = trelloValue;
+        listIdAfter = card.idList;
+      } else {
+        const stageKey = toProductionStageKey(job.production_stage);
+        const targetListId =
+          lists.find((list) => sameStage(list.name, job.production_stage))?.id || (stageKey ? STAGE_TO_LIST_ID[stageKey] : null);
+        if (!targetListId) return { error: `No Trello list matches stage "${job.production_stage || ""}"` };
+        const result = await moveTrelloCard(job.trello_card_id, targetListId);
+        if ("error" in result) return { error: result.error };
+        await supabase.from("jobs").update({ trello_list_id: targetListId, updated_at: nowIso }).eq("id", job.id);
+        listIdAfter = targetListId;
+      }
+    } else {
+      if (!lead) return { error: "Lead not found for this job" };
+      const parsed = parseCardDescription(card.desc);
+
+      if (params.field === "delivery_date") {
+        adminValue = toDateOnly(lead.delivery_date);
+        trelloValue = toDateOnly(card.due);
+      } else {
+        const key = params.field === "product_list" ? "trello_product_list" : "design_notes";
+        adminValue = lead[key];
+        trelloValue = params.field === "product_list" ? parsed.productList : parsed.designNotes;
+      }
+
+      if (params.side === "trello") {
+        const column =
+          params.field === "delivery_date" ? "delivery_date" : params.field === "product_list" ? "trello_product_list" : "design_notes";
+        const { error } = await supabase
+          .from("leads")
+          .update({ [column]: trelloValue, updated_at: nowIso, last_modified: nowIso, last_modified_by: params.actorName })
+          .eq("id", lead.id);
+        if (error) return { error: error.message };
+      } else {
+        const due = adminValue && !Number.isNaN(Date.parse(adminValue)) ? new Date(adminValue).toISOString() : null;
+        const result =
+          params.field === "delivery_date"
+            ? await updateTrelloCard(job.trello_card_id, { due })
+            : await updateTrelloCard(job.trello_card_id, {
+                desc: patchCardDescription(
+                  card.desc,
+                  params.field === "product_list" ? { productList: adminValue } : { designNotes: adminValue }
+                ),
+              });
+        if ("error" in result) return { error: result.error };
+      }
+    }
+  }
+
+  await supabase.from("jobs").update({ trello_synced_at: nowIso }).eq("id", job.id);
+
+  await supabase.from("job_stage_history").insert({
+    job_id: job.id,
+    trello_card_id: job.trello_card_id,
+    trello_list_id: listIdAfter,
+    stage: stageAfter || job.production_stage || "Unknown",
+    from_stage: params.field === "stage" ? (params.side === "trello" ? adminValue : trelloValue) : job.production_stage,
+    to_stage: stageAfter || job.production_stage || "Unknown",
+    moved_at: nowIso,
+    source: params.side === "trello" ? "trello_reconcile" : "admin_reconcile",
+    details: { field: params.field, side: params.side, admin_value: adminValue, trello_value: trelloValue, by: params.actorName },
+  });
+
+  if (params.field === "stage" && params.side === "trello" && stageAfter) {
+    await notifyCustomerOfStageChange({ jobId: job.id, stage: stageAfter, actorUserId: params.actorUserId });
+  }
+
+  if (lead) {
+    await supabase.from("lead_events").insert({
+      lead_db_id: lead.id,
+      actor_user_id: params.actorUserId,
+      event_type: "trello_drift_resolved",
+      payload: { jobId: job.id, field: params.field, side: params.side, adminValue, trelloValue },
+    });
+  }
+
+  return { ok: true };
+}
@@ -1,7 +1,22 @@
 "use server";
 
-import { createTrelloJobCard, type JobCardData } from "@/lib/trello";
+import {
+  createTrelloCheckItem,
+  createTrelloJobCard,
+  getTrelloBoardLabels,
+  getTrelloCardSnapshot,
+  parseCardDescription,
+  patchCardDescription,
+  setTrelloCardLabel,
+  updateTrelloCard,
+  updateTrelloCheckItem,
+  type JobCardData,
+} from "@/lib/trello";
+import { getProductionBoardSettings, trelloEnabled } from "@/lib/production-board";
+import { jobLeadRefs, queryJobsByLeadRefs } from "@/lib/job-leads";
+import { applyTrelloLabel } from "@/lib/trello-labels";
 import type { SupabaseClient } from "@supabase/supabase-js";
+import type { TrelloLabel } from "@/types/trello";
 
 function normalizeStageName(value: string): string {
   return value.trim();
@@ -38,7 +53,15 @@ export async function ensureJobAndTrelloCardForLead(params: {
   actorEmail?: string | null;
   actorProfile?: { role?: string | null; full_name?: string | null; email?: string | null } | null;
 }): Promise<
-  | { ok: true; leadId: string; jobId: string; trelloCardId: string; trelloListId: string; productionStage: string; trelloUrl?: string | null }
+  | {
+      ok: true;
+      leadId: string;
+      jobId: string;
+      trelloCardId: string | null;
+      trelloListId: string | null;
+      productionStage: string;
+      trelloUrl?: string | null;
+    }
   | { ok: false; error: string; status?: number }
 > {
   const modifierName = getModifierName(params.actorProfile, params.actorEmail || null);
@@ -103,8 +126,69 @@ export async function ensureJobAndTrelloCardForLead(params: {
     return { ok: false, error: "Failed to create job", status: 500 };
   }
 
+  // Reserve BOM materials like createJobAction; a failure shouldn't block the job, but it goes on the timeline
+  if (!existingJob?.id) {
+    const { error: reserveError } = await params.supabase.rpc("reserve_stock_for_job", { p_job_id: job.id });
+    if (reserveError) {
+      console.error("[trello-sync] stock reservation failed:", reserveError.message);
+      await params.supabase.from("lead_events").insert({
+        lead_db_id: lead.id,
+        actor_user_id: params.actorUserId,
+        event_type: "stock_reservation_failed",
+        payload: { jobId: job.id, error: reserveError.message },
+      });
+    }
+  }
+
   const paymentStatus = lead.payment_status || "Pending";
 
+  // Admin only: the job lives on the native board without a card
+  const boardSettings = await getProductionBoardSettings(params.supabase);
+  if (!trelloEnabled(boardSettings.mode)) {
+    const productionStage = normalizeStageName(existingJob?.production_stage || "Orders Awaiting Confirmation");
+    const nowIso = new Date().toISOString();
+
+    const { error: jobUpdateError } = await params.supabase
+      .from("jobs")
+      .update({ production_stage: productionStage, payment_status: paymentStatus, updated_at: nowIso })
+      .eq("id", job.id);
+    if (jobUpdateError) {
+      return { ok: false, error: "Failed to update job", status: 500 };
+    }
+
+    await params.supabase
+      .from("leads")
+      .update({
+        production_stage: productionStage,
+        sales_status: "Quote Approved",
+        status: "Quote Approved",
+        updated_at: nowIso,
+        last_modified: nowIso,
+        last_modified_by: modifierName,
+      })
+      .eq("id", params.leadDbId);
+
+    if (!existingJob?.id) {
+      await params.supabase.from("job_stage_history").insert({
+        job_id: job.id,
+        stage: productionStage,
+        from_stage: null,
+        to_stage: productionStage,
+        moved_at: nowIso,
+        source: "admin_create",
+      });
+
+      await params.supabase.from("lead_events").insert({
+        lead_db_id: params.leadDbId,
+        actor_user_id: params.actorUserId,
+        event_type: "job_created",
+        payload: { jobId: job.id, trelloCardId: null, stage: productionStage },
+      });
+    }
+
+    return { ok: true, leadId: lead.lead_id, jobId: job.id, trelloCardId: null, trelloListId: null, productionStage };
+  }
+
   const cardData: JobCardData = {
     leadId: lead.lead_id,
     jobId: job.id,
@@ -188,3 +272,194 @@ export async function ensureJobAndTrelloCardForLead(params: {
     trelloUrl: trelloResult.url,
   };
 }
+
+type SyncedLeadField = "design_notes" | "trello_product_list";
+
+function normalizeSyncValue(value: string | null | undefined): string | null {
+  const v = (value ?? "").replace(/\r\n/g, "\n").trim();
+  return v ? v : null;
+}
+
+/**
+ * Push admin edits to design notes / the production product list onto the job's Trello card.
+ * A conflict is any field Trello changed since the last sync that differs from both the old
+ * and the new admin value; the admin edit still wins but the overwritten Trello value is logged.
+ */
+export async function pushLeadFieldsToTrello(params: {
+  supabase: SupabaseClient;
+  leadDbId: string;
+  actorUserId: string;
+  previous: Partial<Record<SyncedLeadField, string | null>>;
+  changes: Partial<Record<SyncedLeadField, string | null>>;
+}): Promise<{ ok: true; pushed: boolean; conflicts: SyncedLeadField[] } | { ok: false; error: string }> {
+  const fields = Object.keys(params.changes) as SyncedLeadField[];
+  if (fields.length === 0) return { ok: true, pushed: false, conflicts: [] };
+
+  const boardSettings = await getProductionBoardSettings(params.supabase);
+  if (!trelloEnabled(boardSettings.mode)) return { ok: true, pushed: false, conflicts: [] };
+
+  const { data: lead } = await params.supabase.from("leads").select("id, lead_id").eq("id", params.leadDbId).maybeSingle();
+  if (!lead) return { ok: false, error: "Lead not found" };
+
+  const { data: job } = await queryJobsByLeadRefs(jobLeadRefs([lead]), (refs) =>
+    params.supabase
+      .from("jobs")
+      .select("id, trello_card_id, trello_synced_at")
+      .in("lead_id", refs)
+      .not("trello_card_id", "is", null)
+      .limit(1)
+      .maybeSingle()
+  );
+  if (!job?.trello_card_id) return { ok: true, pushed: false, conflicts: [] };
+
+  const snapshot = await getTrelloCardSnapshot(job.trello_card_id);
+  if ("error" in snapshot) return { ok: false, error: snapshot.error };
+
+  const onCard = parseCardDescription(snapshot.desc);
+  const cardValues: Record<SyncedLeadField, string | null> = {
+    design_notes: onCard.designNotes,
+    trello_product_list: onCard.productList,
+  };
+
+  const trelloChangedSinceSync =
+    !job.trello_synced_at || (!!snapshot.dateLastActivity && snapshot.dateLastActivity > job.trello_synced_at);
+
+  const conflicts: SyncedLeadField[] = [];
+  if (trelloChangedSinceSync) {
+    for (const field of fields) {
+      const onTrello = normalizeSyncValue(cardValues[field]);
+      if (onTrello !== normalizeSyncValue(params.previous[field]) && onTrello !== normalizeSyncValue(params.changes[field])) {
+        conflicts.push(field);
+      }
+    }
+  }
+
+  const desc = patchCardDescription(snapshot.desc, {
+    ...(fields.includes("design_notes") ? { designNotes: params.changes.design_notes ?? null } : {}),
+    ...(fields.includes("trello_product_list") ? { productList: params.changes.trello_product_list ?? null } : {}),
+  });
+
+  if (desc !== snapshot.desc) {
+    const result = await updateTrelloCard(job.trello_card_id, { desc });
+    if ("error" in result) return { ok: false, error: result.error };
+  }
+
+  await params.supabase.from("jobs").update({ trello_synced_at: new Date().toISOString() }).eq("id", job.id);
+
+  for (const field of conflicts) {
+    await params.supabase.from("lead_events").insert({
+      lead_db_id: params.leadDbId,
+      actor_user_id: params.actorUserId,
+      event_type: "trello_sync_conflict",
+      payload: {
+        field,
+        direction: "admin_to_trello",
+        resolution: "admin_wins",
+        trelloValue: cardValues[field],
+        adminValue: params.changes[field] ?? null,
+        trelloCardId: job.trello_card_id,
+      },
+    });
+  }
+
+  await params.supabase.from("lead_events").insert({
+    lead_db_id: params.leadDbId,
+    actor_user_id: params.actorUserId,
+    event_type: "trello_card_synced",
+    payload: { fields, trelloCardId: job.trello_card_id, conflicts },
+  });
+
+  return { ok: true, pushed: desc !== snapshot.desc, conflicts };
+}
+
+export type ChecklistChange =
+  | { type: "added"; itemId: string; label: string }
+  | { type: "toggled"; trelloCheckItemId: string | null; isDone: boolean }
+  | { type: "deleted"; trelloCheckItemId: string | null };
+
+/**
+ * Mirror a checklist change made in the admin onto the job's Trello card. Items from before the
+ * card existed, or from admin only mode, have no check item and stay admin-side.
+ */
+export async function pushChecklistChangeToTrello(
+  supabase: SupabaseClient,
+  jobId: string,
+  change: ChecklistChange
+): Promise<{ ok: true } | { ok: false; error: string }> {
+  const boardSettings = await getProductionBoardSettings(supabase);
+  if (!trelloEnabled(boardSettings.mode)) return { ok: true };
+
+  const { data: job } = await supabase.from("jobs").select("id, trello_card_id, trello_checklist_id").eq("id", jobId).maybeSingle();
+  if (!job?.trello_card_id) return { ok: true };
+
+  if (change.type === "added") {
+    const created = await createTrelloCheckItem(job.trello_card_id, job.trello_checklist_id || null, change.label);
+    if ("error" in created) return { ok: false, error: created.error };
+    await supabase.from("job_checklist_items").update({ trello_check_item_id: created.checkItemId }).eq("id", change.itemId);
+    if (created.checklistId !== job.trello_checklist_id) {
+      await supabase.from("jobs").update({ trello_checklist_id: created.checklistId }).eq("id", job.id);
+    }
+  } else if (change.trelloCheckItemId) {
+    const result = await updateTrelloCheckItem(
+      job.trello_card_id,
+      change.trelloCheckItemId,
+      change.type === "deleted" ? { delete: true } : { state: change.isDone ? "complete" : "incomplete" }
+    );
+    if ("error" in result) return { ok: false, error: result.error };
+  } else {
+    return { ok: true };
+  }
+
+  await supabase.from("jobs").update({ trello_synced_at: new Date().toISOString() }).eq("id", job.id);
+  return { ok: true };
+}
+
+/**
+ * Board labels to offer for a job's card; empty when Trello is off or the job has no card
+ */
+export async function getJobTrelloLabelOptions(supabase: SupabaseClient, jobId: string): Promise<TrelloLabel[]> {
+  const boardSettings = await getProductionBoardSettings(supabase);
+  if (!trelloEnabled(boardSettings.mode)) return [];
+
+  const { data: job } = await supabase.from("jobs").select("trello_card_id").eq("id", jobId).maybeSingle();
+  if (!job?.trello_card_id) return [];
+
+  const labels = await getTrelloBoardLabels();
+  if ("error" in labels) {
+    console.error("[trello-sync] failed to load board labels:", labels.error);
+    return [];
+  }
+  return labels;
+}
+
+/**
+ * Put a board label on the job's card or take it off, keeping jobs.trello_labels in step
+ */
+export async function setJobTrelloLabel(
+  supabase: SupabaseClient,
+  jobId: string,
+  labelId: string,
+  on: boolean
+): Promise<{ ok: true; labels: TrelloLabel[] } | { ok: false; error: string }> {
+  const boardSettings = await getProductionBoardSettings(supabase);
+  if (!trelloEnabled(boardSettings.mode)) return { ok: false, error: "Trello sync is off" };
+
+  const { data: job } = await supabase.from("jobs").select("id, trello_card_id, trello_labels").eq("id", jobId).maybeSingle();
+  if (!job) return { ok: false, error: "Job not found" };
+  if (!job.trello_card_id) return { ok: false, error: "This job has no Trello card" };
+
+  const boardLabels = await getTrelloBoardLabels();
+  if ("error" in boardLabels) return { ok: false, error: boardLabels.error };
+  const label = boardLabels.find((l) => l.id === labelId);
+  if (!label) return { ok: false, error: "Label not found on the board" };
+
+  const result = await setTrelloCardLabel(job.trello_card_id, labelId, on);
+  if ("error" in result) return { ok: false, error: result.error };
+
+  const labels = applyTrelloLabel(job.trello_labels, label, on);
+  await supabase
+    .from("jobs")
+    .update({ trello_labels: labels, trello_synced_at: new Date().toISOString() })
+    .eq("id", job.id);
+  return { ok: true, labels };
+}
@@ -4,9 +4,12 @@
  */
 
 import { renderTrelloCardDescription } from "@/lib/trello-card-template";
+import type { TrelloLabel } from "@/types/trello";
 
 const TRELLO_API_BASE = "https://api.trello.com/1";
 
+export const TRELLO_BOARD_ID = "688caf3f46d3b014e4913ec5";
+
 // Trello List IDs mapping
 export const TRELLO_LISTS = {
   ORDERS_AWAITING_CONFIRMATION: "688caf3f46d3b014e4913fb9",
@@ -160,6 +163,8 @@ export async function createTrelloJobCard(data: JobCardData): Promise<
   });
 
   const cardDescription = generateCardDescription(data);
+  // The card's due date starts as the order deadline
+  const due = data.orderDeadline && !Number.isNaN(Date.parse(data.orderDeadline)) ? new Date(data.orderDeadline).toISOString() : null;
 
   try {
     const response = await fetch(`${TRELLO_API_BASE}/cards?key=${apiKey}&token=${token}`, {
@@ -171,6 +176,7 @@ export async function createTrelloJobCard(data: JobCardData): Promise<
         name: cardName,
         desc: cardDescription,
         idList: listId,
+        ...(due ? { due } : {}),
       }),
     });
 
@@ -352,3 +358,405 @@ export async function updateTrelloCardDescription(
     return { error: error instanceof Error ? error.message : "Unknown error" };
   }
 }
+
+export type TrelloCardFields = {
+  deadline: string | null;
+  productList: string | null;
+  designNotes: string | null;
+  machine: Record<string, string>;
+};
+
+const SECTION_HEADER_RE = /^\S+\s+(ORDER|PRODUCTS|CONTACT|NOTES)\s*$/;
+
+function readSection(lines: string[], name: string): string | null {
+  const start = lines.findIndex((line) => {
+    const match = line.trim().match(SECTION_HEADER_RE);
+    return !!match && match[1] === name;
+  });
+  if (start === -1) return null;
+
+  const body: string[] = [];
+  for (const line of lines.slice(start + 1)) {
+    if (SECTION_HEADER_RE.test(line.trim()) || line.trim().startsWith("<!--")) break;
+    body.push(line);
+  }
+  return body.join("\n").trim();
+}
+
+/**
+ * Parse the human-editable sections of a card description back into lead fields.
+ * Placeholder text left over from the template is treated as empty.
+ */
+export function parseCardDescription(description: string): TrelloCardFields {
+  const lines = description.split("\n");
+  const deadlineMatch = description.match(/^Deadline:[ \t]*(.*)$/m);
+  const clean = (value: string | null | undefined) => {
+    const v = (value ?? "").trim();
+    if (!v || /^\[.*\]$/.test(v)) return null;
+    return v;
+  };
+
+  return {
+    deadline: clean(deadlineMatch?.[1]),
+    productList: clean(readSection(lines, "PRODUCTS")),
+    designNotes: clean(readSection(lines, "NOTES")),
+    machine: parseMachineData(description),
+  };
+}
+
+function replaceSection(description: string, name: string, value: string): string {
+  const lines = description.split("\n");
+  const start = lines.findIndex((line) => {
+    const match = line.trim().match(SECTION_HEADER_RE);
+    return !!match && match[1] === name;
+  });
+  if (start === -1) return description;
+
+  let end = start + 1;
+  while (end < lines.length && !SECTION_HEADER_RE.test(lines[end].trim()) && !lines[end].trim().startsWith("<!--")) end++;
+
+  // Keep one blank line before whatever follows the section
+  const next = end < lines.length ? [""] : [];
+  return [...lines.slice(0, start + 1), ...value.split("\n"), ...next, ...lines.slice(end)].join("\n");
+}
+
+/**
+ * Rewrite the deadline, products and notes of an existing card description in place,
+ * preserving anything else the production team has added to the card.
+ */
+export function patchCardDescription(
+  description: string,
+  fields: { deadline?: string | null; productList?: string | null; designNotes?: string | null }
+): string {
+  let next = description;
+  if (fields.deadline !== undefined) {
+    next = next.replace(/^Deadline:[ \t]*.*$/m, `Deadline: ${fields.deadline || ""}`);
+  }
+  if (fields.productList !== undefined) {
+    next = replaceSection(next, "PRODUCTS", fields.productList || "");
+  }
+  if (fields.designNotes !== undefined) {
+    next = replaceSection(next, "NOTES", fields.designNotes || "");
+  }
+  return next;
+}
+
+export type TrelloCardSnapshot = {
+  id: string;
+  idList: string;
+  desc: string;
+  due: string | null;
+  dateLastActivity: string | null;
+};
+
+/**
+ * Fetch the fields two-way sync compares against
+ */
+export async function getTrelloCardSnapshot(cardId: string): Promise<TrelloCardSnapshot | { error: string }> {
+  const apiKey = process.env.TRELLO_API_KEY;
+  const token = process.env.TRELLO_TOKEN;
+
+  if (!apiKey || !token) {
+    return { error: "Trello API credentials not configured" };
+  }
+
+  try {
+    const response = await fetch(
+      `${TRELLO_API_BASE}/cards/${cardId}?key=${apiKey}&token=${token}&fields=idList,desc,due,dateLastActivity`,
+      { cache: "no-store" }
+    );
+
+    if (!response.ok) {
+      return { error: `Failed to fetch Trello card: ${response.statusText}` };
+    }
+
+    const card = await response.json();
+    return {
+      id: card.id,
+      idList: card.idList || "",
+      desc: typeof card.desc === "string" ? card.desc : "",
+      due: card.due || null,
+      dateLastActivity: card.dateLastActivity || null,
+    };
+  } catch (error) {
+    console.error("[trello] Error fetching card:", error);
+    return { error: error instanceof Error ? error.message : "Unknown error" };
+  }
+}
+
+/**
+ * Update Trello card description, due date and/or archived state
+ */
+export async function updateTrelloCard(
+  cardId: string,
+  fields: { desc?: string; due?: string | null; closed?: boolean }
+): Promise<{ success: boolean } | { error: string }> {
+  const apiKey = process.env.TRELLO_API_KEY;
+  const token = process.env.TRELLO_TOKEN;
+
+  if (!apiKey || !token) {
+    return { error: "Trello API credentials not configured" };
+  }
+
+  try {
+    const response = await fetch(
+      `${TRELLO_API_BASE}/cards/${cardId}?key=${apiKey}&token=${token}`,
+      {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(fields),
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error("[trello] Error updating card:", errorText);
+      return { error: `Failed to update Trello card: ${response.statusText}` };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error("[trello] Error updating card:", error);
+    return { error: error instanceof Error ? error.message : "Unknown error" };
+  }
+}
+
+export type TrelloBoardCard = {
+  id: string;
+  name: string;
+  desc: string;
+  idList: string;
+  due: string | null;
+  url: string | null;
+  dateLastActivity: string | null;
+};
+
+/**
+ * Fetch the lists on the production board
+ */
+export async function getTrelloBoardLists(
+  boardId: string = TRELLO_BOARD_ID
+): Promise<Array<{ id: string; name: string }> | { error: string }> {
+  const apiKey = process.env.TRELLO_API_KEY;
+  const token = process.env.TRELLO_TOKEN;
+
+  if (!apiKey || !token) {
+    return { error: "Trello API credentials not configured" };
+  }
+
+  try {
+    const response = await fetch(`${TRELLO_API_BASE}/boards/${boardId}/lists?key=${apiKey}&token=${token}&fields=id,name`, {
+      cache: "no-store",
+    });
+    if (!response.ok) {
+      return { error: `Failed to fetch Trello lists: ${response.statusText}` };
+    }
+    const lists = (await response.json()) as Array<{ id: string; name: string }>;
+    return lists.map((list) => ({ id: list.id, name: list.name }));
+  } catch (error) {
+    console.error("[trello] Error fetching lists:", error);
+    return { error: error instanceof Error ? error.message : "Unknown error" };
+  }
+}
+
+/**
+ * Fetch every open card and list on the production board
+ */
+export async function getTrelloBoardState(
+  boardId: string = TRELLO_BOARD_ID
+): Promise<{ cards: TrelloBoardCard[]; lists: Array<{ id: string; name: string }> } | { error: string }> {
+  const apiKey = process.env.TRELLO_API_KEY;
+  const token = process.env.TRELLO_TOKEN;
+
+  if (!apiKey || !token) {
+    return { error: "Trello API credentials not configured" };
+  }
+
+  const lists = await getTrelloBoardLists(boardId);
+  if ("error" in lists) return lists;
+
+  try {
+    const response = await fetch(
+      `${TRELLO_API_BASE}/boards/${boardId}/cards?key=${apiKey}&token=${token}&fields=id,name,desc,idList,due,url,dateLastActivity`,
+      { cache: "no-store" }
+    );
+
+    if (!response.ok) {
+      return { error: `Failed to fetch Trello cards: ${response.statusText}` };
+    }
+
+    const cards = (await response.json()) as Array<Record<string, unknown>>;
+    return {
+      cards: cards.map((card) => ({
+        id: String(card.id),
+        name: String(card.name || ""),
+        desc: typeof card.desc === "string" ? card.desc : "",
+        idList: String(card.idList || ""),
+        due: typeof card.due === "string" ? card.due : null,
+        url: typeof card.url === "string" ? card.url : null,
+        dateLastActivity: typeof card.dateLastActivity === "string" ? card.dateLastActivity : null,
+      })),
+      lists,
+    };
+  } catch (error) {
+    console.error("[trello] Error fetching board:", error);
+    return { error: error instanceof Error ? error.message : "Unknown error" };
+  }
+}
+
+/**
+ * Labels defined on the production board
+ */
+export async function getTrelloBoardLabels(boardId: string = TRELLO_BOARD_ID): Promise<TrelloLabel[] | { error: string }> {
+  const apiKey = process.env.TRELLO_API_KEY;
+  const token = process.env.TRELLO_TOKEN;
+
+  if (!apiKey || !token) {
+    return { error: "Trello API credentials not configured" };
+  }
+
+  try {
+    const response = await fetch(
+      `${TRELLO_API_BASE}/boards/${boardId}/labels?key=${apiKey}&token=${token}&fields=id,name,color`,
+      { cache: "no-store" }
+    );
+    if (!response.ok) {
+      return { error: `Failed to fetch Trello labels: ${response.statusText}` };
+    }
+    const labels = (await response.json()) as Array<{ id: string; name?: string; color?: string | null }>;
+    return labels.map((label) => ({ id: label.id, name: label.name || "", color: label.color || null }));
+  } catch (error) {
+    console.error("[trello] Error fetching labels:", error);
+    return { error: error instanceof Error ? error.message : "Unknown error" };
+  }
+}
+
+/**
+ * Add a board label to a card, or take it off
+ */
+export async function setTrelloCardLabel(
+  cardId: string,
+  labelId: string,
+  on: boolean
+): Promise<{ success: boolean } | { error: string }> {
+  const apiKey = process.env.TRELLO_API_KEY;
+  const token = process.env.TRELLO_TOKEN;
+
+  if (!apiKey || !token) {
+    return { error: "Trello API credentials not configured" };
+  }
+
+  try {
+    const response = on
+      ? await fetch(`${TRELLO_API_BASE}/cards/${cardId}/idLabels?key=${apiKey}&token=${token}&value=${labelId}`, {
+          method: "POST",
+        })
+      : await fetch(`${TRELLO_API_BASE}/cards/${cardId}/idLabels/${labelId}?key=${apiKey}&token=${token}`, {
+          method: "DELETE",
+        });
+
+    // Adding a label the card already has is reported as a 400; the card ends up as asked
+    if (!response.ok && !(on && response.status === 400)) {
+      const errorText = await response.text();
+      console.error("[trello] Error updating card labels:", errorText);
+      return { error: `Failed to update Trello card labels: ${response.statusText}` };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error("[trello] Error updating card labels:", error);
+    return { error: error instanceof Error ? error.message : "Unknown error" };
+  }
+}
+
+/**
+ * Add an item to a checklist on the card, creating the checklist when `checklistId` is null
+ */
+export async function createTrelloCheckItem(
+  cardId: string,
+  checklistId: string | null,
+  name: string,
+  checklistName = "Production"
+): Promise<{ checklistId: string; checkItemId: string } | { error: string }> {
+  const apiKey = process.env.TRELLO_API_KEY;
+  const token = process.env.TRELLO_TOKEN;
+
+  if (!apiKey || !token) {
+    return { error: "Trello API credentials not configured" };
+  }
+
+  try {
+    let listId = checklistId;
+    if (!listId) {
+      const created = await fetch(`${TRELLO_API_BASE}/cards/${cardId}/checklists?key=${apiKey}&token=${token}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: checklistName }),
+      });
+      if (!created.ok) {
+        const errorText = await created.text();
+        console.error("[trello] Error creating checklist:", errorText);
+        return { error: `Failed to create Trello checklist: ${created.statusText}` };
+      }
+      listId = String((await created.json()).id);
+    }
+
+    const response = await fetch(`${TRELLO_API_BASE}/checklists/${listId}/checkItems?key=${apiKey}&token=${token}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name, pos: "bottom" }),
+    });
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error("[trello] Error creating check item:", errorText);
+      return { error: `Failed to create Trello check item: ${response.statusText}` };
+    }
+
+    return { checklistId: listId, checkItemId: String((await response.json()).id) };
+  } catch (error) {
+    console.error("[trello] Error creating check item:", error);
+    return { error: error instanceof Error ? error.message : "Unknown error" };
+  }
+}
+
+/**
+ * Tick, untick or remove a checklist item on the card
+ */
+export async function updateTrelloCheckItem(
+  cardId: string,
+  checkItemId: string,
+  change: { state: "complete" | "incomplete" } | { delete: true }
+): Promise<{ success: boolean } | { error: string }> {
+  const apiKey = process.env.TRELLO_API_KEY;
+  const token = process.env.TRELLO_TOKEN;
+
+  if (!apiKey || !token) {
+    return { error: "Trello API credentials not configured" };
+  }
+
+  try {
+    const url = `${TRELLO_API_BASE}/cards/${cardId}/checkItem/${checkItemId}?key=${apiKey}&token=${token}`;
+    const response =
+      "delete" in change
+        ? await fetch(url, { method: "DELETE" })
+        : await fetch(url, {
+            method: "PUT",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ state: change.state }),
+          });
+
+    // Already gone on Trello
+    if (!response.ok && !("delete" in change && response.status === 404)) {
+      const errorText = await response.text();
+      console.error("[trello] Error updating check item:", errorText);
+      return { error: `Failed to update Trello check item: ${response.statusText}` };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error("[trello] Error updating check item:", error);
+    return { error: error instanceof Error ? error.message : "Unknown error" };
+  }
+}
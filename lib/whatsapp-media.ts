@@ -0,0 +1,122 @@
+import { randomUUID } from "crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { WA_MEDIA_ROUTE, type WhatsAppMediaKind } from "@/types/inbox";
+
+export const WA_MEDIA_BUCKET = "whatsapp-media";
+
+// The send worker retries queued messages for a while, so the link handed to WhatsApp outlives a UI link
+export const WA_MEDIA_SEND_LINK_SECONDS = 7 * 24 * 60 * 60;
+export const WA_MEDIA_VIEW_SECONDS = 60 * 60;
+
+// Cloud API limits: images 5MB, audio/video 16MB; documents are capped at 16MB here to keep uploads sane
+export const MAX_WA_IMAGE_BYTES = 5 * 1024 * 1024;
+export const MAX_WA_MEDIA_BYTES = 16 * 1024 * 1024;
+
+const GRAPH_API_VERSION = "v19.0";
+
+const EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/gif": "gif",
+  "application/pdf": "pdf",
+  "audio/ogg": "ogg",
+  "audio/mpeg": "mp3",
+  "audio/mp4": "m4a",
+  "audio/aac": "aac",
+  "audio/amr": "amr",
+  "video/mp4": "mp4",
+  "video/3gpp": "3gp",
+};
+
+export function mediaKindFromMime(mimeType: string | null | undefined): WhatsAppMediaKind {
+  const mime = (mimeType || "").toLowerCase();
+  if (mime === "image/jpeg" || mime === "image/png") return "image";
+  if (mime.startsWith("audio/")) return "audio";
+  if (mime === "video/mp4" || mime === "video/3gpp") return "video";
+  return "document";
+}
+
+export function mediaPreviewText(kind: string, fileName: string | null, caption: string): string {
+  const label =
+    kind === "image"
+      ? "📷 Photo"
+      : kind === "audio"
+        ? "🎤 Voice note"
+        : kind === "video"
+          ? "🎬 Video"
+          : kind === "sticker"
+            ? "Sticker"
+            : `📄 ${fileName || "Document"}`;
+  return (caption ? `${label}: ${caption}` : label).slice(0, 140);
+}
+
+function safeFileName(fileName: string | null, mimeType: string): string {
+  const base = (fileName || "").replace(/[^a-zA-Z0-9._-]/g, "_").slice(-80);
+  const ext = EXTENSIONS[mimeType.split(";")[0].trim().toLowerCase()];
+  if (!base) return `media.${ext || "bin"}`;
+  // Voice notes and photos arrive without a name; the extension lets the lead gallery recognise images
+  return ext && !/\.[a-z0-9]{2,5}$/i.test(base) ? `${base}.${ext}` : base;
+}
+
+/**
+ * Two-step Cloud API download: resolve the media id to a short-lived URL, then fetch the bytes.
+ */
+export async function downloadWhatsAppMedia(
+  mediaId: string
+): Promise<{ buffer: Buffer; mimeType: string; size: number } | { error: string }> {
+  const token = process.env.WHATSAPP_ACCESS_TOKEN;
+  if (!token) return { error: "WHATSAPP_ACCESS_TOKEN is not configured" };
+
+  try {
+    const metaRes = await fetch(`https://graph.facebook.com/${GRAPH_API_VERSION}/${mediaId}`, {
+      headers: { Authorization: `Bearer ${token}` },
+      cache: "no-store",
+    });
+    if (!metaRes.ok) return { error: `Media lookup failed (${metaRes.status})` };
+    const meta = (await metaRes.json()) as { url?: string; mime_type?: string; file_size?: number };
+    if (!meta.url) return { error: "Media URL missing" };
+    if (meta.file_size && meta.file_size > MAX_WA_MEDIA_BYTES) return { error: "Media is larger than 16MB" };
+
+    const fileRes = await fetch(meta.url, { headers: { Authorization: `Bearer ${token}` }, cache: "no-store" });
+    if (!fileRes.ok) return { error: `Media download failed (${fileRes.status})` };
+    const buffer = Buffer.from(await fileRes.arrayBuffer());
+
+    return {
+      buffer,
+      mimeType: meta.mime_type || fileRes.headers.get("content-type") || "application/octet-stream",
+      size: buffer.length,
+    };
+  } catch (e) {
+    return { error: e instanceof Error ? e.message : String(e) };
+  }
+}
+
+export async function storeWhatsAppMedia(
+  supabase: SupabaseClient,
+  params: { conversationId: string; buffer: Buffer; mimeType: string; fileName: string | null }
+): Promise<{ path: string; fileName: string } | { error: string }> {
+  const fileName = safeFileName(params.fileName, params.mimeType);
+  const path = `${params.conversationId}/${randomUUID()}-${fileName}`;
+
+  const { error } = await supabase.storage
+    .from(WA_MEDIA_BUCKET)
+    .upload(path, params.buffer, { contentType: params.mimeType, upsert: false });
+  if (error) return { error: error.message || "Failed to store media" };
+
+  return { path, fileName: params.fileName || fileName };
+}
+
+export async function signWhatsAppMedia(supabase: SupabaseClient, path: string, expiresIn: number): Promise<string | null> {
+  const { data, error } = await supabase.storage.from(WA_MEDIA_BUCKET).createSignedUrl(path, expiresIn);
+  if (error) {
+    console.error("[whatsapp-media] signing failed:", error.message);
+    return null;
+  }
+  return data.signedUrl;
+}
+
+/** App link for stored media; stays valid as long as the object does */
+export function whatsAppMediaHref(path: string): string {
+  return `${WA_MEDIA_ROUTE}/${path}`;
+}
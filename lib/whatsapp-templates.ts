@@ -0,0 +1,138 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { WhatsAppTemplate, WhatsAppTemplateVariable } from "@/types/inbox";
+import { WHATSAPP_TEMPLATE_VARIABLES } from "@/types/inbox";
+import { formatMoney } from "@/lib/quotes";
+import { jobLeadRefs, queryJobsByLeadRefs } from "@/lib/job-leads";
+
+export const WHATSAPP_SERVICE_WINDOW_HOURS = 24;
+
+/**
+ * Free-form messages are only allowed within 24 hours of the customer's last message.
+ */
+export function isWithinServiceWindow(lastInboundAt: string | null | undefined, now: Date = new Date()): boolean {
+  if (!lastInboundAt) return false;
+  const last = new Date(lastInboundAt).getTime();
+  if (Number.isNaN(last)) return false;
+  return now.getTime() - last < WHATSAPP_SERVICE_WINDOW_HOURS * 60 * 60 * 1000;
+}
+
+export function normalizeTemplateVariables(value: unknown): WhatsAppTemplateVariable[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter((v): v is WhatsAppTemplateVariable => WHATSAPP_TEMPLATE_VARIABLES.includes(v as WhatsAppTemplateVariable));
+}
+
+export function countTemplatePlaceholders(body: string): number {
+  const indexes = Array.from(body.matchAll(/\{\{(\d+)\}\}/g), (m) => Number(m[1]));
+  return indexes.length ? Math.max(...indexes) : 0;
+}
+
+export function renderTemplateBody(body: string, values: string[]): string {
+  return body.replace(/\{\{(\d+)\}\}/g, (match, index) => values[Number(index) - 1] ?? match);
+}
+
+/**
+ * Fill {{first_name}}-style placeholders; unknown names are left as typed.
+ */
+export function renderNamedPlaceholders(text: string, values: Record<string, string>): string {
+  return text.replace(/\{\{\s*([a-z_]+)\s*\}\}/g, (match, name) => values[name] ?? match);
+}
+
+function formatDate(value: string | null | undefined): string {
+  if (!value) return "";
+  const d = new Date(value);
+  if (Number.isNaN(d.getTime())) return value;
+  return d.toLocaleDateString("en-ZA", { year: "numeric", month: "long", day: "numeric" });
+}
+
+/**
+ * Fill the template's variable slots from the conversation's lead and its newest job.
+ * Missing values fall back to a neutral word so Meta never receives an empty parameter.
+ */
+export async function resolveTemplateValues(
+  supabase: SupabaseClient,
+  template: Pick<WhatsAppTemplate, "variables">,
+  conversation: { lead_id: string | null; display_name?: string | null; custom_display_name?: string | null }
+): Promise<string[]> {
+  const { data: lead } = conversation.lead_id
+    ? await supabase
+        .from("leads")
+        .select(
+          "id, lead_id, customer_name, name, organization, production_stage, delivery_date, payment_status, assigned_rep_id, current_quote_id"
+        )
+        .eq("id", conversation.lead_id)
+        .maybeSingle()
+    : { data: null };
+
+  const needsJob = template.variables.some((v) => v === "invoice_number" || v === "production_stage");
+  const { data: job } =
+    lead && needsJob
+      ? await queryJobsByLeadRefs(jobLeadRefs([lead]), (refs) =>
+          supabase
+            .from("jobs")
+            .select("invoice_number, production_stage")
+            .in("lead_id", refs)
+            .order("created_at", { ascending: false })
+            .limit(1)
+            .maybeSingle()
+        )
+      : { data: null };
+
+  // The quote behind "Quote Sent"/"Quote Approved", else the newest revision
+  const { data: quote } =
+    lead && template.variables.includes("quote_total")
+      ? lead.current_quote_id
+        ? await supabase.from("quotes").select("total").eq("id", lead.current_quote_id).maybeSingle()
+        : await supabase
+            .from("quotes")
+            .select("total")
+            .eq("lead_db_id", lead.id)
+            .neq("status", "superseded")
+            .order("version", { ascending: false })
+            .limit(1)
+            .maybeSingle()
+      : { data: null };
+
+  const { data: rep } =
+    lead?.assigned_rep_id && template.variables.includes("rep_name")
+      ? await supabase.from("profiles").select("full_name, email").eq("user_id", lead.assigned_rep_id).maybeSingle()
+      : { data: null };
+
+  const customerName =
+    lead?.customer_name || lead?.name || conversation.custom_display_name || conversation.display_name || "there";
+
+  const values: Record<WhatsAppTemplateVariable, string> = {
+    customer_name: customerName,
+    first_name: customerName.split(/\s+/)[0] || customerName,
+    organization: lead?.organization || customerName,
+    lead_code: lead?.lead_id || "",
+    production_stage: job?.production_stage || lead?.production_stage || "in progress",
+    delivery_date: formatDate(lead?.delivery_date) || "to be confirmed",
+    payment_status: lead?.payment_status || "pending",
+    invoice_number: job?.invoice_number || "",
+    quote_total: quote ? formatMoney(Number(quote.total)) : "",
+    rep_name: rep?.full_name || "the RecklessBear team",
+  };
+
+  return template.variables.map((variable) => values[variable] || "-");
+}
+
+/**
+ * Load an active template and render it for a conversation.
+ */
+export async function buildTemplateMessage(
+  supabase: SupabaseClient,
+  templateId: string,
+  conversation: { lead_id: string | null; display_name?: string | null; custom_display_name?: string | null }
+): Promise<{ template: WhatsAppTemplate; values: string[]; text: string } | { error: string }> {
+  const { data, error } = await supabase
+    .from("wa_templates")
+    .select("id, name, language, category, body, variables, is_active, updated_at")
+    .eq("id", templateId)
+    .maybeSingle();
+  if (error) return { error: error.message };
+  if (!data || !data.is_active) return { error: "Template not found" };
+
+  const template = { ...data, variables: normalizeTemplateVariables(data.variables) } as WhatsAppTemplate;
+  const values = await resolveTemplateValues(supabase, template, conversation);
+  return { template, values, text: renderTemplateBody(template.body, values) };
+}
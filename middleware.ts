@@ -55,6 +55,9 @@ export async function middleware(request: NextRequest) {
     pathname.startsWith("/stock") ||
     pathname.startsWith("/inbox") ||
     pathname.startsWith("/analytics") ||
+    pathname.startsWith("/price-book") ||
+    pathname.startsWith("/snippets") ||
+    pathname.startsWith("/tasks") ||
     pathname.startsWith("/users") ||
     pathname.startsWith("/settings");
 
@@ -87,6 +90,9 @@ export const config = {
     "/stock/:path*",
     "/inbox/:path*",
     "/analytics/:path*",
+    "/price-book/:path*",
+    "/snippets/:path*",
+    "/tasks/:path*",
     "/users/:path*",
     "/settings/:path*",
   ],
@@ -4,6 +4,12 @@ import withPWA from "@ducanh2912/next-pwa";
 
 const nextConfig: NextConfig = {
   outputFileTracingRoot: path.join(__dirname),
+  experimental: {
+    serverActions: {
+      // Proof-of-payment uploads go through a server action
+      bodySizeLimit: "12mb",
+    },
+  },
   images: {
     remotePatterns: [
       {
@@ -0,0 +1,121 @@
+-- Quote builder:
+-- - Price book per product_type / size
+-- - Versioned quote documents with priced line items
+-- - Leads point at the quote revision behind "Quote Sent" / "Quote Approved"
+
+begin;
+
+create table if not exists public.price_book (
+  id uuid primary key default gen_random_uuid(),
+  product_type text not null,
+  size text,
+  unit_price numeric(12,2) not null default 0 check (unit_price >= 0),
+  is_active boolean not null default true,
+  notes text,
+  last_modified timestamptz not null default now(),
+  last_modified_by text,
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists price_book_product_size_unique
+  on public.price_book (lower(product_type), coalesce(lower(size), ''));
+
+create table if not exists public.quotes (
+  id uuid primary key default gen_random_uuid(),
+  lead_db_id uuid not null references public.leads(id) on delete cascade,
+  version integer not null,
+  status text not null default 'draft' check (status in ('draft','sent','approved','superseded')),
+  discount_type text not null default 'none' check (discount_type in ('none','percent','amount')),
+  discount_value numeric(12,2) not null default 0,
+  vat_rate numeric(5,2) not null default 15,
+  subtotal numeric(12,2) not null default 0,
+  discount_total numeric(12,2) not null default 0,
+  vat_total numeric(12,2) not null default 0,
+  total numeric(12,2) not null default 0,
+  notes text,
+  valid_until date,
+  sent_at timestamptz,
+  approved_at timestamptz,
+  created_by uuid references auth.users(id) on delete set null,
+  created_by_name text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (lead_db_id, version)
+);
+
+create index if not exists idx_quotes_lead_db_id on public.quotes(lead_db_id);
+
+create table if not exists public.quote_line_items (
+  id uuid primary key default gen_random_uuid(),
+  quote_id uuid not null references public.quotes(id) on delete cascade,
+  sort_order integer not null default 0,
+  product_type text not null,
+  size text,
+  description text,
+  quantity numeric(12,2) not null check (quantity > 0),
+  unit_price numeric(12,2) not null default 0 check (unit_price >= 0),
+  line_total numeric(12,2) not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_quote_line_items_quote_id on public.quote_line_items(quote_id);
+
+alter table public.leads
+  add column if not exists current_quote_id uuid references public.quotes(id) on delete set null;
+
+alter table public.price_book enable row level security;
+alter table public.quotes enable row level security;
+alter table public.quote_line_items enable row level security;
+
+do $$
+begin
+  drop policy if exists "Allow read access to authenticated users" on public.price_book;
+  drop policy if exists "Admin can write price book" on public.price_book;
+
+  create policy "Allow read access to authenticated users"
+    on public.price_book
+    for select
+    to authenticated
+    using (true);
+
+  create policy "Admin can write price book"
+    on public.price_book
+    for all
+    to authenticated
+    using (public.get_user_role(auth.uid()) in ('ceo','admin'))
+    with check (public.get_user_role(auth.uid()) in ('ceo','admin'));
+
+  drop policy if exists "Staff can read quotes" on public.quotes;
+  drop policy if exists "Staff can write quotes" on public.quotes;
+
+  create policy "Staff can read quotes"
+    on public.quotes
+    for select
+    to authenticated
+    using (public.get_user_role(auth.uid()) in ('rep','ceo','admin'));
+
+  create policy "Staff can write quotes"
+    on public.quotes
+    for all
+    to authenticated
+    using (public.get_user_role(auth.uid()) in ('rep','ceo','admin'))
+    with check (public.get_user_role(auth.uid()) in ('rep','ceo','admin'));
+
+  drop policy if exists "Staff can read quote line items" on public.quote_line_items;
+  drop policy if exists "Staff can write quote line items" on public.quote_line_items;
+
+  create policy "Staff can read quote line items"
+    on public.quote_line_items
+    for select
+    to authenticated
+    using (public.get_user_role(auth.uid()) in ('rep','ceo','admin'));
+
+  create policy "Staff can write quote line items"
+    on public.quote_line_items
+    for all
+    to authenticated
+    using (public.get_user_role(auth.uid()) in ('rep','ceo','admin'))
+    with check (public.get_user_role(auth.uid()) in ('rep','ceo','admin'));
+end $$;
+
+commit;
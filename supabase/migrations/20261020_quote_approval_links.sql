@@ -0,0 +1,71 @@
+-- Customer-facing quote approval:
+-- - Signed, expiring links per quote revision (token signature lives in the app; rows allow revocation)
+-- - Customer responses (accept / request changes) with who and when
+
+begin;
+
+create table if not exists public.quote_approval_links (
+  id uuid primary key default gen_random_uuid(),
+  quote_id uuid not null references public.quotes(id) on delete cascade,
+  lead_db_id uuid not null references public.leads(id) on delete cascade,
+  expires_at timestamptz not null,
+  created_by uuid references auth.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  revoked_at timestamptz,
+  last_viewed_at timestamptz
+);
+
+create index if not exists idx_quote_approval_links_quote_id on public.quote_approval_links(quote_id);
+
+create table if not exists public.quote_responses (
+  id uuid primary key default gen_random_uuid(),
+  quote_id uuid not null references public.quotes(id) on delete cascade,
+  link_id uuid references public.quote_approval_links(id) on delete set null,
+  action text not null check (action in ('accepted','changes_requested')),
+  customer_name text not null,
+  customer_email text,
+  comment text,
+  ip_address text,
+  user_agent text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_quote_responses_quote_id on public.quote_responses(quote_id);
+
+alter table public.quotes
+  add column if not exists approved_by_name text;
+alter table public.quotes
+  add column if not exists approved_via text check (approved_via in ('admin','customer_link'));
+
+alter table public.quote_approval_links enable row level security;
+alter table public.quote_responses enable row level security;
+
+do $$
+begin
+  drop policy if exists "Staff can read quote approval links" on public.quote_approval_links;
+  drop policy if exists "Staff can write quote approval links" on public.quote_approval_links;
+
+  create policy "Staff can read quote approval links"
+    on public.quote_approval_links
+    for select
+    to authenticated
+    using (public.get_user_role(auth.uid()) in ('rep','ceo','admin'));
+
+  create policy "Staff can write quote approval links"
+    on public.quote_approval_links
+    for all
+    to authenticated
+    using (public.get_user_role(auth.uid()) in ('rep','ceo','admin'))
+    with check (public.get_user_role(auth.uid()) in ('rep','ceo','admin'));
+
+  -- Responses are written by the public approval page through the service role
+  drop policy if exists "Staff can read quote responses" on public.quote_responses;
+
+  create policy "Staff can read quote responses"
+    on public.quote_responses
+    for select
+    to authenticated
+    using (public.get_user_role(auth.uid()) in ('rep','ceo','admin'));
+end $$;
+
+commit;
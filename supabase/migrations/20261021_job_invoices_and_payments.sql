@@ -0,0 +1,179 @@
+-- Invoice + payment ledger per job:
+-- - job_invoices / job_payments (deposits, part-payments, refunds, proof of payment)
+-- - job_payment_balances view (invoiced, paid, balance)
+-- - payment_status on jobs + leads is derived from the ledger by trigger
+
+begin;
+
+create table if not exists public.job_invoices (
+  id uuid primary key default gen_random_uuid(),
+  job_id uuid not null references public.jobs(id) on delete cascade,
+  quote_id uuid references public.quotes(id) on delete set null,
+  invoice_number text,
+  amount numeric(12,2) not null check (amount >= 0),
+  issued_at date not null default current_date,
+  due_date date,
+  status text not null default 'open' check (status in ('open','void')),
+  notes text,
+  created_by uuid references auth.users(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_job_invoices_job_id on public.job_invoices(job_id);
+
+create table if not exists public.job_payments (
+  id uuid primary key default gen_random_uuid(),
+  job_id uuid not null references public.jobs(id) on delete cascade,
+  invoice_id uuid references public.job_invoices(id) on delete set null,
+  kind text not null default 'part_payment' check (kind in ('deposit','part_payment','final_payment','refund')),
+  method text not null default 'eft' check (method in ('eft','cash','card','other')),
+  amount numeric(12,2) not null check (amount > 0),
+  paid_at date not null default current_date,
+  reference text,
+  proof_path text,
+  notes text,
+  created_by uuid references auth.users(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_job_payments_job_id on public.job_payments(job_id);
+
+create or replace view public.job_payment_balances as
+select
+  j.id as job_id,
+  coalesce(inv.invoiced_total, 0) as invoiced_total,
+  coalesce(pay.paid_total, 0) as paid_total,
+  coalesce(inv.invoiced_total, 0) - coalesce(pay.paid_total, 0) as balance,
+  coalesce(inv.invoice_count, 0) as invoice_count,
+  coalesce(pay.deposit_only, false) as deposit_only
+from public.jobs j
+left join (
+  select job_id, sum(amount) as invoiced_total, count(*) as invoice_count
+  from public.job_invoices
+  where status = 'open'
+  group by job_id
+) inv on inv.job_id = j.id
+left join (
+  select
+    job_id,
+    sum(case when kind = 'refund' then -amount else amount end) as paid_total,
+    bool_and(kind = 'deposit') as deposit_only
+  from public.job_payments
+  group by job_id
+) pay on pay.job_id = j.id;
+
+create or replace function public.refresh_job_payment_status(p_job_id uuid)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_row public.job_payment_balances%rowtype;
+  v_status text;
+  v_lead_id text;
+begin
+  select * into v_row from public.job_payment_balances where job_id = p_job_id;
+  if not found then
+    return null;
+  end if;
+
+  -- Only ledger writes call this, so an empty ledger means the last invoice was voided or the
+  -- last payment deleted; the status goes back to where a job without a ledger starts
+  if v_row.invoice_count = 0 and v_row.paid_total = 0 then
+    v_status := 'Pending';
+  elsif v_row.paid_total <= 0 then
+    v_status := 'Unpaid';
+  elsif v_row.balance <= 0 then
+    v_status := 'Paid';
+  elsif v_row.deposit_only then
+    v_status := 'Deposit Paid';
+  else
+    v_status := 'Partially Paid';
+  end if;
+
+  update public.jobs
+  set payment_status = v_status, updated_at = now()
+  where id = p_job_id
+  returning lead_id into v_lead_id;
+
+  if v_lead_id is not null then
+    update public.leads
+    set payment_status = v_status
+    where id::text = v_lead_id or lead_id = v_lead_id;
+  end if;
+
+  return v_status;
+end;
+$$;
+
+create or replace function public.job_ledger_refresh_trigger()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'DELETE' then
+    perform public.refresh_job_payment_status(old.job_id);
+    return old;
+  end if;
+  perform public.refresh_job_payment_status(new.job_id);
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_job_invoices_refresh_payment_status on public.job_invoices;
+create trigger trg_job_invoices_refresh_payment_status
+  after insert or update or delete on public.job_invoices
+  for each row execute function public.job_ledger_refresh_trigger();
+
+drop trigger if exists trg_job_payments_refresh_payment_status on public.job_payments;
+create trigger trg_job_payments_refresh_payment_status
+  after insert or update or delete on public.job_payments
+  for each row execute function public.job_ledger_refresh_trigger();
+
+alter table public.job_invoices enable row level security;
+alter table public.job_payments enable row level security;
+
+do $$
+begin
+  drop policy if exists "Allow read access to authenticated users" on public.job_invoices;
+  drop policy if exists "Admin can write job invoices" on public.job_invoices;
+
+  create policy "Allow read access to authenticated users"
+    on public.job_invoices
+    for select
+    to authenticated
+    using (true);
+
+  create policy "Admin can write job invoices"
+    on public.job_invoices
+    for all
+    to authenticated
+    using (public.get_user_role(auth.uid()) in ('ceo','admin'))
+    with check (public.get_user_role(auth.uid()) in ('ceo','admin'));
+
+  drop policy if exists "Allow read access to authenticated users" on public.job_payments;
+  drop policy if exists "Admin can write job payments" on public.job_payments;
+
+  create policy "Allow read access to authenticated users"
+    on public.job_payments
+    for select
+    to authenticated
+    using (true);
+
+  create policy "Admin can write job payments"
+    on public.job_payments
+    for all
+    to authenticated
+    using (public.get_user_role(auth.uid()) in ('ceo','admin'))
+    with check (public.get_user_role(auth.uid()) in ('ceo','admin'));
+end $$;
+
+-- Proof-of-payment uploads (private; served through signed URLs)
+insert into storage.buckets (id, name, public)
+values ('payment-proofs', 'payment-proofs', false)
+on conflict (id) do nothing;
+
+commit;
@@ -0,0 +1,270 @@
+-- Stock reservations for open jobs:
+-- - stock_reservations rows per job/material (active -> consumed | released)
+-- - reserve_stock_for_job() runs BOM x product_list when a job is created
+-- - production deductions convert active reservations to consumed
+-- - cancelling a job (jobs.cancelled_at) releases them, as does completing or archiving one
+--   that was never deducted
+
+begin;
+
+alter table public.jobs
+  add column if not exists cancelled_at timestamptz;
+
+create table if not exists public.stock_reservations (
+  id uuid primary key default gen_random_uuid(),
+  job_id uuid not null references public.jobs(id) on delete cascade,
+  material_id uuid not null references public.materials_inventory(id) on delete cascade,
+  qty numeric not null check (qty > 0),
+  status text not null default 'active' check (status in ('active','consumed','released')),
+  created_at timestamptz not null default now(),
+  consumed_at timestamptz,
+  released_at timestamptz
+);
+
+create index if not exists idx_stock_reservations_job_id on public.stock_reservations(job_id);
+create index if not exists idx_stock_reservations_material_active on public.stock_reservations(material_id) where status = 'active';
+create unique index if not exists uniq_stock_reservations_active_job_material
+  on public.stock_reservations(job_id, material_id)
+  where status = 'active';
+
+create or replace view public.material_reservation_totals as
+select material_id, sum(qty) as qty_reserved, count(distinct job_id) as job_count
+from public.stock_reservations
+where status = 'active'
+group by material_id;
+
+alter table public.stock_reservations enable row level security;
+
+do $$
+begin
+  drop policy if exists "Allow read access to authenticated users" on public.stock_reservations;
+  drop policy if exists "Admin can write stock reservations" on public.stock_reservations;
+
+  create policy "Allow read access to authenticated users"
+    on public.stock_reservations
+    for select
+    to authenticated
+    using (true);
+
+  create policy "Admin can write stock reservations"
+    on public.stock_reservations
+    for all
+    to authenticated
+    using (public.get_user_role(auth.uid()) in ('ceo','admin'))
+    with check (public.get_user_role(auth.uid()) in ('ceo','admin'));
+end $$;
+
+-- Reps create jobs too, so this runs as definer; it only ever touches the given job's reservations.
+-- The service role gets through as well: a customer accepting a quote link creates the job without a user
+create or replace function public.reserve_stock_for_job(p_job_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_job record;
+  v_items jsonb;
+  v_item jsonb;
+  v_product_type text;
+  v_size text;
+  v_quantity numeric;
+  v_bom record;
+  v_bom_count integer;
+  v_has_specific boolean;
+  v_totals_map jsonb := '{}'::jsonb;
+  v_missing jsonb := '[]'::jsonb;
+  v_line_items jsonb := '[]'::jsonb;
+  v_key text;
+begin
+  if auth.uid() is null and coalesce(auth.role(), '') <> 'service_role' then
+    raise exception 'forbidden';
+  end if;
+
+  perform pg_advisory_xact_lock(hashtext('deduct_stock_for_job:' || p_job_id::text));
+
+  select id, product_list, cancelled_at
+  into v_job
+  from public.jobs
+  where id = p_job_id;
+
+  if v_job.id is null then
+    raise exception 'job_not_found';
+  end if;
+
+  if v_job.cancelled_at is not null then
+    return jsonb_build_object('status','job_cancelled');
+  end if;
+
+  if exists (
+    select 1
+    from public.stock_transactions
+    where type = 'production_deduction'
+      and coalesce(reference, reference_id) = p_job_id::text
+      and coalesce(status, 'completed') = 'completed'
+  ) then
+    return jsonb_build_object('status','already_deducted');
+  end if;
+
+  v_items := coalesce(v_job.product_list, '[]'::jsonb);
+  if jsonb_typeof(v_items) <> 'array' then
+    raise exception 'invalid_job_product_list';
+  end if;
+
+  for v_item in select * from jsonb_array_elements(v_items)
+  loop
+    v_product_type := coalesce(nullif(v_item->>'product_type',''), nullif(v_item->>'product_name',''));
+    v_size := nullif(v_item->>'size','');
+    v_quantity := nullif(v_item->>'quantity','')::numeric;
+
+    if v_product_type is null or v_quantity is null or v_quantity <= 0 then
+      continue;
+    end if;
+
+    if v_size is null then
+      v_has_specific := false;
+    else
+      select exists(
+        select 1
+        from public.product_material_usage
+        where product_type = v_product_type
+          and size = v_size
+      ) into v_has_specific;
+    end if;
+
+    v_bom_count := 0;
+    for v_bom in
+      select material_id, qty_per_unit
+      from public.product_material_usage
+      where product_type = v_product_type
+        and (
+          (v_has_specific and size = v_size)
+          or
+          ((not v_has_specific) and size is null)
+        )
+    loop
+      v_bom_count := v_bom_count + 1;
+      if v_bom.qty_per_unit * v_quantity = 0 then
+        continue;
+      end if;
+
+      v_key := v_bom.material_id::text;
+      v_totals_map := jsonb_set(
+        v_totals_map,
+        array[v_key],
+        to_jsonb(coalesce((v_totals_map->>v_key)::numeric, 0) + v_bom.qty_per_unit * v_quantity)
+      );
+    end loop;
+
+    -- Unlike deduction, a missing recipe should not block job creation
+    if v_bom_count = 0 then
+      v_missing := v_missing || jsonb_build_object('product_type', v_product_type, 'size', v_size);
+    end if;
+  end loop;
+
+  update public.stock_reservations
+  set status = 'released', released_at = now()
+  where job_id = p_job_id
+    and status = 'active';
+
+  for v_key in select key from jsonb_each_text(v_totals_map)
+  loop
+    insert into public.stock_reservations(job_id, material_id, qty)
+    values (p_job_id, v_key::uuid, (v_totals_map->>v_key)::numeric);
+
+    v_line_items := v_line_items || jsonb_build_object('material_id', v_key, 'qty', (v_totals_map->>v_key)::numeric);
+  end loop;
+
+  return jsonb_build_object(
+    'status', 'reserved',
+    'job_id', p_job_id::text,
+    'line_items', v_line_items,
+    'missing_items', v_missing
+  );
+end;
+$$;
+
+create or replace function public.release_stock_reservations_for_job(p_job_id uuid)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_count integer;
+begin
+  if public.get_user_role(auth.uid()) not in ('ceo','admin') then
+    raise exception 'forbidden';
+  end if;
+
+  update public.stock_reservations
+  set status = 'released', released_at = now()
+  where job_id = p_job_id
+    and status = 'active';
+
+  get diagnostics v_count = row_count;
+  return v_count;
+end;
+$$;
+
+create or replace function public.consume_stock_reservations_trigger()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_job_ref text;
+begin
+  if new.type <> 'production_deduction' or coalesce(new.status, 'completed') <> 'completed' then
+    return new;
+  end if;
+
+  v_job_ref := coalesce(new.reference, new.reference_id);
+  if v_job_ref is null then
+    return new;
+  end if;
+
+  update public.stock_reservations
+  set status = 'consumed', consumed_at = now()
+  where job_id::text = v_job_ref
+    and status = 'active';
+
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_stock_transactions_consume_reservations on public.stock_transactions;
+create trigger trg_stock_transactions_consume_reservations
+  after insert on public.stock_transactions
+  for each row execute function public.consume_stock_reservations_trigger();
+
+create or replace function public.release_stock_reservations_on_completion()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  -- production_stage holds the stage key or the Trello list name
+  if (new.archived_at is not null and old.archived_at is null)
+    or (
+      lower(trim(coalesce(new.production_stage, ''))) in ('delivered_collected', 'delivered/collected')
+      and lower(trim(coalesce(old.production_stage, ''))) not in ('delivered_collected', 'delivered/collected')
+    )
+  then
+    update public.stock_reservations
+    set status = 'released', released_at = now()
+    where job_id = new.id
+      and status = 'active';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_jobs_release_stock_reservations on public.jobs;
+create trigger trg_jobs_release_stock_reservations
+  after update of production_stage, archived_at on public.jobs
+  for each row execute function public.release_stock_reservations_on_completion();
+
+commit;
@@ -0,0 +1,242 @@
+-- Suppliers + purchase orders:
+-- - suppliers table (materials_inventory.supplier text is backfilled into it)
+-- - purchase_orders / purchase_order_items with expected dates and unit costs
+-- - receive_purchase_order() posts received quantities through stock_apply_transaction
+
+begin;
+
+create table if not exists public.suppliers (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  contact_name text,
+  email text,
+  phone text,
+  notes text,
+  is_active boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create unique index if not exists uniq_suppliers_name on public.suppliers (lower(name));
+
+alter table public.materials_inventory
+  add column if not exists supplier_id uuid references public.suppliers(id) on delete set null;
+
+insert into public.suppliers (name)
+select distinct on (lower(trim(supplier))) trim(supplier)
+from public.materials_inventory
+where nullif(trim(supplier), '') is not null
+on conflict do nothing;
+
+update public.materials_inventory m
+set supplier_id = s.id
+from public.suppliers s
+where m.supplier_id is null
+  and nullif(trim(m.supplier), '') is not null
+  and lower(trim(m.supplier)) = lower(s.name);
+
+create table if not exists public.purchase_orders (
+  id uuid primary key default gen_random_uuid(),
+  po_number text not null unique,
+  supplier_id uuid not null references public.suppliers(id),
+  status text not null default 'draft' check (status in ('draft','sent','partially_received','received','cancelled')),
+  expected_date date,
+  notes text,
+  sent_at timestamptz,
+  received_at timestamptz,
+  cancelled_at timestamptz,
+  created_by uuid references auth.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_purchase_orders_status on public.purchase_orders(status);
+create index if not exists idx_purchase_orders_supplier_id on public.purchase_orders(supplier_id);
+
+create table if not exists public.purchase_order_items (
+  id uuid primary key default gen_random_uuid(),
+  purchase_order_id uuid not null references public.purchase_orders(id) on delete cascade,
+  material_id uuid not null references public.materials_inventory(id),
+  qty_ordered numeric not null check (qty_ordered > 0),
+  qty_received numeric not null default 0 check (qty_received >= 0),
+  unit_cost numeric(12,2) not null default 0 check (unit_cost >= 0),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_purchase_order_items_po_id on public.purchase_order_items(purchase_order_id);
+create index if not exists idx_purchase_order_items_material_id on public.purchase_order_items(material_id);
+
+alter table public.stock_transactions
+  add column if not exists purchase_order_id uuid references public.purchase_orders(id) on delete set null;
+
+alter table public.suppliers enable row level security;
+alter table public.purchase_orders enable row level security;
+alter table public.purchase_order_items enable row level security;
+
+do $$
+begin
+  drop policy if exists "Allow read access to authenticated users" on public.suppliers;
+  drop policy if exists "Admin can write suppliers" on public.suppliers;
+
+  create policy "Allow read access to authenticated users"
+    on public.suppliers
+    for select
+    to authenticated
+    using (true);
+
+  create policy "Admin can write suppliers"
+    on public.suppliers
+    for all
+    to authenticated
+    using (public.get_user_role(auth.uid()) in ('ceo','admin'))
+    with check (public.get_user_role(auth.uid()) in ('ceo','admin'));
+
+  drop policy if exists "Admin can read purchase orders" on public.purchase_orders;
+  drop policy if exists "Admin can write purchase orders" on public.purchase_orders;
+
+  create policy "Admin can read purchase orders"
+    on public.purchase_orders
+    for select
+    to authenticated
+    using (public.get_user_role(auth.uid()) in ('ceo','admin'));
+
+  create policy "Admin can write purchase orders"
+    on public.purchase_orders
+    for all
+    to authenticated
+    using (public.get_user_role(auth.uid()) in ('ceo','admin'))
+    with check (public.get_user_role(auth.uid()) in ('ceo','admin'));
+
+  drop policy if exists "Admin can read purchase order items" on public.purchase_order_items;
+  drop policy if exists "Admin can write purchase order items" on public.purchase_order_items;
+
+  create policy "Admin can read purchase order items"
+    on public.purchase_order_items
+    for select
+    to authenticated
+    using (public.get_user_role(auth.uid()) in ('ceo','admin'));
+
+  create policy "Admin can write purchase order items"
+    on public.purchase_order_items
+    for all
+    to authenticated
+    using (public.get_user_role(auth.uid()) in ('ceo','admin'))
+    with check (public.get_user_role(auth.uid()) in ('ceo','admin'));
+end $$;
+
+-- p_items: [{ "item_id": uuid, "qty": number }]; anything not received stays open on the PO
+create or replace function public.receive_purchase_order(
+  p_purchase_order_id uuid,
+  p_items jsonb,
+  p_notes text
+)
+returns jsonb
+language plpgsql
+security invoker
+as $$
+declare
+  v_po record;
+  v_item jsonb;
+  v_row record;
+  v_qty numeric;
+  v_line_items jsonb := '[]'::jsonb;
+  v_transaction_id uuid;
+  v_open_count integer;
+  v_status text;
+begin
+  if public.get_user_role(auth.uid()) not in ('ceo','admin') then
+    raise exception 'forbidden';
+  end if;
+
+  if jsonb_typeof(p_items) <> 'array' then
+    raise exception 'invalid_line_items';
+  end if;
+
+  select id, po_number, status
+  into v_po
+  from public.purchase_orders
+  where id = p_purchase_order_id
+  for update;
+
+  if v_po.id is null then
+    raise exception 'purchase_order_not_found';
+  end if;
+
+  if v_po.status not in ('sent','partially_received') then
+    raise exception 'purchase_order_not_receivable';
+  end if;
+
+  for v_item in select * from jsonb_array_elements(p_items)
+  loop
+    v_qty := nullif(v_item->>'qty','')::numeric;
+    if v_qty is null or v_qty = 0 then
+      continue;
+    end if;
+    if v_qty < 0 then
+      raise exception 'invalid_quantity';
+    end if;
+
+    select id, material_id, qty_ordered, qty_received
+    into v_row
+    from public.purchase_order_items
+    where id = (v_item->>'item_id')::uuid
+      and purchase_order_id = p_purchase_order_id
+    for update;
+
+    if v_row.id is null then
+      raise exception 'purchase_order_item_not_found';
+    end if;
+
+    if v_row.qty_received + v_qty > v_row.qty_ordered then
+      raise exception 'over_receipt';
+    end if;
+
+    update public.purchase_order_items
+    set qty_received = qty_received + v_qty
+    where id = v_row.id;
+
+    v_line_items := v_line_items || jsonb_build_object(
+      'material_id', v_row.material_id,
+      'delta_qty', v_qty,
+      'type', 'restocked'
+    );
+  end loop;
+
+  if jsonb_array_length(v_line_items) = 0 then
+    raise exception 'nothing_to_receive';
+  end if;
+
+  v_transaction_id := public.stock_apply_transaction(
+    'purchase_order',
+    v_po.po_number,
+    p_notes,
+    v_line_items
+  );
+
+  update public.stock_transactions
+  set purchase_order_id = p_purchase_order_id
+  where id = v_transaction_id;
+
+  select count(*)
+  into v_open_count
+  from public.purchase_order_items
+  where purchase_order_id = p_purchase_order_id
+    and qty_received < qty_ordered;
+
+  v_status := case when v_open_count = 0 then 'received' else 'partially_received' end;
+
+  update public.purchase_orders
+  set status = v_status,
+      received_at = case when v_status = 'received' then now() else received_at end,
+      updated_at = now()
+  where id = p_purchase_order_id;
+
+  return jsonb_build_object(
+    'status', v_status,
+    'transaction_id', v_transaction_id,
+    'line_items', v_line_items
+  );
+end;
+$$;
+
+commit;
@@ -0,0 +1,272 @@
+-- Material costing:
+-- - costing_method per material (weighted_average | last_cost) with average_cost / last_cost
+-- - stock_apply_transaction records unit_cost on every line item:
+--     receipts with a unit_cost roll it into the material's costs,
+--     consumption snapshots the material's current cost
+-- - receive_purchase_order passes PO unit costs through
+-- - job_cogs view totals material cost per production deduction
+
+begin;
+
+alter table public.materials_inventory
+  add column if not exists costing_method text not null default 'weighted_average',
+  add column if not exists average_cost numeric(12,4) not null default 0,
+  add column if not exists last_cost numeric(12,4);
+
+do $$
+begin
+  alter table public.materials_inventory
+    drop constraint if exists materials_inventory_costing_method_check;
+  alter table public.materials_inventory
+    add constraint materials_inventory_costing_method_check
+    check (costing_method in ('weighted_average','last_cost'));
+end $$;
+
+create or replace function public.material_unit_cost(p_material_id uuid)
+returns numeric
+language sql
+stable
+as $$
+  select case
+    when costing_method = 'last_cost' then coalesce(last_cost, average_cost, 0)
+    else coalesce(average_cost, 0)
+  end
+  from public.materials_inventory
+  where id = p_material_id;
+$$;
+
+create or replace function public.stock_apply_transaction(
+  p_type text,
+  p_reference text,
+  p_notes text,
+  p_line_items jsonb
+)
+returns uuid
+language plpgsql
+security invoker
+as $$
+declare
+  v_transaction_id uuid;
+  v_item jsonb;
+  v_material_id uuid;
+  v_delta_qty numeric;
+  v_movement_type text;
+  v_current_qty numeric;
+  v_new_qty numeric;
+  v_unit_cost numeric;
+  v_average_cost numeric;
+begin
+  if public.get_user_role(auth.uid()) not in ('ceo','admin') then
+    raise exception 'forbidden';
+  end if;
+
+  if p_type not in ('purchase_order','production_deduction','adjustment','return','initial_balance') then
+    raise exception 'invalid_transaction_type';
+  end if;
+
+  if jsonb_typeof(p_line_items) <> 'array' then
+    raise exception 'invalid_line_items';
+  end if;
+
+  insert into public.stock_transactions(type, reference, notes, created_at, created_by, transaction_date)
+  values (p_type, p_reference, p_notes, now(), auth.uid(), now())
+  returning id into v_transaction_id;
+
+  for v_item in select * from jsonb_array_elements(p_line_items)
+  loop
+    v_material_id := (v_item->>'material_id')::uuid;
+    v_delta_qty := (v_item->>'delta_qty')::numeric;
+    v_movement_type := nullif(v_item->>'type','');
+    v_unit_cost := nullif(v_item->>'unit_cost','')::numeric;
+
+    if v_delta_qty = 0 then
+      raise exception 'zero_quantity_not_allowed';
+    end if;
+
+    if v_unit_cost is not null and v_unit_cost < 0 then
+      raise exception 'invalid_unit_cost';
+    end if;
+
+    if v_movement_type is null then
+      v_movement_type := case when v_delta_qty > 0 then 'restocked' else 'consumed' end;
+    end if;
+
+    if v_movement_type not in ('consumed','restocked','audit') then
+      raise exception 'invalid_movement_type';
+    end if;
+
+    select qty_on_hand, average_cost
+    into v_current_qty, v_average_cost
+    from public.materials_inventory
+    where id = v_material_id
+    for update;
+
+    if v_current_qty is null then
+      raise exception 'material_not_found';
+    end if;
+
+    v_new_qty := v_current_qty + v_delta_qty;
+
+    if v_new_qty < 0 then
+      raise exception 'insufficient_stock';
+    end if;
+
+    if v_delta_qty > 0 and v_unit_cost is not null then
+      -- Roll the receipt into the weighted average; negative/zero stock restarts from this cost
+      update public.materials_inventory
+      set average_cost = case
+            when greatest(v_current_qty, 0) = 0 then v_unit_cost
+            else round((greatest(v_current_qty, 0) * coalesce(v_average_cost, 0) + v_delta_qty * v_unit_cost) / (greatest(v_current_qty, 0) + v_delta_qty), 4)
+          end,
+          last_cost = v_unit_cost
+      where id = v_material_id;
+    elsif v_unit_cost is null then
+      v_unit_cost := public.material_unit_cost(v_material_id);
+    end if;
+
+    insert into public.stock_transaction_line_items(transaction_id, material_id, delta_qty, unit_cost, created_at)
+    values (v_transaction_id, v_material_id, v_delta_qty, v_unit_cost, now());
+
+    insert into public.stock_movements(material_id, delta_qty, type, reference, notes, created_at, created_by)
+    values (v_material_id, v_delta_qty, v_movement_type, p_reference, p_notes, now(), auth.uid());
+
+    update public.materials_inventory
+    set qty_on_hand = v_new_qty,
+        updated_at = now()
+    where id = v_material_id;
+  end loop;
+
+  return v_transaction_id;
+end;
+$$;
+
+create or replace function public.receive_purchase_order(
+  p_purchase_order_id uuid,
+  p_items jsonb,
+  p_notes text
+)
+returns jsonb
+language plpgsql
+security invoker
+as $$
+declare
+  v_po record;
+  v_item jsonb;
+  v_row record;
+  v_qty numeric;
+  v_line_items jsonb := '[]'::jsonb;
+  v_transaction_id uuid;
+  v_open_count integer;
+  v_status text;
+begin
+  if public.get_user_role(auth.uid()) not in ('ceo','admin') then
+    raise exception 'forbidden';
+  end if;
+
+  if jsonb_typeof(p_items) <> 'array' then
+    raise exception 'invalid_line_items';
+  end if;
+
+  select id, po_number, status
+  into v_po
+  from public.purchase_orders
+  where id = p_purchase_order_id
+  for update;
+
+  if v_po.id is null then
+    raise exception 'purchase_order_not_found';
+  end if;
+
+  if v_po.status not in ('sent','partially_received') then
+    raise exception 'purchase_order_not_receivable';
+  end if;
+
+  for v_item in select * from jsonb_array_elements(p_items)
+  loop
+    v_qty := nullif(v_item->>'qty','')::numeric;
+    if v_qty is null or v_qty = 0 then
+      continue;
+    end if;
+    if v_qty < 0 then
+      raise exception 'invalid_quantity';
+    end if;
+
+    select id, material_id, qty_ordered, qty_received, unit_cost
+    into v_row
+    from public.purchase_order_items
+    where id = (v_item->>'item_id')::uuid
+      and purchase_order_id = p_purchase_order_id
+    for update;
+
+    if v_row.id is null then
+      raise exception 'purchase_order_item_not_found';
+    end if;
+
+    if v_row.qty_received + v_qty > v_row.qty_ordered then
+      raise exception 'over_receipt';
+    end if;
+
+    update public.purchase_order_items
+    set qty_received = qty_received + v_qty
+    where id = v_row.id;
+
+    v_line_items := v_line_items || jsonb_build_object(
+      'material_id', v_row.material_id,
+      'delta_qty', v_qty,
+      'type', 'restocked',
+      'unit_cost', v_row.unit_cost
+    );
+  end loop;
+
+  if jsonb_array_length(v_line_items) = 0 then
+    raise exception 'nothing_to_receive';
+  end if;
+
+  v_transaction_id := public.stock_apply_transaction(
+    'purchase_order',
+    v_po.po_number,
+    p_notes,
+    v_line_items
+  );
+
+  update public.stock_transactions
+  set purchase_order_id = p_purchase_order_id
+  where id = v_transaction_id;
+
+  select count(*)
+  into v_open_count
+  from public.purchase_order_items
+  where purchase_order_id = p_purchase_order_id
+    and qty_received < qty_ordered;
+
+  v_status := case when v_open_count = 0 then 'received' else 'partially_received' end;
+
+  update public.purchase_orders
+  set status = v_status,
+      received_at = case when v_status = 'received' then now() else received_at end,
+      updated_at = now()
+  where id = p_purchase_order_id;
+
+  return jsonb_build_object(
+    'status', v_status,
+    'transaction_id', v_transaction_id,
+    'line_items', v_line_items
+  );
+end;
+$$;
+
+-- Legacy deductions have no unit_cost snapshot; they fall back to today's cost and are flagged
+create or replace view public.job_cogs as
+select
+  coalesce(t.reference, t.reference_id) as job_id,
+  t.id as transaction_id,
+  t.created_at as deducted_at,
+  sum(abs(li.delta_qty) * coalesce(li.unit_cost, public.material_unit_cost(li.material_id), 0)) as cogs,
+  bool_or(li.unit_cost is null) as has_estimated_costs
+from public.stock_transactions t
+join public.stock_transaction_line_items li on li.transaction_id = t.id
+where t.type = 'production_deduction'
+  and coalesce(t.status, 'completed') = 'completed'
+group by coalesce(t.reference, t.reference_id), t.id, t.created_at;
+
+commit;
@@ -0,0 +1,22 @@
+-- Two-way Trello sync:
+-- - jobs.trello_synced_at marks the last time the card and the lead agreed (conflict detection)
+-- - lead_notes can originate from Trello card comments
+
+begin;
+
+alter table public.jobs
+  add column if not exists trello_synced_at timestamptz;
+
+alter table public.lead_notes
+  add column if not exists source text not null default 'admin',
+  add column if not exists trello_comment_id text,
+  add column if not exists author_name text;
+
+alter table public.lead_notes
+  alter column author_user_id drop not null;
+
+create unique index if not exists idx_lead_notes_trello_comment_id
+  on public.lead_notes(trello_comment_id)
+  where trello_comment_id is not null;
+
+commit;
@@ -0,0 +1,9 @@
+-- Trello reconciliation:
+-- - job_stage_history.details records what a drift fix changed (field, side taken, both values)
+
+begin;
+
+alter table public.job_stage_history
+  add column if not exists details jsonb;
+
+commit;
@@ -0,0 +1,99 @@
+-- Native production board:
+-- - system_settings 'production_board' holds the sync mode and per-stage WIP limits
+--     trello_primary: Trello list moves drive production_stage (default, current behaviour)
+--     admin_primary:  the admin board drives production_stage; Trello mirrors it
+--     admin_only:     Trello is not read from or written to
+-- - jobs.assignee_user_id for swimlanes
+-- - job checklist items and attachments for the card drawer
+
+begin;
+
+create table if not exists public.system_settings (
+  key text primary key,
+  value jsonb not null default '{}'::jsonb,
+  updated_at timestamptz not null default now()
+);
+
+insert into public.system_settings (key, value)
+values ('production_board', '{"mode":"trello_primary","wip_limits":{}}'::jsonb)
+on conflict (key) do nothing;
+
+-- Everyone who sees the board needs the mode and WIP limits
+do $$
+begin
+  drop policy if exists "Authenticated can view production board settings" on public.system_settings;
+  create policy "Authenticated can view production board settings"
+    on public.system_settings for select
+    to authenticated
+    using (key = 'production_board');
+end $$;
+
+alter table public.jobs
+  add column if not exists assignee_user_id uuid references auth.users(id) on delete set null;
+
+create index if not exists idx_jobs_assignee_user_id on public.jobs(assignee_user_id);
+
+create table if not exists public.job_checklist_items (
+  id uuid primary key default gen_random_uuid(),
+  job_id uuid not null references public.jobs(id) on delete cascade,
+  label text not null,
+  is_done boolean not null default false,
+  position integer not null default 0,
+  done_at timestamptz,
+  done_by uuid references auth.users(id) on delete set null,
+  created_by uuid references auth.users(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_job_checklist_items_job_id on public.job_checklist_items(job_id, position);
+
+create table if not exists public.job_attachments (
+  id uuid primary key default gen_random_uuid(),
+  job_id uuid not null references public.jobs(id) on delete cascade,
+  file_path text not null,
+  file_name text not null,
+  mime_type text,
+  size_bytes bigint,
+  uploaded_by uuid references auth.users(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_job_attachments_job_id on public.job_attachments(job_id, created_at desc);
+
+alter table public.job_checklist_items enable row level security;
+alter table public.job_attachments enable row level security;
+
+do $$
+begin
+  drop policy if exists "Authenticated can view job checklist items" on public.job_checklist_items;
+  create policy "Authenticated can view job checklist items"
+    on public.job_checklist_items for select
+    to authenticated
+    using (true);
+
+  drop policy if exists "Admins can manage job checklist items" on public.job_checklist_items;
+  create policy "Admins can manage job checklist items"
+    on public.job_checklist_items for all
+    to authenticated
+    using (public.get_user_role(auth.uid()) in ('ceo','admin'))
+    with check (public.get_user_role(auth.uid()) in ('ceo','admin'));
+
+  drop policy if exists "Authenticated can view job attachments" on public.job_attachments;
+  create policy "Authenticated can view job attachments"
+    on public.job_attachments for select
+    to authenticated
+    using (true);
+
+  drop policy if exists "Admins can manage job attachments" on public.job_attachments;
+  create policy "Admins can manage job attachments"
+    on public.job_attachments for all
+    to authenticated
+    using (public.get_user_role(auth.uid()) in ('ceo','admin'))
+    with check (public.get_user_role(auth.uid()) in ('ceo','admin'));
+end $$;
+
+insert into storage.buckets (id, name, public)
+values ('job-attachments', 'job-attachments', false)
+on conflict (id) do nothing;
+
+commit;
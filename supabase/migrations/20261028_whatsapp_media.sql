@@ -0,0 +1,29 @@
+-- WhatsApp media messages (images, documents, voice notes, video)
+-- - inbound media is downloaded from the Cloud API into the whatsapp-media bucket
+-- - outbound media is uploaded by the app; the n8n send workflow passes media_url to WhatsApp as a link
+-- The bucket is private: media_url on outbound rows is a signed link for WhatsApp, and the app shows
+-- media (and lead attachments taken from chats) through /api/whatsapp/media, which signs on request.
+
+begin;
+
+alter table public.wa_messages
+  add column if not exists media_path text,
+  add column if not exists media_url text,
+  add column if not exists media_mime_type text,
+  add column if not exists media_file_name text,
+  add column if not exists media_size_bytes bigint,
+  add column if not exists provider_media_id text;
+
+create index if not exists idx_wa_messages_media
+  on public.wa_messages(conversation_id, created_at desc)
+  where media_path is not null;
+
+create index if not exists idx_wa_messages_media_path
+  on public.wa_messages(media_path)
+  where media_path is not null;
+
+insert into storage.buckets (id, name, public)
+values ('whatsapp-media', 'whatsapp-media', false)
+on conflict (id) do update set public = false;
+
+commit;
@@ -0,0 +1,58 @@
+-- WhatsApp delivery/read receipts
+-- - every Cloud API status callback is kept in wa_message_status_events
+-- - wa_messages carries the latest status plus read_at / failed_at and the failure reason (error, error_code)
+-- - wa_messages is added to the realtime publication so open chats update their ticks
+
+begin;
+
+alter table public.wa_messages
+  add column if not exists read_at timestamptz,
+  add column if not exists failed_at timestamptz,
+  add column if not exists error_code text;
+
+create table if not exists public.wa_message_status_events (
+  id uuid primary key default gen_random_uuid(),
+  message_id uuid references public.wa_messages(id) on delete cascade,
+  provider_message_id text not null,
+  status text not null,
+  occurred_at timestamptz not null default now(),
+  recipient_id text,
+  error_code text,
+  error_title text,
+  error_message text,
+  payload jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_wa_message_status_events_message_id
+  on public.wa_message_status_events(message_id, occurred_at);
+
+create index if not exists idx_wa_message_status_events_provider_message_id
+  on public.wa_message_status_events(provider_message_id);
+
+alter table public.wa_message_status_events enable row level security;
+
+-- Same visibility as the message itself
+do $$
+begin
+  drop policy if exists "Users can view status events for visible messages" on public.wa_message_status_events;
+  create policy "Users can view status events for visible messages"
+    on public.wa_message_status_events for select
+    to authenticated
+    using (
+      exists (select 1 from public.wa_messages m where m.id = wa_message_status_events.message_id)
+    );
+end $$;
+
+do $$
+begin
+  if exists (select 1 from pg_publication where pubname = 'supabase_realtime')
+     and not exists (
+       select 1 from pg_publication_tables
+       where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'wa_messages'
+     ) then
+    alter publication supabase_realtime add table public.wa_messages;
+  end if;
+end $$;
+
+commit;
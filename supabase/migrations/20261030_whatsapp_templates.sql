@@ -0,0 +1,61 @@
+-- Approved WhatsApp template messages
+-- - wa_templates mirrors the templates approved in Meta Business Manager. body uses {{1}}, {{2}} ... placeholders
+--   and variables lists, in order, the lead/job field that fills each one (e.g. ["customer_name","production_stage"])
+-- - wa_conversations.last_inbound_at drives the 24-hour customer service window
+-- - template sends are stored in wa_messages with the rendered text and the variable values
+
+begin;
+
+create table if not exists public.wa_templates (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  language text not null default 'en',
+  category text not null default 'utility',
+  body text not null,
+  variables jsonb not null default '[]'::jsonb,
+  is_active boolean not null default true,
+  created_by uuid references auth.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (name, language)
+);
+
+alter table public.wa_templates enable row level security;
+
+do $$
+begin
+  drop policy if exists "Authenticated can view WhatsApp templates" on public.wa_templates;
+  create policy "Authenticated can view WhatsApp templates"
+    on public.wa_templates for select
+    to authenticated
+    using (true);
+
+  drop policy if exists "Admins can manage WhatsApp templates" on public.wa_templates;
+  create policy "Admins can manage WhatsApp templates"
+    on public.wa_templates for all
+    to authenticated
+    using (public.get_user_role(auth.uid()) in ('ceo','admin'))
+    with check (public.get_user_role(auth.uid()) in ('ceo','admin'));
+end $$;
+
+alter table public.wa_conversations
+  add column if not exists last_inbound_at timestamptz;
+
+update public.wa_conversations c
+set last_inbound_at = m.last_inbound_at
+from (
+  select conversation_id, max(coalesce(sent_at, created_at)) as last_inbound_at
+  from public.wa_messages
+  where direction = 'inbound'
+  group by conversation_id
+) m
+where m.conversation_id = c.id
+  and c.last_inbound_at is null;
+
+alter table public.wa_messages
+  add column if not exists template_id uuid references public.wa_templates(id) on delete set null,
+  add column if not exists template_name text,
+  add column if not exists template_language text,
+  add column if not exists template_variables jsonb;
+
+commit;
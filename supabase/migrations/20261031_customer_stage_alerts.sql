@@ -0,0 +1,15 @@
+-- Automatic customer stage-update messages
+-- - system_settings 'customer_stage_alerts' maps production stages to a channel (WhatsApp template or email)
+-- - jobs.customer_alerts_muted lets admins silence a single job
+-- - job_customer_alerts (job_id, stage, channel) stays the dedupe ledger; message_id links the WhatsApp message
+
+begin;
+
+insert into public.system_settings (key, value)
+values ('customer_stage_alerts', '{"stages":{}}'::jsonb)
+on conflict (key) do nothing;
+
+alter table public.jobs
+  add column if not exists customer_alerts_muted boolean not null default false;
+
+commit;
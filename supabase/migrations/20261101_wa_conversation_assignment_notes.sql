@@ -0,0 +1,55 @@
+-- WhatsApp inbox assignment, internal notes and @mentions
+-- - wa_conversations.assigned_at / assigned_by record explicit (re)assignment; assigned_rep_id stays the owner
+-- - wa_conversation_notes holds staff-only notes shown in the thread; they are never sent to the customer.
+--   kind = 'assignment' rows are the handoff trail written by the app
+-- - mentions lists the user ids that were @mentioned and push-notified
+
+begin;
+
+alter table public.wa_conversations
+  add column if not exists assigned_at timestamptz,
+  add column if not exists assigned_by uuid references auth.users(id) on delete set null;
+
+create table if not exists public.wa_conversation_notes (
+  id uuid primary key default gen_random_uuid(),
+  conversation_id uuid not null references public.wa_conversations(id) on delete cascade,
+  author_user_id uuid references auth.users(id) on delete set null,
+  kind text not null default 'note' check (kind in ('note', 'assignment')),
+  body text not null,
+  mentions uuid[] not null default '{}',
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_wa_conversation_notes_conversation_id
+  on public.wa_conversation_notes(conversation_id, created_at);
+
+alter table public.wa_conversation_notes enable row level security;
+
+-- Same visibility as the conversation itself
+do $$
+begin
+  drop policy if exists "Staff can view notes on visible conversations" on public.wa_conversation_notes;
+  create policy "Staff can view notes on visible conversations"
+    on public.wa_conversation_notes for select
+    to authenticated
+    using (
+      exists (select 1 from public.wa_conversations c where c.id = wa_conversation_notes.conversation_id)
+    );
+
+  drop policy if exists "Staff can add notes on visible conversations" on public.wa_conversation_notes;
+  create policy "Staff can add notes on visible conversations"
+    on public.wa_conversation_notes for insert
+    to authenticated
+    with check (
+      author_user_id = auth.uid()
+      and exists (select 1 from public.wa_conversations c where c.id = wa_conversation_notes.conversation_id)
+    );
+
+  drop policy if exists "Authors can delete their notes" on public.wa_conversation_notes;
+  create policy "Authors can delete their notes"
+    on public.wa_conversation_notes for delete
+    to authenticated
+    using (author_user_id = auth.uid() and kind = 'note');
+end $$;
+
+commit;
@@ -0,0 +1,34 @@
+-- Contact identity matching
+-- - normalize_phone_e164 mirrors normalizePhone in lib/contact-identity.ts (South African numbers by default):
+--   "082 123 4567", "0027821234567", "27821234567" and "+27 82 123 4567" all become "+27821234567"
+-- - leads.phone_e164 is generated from leads.phone so lookups no longer depend on how the number was typed
+-- - lower(email) is indexed for case-insensitive email matching
+
+begin;
+
+create or replace function public.normalize_phone_e164(p_phone text)
+returns text
+language sql
+immutable
+as $$
+  select case
+    when d.digits = '' then null
+    when d.raw like '+%' then '+' || d.digits
+    when d.digits like '00%' then '+' || substring(d.digits from 3)
+    when d.digits like '27%' and length(d.digits) >= 11 then '+' || d.digits
+    when d.digits like '0%' and length(d.digits) = 10 then '+27' || substring(d.digits from 2)
+    else '+' || d.digits
+  end
+  from (
+    select btrim(coalesce(p_phone, '')) as raw,
+           regexp_replace(coalesce(p_phone, ''), '\D', '', 'g') as digits
+  ) d
+$$;
+
+alter table public.leads
+  add column if not exists phone_e164 text generated always as (public.normalize_phone_e164(phone)) stored;
+
+create index if not exists idx_leads_phone_e164 on public.leads(phone_e164);
+create index if not exists idx_leads_email_lower on public.leads(lower(email));
+
+commit;
@@ -0,0 +1,190 @@
+-- Duplicate lead merge
+-- - A merged lead stays as a tombstone: merged_into_id points at the surviving lead
+-- - Tombstones are hidden from the leads list, duplicate groups and contact matching
+-- - merge_lead_into moves everything in one transaction, so a failed step leaves both leads as they were.
+--   Tables from later migrations (tasks, lead_sla_breaches, ...) are moved once they exist
+
+begin;
+
+alter table public.leads
+  add column if not exists merged_into_id uuid references public.leads(id) on delete set null,
+  add column if not exists merged_at timestamptz,
+  add column if not exists merged_by uuid references auth.users(id) on delete set null;
+
+create index if not exists idx_leads_merged_into_id
+  on public.leads(merged_into_id)
+  where merged_into_id is not null;
+
+-- Merge one lead into another. p_winner_update holds the leads columns the app fills on the
+-- surviving lead (empty fields, combined request data, attachments).
+create or replace function public.merge_lead_into(p_winner_id uuid, p_loser_id uuid, p_winner_update jsonb)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_winner public.leads%rowtype;
+  v_loser public.leads%rowtype;
+  v_set text;
+  v_max_version integer;
+  v_notes integer := 0;
+  v_events integer := 0;
+  v_conversations integer := 0;
+  v_quotes integer := 0;
+  v_jobs integer := 0;
+  v_tasks integer := 0;
+  v_breaches integer := 0;
+  v_count integer;
+  v_moved jsonb;
+begin
+  if public.get_user_role(auth.uid()) not in ('ceo','admin') then
+    raise exception 'forbidden';
+  end if;
+
+  select * into v_winner from public.leads where id = p_winner_id for update;
+  select * into v_loser from public.leads where id = p_loser_id for update;
+  if v_winner.id is null or v_loser.id is null then
+    raise exception 'lead_not_found';
+  end if;
+  if v_winner.merged_into_id is not null or v_loser.merged_into_id is not null then
+    raise exception 'lead_already_merged';
+  end if;
+
+  -- jobs.lead_id holds leads.id or, on older rows, the text leads.lead_id
+  if exists (
+    select 1 from public.jobs j
+    where j.lead_id::text in (v_winner.id::text, v_winner.lead_id)
+      and j.is_active and j.archived_at is null
+  ) and exists (
+    select 1 from public.jobs j
+    where j.lead_id::text in (v_loser.id::text, v_loser.lead_id)
+      and j.is_active and j.archived_at is null
+  ) then
+    raise exception 'both_leads_have_active_jobs';
+  end if;
+
+  select string_agg(format('%I = r.%I', c.column_name, c.column_name), ', ')
+  into v_set
+  from information_schema.columns c
+  where c.table_schema = 'public'
+    and c.table_name = 'leads'
+    and c.column_name in (select jsonb_object_keys(coalesce(p_winner_update, '{}'::jsonb)))
+    and c.column_name not in ('id', 'lead_id', 'merged_into_id', 'merged_at', 'merged_by');
+  if v_set is not null then
+    execute format(
+      'update public.leads l set %s, updated_at = now() from jsonb_populate_record(null::public.leads, $1) r where l.id = $2',
+      v_set
+    ) using p_winner_update, p_winner_id;
+  end if;
+
+  if to_regclass('public.lead_notes') is not null then
+    update public.lead_notes set lead_db_id = p_winner_id where lead_db_id = p_loser_id;
+    get diagnostics v_notes = row_count;
+  end if;
+
+  update public.lead_events set lead_db_id = p_winner_id where lead_db_id = p_loser_id;
+  get diagnostics v_events = row_count;
+
+  if to_regclass('public.wa_conversations') is not null then
+    update public.wa_conversations set lead_id = p_winner_id where lead_id = p_loser_id;
+    get diagnostics v_conversations = row_count;
+  end if;
+
+  if to_regclass('public.quotes') is not null then
+    -- Versions are unique per lead, so the merged lead's revisions continue after the winner's
+    select coalesce(max(version), 0) into v_max_version from public.quotes where lead_db_id = p_winner_id;
+    update public.quotes q
+    set lead_db_id = p_winner_id, version = v_max_version + s.rn
+    from (
+      select id, row_number() over (order by version) as rn
+      from public.quotes
+      where lead_db_id = p_loser_id
+    ) s
+    where q.id = s.id;
+    get diagnostics v_quotes = row_count;
+  end if;
+
+  if to_regclass('public.quote_approval_links') is not null then
+    update public.quote_approval_links set lead_db_id = p_winner_id where lead_db_id = p_loser_id;
+  end if;
+
+  -- Keep whichever form of lead reference each job used
+  update public.jobs set lead_id = p_winner_id where lead_id::text = p_loser_id::text;
+  get diagnostics v_jobs = row_count;
+  if v_loser.lead_id is not null and v_winner.lead_id is not null
+    and (select atttypid from pg_attribute where attrelid = 'public.jobs'::regclass and attname = 'lead_id') <> 'uuid'::regtype then
+    execute 'update public.jobs set lead_id = $1 where lead_id = $2' using v_winner.lead_id, v_loser.lead_id;
+    get diagnostics v_count = row_count;
+    v_jobs := v_jobs + v_count;
+  end if;
+
+  -- Follow-up tasks (20261109) and SLA breaches (20261106) go with the lead. Where the winner already
+  -- has the same open automated task or open breach, the merged lead's copy is closed instead
+  if to_regclass('public.tasks') is not null then
+    update public.tasks t
+    set completed_at = now(), updated_at = now()
+    where t.lead_db_id = p_loser_id
+      and t.completed_at is null
+      and t.automation_key is not null
+      and exists (
+        select 1 from public.tasks w
+        where w.lead_db_id = p_winner_id
+          and w.completed_at is null
+          and w.automation_key = t.automation_key
+      );
+    update public.tasks set lead_db_id = p_winner_id where lead_db_id = p_loser_id;
+    get diagnostics v_tasks = row_count;
+  end if;
+
+  if to_regclass('public.lead_sla_breaches') is not null then
+    update public.lead_sla_breaches b
+    set resolved_at = now()
+    where b.lead_db_id = p_loser_id
+      and b.resolved_at is null
+      and exists (
+        select 1 from public.lead_sla_breaches w
+        where w.lead_db_id = p_winner_id
+          and w.resolved_at is null
+          and w.milestone = b.milestone
+      );
+    update public.lead_sla_breaches set lead_db_id = p_winner_id where lead_db_id = p_loser_id;
+    get diagnostics v_breaches = row_count;
+  end if;
+
+  update public.leads
+  set merged_into_id = p_winner_id, merged_at = now(), merged_by = auth.uid(), updated_at = now()
+  where id = p_loser_id;
+
+  v_moved := jsonb_build_object(
+    'notes', v_notes,
+    'events', v_events,
+    'conversations', v_conversations,
+    'quotes', v_quotes,
+    'jobs', v_jobs,
+    'tasks', v_tasks,
+    'slaBreaches', v_breaches
+  );
+
+  insert into public.lead_events (lead_db_id, actor_user_id, event_type, payload)
+  values
+    (
+      p_winner_id,
+      auth.uid(),
+      'lead_merged',
+      jsonb_build_object('mergedLeadId', p_loser_id, 'mergedLeadCode', v_loser.lead_id, 'moved', v_moved)
+    ),
+    (
+      p_loser_id,
+      auth.uid(),
+      'lead_merged_into',
+      jsonb_build_object('winnerLeadId', p_winner_id, 'winnerLeadCode', v_winner.lead_id)
+    );
+
+  return v_moved;
+end;
+$$;
+
+grant execute on function public.merge_lead_into(uuid, uuid, jsonb) to authenticated;
+
+commit;
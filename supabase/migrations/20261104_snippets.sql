@@ -0,0 +1,74 @@
+-- Canned replies (snippets) for the inbox composer and lead notes
+-- - owner_user_id null = shared with everyone (managed by CEO/Admin); set = private to that rep
+-- - body uses named placeholders such as {{first_name}} or {{quote_total}}, filled from the linked lead
+-- - shortcut is what reps type after "/" in a composer; unique per owner, and private shortcuts may
+--   shadow a shared one
+-- - snippet_uses records every expansion for usage stats
+
+begin;
+
+create table if not exists public.snippets (
+  id uuid primary key default gen_random_uuid(),
+  shortcut text not null check (shortcut ~ '^[a-z0-9][a-z0-9_-]*$'),
+  title text not null,
+  body text not null,
+  category text not null default 'General',
+  owner_user_id uuid references auth.users(id) on delete cascade,
+  created_by uuid references auth.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create unique index if not exists snippets_shortcut_owner_unique
+  on public.snippets (shortcut, coalesce(owner_user_id, '00000000-0000-0000-0000-000000000000'::uuid));
+
+create table if not exists public.snippet_uses (
+  id uuid primary key default gen_random_uuid(),
+  snippet_id uuid not null references public.snippets(id) on delete cascade,
+  user_id uuid references auth.users(id) on delete set null,
+  context text not null check (context in ('inbox', 'lead_note')),
+  lead_db_id uuid references public.leads(id) on delete set null,
+  used_at timestamptz not null default now()
+);
+
+create index if not exists idx_snippet_uses_snippet_id on public.snippet_uses(snippet_id, used_at desc);
+
+alter table public.snippets enable row level security;
+alter table public.snippet_uses enable row level security;
+
+do $$
+begin
+  drop policy if exists "Staff can view shared and own snippets" on public.snippets;
+  create policy "Staff can view shared and own snippets"
+    on public.snippets for select
+    to authenticated
+    using (owner_user_id is null or owner_user_id = auth.uid());
+
+  drop policy if exists "Staff can manage own snippets" on public.snippets;
+  create policy "Staff can manage own snippets"
+    on public.snippets for all
+    to authenticated
+    using (owner_user_id = auth.uid())
+    with check (owner_user_id = auth.uid());
+
+  drop policy if exists "Admins can manage shared snippets" on public.snippets;
+  create policy "Admins can manage shared snippets"
+    on public.snippets for all
+    to authenticated
+    using (owner_user_id is null and public.get_user_role(auth.uid()) in ('ceo','admin'))
+    with check (owner_user_id is null and public.get_user_role(auth.uid()) in ('ceo','admin'));
+
+  drop policy if exists "Staff can view snippet usage" on public.snippet_uses;
+  create policy "Staff can view snippet usage"
+    on public.snippet_uses for select
+    to authenticated
+    using (true);
+
+  drop policy if exists "Staff can record own snippet usage" on public.snippet_uses;
+  create policy "Staff can record own snippet usage"
+    on public.snippet_uses for insert
+    to authenticated
+    with check (user_id = auth.uid());
+end $$;
+
+commit;
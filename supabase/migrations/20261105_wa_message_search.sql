@@ -0,0 +1,67 @@
+-- Full-text search over WhatsApp message history
+-- - wa_messages.text_search is an english tsvector generated from the message text, GIN-indexed
+-- - search_wa_messages runs as the caller, so conversation RLS still decides what a rep can find.
+--   snippet marks matched words with chr(2) ... chr(3) for the client to highlight
+
+begin;
+
+alter table public.wa_messages
+  add column if not exists text_search tsvector
+    generated always as (to_tsvector('english', coalesce(text, ''))) stored;
+
+create index if not exists idx_wa_messages_text_search on public.wa_messages using gin(text_search);
+
+create or replace function public.search_wa_messages(
+  p_query text,
+  p_rep_id uuid default null,
+  p_lead_id uuid default null,
+  p_from timestamptz default null,
+  p_to timestamptz default null,
+  p_limit integer default 50
+)
+returns table (
+  message_id uuid,
+  conversation_id uuid,
+  direction text,
+  created_at timestamptz,
+  snippet text,
+  conversation_name text,
+  lead_id uuid,
+  lead_name text
+)
+language sql
+stable
+security invoker
+as $$
+  with q as (
+    select websearch_to_tsquery('english', coalesce(p_query, '')) as query
+  )
+  select
+    m.id,
+    m.conversation_id,
+    m.direction,
+    m.created_at,
+    ts_headline(
+      'english',
+      coalesce(m.text, ''),
+      q.query,
+      'StartSel=' || chr(2) || ', StopSel=' || chr(3) || ', MaxWords=30, MinWords=12, MaxFragments=1'
+    ),
+    coalesce(nullif(c.custom_display_name, ''), nullif(c.display_name, ''), c.phone),
+    c.lead_id,
+    coalesce(l.customer_name, l.name)
+  from q
+  join public.wa_messages m on m.text_search @@ q.query
+  join public.wa_conversations c on c.id = m.conversation_id
+  left join public.leads l on l.id = c.lead_id
+  where (p_rep_id is null or c.assigned_rep_id = p_rep_id)
+    and (p_lead_id is null or c.lead_id = p_lead_id)
+    and (p_from is null or m.created_at >= p_from)
+    and (p_to is null or m.created_at < p_to)
+  order by ts_rank(m.text_search, q.query) desc, m.created_at desc
+  limit least(greatest(coalesce(p_limit, 50), 1), 200);
+$$;
+
+grant execute on function public.search_wa_messages(text, uuid, uuid, timestamptz, timestamptz, integer) to authenticated;
+
+commit;
@@ -0,0 +1,149 @@
+-- Lead SLA timers and breach log
+-- - system_settings 'lead_sla' holds per-intent targets in hours (first contact, quote sent, follow-up)
+--   and how long a breach may sit with the rep before admins are paged
+-- - leads.first_contacted_at / last_contacted_at are stamped by outbound WhatsApp messages and by status
+--   changes past New/Assigned; leads.quote_sent_at by every move to Quote Sent
+-- - lead_sla_breaches is the reporting ledger: one open row per lead and milestone, resolved once it is met
+
+begin;
+
+insert into public.system_settings (key, value)
+values (
+  'lead_sla',
+  '{
+    "intents": {
+      "Quote": {"first_contact_hours": 4, "quote_sent_hours": 24, "follow_up_hours": 48},
+      "Booking": {"first_contact_hours": 2, "quote_sent_hours": null, "follow_up_hours": 24},
+      "Question": {"first_contact_hours": 8, "quote_sent_hours": null, "follow_up_hours": null}
+    },
+    "escalate_after_hours": 4
+  }'::jsonb
+)
+on conflict (key) do nothing;
+
+-- Reps see SLA badges and timers on their leads, so everyone needs the targets
+do $$
+begin
+  drop policy if exists "Authenticated can view lead SLA settings" on public.system_settings;
+  create policy "Authenticated can view lead SLA settings"
+    on public.system_settings for select
+    to authenticated
+    using (key = 'lead_sla');
+end $$;
+
+alter table public.leads
+  add column if not exists first_contacted_at timestamptz,
+  add column if not exists last_contacted_at timestamptz,
+  add column if not exists quote_sent_at timestamptz;
+
+-- Backfill from what already happened so existing leads don't all breach at once
+update public.leads l
+set first_contacted_at = m.first_at,
+    last_contacted_at = m.last_at
+from (
+  select c.lead_id, min(m.created_at) as first_at, max(m.created_at) as last_at
+  from public.wa_messages m
+  join public.wa_conversations c on c.id = m.conversation_id
+  where m.direction = 'outbound' and c.lead_id is not null
+  group by c.lead_id
+) m
+where l.id = m.lead_id
+  and l.first_contacted_at is null;
+
+update public.leads l
+set quote_sent_at = q.sent_at
+from (
+  select lead_db_id, max(sent_at) as sent_at
+  from public.quotes
+  where sent_at is not null
+  group by lead_db_id
+) q
+where l.id = q.lead_db_id
+  and l.quote_sent_at is null;
+
+update public.leads
+set first_contacted_at = coalesce(updated_at, created_at),
+    last_contacted_at = coalesce(last_contacted_at, updated_at, created_at)
+where first_contacted_at is null
+  and coalesce(status, 'New') not in ('New', 'Assigned');
+
+create or replace function public.leads_stamp_sla_contact()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.status is distinct from old.status and coalesce(new.status, 'New') not in ('New', 'Assigned') then
+    new.first_contacted_at := coalesce(new.first_contacted_at, now());
+    -- A move to Quote Sent starts the follow-up clock rather than satisfying it
+    if new.status = 'Quote Sent' then
+      new.quote_sent_at := now();
+    else
+      new.last_contacted_at := now();
+    end if;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_leads_stamp_sla_contact on public.leads;
+create trigger trg_leads_stamp_sla_contact
+  before update of status on public.leads
+  for each row execute function public.leads_stamp_sla_contact();
+
+create or replace function public.wa_messages_stamp_lead_contact()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.direction = 'outbound' then
+    update public.leads l
+    set first_contacted_at = coalesce(l.first_contacted_at, new.created_at),
+        last_contacted_at = greatest(coalesce(l.last_contacted_at, new.created_at), new.created_at)
+    from public.wa_conversations c
+    where c.id = new.conversation_id
+      and l.id = c.lead_id;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_wa_messages_stamp_lead_contact on public.wa_messages;
+create trigger trg_wa_messages_stamp_lead_contact
+  after insert on public.wa_messages
+  for each row execute function public.wa_messages_stamp_lead_contact();
+
+create table if not exists public.lead_sla_breaches (
+  id uuid primary key default gen_random_uuid(),
+  lead_db_id uuid not null references public.leads(id) on delete cascade,
+  milestone text not null check (milestone in ('first_contact', 'quote_sent', 'follow_up')),
+  intents text[] not null default '{}',
+  due_at timestamptz not null,
+  breached_at timestamptz not null default now(),
+  assigned_rep_id uuid references auth.users(id) on delete set null,
+  rep_notified_at timestamptz,
+  escalated_at timestamptz,
+  resolved_at timestamptz
+);
+
+create unique index if not exists idx_lead_sla_breaches_open
+  on public.lead_sla_breaches(lead_db_id, milestone)
+  where resolved_at is null;
+
+create index if not exists idx_lead_sla_breaches_breached_at
+  on public.lead_sla_breaches(breached_at desc);
+
+alter table public.lead_sla_breaches enable row level security;
+
+-- Written only by the escalation job (service role)
+do $$
+begin
+  drop policy if exists "Allow read access to authenticated users" on public.lead_sla_breaches;
+  create policy "Allow read access to authenticated users"
+    on public.lead_sla_breaches for select
+    to authenticated
+    using (true);
+end $$;
+
+commit;
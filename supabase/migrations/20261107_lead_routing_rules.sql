@@ -0,0 +1,131 @@
+-- Lead routing rules
+-- - lead_routing_rules are evaluated in position order; the first active rule whose criteria all match
+--   and that has an available rep assigns the lead. Empty criteria match anything
+-- - strategy 'round_robin' cycles through reps (last_assigned_user_id is the cursor),
+--   'weighted' picks the rep with the fewest open leads per unit of weight
+-- - system_settings 'lead_routing' holds team working hours and who is out of office
+-- - leads.routing_rule_id / routing_reason explain the last automatic assignment
+-- - lead_open_counts_by_rep gives the weighted strategy each rep's open lead count without
+--   loading the leads
+
+begin;
+
+create table if not exists public.lead_routing_rules (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  position integer not null default 0,
+  is_active boolean not null default true,
+  intents text[] not null default '{}',
+  categories text[] not null default '{}',
+  sources text[] not null default '{}',
+  organization_pattern text,
+  hours text not null default 'any' check (hours in ('any', 'working', 'after_hours')),
+  strategy text not null default 'round_robin' check (strategy in ('round_robin', 'weighted')),
+  -- [{ "user_id": uuid, "weight": int }]
+  reps jsonb not null default '[]'::jsonb,
+  last_assigned_user_id uuid references auth.users(id) on delete set null,
+  created_by uuid references auth.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_lead_routing_rules_position on public.lead_routing_rules(position);
+
+alter table public.leads
+  add column if not exists routing_rule_id uuid references public.lead_routing_rules(id) on delete set null,
+  add column if not exists routing_reason text,
+  add column if not exists routed_at timestamptz;
+
+insert into public.system_settings (key, value)
+values (
+  'lead_routing',
+  '{"timezone": "Africa/Johannesburg", "working_days": [1, 2, 3, 4, 5], "start_time": "08:00", "end_time": "17:00", "out_of_office_user_ids": []}'::jsonb
+)
+on conflict (key) do nothing;
+
+-- The insert trigger stays as the fallback for leads that arrive without the app routing them:
+-- same fewest-open-leads pick as the app (lead_open_counts_by_rep below), minus anyone out of office,
+-- and it now explains itself
+create or replace function public.auto_assign_new_lead()
+returns trigger
+language plpgsql
+security definer
+as $$
+declare
+  v_rep_id uuid;
+  v_active_count bigint;
+  v_out_of_office text[];
+begin
+  if new.assigned_rep_id is null then
+    select coalesce(array_agg(x), '{}') into v_out_of_office
+    from public.system_settings s,
+      jsonb_array_elements_text(coalesce(s.value->'out_of_office_user_ids', '[]'::jsonb)) as x
+    where s.key = 'lead_routing';
+
+    select p.user_id, coalesce(c.open_leads, 0) as active_count
+    into v_rep_id, v_active_count
+    from public.profiles p
+    left join public.lead_open_counts_by_rep() c on c.rep_id = p.user_id
+    where p.role = 'rep'
+      and not (p.user_id::text = any(v_out_of_office))
+    order by active_count asc, p.created_at asc
+    limit 1;
+
+    if v_rep_id is not null then
+      new.assigned_rep_id := v_rep_id;
+      new.assigned_at := now();
+      new.routing_reason := 'no routing rule was applied and they had the fewest open leads';
+      new.routed_at := now();
+      new.last_modified := now();
+      new.last_modified_by := 'system:auto-assign';
+      new.updated_at := now();
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+-- Reps only see their own leads, so the counts are taken as the owner; nothing but counts leaves it.
+-- The default closed statuses are LEAD_SLA_CLOSED_STATUSES in lib/lead-sla.ts, for the trigger above
+create or replace function public.lead_open_counts_by_rep(
+  p_closed_statuses text[] default array['Quote Approved', 'In Production', 'Completed', 'Lost', 'Answered']
+)
+returns table (
+  rep_id uuid,
+  open_leads bigint
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select l.assigned_rep_id, count(*)
+  from public.leads l
+  where l.assigned_rep_id is not null
+    and l.merged_into_id is null
+    and not (coalesce(l.status, '') = any(coalesce(p_closed_statuses, '{}')))
+  group by l.assigned_rep_id;
+$$;
+
+grant execute on function public.lead_open_counts_by_rep(text[]) to authenticated;
+
+alter table public.lead_routing_rules enable row level security;
+
+do $$
+begin
+  drop policy if exists "Allow read access to authenticated users" on public.lead_routing_rules;
+  create policy "Allow read access to authenticated users"
+    on public.lead_routing_rules for select
+    to authenticated
+    using (true);
+
+  drop policy if exists "Admin can manage routing rules" on public.lead_routing_rules;
+  create policy "Admin can manage routing rules"
+    on public.lead_routing_rules for all
+    to authenticated
+    using (public.get_user_role(auth.uid()) in ('ceo', 'admin'))
+    with check (public.get_user_role(auth.uid()) in ('ceo', 'admin'));
+end $$;
+
+commit;
@@ -0,0 +1,102 @@
+-- Per-user availability
+-- - profiles.is_away is a manual toggle, working_hours a weekly schedule ([{ "day": 0-6, "start": "HH:MM", "end": "HH:MM" }],
+--   null = follow the team hours) and leave_periods a list of inclusive date ranges in the team time zone
+-- - system_settings 'team_hours' replaces the hours kept under 'lead_routing'; anyone on the old
+--   out-of-office list is marked away
+-- - routing, push notifications and SLA clocks read these in the app; the insert trigger skips away/on-leave reps
+
+begin;
+
+alter table public.profiles
+  add column if not exists is_away boolean not null default false,
+  add column if not exists working_hours jsonb,
+  add column if not exists leave_periods jsonb not null default '[]'::jsonb;
+
+insert into public.system_settings (key, value)
+select 'team_hours', s.value - 'out_of_office_user_ids'
+from public.system_settings s
+where s.key = 'lead_routing'
+on conflict (key) do nothing;
+
+insert into public.system_settings (key, value)
+values (
+  'team_hours',
+  '{"timezone": "Africa/Johannesburg", "working_days": [1, 2, 3, 4, 5], "start_time": "08:00", "end_time": "17:00"}'::jsonb
+)
+on conflict (key) do nothing;
+
+update public.profiles p
+set is_away = true
+from public.system_settings s,
+  jsonb_array_elements_text(coalesce(s.value->'out_of_office_user_ids', '[]'::jsonb)) as x
+where s.key = 'lead_routing'
+  and p.user_id::text = x;
+
+delete from public.system_settings where key = 'lead_routing';
+
+-- Every staff member's availability badge and SLA timers are worked out against the team hours
+do $$
+begin
+  drop policy if exists "Authenticated can view team hours" on public.system_settings;
+  create policy "Authenticated can view team hours"
+    on public.system_settings for select
+    to authenticated
+    using (key = 'team_hours');
+end $$;
+
+create or replace function public.profile_on_leave(p_leave_periods jsonb, p_on date)
+returns boolean
+language sql
+immutable
+as $$
+  select exists (
+    select 1
+    from jsonb_array_elements(coalesce(p_leave_periods, '[]'::jsonb)) as period
+    where p_on between (period->>'starts_on')::date and (period->>'ends_on')::date
+  );
+$$;
+
+-- Fallback for leads the app didn't route: fewest open leads among reps who are neither away nor on leave.
+-- Working hours are left to the app so night-time leads still get an owner for the morning
+create or replace function public.auto_assign_new_lead()
+returns trigger
+language plpgsql
+security definer
+as $$
+declare
+  v_rep_id uuid;
+  v_active_count bigint;
+  v_today date;
+begin
+  if new.assigned_rep_id is null then
+    select (now() at time zone coalesce(
+      (select s.value->>'timezone' from public.system_settings s where s.key = 'team_hours'),
+      'Africa/Johannesburg'
+    ))::date into v_today;
+
+    select p.user_id, coalesce(c.open_leads, 0) as active_count
+    into v_rep_id, v_active_count
+    from public.profiles p
+    left join public.lead_open_counts_by_rep() c on c.rep_id = p.user_id
+    where p.role = 'rep'
+      and not p.is_away
+      and not public.profile_on_leave(p.leave_periods, v_today)
+    order by active_count asc, p.created_at asc
+    limit 1;
+
+    if v_rep_id is not null then
+      new.assigned_rep_id := v_rep_id;
+      new.assigned_at := now();
+      new.routing_reason := 'no routing rule was applied and they had the fewest open leads';
+      new.routed_at := now();
+      new.last_modified := now();
+      new.last_modified_by := 'system:auto-assign';
+      new.updated_at := now();
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+commit;
@@ -0,0 +1,125 @@
+-- Follow-up tasks and reminders
+-- - tasks hang off a lead and/or a job, have one assignee and a due time; snoozing moves due_at and
+--   re-arms the reminder
+-- - reminder_sent_at is stamped once the due-time push went out (POST /api/n8n/task-reminders)
+-- - system_settings 'task_automations' lists { status, title, due_in_days } rules; moving a lead into
+--   that status creates the task for its rep. automation_key keeps one open task per lead and rule
+
+begin;
+
+create table if not exists public.tasks (
+  id uuid primary key default gen_random_uuid(),
+  title text not null,
+  notes text,
+  due_at timestamptz not null,
+  assignee_user_id uuid references auth.users(id) on delete set null,
+  lead_db_id uuid references public.leads(id) on delete cascade,
+  job_id uuid references public.jobs(id) on delete cascade,
+  source text not null default 'manual' check (source in ('manual', 'automation')),
+  automation_key text,
+  snooze_count integer not null default 0,
+  reminder_sent_at timestamptz,
+  completed_at timestamptz,
+  completed_by uuid references auth.users(id) on delete set null,
+  created_by uuid references auth.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_tasks_open_assignee_due
+  on public.tasks(assignee_user_id, due_at)
+  where completed_at is null;
+
+create index if not exists idx_tasks_reminder_due
+  on public.tasks(due_at)
+  where completed_at is null and reminder_sent_at is null;
+
+create index if not exists idx_tasks_lead_db_id on public.tasks(lead_db_id);
+create index if not exists idx_tasks_job_id on public.tasks(job_id);
+
+create unique index if not exists tasks_open_automation_unique
+  on public.tasks(lead_db_id, automation_key)
+  where completed_at is null and automation_key is not null;
+
+insert into public.system_settings (key, value)
+values (
+  'task_automations',
+  '{"rules": [{"status": "Quote Sent", "title": "Follow up on quote", "due_in_days": 3}]}'::jsonb
+)
+on conflict (key) do nothing;
+
+create or replace function public.leads_create_status_tasks()
+returns trigger
+language plpgsql
+security definer
+as $$
+declare
+  v_rule jsonb;
+  v_index bigint;
+begin
+  if new.status is distinct from old.status and new.status is not null then
+    for v_rule, v_index in
+      select r.rule, r.idx
+      from public.system_settings s,
+        jsonb_array_elements(coalesce(s.value->'rules', '[]'::jsonb)) with ordinality as r(rule, idx)
+      where s.key = 'task_automations'
+        and r.rule->>'status' = new.status
+    loop
+      insert into public.tasks (title, due_at, assignee_user_id, lead_db_id, source, automation_key)
+      values (
+        coalesce(nullif(v_rule->>'title', ''), 'Follow up'),
+        now() + make_interval(days => coalesce((v_rule->>'due_in_days')::int, 0)),
+        new.assigned_rep_id,
+        new.id,
+        'automation',
+        'status:' || new.status || ':' || v_index
+      )
+      on conflict do nothing;
+    end loop;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_leads_create_status_tasks on public.leads;
+create trigger trg_leads_create_status_tasks
+  after update of status on public.leads
+  for each row
+  execute function public.leads_create_status_tasks();
+
+alter table public.tasks enable row level security;
+
+do $$
+begin
+  drop policy if exists "Staff can view tasks" on public.tasks;
+  create policy "Staff can view tasks"
+    on public.tasks for select
+    to authenticated
+    using (true);
+
+  drop policy if exists "Staff can create tasks" on public.tasks;
+  create policy "Staff can create tasks"
+    on public.tasks for insert
+    to authenticated
+    with check (created_by = auth.uid());
+
+  drop policy if exists "Assignee, creator or admin can update tasks" on public.tasks;
+  create policy "Assignee, creator or admin can update tasks"
+    on public.tasks for update
+    to authenticated
+    using (
+      assignee_user_id = auth.uid()
+      or created_by = auth.uid()
+      or public.get_user_role(auth.uid()) in ('ceo', 'admin')
+    )
+    -- Handing a task to someone else is allowed
+    with check (true);
+
+  drop policy if exists "Creator or admin can delete tasks" on public.tasks;
+  create policy "Creator or admin can delete tasks"
+    on public.tasks for delete
+    to authenticated
+    using (created_by = auth.uid() or public.get_user_role(auth.uid()) in ('ceo', 'admin'));
+end $$;
+
+commit;
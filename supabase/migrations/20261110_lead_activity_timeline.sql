@@ -0,0 +1,252 @@
+-- Unified lead activity timeline
+-- - lead_events is the lead's append-only activity log. App actions already write notes, status,
+--   assignment, quote and payment events; the triggers below add WhatsApp messages, production stage
+--   moves (job_stage_history) and stock deductions however those rows get written (app, Trello, n8n)
+-- - rows can't be edited; the only allowed update is re-pointing lead_db_id when duplicates are merged
+-- - existing messages, stage moves and deductions are backfilled once
+-- - jobs.lead_id holds leads.id or, on older rows, the text leads.lead_id, so jobs are matched to
+--   their lead on either
+
+begin;
+
+create index if not exists idx_lead_events_lead_db_id_created_at
+  on public.lead_events(lead_db_id, created_at desc);
+
+create or replace function public.lead_events_append_only()
+returns trigger
+language plpgsql
+as $$
+begin
+  if (to_jsonb(new) - 'lead_db_id') is distinct from (to_jsonb(old) - 'lead_db_id') then
+    raise exception 'lead_events is append-only';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_lead_events_append_only on public.lead_events;
+create trigger trg_lead_events_append_only
+  before update on public.lead_events
+  for each row
+  execute function public.lead_events_append_only();
+
+revoke update, delete on public.lead_events from anon, authenticated;
+
+-- WhatsApp: one event per message once its conversation is linked to a lead
+create or replace function public.log_wa_message_lead_events(p_conversation_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.lead_events (lead_db_id, actor_user_id, event_type, payload, created_at)
+  select
+    c.lead_id,
+    case when m.direction = 'outbound' then m.created_by end,
+    case when m.direction = 'inbound' then 'whatsapp_message_received' else 'whatsapp_message_sent' end,
+    jsonb_build_object(
+      'messageId', m.id,
+      'conversationId', m.conversation_id,
+      'preview', left(coalesce(nullif(m.text, ''), m.template_name, m.message_type, ''), 120)
+    ),
+    coalesce(m.created_at, now())
+  from public.wa_messages m
+  join public.wa_conversations c on c.id = m.conversation_id
+  where m.conversation_id = p_conversation_id
+    and c.lead_id is not null
+    and not exists (
+      select 1
+      from public.lead_events e
+      where e.lead_db_id = c.lead_id
+        and e.event_type in ('whatsapp_message_received', 'whatsapp_message_sent')
+        and e.payload->>'messageId' = m.id::text
+    );
+end;
+$$;
+
+create or replace function public.wa_messages_log_lead_event()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_lead_id uuid;
+begin
+  select c.lead_id into v_lead_id from public.wa_conversations c where c.id = new.conversation_id;
+  if v_lead_id is not null then
+    insert into public.lead_events (lead_db_id, actor_user_id, event_type, payload, created_at)
+    values (
+      v_lead_id,
+      case when new.direction = 'outbound' then new.created_by end,
+      case when new.direction = 'inbound' then 'whatsapp_message_received' else 'whatsapp_message_sent' end,
+      jsonb_build_object(
+        'messageId', new.id,
+        'conversationId', new.conversation_id,
+        'preview', left(coalesce(nullif(new.text, ''), new.template_name, new.message_type, ''), 120)
+      ),
+      coalesce(new.created_at, now())
+    );
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_wa_messages_log_lead_event on public.wa_messages;
+create trigger trg_wa_messages_log_lead_event
+  after insert on public.wa_messages
+  for each row
+  execute function public.wa_messages_log_lead_event();
+
+-- A conversation linked to a lead later (e.g. lead created from the inbox) brings its history along
+create or replace function public.wa_conversations_log_linked_messages()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.lead_id is not null and new.lead_id is distinct from old.lead_id then
+    perform public.log_wa_message_lead_events(new.id);
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_wa_conversations_log_linked_messages on public.wa_conversations;
+create trigger trg_wa_conversations_log_linked_messages
+  after update of lead_id on public.wa_conversations
+  for each row
+  execute function public.wa_conversations_log_linked_messages();
+
+-- Production: every job_stage_history row, whichever system moved the card
+create or replace function public.job_stage_history_log_lead_event()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_lead_id uuid;
+begin
+  select l.id into v_lead_id
+  from public.jobs j
+  join public.leads l on l.id::text = j.lead_id::text or l.lead_id = j.lead_id::text
+  where j.id = new.job_id
+  limit 1;
+  if v_lead_id is not null then
+    insert into public.lead_events (lead_db_id, actor_user_id, event_type, payload, created_at)
+    values (
+      v_lead_id,
+      auth.uid(),
+      'job_stage_changed',
+      jsonb_build_object(
+        'historyId', new.id,
+        'jobId', new.job_id,
+        'from', new.from_stage,
+        'to', coalesce(new.to_stage, new.stage),
+        'source', new.source
+      ),
+      coalesce(new.moved_at, now())
+    );
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_job_stage_history_log_lead_event on public.job_stage_history;
+create trigger trg_job_stage_history_log_lead_event
+  after insert on public.job_stage_history
+  for each row
+  execute function public.job_stage_history_log_lead_event();
+
+-- Stock: production deductions reference the job they were taken for
+create or replace function public.stock_transactions_log_lead_event()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_job_id uuid;
+  v_lead_id uuid;
+begin
+  if new.type = 'production_deduction' then
+    select j.id, l.id into v_job_id, v_lead_id
+    from public.jobs j
+    join public.leads l on l.id::text = j.lead_id::text or l.lead_id = j.lead_id::text
+    where j.id::text = coalesce(new.reference, new.reference_id)
+    limit 1;
+    if v_lead_id is not null then
+      insert into public.lead_events (lead_db_id, actor_user_id, event_type, payload, created_at)
+      values (
+        v_lead_id,
+        coalesce(new.created_by, auth.uid()),
+        'stock_deducted',
+        jsonb_build_object('transactionId', new.id, 'jobId', v_job_id, 'notes', new.notes),
+        coalesce(new.created_at, now())
+      );
+    end if;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_stock_transactions_log_lead_event on public.stock_transactions;
+create trigger trg_stock_transactions_log_lead_event
+  after insert on public.stock_transactions
+  for each row
+  execute function public.stock_transactions_log_lead_event();
+
+-- Backfill
+select public.log_wa_message_lead_events(c.id)
+from public.wa_conversations c
+where c.lead_id is not null;
+
+-- Admin board moves already have a production_stage_updated event
+insert into public.lead_events (lead_db_id, actor_user_id, event_type, payload, created_at)
+select
+  l.id,
+  null,
+  'job_stage_changed',
+  jsonb_build_object(
+    'historyId', h.id,
+    'jobId', h.job_id,
+    'from', h.from_stage,
+    'to', coalesce(h.to_stage, h.stage),
+    'source', h.source
+  ),
+  coalesce(h.moved_at, h.created_at, now())
+from public.job_stage_history h
+join public.jobs j on j.id = h.job_id
+join public.leads l on l.id::text = j.lead_id::text or l.lead_id = j.lead_id::text
+where h.source is distinct from 'admin_board'
+  and not exists (
+    select 1
+    from public.lead_events e
+    where e.lead_db_id = l.id
+      and e.event_type = 'job_stage_changed'
+      and e.payload->>'historyId' = h.id::text
+  );
+
+insert into public.lead_events (lead_db_id, actor_user_id, event_type, payload, created_at)
+select
+  l.id,
+  t.created_by,
+  'stock_deducted',
+  jsonb_build_object('transactionId', t.id, 'jobId', j.id, 'notes', t.notes),
+  coalesce(t.created_at, now())
+from public.stock_transactions t
+join public.jobs j on j.id::text = coalesce(t.reference, t.reference_id)
+join public.leads l on l.id::text = j.lead_id::text or l.lead_id = j.lead_id::text
+where t.type = 'production_deduction'
+  and not exists (
+    select 1
+    from public.lead_events e
+    where e.lead_db_id = l.id
+      and e.event_type = 'stock_deducted'
+      and e.payload->>'transactionId' = t.id::text
+  );
+
+commit;
@@ -0,0 +1,24 @@
+-- Two-way Trello sync for labels and checklists, and per-field conflict detection:
+-- - jobs.trello_labels mirrors the card's labels; jobs.trello_checklist_id is the card checklist
+--   that items added in the admin land on
+-- - job_checklist_items.trello_check_item_id links an item to its Trello check item
+-- - leads.trello_field_edited_at records when an admin last edited each synced field, so a
+--   Trello edit only loses to an admin edit of the same field that hasn't reached the card yet
+
+begin;
+
+alter table public.jobs
+  add column if not exists trello_labels jsonb not null default '[]'::jsonb,
+  add column if not exists trello_checklist_id text;
+
+alter table public.job_checklist_items
+  add column if not exists trello_check_item_id text;
+
+create unique index if not exists idx_job_checklist_items_trello_check_item_id
+  on public.job_checklist_items(trello_check_item_id)
+  where trello_check_item_id is not null;
+
+alter table public.leads
+  add column if not exists trello_field_edited_at jsonb not null default '{}'::jsonb;
+
+commit;
@@ -0,0 +1,45 @@
+/** Default hours for anyone without their own schedule */
+export interface TeamHours {
+  /** IANA zone all working hours and leave dates are in */
+  timezone: string;
+  /** 0 = Sunday ... 6 = Saturday */
+  working_days: number[];
+  /** HH:MM, 24-hour */
+  start_time: string;
+  end_time: string;
+}
+
+export interface WorkingDay {
+  /** 0 = Sunday ... 6 = Saturday */
+  day: number;
+  /** HH:MM, 24-hour */
+  start: string;
+  end: string;
+}
+
+export interface LeavePeriod {
+  /** YYYY-MM-DD, inclusive, in the team time zone */
+  starts_on: string;
+  ends_on: string;
+  note: string | null;
+}
+
+export interface ProfileAvailability {
+  user_id: string;
+  /** Manual toggle; wins over working hours and leave */
+  is_away: boolean;
+  /** Null follows the team hours; days missing from the list are days off */
+  working_hours: WorkingDay[] | null;
+  leave_periods: LeavePeriod[];
+}
+
+export type AvailabilityStatus = "available" | "off_shift" | "on_leave" | "away";
+
+export const AVAILABILITY_STATUS_LABELS: Record<AvailabilityStatus, string> = {
+  available: "Available",
+  off_shift: "Off shift",
+  on_leave: "On leave",
+  away: "Away",
+};
+
+export const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"] as const;
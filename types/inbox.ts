@@ -7,8 +7,10 @@ export interface WhatsAppConversation {
   phone: string;
   lead_id: string | null;
   assigned_rep_id: string | null;
+  assigned_at?: string | null;
   last_message_at: string;
   last_message_preview?: string | null;
+  last_inbound_at?: string | null;
   unread_count: number;
   lead?: {
     id: string;
@@ -17,12 +19,112 @@ export interface WhatsAppConversation {
   } | null;
 }
 
+export type WhatsAppMessageStatus = "queued" | "sending" | "simulated_sent" | "sent" | "delivered" | "read" | "failed";
+
+export type WhatsAppMediaKind = "image" | "document" | "audio" | "video" | "sticker";
+
+// whatsapp-media is private; the app links to stored media through this route, which signs on request
+export const WA_MEDIA_ROUTE = "/api/whatsapp/media";
+
 export interface WhatsAppMessage {
   id: string;
   conversation_id: string;
   direction: "inbound" | "outbound";
   text: string;
-  status: "sent" | "delivered" | "read" | "failed";
+  status: WhatsAppMessageStatus;
   created_at: string;
   created_by: string | null;
+  error?: string | null;
+  error_code?: string | null;
+  sent_at?: string | null;
+  delivered_at?: string | null;
+  read_at?: string | null;
+  message_type?: string | null;
+  media_path?: string | null;
+  media_url?: string | null;
+  media_mime_type?: string | null;
+  media_file_name?: string | null;
+  media_size_bytes?: number | null;
+  template_name?: string | null;
+}
+
+export type WhatsAppTemplateVariable =
+  | "customer_name"
+  | "first_name"
+  | "organization"
+  | "lead_code"
+  | "production_stage"
+  | "delivery_date"
+  | "payment_status"
+  | "invoice_number"
+  | "quote_total"
+  | "rep_name";
+
+export const WHATSAPP_TEMPLATE_VARIABLES: WhatsAppTemplateVariable[] = [
+  "customer_name",
+  "first_name",
+  "organization",
+  "lead_code",
+  "production_stage",
+  "delivery_date",
+  "payment_status",
+  "invoice_number",
+  "quote_total",
+  "rep_name",
+];
+
+export const WHATSAPP_TEMPLATE_VARIABLE_LABELS: Record<WhatsAppTemplateVariable, string> = {
+  customer_name: "Customer name",
+  first_name: "First name",
+  organization: "Organization",
+  lead_code: "Lead ID",
+  production_stage: "Production stage",
+  delivery_date: "Delivery date",
+  payment_status: "Payment status",
+  invoice_number: "Invoice number",
+  quote_total: "Quote total",
+  rep_name: "Assigned rep",
+};
+
+export interface WhatsAppTemplate {
+  id: string;
+  name: string;
+  language: string;
+  category: string;
+  body: string;
+  variables: WhatsAppTemplateVariable[];
+  is_active: boolean;
+  updated_at: string;
+}
+
+export type WhatsAppConversationNoteKind = "note" | "assignment";
+
+/** Staff-only entry in a conversation thread; never sent to the customer. */
+export interface WhatsAppConversationNote {
+  id: string;
+  conversation_id: string;
+  author_user_id: string | null;
+  author_name?: string | null;
+  kind: WhatsAppConversationNoteKind;
+  body: string;
+  mentions: string[];
+  created_at: string;
+}
+
+/** A full-text search hit; snippet wraps matched words in \u0002 ... \u0003 */
+export interface WhatsAppMessageSearchResult {
+  message_id: string;
+  conversation_id: string;
+  direction: "inbound" | "outbound";
+  created_at: string;
+  snippet: string;
+  conversation_name: string;
+  lead_id: string | null;
+  lead_name: string | null;
+}
+
+export interface InboxStaffMember {
+  user_id: string;
+  name: string;
+  role: string;
 }
@@ -0,0 +1,34 @@
+/** A row of lead_events, the lead's append-only activity log */
+export interface LeadActivityEvent {
+  id: string;
+  lead_db_id: string;
+  actor_user_id: string | null;
+  event_type: string;
+  payload: Record<string, unknown>;
+  created_at: string;
+}
+
+export const LEAD_ACTIVITY_CATEGORIES = [
+  "notes",
+  "status",
+  "assignment",
+  "whatsapp",
+  "production",
+  "stock",
+  "quotes",
+  "payments",
+  "other",
+] as const;
+export type LeadActivityCategory = (typeof LEAD_ACTIVITY_CATEGORIES)[number];
+
+export const LEAD_ACTIVITY_CATEGORY_LABELS: Record<LeadActivityCategory, string> = {
+  notes: "Notes",
+  status: "Status",
+  assignment: "Assignment",
+  whatsapp: "WhatsApp",
+  production: "Production",
+  stock: "Stock",
+  quotes: "Quotes",
+  payments: "Payments",
+  other: "Other",
+};
@@ -0,0 +1,79 @@
+import type { LeadIntent } from "@/types/leads";
+
+export type LeadRoutingStrategy = "round_robin" | "weighted";
+
+export type LeadRoutingHours = "any" | "working" | "after_hours";
+
+/** Apparel categories a rule can match, keyed by the lead's `<key>_items` column */
+export const LEAD_APPAREL_CATEGORIES = [
+  "corporate",
+  "schoolwear",
+  "gym",
+  "sports_kits",
+  "rugby",
+  "soccer",
+  "cricket",
+  "netball",
+  "hockey",
+  "athletics",
+  "golf",
+  "fishing",
+] as const;
+export type LeadApparelCategory = (typeof LEAD_APPAREL_CATEGORIES)[number];
+
+export const LEAD_APPAREL_CATEGORY_LABELS: Record<LeadApparelCategory, string> = {
+  corporate: "Corporate",
+  schoolwear: "Schoolwear",
+  gym: "Gym",
+  sports_kits: "Sports Kits",
+  rugby: "Rugby",
+  soccer: "Soccer",
+  cricket: "Cricket",
+  netball: "Netball",
+  hockey: "Hockey",
+  athletics: "Athletics",
+  golf: "Golf",
+  fishing: "Fishing",
+};
+
+export const LEAD_ROUTING_STRATEGY_LABELS: Record<LeadRoutingStrategy, string> = {
+  round_robin: "Round-robin",
+  weighted: "Weighted capacity",
+};
+
+export const LEAD_ROUTING_HOURS_LABELS: Record<LeadRoutingHours, string> = {
+  any: "Any time",
+  working: "Working hours only",
+  after_hours: "After hours only",
+};
+
+export interface LeadRoutingRuleRep {
+  user_id: string;
+  /** Relative share of open leads for weighted rules; ignored by round-robin */
+  weight: number;
+}
+
+export interface LeadRoutingRule {
+  id: string;
+  name: string;
+  position: number;
+  is_active: boolean;
+  intents: LeadIntent[];
+  categories: LeadApparelCategory[];
+  sources: string[];
+  /** Case-insensitive substring of the organization */
+  organization_pattern: string | null;
+  hours: LeadRoutingHours;
+  strategy: LeadRoutingStrategy;
+  reps: LeadRoutingRuleRep[];
+  last_assigned_user_id: string | null;
+  updated_at: string;
+}
+
+export interface LeadRoutingDecision {
+  repId: string;
+  ruleId: string | null;
+  ruleName: string | null;
+  /** Human-readable explanation shown on the lead */
+  reason: string;
+}
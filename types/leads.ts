@@ -97,6 +97,18 @@ export interface Lead {
   card_id?: string | null;
   trello_card_id?: string | null;
   card_created?: boolean | null;
+
+  // Merge tombstone: set when this lead was merged into another one
+  merged_into_id?: string | null;
+
+  // Explanation of the last automatic assignment; cleared when someone assigns by hand
+  routing_rule_id?: string | null;
+  routing_reason?: string | null;
+
+  // SLA clocks, stamped by database triggers
+  first_contacted_at?: string | null;
+  last_contacted_at?: string | null;
+  quote_sent_at?: string | null;
   
   // Additional fields (catch-all for any other columns)
   [key: string]: unknown;
@@ -108,3 +120,91 @@ export interface LeadFilters {
   rep?: string;
   type?: string;
 }
+
+export type ContactMatchReason = "phone" | "email" | "organization" | "name";
+
+/** The identifying fields of a lead, as used for matching and duplicate review */
+export interface LeadIdentity {
+  id: string;
+  lead_id: string;
+  customer_name: string | null;
+  email: string | null;
+  phone: string | null;
+  organization: string | null;
+  status: string | null;
+  assigned_rep_id: string | null;
+  created_at: string | null;
+  last_activity_at: string | null;
+}
+
+/** A lead that probably belongs to the same customer, with why it matched */
+export interface ContactCandidate extends LeadIdentity {
+  reasons: ContactMatchReason[];
+  /** 0..1, phone/email matches score higher than a fuzzy organization match */
+  score: number;
+}
+
+/** Leads that probably describe the same person, newest activity first */
+export interface DuplicateLeadGroup {
+  key: string;
+  reasons: ContactMatchReason[];
+  leads: LeadIdentity[];
+}
+
+export const LEAD_STATUSES = [
+  "New",
+  "Assigned",
+  "Contacted",
+  "Quote Sent",
+  "Quote Approved",
+  "In Production",
+  "Completed",
+  "Lost",
+  "Answered",
+] as const;
+export type LeadStatus = (typeof LEAD_STATUSES)[number];
+
+export const LEAD_INTENTS = ["Quote", "Booking", "Question"] as const;
+export type LeadIntent = (typeof LEAD_INTENTS)[number];
+
+export const LEAD_SLA_MILESTONES = ["first_contact", "quote_sent", "follow_up"] as const;
+export type LeadSlaMilestone = (typeof LEAD_SLA_MILESTONES)[number];
+
+export const LEAD_SLA_MILESTONE_LABELS: Record<LeadSlaMilestone, string> = {
+  first_contact: "First contact",
+  quote_sent: "Quote sent",
+  follow_up: "Follow-up",
+};
+
+/** Hours allowed per milestone; null means no SLA for it */
+export interface LeadSlaTargets {
+  first_contact_hours: number | null;
+  quote_sent_hours: number | null;
+  follow_up_hours: number | null;
+}
+
+export interface LeadSlaSettings {
+  intents: Record<LeadIntent, LeadSlaTargets>;
+  /** How long a breach stays with the assigned rep before admins/CEO are notified */
+  escalate_after_hours: number;
+}
+
+/** The next milestone a lead owes and when it is due */
+export interface LeadSlaStatus {
+  milestone: LeadSlaMilestone;
+  due_at: string;
+  breached: boolean;
+}
+
+export interface LeadSlaBreach {
+  id: string;
+  lead_db_id: string;
+  milestone: LeadSlaMilestone;
+  intents: LeadIntent[];
+  due_at: string;
+  breached_at: string;
+  assigned_rep_id: string | null;
+  rep_notified_at: string | null;
+  escalated_at: string | null;
+  resolved_at: string | null;
+}
@@ -0,0 +1,53 @@
+export type JobPaymentKind = "deposit" | "part_payment" | "final_payment" | "refund";
+export type JobPaymentMethod = "eft" | "cash" | "card" | "other";
+
+export interface JobInvoice {
+  id: string;
+  job_id: string;
+  quote_id: string | null;
+  invoice_number: string | null;
+  amount: number;
+  issued_at: string;
+  due_date: string | null;
+  status: "open" | "void";
+  notes: string | null;
+  created_at: string;
+}
+
+export interface JobPayment {
+  id: string;
+  job_id: string;
+  invoice_id: string | null;
+  kind: JobPaymentKind;
+  method: JobPaymentMethod;
+  amount: number;
+  paid_at: string;
+  reference: string | null;
+  proof_path: string | null;
+  notes: string | null;
+  created_at: string;
+  proof_url?: string | null;
+}
+
+export interface JobPaymentBalance {
+  job_id: string;
+  invoiced_total: number;
+  paid_total: number;
+  balance: number;
+  invoice_count: number;
+  deposit_only: boolean;
+}
+
+export const JOB_PAYMENT_KIND_LABELS: Record<JobPaymentKind, string> = {
+  deposit: "Deposit",
+  part_payment: "Part payment",
+  final_payment: "Final payment",
+  refund: "Refund",
+};
+
+export const JOB_PAYMENT_METHOD_LABELS: Record<JobPaymentMethod, string> = {
+  eft: "EFT",
+  cash: "Cash",
+  card: "Card",
+  other: "Other",
+};
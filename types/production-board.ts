@@ -0,0 +1,86 @@
+import type { ProductionStage } from "@/types/stock";
+
+export type ProductionBoardMode = "trello_primary" | "admin_primary" | "admin_only";
+
+export type ProductionBoardSwimlane = "none" | "assignee" | "deadline_week";
+
+export interface ProductionBoardSettings {
+  mode: ProductionBoardMode;
+  wip_limits: Partial<Record<ProductionStage, number>>;
+}
+
+export interface JobChecklistItem {
+  id: string;
+  job_id: string;
+  label: string;
+  is_done: boolean;
+  position: number;
+  done_at: string | null;
+  trello_check_item_id: string | null;
+  created_at: string;
+}
+
+export interface JobAttachment {
+  id: string;
+  job_id: string;
+  file_path: string;
+  file_name: string;
+  mime_type: string | null;
+  size_bytes: number | null;
+  created_at: string;
+  url?: string | null;
+}
+
+export interface BoardJob {
+  id: string;
+  /** jobs.lead_id: either leads.id or the text leads.lead_id */
+  lead_ref: string;
+  assignee_user_id: string | null;
+  trello_card_id: string | null;
+  customer_alerts_muted: boolean;
+  checklist_done: number;
+  checklist_total: number;
+}
+
+export interface BoardAssignee {
+  user_id: string;
+  name: string;
+}
+
+export const PRODUCTION_BOARD_SWIMLANE_LABELS: Record<ProductionBoardSwimlane, string> = {
+  none: "No swimlanes",
+  assignee: "By assignee",
+  deadline_week: "By deadline week",
+};
+
+export const PRODUCTION_BOARD_MODE_LABELS: Record<ProductionBoardMode, string> = {
+  trello_primary: "Trello primary",
+  admin_primary: "Admin primary",
+  admin_only: "Admin only",
+};
+
+export const PRODUCTION_BOARD_MODE_DESCRIPTIONS: Record<ProductionBoardMode, string> = {
+  trello_primary: "Trello list moves drive the production stage. Admin board moves are mirrored to Trello.",
+  admin_primary: "The admin board is the source of truth. Trello mirrors it and list moves made in Trello are reverted.",
+  admin_only: "Trello is ignored: no cards are created, synced or read.",
+};
+
+export type CustomerAlertChannel = "whatsapp" | "email";
+
+export interface CustomerStageAlertRule {
+  channel: CustomerAlertChannel;
+  /** wa_templates.id, required for the WhatsApp channel */
+  template_id: string | null;
+  /** Email subject/body with {{customer_name}}-style placeholders */
+  email_subject: string;
+  email_body: string;
+}
+
+export interface CustomerStageAlertSettings {
+  stages: Partial<Record<ProductionStage, CustomerStageAlertRule>>;
+}
+
+export const CUSTOMER_ALERT_CHANNEL_LABELS: Record<CustomerAlertChannel, string> = {
+  whatsapp: "WhatsApp template",
+  email: "Email",
+};
@@ -0,0 +1,71 @@
+export type QuoteStatus = "draft" | "sent" | "approved" | "superseded";
+export type QuoteDiscountType = "none" | "percent" | "amount";
+
+export interface PriceBookEntry {
+  id: string;
+  product_type: string;
+  size: string | null;
+  unit_price: number;
+  is_active: boolean;
+  notes: string | null;
+  last_modified: string;
+  last_modified_by: string | null;
+}
+
+export interface QuoteLineItem {
+  id: string;
+  quote_id: string;
+  sort_order: number;
+  product_type: string;
+  size: string | null;
+  description: string | null;
+  quantity: number;
+  unit_price: number;
+  line_total: number;
+}
+
+export type QuoteResponseAction = "accepted" | "changes_requested";
+
+export interface QuoteResponse {
+  id: string;
+  quote_id: string;
+  link_id: string | null;
+  action: QuoteResponseAction;
+  customer_name: string;
+  customer_email: string | null;
+  comment: string | null;
+  created_at: string;
+}
+
+export interface Quote {
+  id: string;
+  lead_db_id: string;
+  version: number;
+  status: QuoteStatus;
+  discount_type: QuoteDiscountType;
+  discount_value: number;
+  vat_rate: number;
+  subtotal: number;
+  discount_total: number;
+  vat_total: number;
+  total: number;
+  notes: string | null;
+  valid_until: string | null;
+  sent_at: string | null;
+  approved_at: string | null;
+  approved_by_name?: string | null;
+  approved_via?: "admin" | "customer_link" | null;
+  created_by: string | null;
+  created_by_name: string | null;
+  created_at: string;
+  updated_at: string;
+  line_items?: QuoteLineItem[];
+  responses?: QuoteResponse[];
+}
+
+export const QUOTE_STATUS_LABELS: Record<QuoteStatus, string> = {
+  draft: "Draft",
+  sent: "Sent",
+  approved: "Approved",
+  superseded: "Superseded",
+};
@@ -0,0 +1,23 @@
+export type SnippetContext = "inbox" | "lead_note";
+
+export const SNIPPET_CATEGORIES = ["General", "Sizing", "Turnaround", "Payment", "Delivery", "Design"] as const;
+
+export interface Snippet {
+  id: string;
+  shortcut: string;
+  title: string;
+  body: string;
+  category: string;
+  /** null for shared snippets, the rep's user id for private ones */
+  owner_user_id: string | null;
+  updated_at: string;
+}
+
+export interface SnippetUsageStats {
+  total_uses: number;
+  my_uses: number;
+  uses_last_30_days: number;
+  last_used_at: string | null;
+}
+
+export type SnippetWithUsage = Snippet & SnippetUsageStats;
@@ -1,6 +1,13 @@
 export type StockMovementType = "consumed" | "restocked" | "audit";
 export type StockTransactionType = "purchase_order" | "production_deduction" | "adjustment" | "return" | "initial_balance";
 
+export type MaterialCostingMethod = "weighted_average" | "last_cost";
+
+export const MATERIAL_COSTING_METHOD_LABELS: Record<MaterialCostingMethod, string> = {
+  weighted_average: "Weighted average",
+  last_cost: "Last cost",
+};
+
 export interface MaterialInventory {
   id: string;
   name: string;
@@ -9,11 +16,76 @@ export interface MaterialInventory {
   minimum_level: number;
   restock_threshold: number;
   supplier: string | null;
+  supplier_id?: string | null;
   updated_at: string;
   low_alert_sent_at?: string | null;
   critical_alert_sent_at?: string | null;
   is_low_stock?: boolean;
   needs_restock?: boolean;
+  qty_reserved?: number;
+  costing_method?: MaterialCostingMethod;
+  average_cost?: number;
+  last_cost?: number | null;
+}
+
+export interface Supplier {
+  id: string;
+  name: string;
+  contact_name: string | null;
+  email: string | null;
+  phone: string | null;
+  notes: string | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type PurchaseOrderStatus = "draft" | "sent" | "partially_received" | "received" | "cancelled";
+
+export interface PurchaseOrderItem {
+  id: string;
+  purchase_order_id: string;
+  material_id: string;
+  qty_ordered: number;
+  qty_received: number;
+  unit_cost: number;
+  material?: { name: string; unit: string } | null;
+}
+
+export interface PurchaseOrder {
+  id: string;
+  po_number: string;
+  supplier_id: string;
+  status: PurchaseOrderStatus;
+  expected_date: string | null;
+  notes: string | null;
+  sent_at: string | null;
+  received_at: string | null;
+  cancelled_at: string | null;
+  created_at: string;
+  updated_at: string;
+  supplier?: { name: string } | null;
+  items?: PurchaseOrderItem[];
+}
+
+export const PURCHASE_ORDER_STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  draft: "Draft",
+  sent: "Sent",
+  partially_received: "Partially Received",
+  received: "Received",
+  cancelled: "Cancelled",
+};
+
+export interface MaterialForecast {
+  material_id: string;
+  consumed_30d: number;
+  consumed_90d: number;
+  avg_daily_usage: number;
+  reserved: number;
+  on_order: number;
+  available: number;
+  days_of_cover: number | null;
+  suggested_reorder_qty: number;
 }
 
 export interface ProductMaterialUsage {
@@ -27,6 +99,20 @@ export interface ProductMaterialUsage {
   material?: Pick<MaterialInventory, "id" | "name" | "unit"> | null;
 }
 
+export type StockReservationStatus = "active" | "consumed" | "released";
+
+export interface StockReservation {
+  id: string;
+  job_id: string;
+  material_id: string;
+  qty: number;
+  status: StockReservationStatus;
+  created_at: string;
+  consumed_at: string | null;
+  released_at: string | null;
+  material?: { name: string; unit: string } | null;
+}
+
 export interface StockMovement {
   id: string;
   material_id: string;
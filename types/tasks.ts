@@ -0,0 +1,42 @@
+export type TaskSource = "manual" | "automation";
+
+export interface Task {
+  id: string;
+  title: string;
+  notes: string | null;
+  due_at: string;
+  assignee_user_id: string | null;
+  lead_db_id: string | null;
+  job_id: string | null;
+  source: TaskSource;
+  automation_key: string | null;
+  snooze_count: number;
+  reminder_sent_at: string | null;
+  completed_at: string | null;
+  completed_by: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  // Joined for display
+  assignee_name?: string | null;
+  lead_label?: string | null;
+  job_label?: string | null;
+}
+
+/** Creates a task whenever a lead moves into `status` */
+export interface TaskAutomationRule {
+  status: string;
+  title: string;
+  due_in_days: number;
+}
+
+export interface TaskAutomationSettings {
+  rules: TaskAutomationRule[];
+}
+
+export const TASK_SNOOZE_OPTIONS = [
+  { label: "1 hour", minutes: 60 },
+  { label: "3 hours", minutes: 180 },
+  { label: "1 day", minutes: 24 * 60 },
+  { label: "3 days", minutes: 3 * 24 * 60 },
+] as const;
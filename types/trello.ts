@@ -0,0 +1,37 @@
+export type TrelloDriftField = "stage" | "product_list" | "design_notes" | "delivery_date" | "card_missing";
+
+export type TrelloDriftSide = "trello" | "admin";
+
+export interface TrelloDriftRow {
+  id: string;
+  job_id: string;
+  lead_db_id: string | null;
+  lead_code: string | null;
+  customer_name: string;
+  trello_card_id: string;
+  trello_card_url: string | null;
+  field: TrelloDriftField;
+  admin_value: string | null;
+  trello_value: string | null;
+}
+
+export interface TrelloDriftReport {
+  generated_at: string;
+  cards_checked: number;
+  jobs_checked: number;
+  rows: TrelloDriftRow[];
+}
+
+export const TRELLO_DRIFT_FIELD_LABELS: Record<TrelloDriftField, string> = {
+  stage: "Stage / List",
+  product_list: "Product List",
+  design_notes: "Design Notes",
+  delivery_date: "Due Date",
+  card_missing: "Card Missing",
+};
+
+export interface TrelloLabel {
+  id: string;
+  name: string;
+  color: string | null;
+}
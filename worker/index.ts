@@ -32,8 +32,10 @@ self.addEventListener("push", (event: PushEvent) => {
   const body = payload.body || "A new lead just came in.";
   const url = payload.url || "/leads";
   const tag = payload.tag || "rb-lead";
+  const isTask = payload.data?.type === "task";
 
-  self.__rbUnreadLeadCount = (self.__rbUnreadLeadCount ?? 0) + 1;
+  // Task reminders don't count towards the unread lead badge
+  if (!isTask) self.__rbUnreadLeadCount = (self.__rbUnreadLeadCount ?? 0) + 1;
   const badgeCount =
     typeof payload.badge === "number" ? payload.badge : self.__rbUnreadLeadCount;
 
@@ -43,12 +45,21 @@ self.addEventListener("push", (event: PushEvent) => {
     icon: payload.icon || "/pwa-192.png",
     badge: "/favicon-32.png",
     data: { url, ...(payload.data || {}) },
+    // `actions` and `renotify` are supported by browsers but not in current TS lib types
+    ...(isTask
+      ? ({
+          actions: [
+            { action: "complete", title: "Done" },
+            { action: "snooze", title: "Snooze 1h" },
+          ],
+        } as Record<string, unknown>)
+      : {}),
     // `renotify` is supported by browsers but not in current TS lib types
     ...({ renotify: true } as Record<string, unknown>),
   });
 
   const badgePromise =
-    "setAppBadge" in self.navigator
+    !isTask && "setAppBadge" in self.navigator
       ? (self.navigator as Navigator & { setAppBadge?: (n: number) => Promise<void> })
           .setAppBadge?.(badgeCount)
           .catch(() => undefined)
@@ -59,8 +70,24 @@ self.addEventListener("push", (event: PushEvent) => {
 
 self.addEventListener("notificationclick", (event: NotificationEvent) => {
   event.notification.close();
-  const data = (event.notification.data as { url?: string }) || {};
+  const data = (event.notification.data as { url?: string; type?: string; taskId?: string }) || {};
   const targetUrl = data.url || "/leads";
+  const action = event.action;
+
+  // Done / Snooze on a task reminder act in the background without opening the app
+  if (data.type === "task" && data.taskId && (action === "complete" || action === "snooze")) {
+    event.waitUntil(
+      fetch(`/api/tasks/${data.taskId}`, {
+        method: "POST",
+        credentials: "same-origin",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(action === "snooze" ? { action, minutes: 60 } : { action }),
+      })
+        .then(() => undefined)
+        .catch(() => undefined)
+    );
+    return;
+  }
 
   event.waitUntil(
     (async () => {